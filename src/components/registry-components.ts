@@ -0,0 +1,175 @@
+import { lines } from "../core/text";
+
+// The kinds of registered components (other than tasks)
+export type ComponentKind = "solver" | "scorer" | "tool" | "agent" | "metric";
+
+export const kComponentKinds: Record<ComponentKind, string> = {
+  solver: "Solvers",
+  scorer: "Scorers",
+  tool: "Tools",
+  agent: "Agents",
+  metric: "Metrics",
+};
+
+// A component defined by a decorated function
+export interface ComponentDefinition {
+  kind: ComponentKind;
+  // The registered name (which may be set by the decorator)
+  name: string;
+  // The name of the python function
+  function: string;
+  // The line of the decorator
+  line: number;
+}
+
+// A task which uses a component
+export interface ComponentUsage {
+  task: string;
+  line: number;
+}
+
+const kComponentDecoratorPattern =
+  /^\s*@(?:inspect_ai\.(?:solver\.|scorer\.|tool\.|agent\.)?)?(solver|scorer|tool|agent|metric)\b/;
+const kTaskDecoratorPattern = /^\s*@(?:inspect_ai\.)?task\b/;
+const kFunctionPattern = /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/;
+const kDecoratorNamePattern = /\bname\s*=\s*(["'])(.+?)\1/;
+
+/**
+ * Finds the solvers, scorers, tools, agents and metrics defined in python
+ * source code.
+ */
+export function scanComponents(source: string): ComponentDefinition[] {
+  return scanDecoratedFunctions(source).flatMap((fn) => {
+    for (const decorator of fn.decorators) {
+      const match = decorator.match(kComponentDecoratorPattern);
+      if (match) {
+        return [
+          {
+            kind: match[1] as ComponentKind,
+            name: decoratorName(decorator) ?? fn.function,
+            function: fn.function,
+            line: fn.line,
+          },
+        ];
+      }
+    }
+    return [];
+  });
+}
+
+/**
+ * Finds the tasks in python source code whose definitions refer to a
+ * function (e.g. a solver passed to the task).
+ */
+export function findComponentUsages(
+  source: string,
+  functionName: string
+): ComponentUsage[] {
+  const usagePattern = new RegExp(`\\b${escapeRegExp(functionName)}\\b`);
+  return scanDecoratedFunctions(source).flatMap((fn) => {
+    const decorator = fn.decorators.find(isTaskDecorator);
+    return decorator && usagePattern.test(fn.body)
+      ? [{ task: decoratorName(decorator) ?? fn.function, line: fn.line }]
+      : [];
+  });
+}
+
+// A decorated python function
+export interface DecoratedFunction {
+  decorators: string[];
+  function: string;
+  // The line of the first decorator
+  line: number;
+  // The line of the `def`
+  functionLine: number;
+  body: string;
+}
+
+/**
+ * Whether a decorator registers a task.
+ */
+export function isTaskDecorator(decorator: string) {
+  return kTaskDecoratorPattern.test(decorator);
+}
+
+/**
+ * Reads each decorated function (its decorators, the function name, and
+ * the lines of the function after its name).
+ */
+export function scanDecoratedFunctions(source: string): DecoratedFunction[] {
+  const functions: DecoratedFunction[] = [];
+  const sourceLines = lines(source);
+
+  let current:
+    | {
+        decorators: string[];
+        line: number;
+        function?: string;
+        functionLine?: number;
+        indent: number;
+      }
+    | undefined;
+  let body: string[] = [];
+  const finish = () => {
+    if (current?.function && current.functionLine !== undefined) {
+      functions.push({
+        decorators: current.decorators,
+        function: current.function,
+        line: current.line,
+        functionLine: current.functionLine,
+        body: body.join("\n"),
+      });
+    }
+    current = undefined;
+    body = [];
+  };
+
+  sourceLines.forEach((line, idx) => {
+    const indent = line.length - line.trimStart().length;
+    if (current?.function) {
+      // The function ends at the next statement at its indentation
+      const trimmed = line.trim();
+      if (
+        trimmed.length > 0 &&
+        !trimmed.startsWith("#") &&
+        !trimmed.startsWith(")") &&
+        indent <= current.indent
+      ) {
+        finish();
+      } else {
+        body.push(line);
+        return;
+      }
+    }
+
+    if (current) {
+      // Reading the decorators
+      const fnMatch = line.match(kFunctionPattern);
+      if (fnMatch) {
+        current.function = fnMatch[1];
+        current.functionLine = idx;
+        body.push(line.slice(fnMatch[0].length));
+      } else if (/^\s*@/.test(line)) {
+        current.decorators.push(line);
+      } else {
+        // A decorator which spans several lines
+        const last = current.decorators.length - 1;
+        current.decorators[last] = current.decorators[last] + "\n" + line;
+      }
+    } else if (/^\s*@/.test(line)) {
+      current = { decorators: [line], line: idx, indent };
+    }
+  });
+  finish();
+  return functions;
+}
+
+// Reads a name given by a decorator (e.g. `@solver(name="foo")`)
+function decoratorName(decorator: string): string | undefined {
+  const match = decorator.match(kDecoratorNamePattern);
+  return match ? match[2] : undefined;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
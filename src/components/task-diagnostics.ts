@@ -0,0 +1,283 @@
+import { lines } from "../core/text";
+
+import { isTaskDecorator, scanDecoratedFunctions } from "./registry-components";
+import { taskDecoratorName } from "./task";
+import { parseTaskParam, TaskParamInfo } from "./task-params";
+
+// A zero based line and character position within source code
+export interface SourcePosition {
+  line: number;
+  character: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// A task parameter and its location in the function signature
+export interface TaskParamDefinition extends TaskParamInfo {
+  // The range of the parameter name
+  range: SourceRange;
+  // The end of the parameter (including any annotation and default)
+  end: SourcePosition;
+}
+
+// A task function read from python source code
+export interface TaskDefinition {
+  // The registered name (which may be set by the decorator)
+  name: string;
+  function: string;
+  // The range of the function name
+  range: SourceRange;
+  params: TaskParamDefinition[];
+  // Whether the function accepts arbitrary parameters (**kwargs)
+  acceptsKwargs: boolean;
+  // Whether the function returns a value
+  returnsValue: boolean;
+}
+
+export type TaskProblemKind =
+  "duplicate-task" | "missing-default" | "stale-param" | "missing-return";
+
+// A problem with the definition of a task
+export interface TaskProblem {
+  kind: TaskProblemKind;
+  task: string;
+  message: string;
+  range: SourceRange;
+  // The params the problem applies to (for missing defaults and stale params)
+  params?: string[];
+  // The other files which define the task (for duplicate tasks)
+  files?: string[];
+}
+
+// Workspace information used to check task definitions
+export interface TaskProblemContext {
+  // The other workspace files which define a task with this name
+  otherDefinitions(task: string): string[];
+  // How to refer to a file in messages (defaults to its path)
+  describeFile?(file: string): string;
+  // The params with saved values for a task (in the task state or presets)
+  savedParams(task: string): string[];
+}
+
+const kFunctionNamePattern = /\bdef\s+([A-Za-z_]\w*)\s*(\()?/;
+const kReturnValuePattern = /^\s*return\b\s*[^\s#;]/m;
+
+/**
+ * Reads the tasks defined in python source code (including the location of
+ * each parameter).
+ */
+export function readTaskDefinitions(source: string): TaskDefinition[] {
+  const sourceLines = lines(source);
+  return scanDecoratedFunctions(source).flatMap((fn) => {
+    const decorator = fn.decorators.find(isTaskDecorator);
+    const defLine = sourceLines[fn.functionLine] ?? "";
+    const match = defLine.match(kFunctionNamePattern);
+    if (!decorator || !match || match.index === undefined) {
+      return [];
+    }
+
+    const nameStart = defLine.indexOf(fn.function, match.index + 3);
+    const signature = match[2]
+      ? readSignature(
+          sourceLines,
+          fn.functionLine,
+          match.index + match[0].length
+        )
+      : { params: [], acceptsKwargs: false };
+    return [
+      {
+        name: taskDecoratorName(decorator) ?? fn.function,
+        function: fn.function,
+        range: {
+          start: { line: fn.functionLine, character: nameStart },
+          end: {
+            line: fn.functionLine,
+            character: nameStart + fn.function.length,
+          },
+        },
+        ...signature,
+        returnsValue: kReturnValuePattern.test(fn.body),
+      },
+    ];
+  });
+}
+
+/**
+ * Checks task definitions for duplicate names, parameters which need values,
+ * saved parameter values that no longer apply, and missing return values.
+ */
+export function findTaskProblems(
+  tasks: TaskDefinition[],
+  context: TaskProblemContext
+): TaskProblem[] {
+  const problems: TaskProblem[] = [];
+  for (const task of tasks) {
+    // Tasks with the same name (in this file or elsewhere in the workspace)
+    const files = context.otherDefinitions(task.name);
+    const localCount = tasks.filter((t) => t.name === task.name).length;
+    if (files.length > 0 || localCount > 1) {
+      problems.push({
+        kind: "duplicate-task",
+        task: task.name,
+        message:
+          files.length > 0
+            ? `Task '${task.name}' is also defined in ${files.map((file) => context.describeFile?.(file) ?? file).join(", ")}.`
+            : `Task '${task.name}' is defined more than once in this file.`,
+        range: task.range,
+        files,
+      });
+    }
+
+    // Params which must be passed using -T (unless a value has been saved)
+    const saved = context.savedParams(task.name);
+    for (const param of task.params) {
+      if (param.default === undefined && !saved.includes(param.name)) {
+        problems.push({
+          kind: "missing-default",
+          task: task.name,
+          message: `Parameter '${param.name}' has no default value, so a value must be provided when running '${task.name}' (e.g. -T ${param.name}=...).`,
+          range: param.range,
+          params: [param.name],
+        });
+      }
+    }
+
+    // Saved values for params which no longer exist
+    const stale = task.acceptsKwargs
+      ? []
+      : saved.filter(
+          (name) => !task.params.some((param) => param.name === name)
+        );
+    if (stale.length > 0) {
+      problems.push({
+        kind: "stale-param",
+        task: task.name,
+        message: `Saved values for ${quotedList(stale)} no longer match ${stale.length === 1 ? "a parameter" : "parameters"} of task '${task.name}'.`,
+        range: task.range,
+        params: stale,
+      });
+    }
+
+    if (!task.returnsValue) {
+      problems.push({
+        kind: "missing-return",
+        task: task.name,
+        message: `Task function '${task.function}' does not return a Task.`,
+        range: task.range,
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * A placeholder default value for a parameter (based on its type).
+ */
+export function placeholderDefault(param: TaskParamInfo): string {
+  switch (param.type) {
+    case "bool":
+      return "False";
+    case "int":
+      return "0";
+    case "float":
+      return "0.0";
+    case "str":
+      return '""';
+    default:
+      return "None";
+  }
+}
+
+// Reads the parameters of a function signature (starting after the
+// opening parenthesis)
+function readSignature(
+  sourceLines: string[],
+  startLine: number,
+  startCharacter: number
+): { params: TaskParamDefinition[]; acceptsKwargs: boolean } {
+  const params: TaskParamDefinition[] = [];
+  let acceptsKwargs = false;
+
+  let text = "";
+  let start: SourcePosition | undefined;
+  let end: SourcePosition | undefined;
+  const finishParam = () => {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("**")) {
+      acceptsKwargs = true;
+    } else if (start && end) {
+      const param = parseTaskParam(trimmed);
+      if (param) {
+        params.push({
+          ...param,
+          range: {
+            start,
+            end: {
+              line: start.line,
+              character: start.character + param.name.length,
+            },
+          },
+          end,
+        });
+      }
+    }
+    text = "";
+    start = undefined;
+    end = undefined;
+  };
+
+  let depth = 0;
+  let quote: string | undefined;
+  for (let line = startLine; line < sourceLines.length; line++) {
+    const lineText = sourceLines[line] ?? "";
+    const from = line === startLine ? startCharacter : 0;
+    for (let character = from; character < lineText.length; character++) {
+      const char = lineText.charAt(character);
+      if (quote) {
+        // Inside a string
+        text += char;
+        if (char === "\\") {
+          text += lineText.charAt(++character);
+        } else if (char === quote) {
+          quote = undefined;
+        }
+        end = { line, character: character + 1 };
+        continue;
+      }
+
+      if (char === "#") {
+        // Skip comments
+        break;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if ("([{".includes(char)) {
+        depth++;
+      } else if (")]}".includes(char)) {
+        if (depth === 0) {
+          // The end of the signature
+          finishParam();
+          return { params, acceptsKwargs };
+        }
+        depth--;
+      } else if (char === "," && depth === 0) {
+        finishParam();
+        continue;
+      }
+
+      if (char.trim()) {
+        start = start ?? { line, character };
+        end = { line, character: character + 1 };
+      }
+      text += char;
+    }
+    text += "\n";
+  }
+  return { params, acceptsKwargs };
+}
+
+function quotedList(names: string[]) {
+  return names.map((name) => `'${name}'`).join(", ");
+}
@@ -0,0 +1,223 @@
+// The kinds of task parameter that have typed editors in the Task panel
+export type TaskParamType =
+  "bool" | "int" | "float" | "str" | "choice" | "list" | "unknown";
+
+// Describes a task parameter (as read from the task function signature)
+export interface TaskParamInfo {
+  name: string;
+  type: TaskParamType;
+  // The python type annotation (if any)
+  annotation?: string;
+  // The default value (with quotes removed from strings)
+  default?: string;
+  // Values for Literal[...] parameters
+  choices?: string[];
+  // Whether the parameter accepts None
+  optional: boolean;
+}
+
+/**
+ * Parses a single parameter from a python function signature
+ * (e.g. `difficulty: Literal["easy", "hard"] = "easy"`).
+ */
+export function parseTaskParam(paramStr: string): TaskParamInfo | undefined {
+  const nameMatch = paramStr.match(/^\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*(.*)$/s);
+  if (!nameMatch) {
+    return undefined;
+  }
+  const name = nameMatch[1] ?? "";
+  const rest = nameMatch[2] ?? "";
+
+  // Split the annotation and default value
+  let annotation: string | undefined;
+  let defaultValue: string | undefined;
+  if (rest.startsWith(":")) {
+    const eq = topLevelIndex(rest, "=");
+    annotation = (eq === -1 ? rest.slice(1) : rest.slice(1, eq)).trim();
+    defaultValue = eq === -1 ? undefined : rest.slice(eq + 1).trim();
+  } else if (rest.startsWith("=")) {
+    defaultValue = rest.slice(1).trim();
+  }
+
+  const info: TaskParamInfo = {
+    name,
+    type: "unknown",
+    optional: defaultValue === "None",
+  };
+  if (annotation) {
+    info.annotation = annotation;
+    Object.assign(info, annotationType(annotation));
+  } else if (defaultValue !== undefined) {
+    info.type = literalType(defaultValue);
+  }
+  if (defaultValue !== undefined) {
+    info.default = unquote(defaultValue);
+  }
+  return info;
+}
+
+/**
+ * Validates a value entered for a task parameter, returning an error
+ * message for invalid values.
+ */
+export function validateTaskParam(
+  param: TaskParamInfo,
+  value: string
+): string | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "" || (param.optional && trimmed === "None")) {
+    return undefined;
+  }
+
+  switch (param.type) {
+    case "bool":
+      return /^(true|false)$/i.test(trimmed)
+        ? undefined
+        : `${param.name} must be true or false`;
+    case "int":
+      return /^[+-]?\d+$/.test(trimmed)
+        ? undefined
+        : `${param.name} must be an integer`;
+    case "float":
+      return isFinite(Number(trimmed))
+        ? undefined
+        : `${param.name} must be a number`;
+    case "choice":
+      return param.choices?.includes(trimmed)
+        ? undefined
+        : `${param.name} must be one of ${param.choices?.join(", ")}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validates the values entered for a task's parameters, returning error
+ * messages for any invalid values.
+ */
+export function validateTaskParams(
+  params: TaskParamInfo[],
+  values: Record<string, string> | undefined
+): string[] {
+  const errors: string[] = [];
+  for (const param of params) {
+    const value = values?.[param.name];
+    if (value !== undefined) {
+      const error = validateTaskParam(param, value);
+      if (error) {
+        errors.push(error);
+      }
+    }
+  }
+  return errors;
+}
+
+// Reads the editor type for a python type annotation
+function annotationType(
+  annotation: string
+): Pick<TaskParamInfo, "type" | "choices" | "optional"> {
+  // Remove Optional[...] and `| None` from the annotation
+  let optional = false;
+  let type = annotation.replace(/\s+/g, " ").trim();
+  const optionalMatch = type.match(/^(?:typing\.)?Optional\[(.*)\]$/);
+  if (optionalMatch) {
+    optional = true;
+    type = optionalMatch[1] ?? type;
+  }
+  const unionParts = splitTopLevel(type, "|").map((part) => part.trim());
+  if (unionParts.includes("None")) {
+    optional = true;
+  }
+  const parts = unionParts.filter((part) => part !== "None");
+  if (parts.length !== 1) {
+    return { type: "unknown", optional };
+  }
+  type = parts[0] ?? "";
+
+  const literalMatch = type.match(/^(?:typing\.)?Literal\[(.*)\]$/);
+  if (literalMatch) {
+    const choices = splitTopLevel(literalMatch[1] ?? "", ",")
+      .map((choice) => unquote(choice.trim()))
+      .filter((choice) => choice.length > 0);
+    return { type: "choice", choices, optional };
+  }
+
+  const baseType = type.replace(/\[.*\]$/, "").replace(/^typing\./, "");
+  switch (baseType) {
+    case "bool":
+      return { type: "bool", optional };
+    case "int":
+      return { type: "int", optional };
+    case "float":
+      return { type: "float", optional };
+    case "str":
+      return { type: "str", optional };
+    case "list":
+    case "List":
+    case "Sequence":
+    case "tuple":
+    case "Tuple":
+    case "set":
+    case "Set":
+      return { type: "list", optional };
+    default:
+      return { type: "unknown", optional };
+  }
+}
+
+// Infers the editor type from a default value (for unannotated params)
+function literalType(value: string): TaskParamType {
+  if (value === "True" || value === "False") {
+    return "bool";
+  } else if (/^[+-]?\d+$/.test(value)) {
+    return "int";
+  } else if (/^[+-]?(\d+\.\d*|\.\d+|\d+(\.\d*)?e[+-]?\d+)$/i.test(value)) {
+    return "float";
+  } else if (/^(['"]).*\1$/s.test(value)) {
+    return "str";
+  } else if (/^[[(].*[\])]$/s.test(value)) {
+    return "list";
+  }
+  return "unknown";
+}
+
+function unquote(value: string) {
+  const match = value.match(/^[rbuf]?(['"])(.*)\1$/is);
+  return match ? (match[2] ?? "") : value;
+}
+
+// Finds a character outside of brackets and strings
+function topLevelIndex(str: string, target: string) {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < str.length; i++) {
+    const char = str[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "(" || char === "{") {
+      depth++;
+    } else if (char === "]" || char === ")" || char === "}") {
+      depth--;
+    } else if (char === target && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitTopLevel(str: string, separator: string): string[] {
+  const parts: string[] = [];
+  let rest = str;
+  let index = topLevelIndex(rest, separator);
+  while (index !== -1) {
+    parts.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+    index = topLevelIndex(rest, separator);
+  }
+  parts.push(rest);
+  return parts;
+}
@@ -2,6 +2,8 @@ import { TextDocument, Uri } from "vscode";
 
 import { lines } from "../core/text";
 
+import { parseTaskParam, TaskParamInfo } from "./task-params";
+
 // Task information for a document
 export interface DocumentTaskInfo {
   document: Uri;
@@ -13,6 +15,8 @@ export interface DocumentTaskInfo {
 export interface TaskData {
   name: string;
   params: string[];
+  // Types and defaults for the params (when they could be read)
+  paramInfo?: TaskParamInfo[];
   line: number;
 }
 
@@ -22,6 +26,7 @@ export interface TaskData {
 // be used when no selection behavior is warranted
 const kTaskPattern = /@task/;
 const kFunctionNamePattern = /def\s+(.*)\((.*)$/;
+const kTaskDecoratorNamePattern = /@task\s*\([^)]*\bname\s*=\s*(["'])(.+?)\1/s;
 
 const kFunctionEndPattern = /\s*\)\s*(->\s*\S+)?\s*:\s*/;
 const kParamsPattern = /^(.*?)\s*(?:\)\s*:\s*|$|\)\s*(->\s*\S+)?\s*:\s*)/;
@@ -33,11 +38,13 @@ export function readTaskData(document: TextDocument): TaskData[] {
   let state: "seeking-task" | "seeking-function" | "reading-params" =
     "seeking-task";
   let startLine = -1;
+  let decorator = "";
   docLines.forEach((line, idx) => {
     switch (state) {
       case "seeking-task":
         if (kTaskPattern.test(line)) {
           startLine = idx;
+          decorator = line;
           state = "seeking-function";
         }
         break;
@@ -47,8 +54,10 @@ export function readTaskData(document: TextDocument): TaskData[] {
           if (match) {
             const fnName = match[1] ?? "";
             const task: TaskData = {
-              name: fnName,
+              // Inspect registers the task using the decorator name (if any)
+              name: taskDecoratorName(decorator) ?? fnName,
               params: [],
+              paramInfo: [],
               line: startLine,
             };
             tasks.push(task);
@@ -62,6 +71,8 @@ export function readTaskData(document: TextDocument): TaskData[] {
               // back to seeking tasks
               state = "seeking-task";
             }
+          } else {
+            decorator = decorator + "\n" + line;
           }
         }
         break;
@@ -84,6 +95,14 @@ export function readTaskData(document: TextDocument): TaskData[] {
   return tasks;
 }
 
+/**
+ * Reads the name given to a task by its decorator (e.g. `@task(name="foo")`).
+ */
+export function taskDecoratorName(decorator: string): string | undefined {
+  const match = decorator.match(kTaskDecoratorNamePattern);
+  return match ? match[2] : undefined;
+}
+
 const readParams = (line: string, task: TaskData) => {
   const paramsMatch = line.match(kParamsPattern);
   if (paramsMatch) {
@@ -91,14 +110,15 @@ const readParams = (line: string, task: TaskData) => {
     if (paramsStr) {
       const params = parseParameters(paramsStr);
       params.forEach((param) => {
-        task.params.push(param.trim());
+        task.params.push(param.name);
+        task.paramInfo?.push(param);
       });
     }
   }
   return !kFunctionEndPattern.test(line);
 };
 
-const parseParameters = (paramStr: string): string[] => {
+const parseParameters = (paramStr: string): TaskParamInfo[] => {
   let bracketDepth = 0;
   let currentParam = "";
   const params: string[] = [];
@@ -130,12 +150,8 @@ const parseParameters = (paramStr: string): string[] => {
     params.push(currentParam.trim());
   }
 
-  // Extract parameter names
+  // Extract parameter names, types, and defaults
   return params
-    .map((param) => {
-      // Get everything before the colon (the parameter name)
-      const nameMatch = param.match(/^\s*([a-zA-Z_][a-zA-Z0-9_]*)/);
-      return nameMatch ? (nameMatch[1] ?? "") : "";
-    })
-    .filter(Boolean);
+    .map(parseTaskParam)
+    .filter((param): param is TaskParamInfo => param !== undefined);
 };
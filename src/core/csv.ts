@@ -0,0 +1,15 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes values which contain separators, quotes or line breaks
+export function csvValue(value: CsvValue): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Formats rows as CSV (with a header row)
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvValue).join(","))
+    .join("\n")
+    .concat("\n");
+}
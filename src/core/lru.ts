@@ -0,0 +1,50 @@
+// A map which evicts its least recently used entries when it is full
+export class LruCache<K, V> {
+  constructor(private readonly maxSize: number) {}
+
+  // Gets a value (marking it as recently used)
+  get(key: K): V | undefined {
+    const value = this.map_.get(key);
+    if (value !== undefined) {
+      this.map_.delete(key);
+      this.map_.set(key, value);
+    }
+    return value;
+  }
+
+  // Gets a value (without marking it as recently used)
+  peek(key: K): V | undefined {
+    return this.map_.get(key);
+  }
+
+  set(key: K, value: V) {
+    this.map_.delete(key);
+    this.map_.set(key, value);
+    while (this.map_.size > this.maxSize) {
+      const oldest = this.map_.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.map_.delete(oldest.value);
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.map_.delete(key);
+  }
+
+  clear() {
+    this.map_.clear();
+  }
+
+  get size(): number {
+    return this.map_.size;
+  }
+
+  // The entries (least recently used first)
+  entries(): Array<[K, V]> {
+    return Array.from(this.map_.entries());
+  }
+
+  private readonly map_ = new Map<K, V>();
+}
@@ -1,14 +1,25 @@
+import { basename } from "path";
+
 import {
+  commands,
   debug,
   DebugConfiguration,
+  DebugSession,
   ExtensionContext,
   Terminal,
+  TerminalShellExecution,
+  Uri,
   window,
   workspace,
 } from "vscode";
 
 import { sleep } from "../../core/wait";
 import { extensionVersion } from "../../providers/environment";
+import {
+  RunController,
+  RunHistoryManager,
+  RunRecord,
+} from "../../providers/runs/run-history-provider";
 import {
   DocumentState,
   WorkspaceStateManager,
@@ -16,12 +27,13 @@ import {
 import { VersionDescriptor } from "../package/props";
 import {
   AbsolutePath,
-  activeWorkspacePath,
+  toAbsolutePath,
+  workspaceFolderPath,
   workspaceRelativePath,
 } from "../path";
-import { findEnvPythonPath } from "../python";
+import { findEnvPythonPath, pythonInterpreter } from "../python";
 import { detectShellKind, quoteArg, quoteCommandLine } from "../shell-quote";
-import { activeWorkspaceFolder } from "../workspace";
+import { workspaceFolderFor } from "../workspace";
 
 export interface ExecProfile {
   packageName: "inspect-ai" | "inspect-scout";
@@ -33,19 +45,186 @@ export interface ExecProfile {
   subcommand: "eval" | "scan";
   binPath: AbsolutePath | null;
   execArgs: (docState: DocumentState, debug: boolean) => string[];
+  // Returns errors which should prevent a target from being run
+  validate?: (
+    file: AbsolutePath,
+    target: string | undefined,
+    docState: DocumentState
+  ) => Promise<string[]>;
+}
+
+// The terminal command or debug session executing a run
+interface ActiveRun {
+  terminal?: Terminal;
+  execution?: TerminalShellExecution;
+  session?: DebugSession;
 }
 
-export class ExecManager {
+// The exit code reported by shells for a process interrupted with Ctrl+C
+const kInterruptedExitCode = 130;
+
+export class ExecManager implements RunController {
   constructor(
     private readonly profile_: ExecProfile,
     private readonly stateManager_: WorkspaceStateManager,
+    private readonly runHistory_: RunHistoryManager,
     context: ExtensionContext
   ) {
     this.context_ = context;
+    this.runHistory_.registerController(this.profile_.target, this);
+
+    // Follow terminal commands and debug sessions through to completion
+    context.subscriptions.push(
+      window.onDidEndTerminalShellExecution(async (e) => {
+        for (const [id, active] of this.activeRuns_) {
+          if (active.execution === e.execution) {
+            this.deleteActiveRun(id);
+            await this.runHistory_.endRun(
+              id,
+              runStatusForExitCode(e.exitCode),
+              e.exitCode
+            );
+          }
+        }
+      })
+    );
+    context.subscriptions.push(
+      window.onDidCloseTerminal(async (terminal) => {
+        // Runs without shell integration end when their terminal is closed
+        for (const [id, active] of this.activeRuns_) {
+          if (active.terminal === terminal) {
+            this.deleteActiveRun(id);
+            await this.runHistory_.endRun(id, "ended");
+          }
+        }
+      })
+    );
+    context.subscriptions.push(
+      debug.onDidStartDebugSession((session) => {
+        const runId = debugSessionRunId(session);
+        const active = runId ? this.activeRuns_.get(runId) : undefined;
+        if (active) {
+          active.session = session;
+        }
+      })
+    );
+    context.subscriptions.push(
+      debug.onDidTerminateDebugSession(async (session) => {
+        const runId = debugSessionRunId(session);
+        if (runId && this.activeRuns_.has(runId)) {
+          this.deleteActiveRun(runId);
+          await this.runHistory_.endRun(runId, "ended");
+        }
+      })
+    );
   }
   private context_: ExtensionContext;
+  private activeRuns_ = new Map<string, ActiveRun>();
+
+  public async start(
+    file: AbsolutePath,
+    target?: string,
+    debug = false,
+    preset?: string | null
+  ) {
+    // Make sure a named preset still exists
+    if (
+      preset &&
+      !this.stateManager_.getTaskPresets(file.path, target).presets[preset]
+    ) {
+      await window.showWarningMessage(
+        `Unable to ${debug ? "Debug" : "Run"} ${this.profile_.target} (no preset named '${preset}')`
+      );
+      return;
+    }
+
+    // Check the options before launching
+    if (!(await this.validate([{ file, target, preset }], debug))) {
+      return;
+    }
+
+    // The base set of task args
+    const relativePath = workspaceRelativePath(file);
+    const targetArg = target ? `${relativePath}@${target}` : relativePath;
+    const args = [this.profile_.subcommand, targetArg];
 
-  public async start(file: AbsolutePath, target?: string, debug = false) {
+    // additional args
+    args.push(...this.taskArgs(file, target, debug, preset));
+
+    await this.startArgs(file, target, args, debug);
+  }
+
+  // Checks the saved options of targets before they are launched (showing
+  // any errors). Uses each target's default preset when no preset is
+  // provided (as with taskArgs).
+  public async validate(
+    targets: Array<{
+      file: AbsolutePath;
+      target?: string;
+      preset?: string | null;
+    }>,
+    debug = false
+  ): Promise<boolean> {
+    if (!this.profile_.validate) {
+      return true;
+    }
+    const errors: string[] = [];
+    for (const { file, target, preset } of targets) {
+      const targetErrors = await this.profile_.validate(
+        file,
+        target,
+        this.taskState(file, target, preset)
+      );
+      errors.push(
+        ...targetErrors.map((error) =>
+          targets.length > 1 && target ? `${target}: ${error}` : error
+        )
+      );
+    }
+    if (errors.length > 0) {
+      await window.showErrorMessage(
+        `Unable to ${debug ? "Debug" : "Run"} ${this.profile_.target} (Invalid Options)`,
+        { modal: true, detail: errors.join("\n") }
+      );
+      return false;
+    }
+    return true;
+  }
+
+  // The additional args (from the saved task state) for a target. Uses the
+  // task's default preset when no preset is provided (pass null to use the
+  // unnamed task state).
+  public taskArgs(
+    file: AbsolutePath,
+    target?: string,
+    debug = false,
+    preset?: string | null
+  ) {
+    return this.profile_.execArgs(this.taskState(file, target, preset), debug);
+  }
+
+  private taskState(
+    file: AbsolutePath,
+    target?: string,
+    preset?: string | null
+  ) {
+    return this.stateManager_.getTaskState(
+      file.path,
+      target,
+      preset === undefined
+        ? this.stateManager_.defaultTaskPreset(file.path, target)
+        : preset || undefined
+    );
+  }
+
+  // Runs the package command with custom args (e.g. `inspect eval-set`),
+  // using the python environment for `file`
+  public async startArgs(
+    file: AbsolutePath,
+    target: string | undefined,
+    args: string[],
+    debug = false
+  ) {
     // if we don't have scout bail and let the user know
     if (!this.profile_.packageVersion) {
       await window.showWarningMessage(
@@ -60,25 +239,133 @@ export class ExecManager {
       return;
     }
 
-    const workspaceDir = activeWorkspacePath();
-    const relativePath = workspaceRelativePath(file);
-
-    // The base set of task args
-    const targetArg = target ? `${relativePath}@${target}` : relativePath;
-    const args = [this.profile_.subcommand, targetArg];
-
-    // additional args
-    const docState = this.stateManager_.getTaskState(file.path, target);
-    args.push(...this.profile_.execArgs(docState, debug));
+    // Run from the workspace folder which contains the file
+    const workspaceDir = workspaceFolderPath(file);
 
     // Find the python environment
     const useSubdirectoryEnvironments = workspace
       .getConfiguration("inspect_ai")
       .get("useSubdirectoryEnvironments");
     const pythonPath = useSubdirectoryEnvironments
-      ? findEnvPythonPath(file.dirname(), activeWorkspacePath())
+      ? findEnvPythonPath(file.dirname(), workspaceDir)
       : undefined;
 
+    await this.exec(
+      file,
+      target,
+      args,
+      workspaceDir.path,
+      debug,
+      pythonPath ? pythonPath : undefined
+    );
+  }
+
+  // Runs the exact invocation recorded for a previous run
+  public async rerun(run: RunRecord) {
+    await this.exec(
+      toAbsolutePath(run.file),
+      run.task,
+      run.args,
+      run.cwd,
+      run.debug,
+      run.python ? toAbsolutePath(run.python) : undefined
+    );
+  }
+
+  // Interrupts the terminal command (or stops the debug session) for a run
+  public async stop(run: RunRecord): Promise<boolean> {
+    const active = this.activeRuns_.get(run.id);
+    if (!active) {
+      return false;
+    }
+
+    await this.runHistory_.updateRun(run.id, (run) => ({
+      ...run,
+      status: "cancelled",
+    }));
+    if (active.session) {
+      await debug.stopDebugging(active.session);
+    } else if (active.terminal) {
+      // Send Ctrl+C to the foreground process, which Inspect handles by
+      // cancelling the eval and writing the log
+      active.terminal.sendText("\u0003", false);
+
+      // Without shell integration we won't see the command end
+      if (!active.execution) {
+        this.deleteActiveRun(run.id);
+        await this.runHistory_.endRun(run.id, "cancelled");
+      }
+    }
+    return true;
+  }
+
+  // Stops runs launched from this window (only runs of the given task if
+  // there is one), prompting when more than one run could be stopped
+  public async stopActive(task?: string): Promise<boolean> {
+    let runs = this.runHistory_
+      .getRuns()
+      .filter(
+        (run) =>
+          this.activeRuns_.has(run.id) &&
+          (task === undefined || run.task === task)
+      );
+    if (runs.length === 0) {
+      const target = this.profile_.target.toLowerCase();
+      await window.showInformationMessage(
+        task !== undefined
+          ? `There is no running ${target} of ${task} to stop.`
+          : `There is no running ${target} to stop.`
+      );
+      return false;
+    }
+
+    if (runs.length > 1) {
+      const picked = await window.showQuickPick(
+        runs.map((run) => ({
+          label: run.task || basename(run.file),
+          description: [run.command, ...run.args].join(" "),
+          run,
+        })),
+        {
+          title: `Stop ${this.profile_.target}`,
+          placeHolder: `Select the ${this.profile_.target.toLowerCase()}s to stop`,
+          canPickMany: true,
+        }
+      );
+      runs = picked?.map((item) => item.run) || [];
+    }
+
+    let stopped = false;
+    for (const run of runs) {
+      stopped = (await this.stop(run)) || stopped;
+    }
+    return stopped;
+  }
+
+  private async exec(
+    file: AbsolutePath,
+    target: string | undefined,
+    args: string[],
+    cwd: string,
+    debug: boolean,
+    pythonPath?: AbsolutePath
+  ) {
+    // Record the run
+    const interpreter =
+      pythonPath?.path || pythonInterpreter().execCommand?.[0];
+    const run = await this.runHistory_.startRun({
+      target: this.profile_.target,
+      command: this.profile_.command,
+      file: file.path,
+      task: target,
+      args,
+      cwd,
+      interpreter,
+      python: pythonPath?.path,
+      debug,
+      status: "running",
+    });
+
     // If we're debugging, launch using the debugger
     if (debug) {
       // Pass the workspace ID to the debug environment so we'll
@@ -88,26 +375,81 @@ export class ExecManager {
         INSPECT_VSCODE_EXT_VERSION: extensionVersion(this.context_),
       };
 
-      await runDebugger(
+      this.setActiveRun(run.id, {});
+      const started = await runDebugger(
         this.profile_,
+        run.id,
         this.profile_.binPath?.path || this.profile_.command,
         args,
-        workspaceDir.path,
+        cwd,
         env,
-        pythonPath ? pythonPath : undefined
+        pythonPath
       );
+      if (!started) {
+        this.deleteActiveRun(run.id);
+        await this.runHistory_.endRun(run.id, "failed");
+      }
     } else {
       // Run the command
-      await runCommand(
+      const { terminal, execution } = await runCommand(
         this.profile_,
         args,
-        workspaceDir.path,
-        pythonPath ? pythonPath : undefined
+        cwd,
+        pythonPath
       );
+      if (execution) {
+        this.setActiveRun(run.id, { terminal, execution });
+      } else {
+        // Without shell integration we can't observe the command
+        await this.runHistory_.updateRun(run.id, (run) => ({
+          ...run,
+          status: "untracked",
+        }));
+        this.setActiveRun(run.id, { terminal });
+      }
     }
   }
+
+  private setActiveRun(id: string, active: ActiveRun) {
+    this.activeRuns_.set(id, active);
+    this.updateRunningContext();
+  }
+
+  private deleteActiveRun(id: string) {
+    this.activeRuns_.delete(id);
+    this.updateRunningContext();
+  }
+
+  // Enables the stop commands while a run is active (untracked runs stay
+  // active until they are stopped or their terminal is closed)
+  private updateRunningContext() {
+    void commands.executeCommand(
+      "setContext",
+      `inspect_ai.${this.profile_.target.toLowerCase()}Running`,
+      this.activeRuns_.size > 0
+    );
+  }
 }
 
+const runStatusForExitCode = (exitCode: number | undefined) => {
+  if (exitCode === undefined) {
+    return "ended";
+  } else if (exitCode === 0) {
+    return "succeeded";
+  } else if (exitCode === kInterruptedExitCode) {
+    return "cancelled";
+  } else {
+    return "failed";
+  }
+};
+
+const kRunIdConfigKey = "inspectRunId";
+
+const debugSessionRunId = (session: DebugSession) => {
+  const runId: unknown = session.configuration[kRunIdConfigKey];
+  return typeof runId === "string" ? runId : undefined;
+};
+
 /**
  * Builds the program and argument vector for a run command.
  *
@@ -171,7 +513,7 @@ const runCommand = async (
   args: string[],
   cwd: string,
   python?: AbsolutePath
-) => {
+): Promise<{ terminal: Terminal; execution?: TerminalShellExecution }> => {
   // Reuse a named terminal so the user can see previous runs and so the
   // Python extension's env-activation hooks have already run.
   const name = profile.terminal;
@@ -211,7 +553,8 @@ const runCommand = async (
     if (reusedTerminal) {
       integration.executeCommand(`cd ${quoteArg(cwd, shell)}`);
     }
-    integration.executeCommand(commandLine);
+    const execution = integration.executeCommand(commandLine);
+    return { terminal, execution };
   } else {
     // Fallback: shell integration unavailable. Use sendText with a delay on
     // new terminals to give the activation scripts time to finish.
@@ -222,11 +565,13 @@ const runCommand = async (
       terminal.sendText(`cd ${quoteArg(cwd, shell)}`);
     }
     terminal.sendText(commandLine);
+    return { terminal };
   }
 };
 
 const runDebugger = async (
   profile: ExecProfile,
+  runId: string,
   program: string,
   args: string[],
   cwd: string,
@@ -245,6 +590,10 @@ const runDebugger = async (
     env,
     justMyCode: false,
     pythonPath: pythonPath?.path,
+    [kRunIdConfigKey]: runId,
   };
-  await debug.startDebugging(activeWorkspaceFolder(), debugConfiguration);
+  return await debug.startDebugging(
+    workspaceFolderFor(Uri.file(cwd)),
+    debugConfiguration
+  );
 };
@@ -1,9 +1,13 @@
 import { existsSync } from "fs";
 import path, { basename, dirname, join } from "path";
 
-import { Uri } from "vscode";
+import { Uri, workspace } from "vscode";
 
-import { activeWorkspaceFolder } from "./workspace";
+import {
+  activeWorkspaceFolder,
+  workspaceFolderFor,
+  workspaceFolderList,
+} from "./workspace";
 
 export type UnknownPath = string;
 
@@ -39,9 +43,32 @@ export const workspaceUri = (unknownPath?: UnknownPath): Uri => {
   return Uri.file(absPath.path);
 };
 
+// Resolves a path relative to the workspace folder which contains it
 export const workspaceRelativePath = (absPath: AbsolutePath) => {
-  const workspaceRoot = activeWorkspaceFolder();
-  return path.relative(workspaceRoot.uri.fsPath, absPath.path);
+  return path.relative(workspaceFolderPath(absPath).path, absPath.path);
+};
+
+// The path of the workspace folder which contains a file
+export const workspaceFolderPath = (absPath: AbsolutePath): AbsolutePath => {
+  const folder = workspaceFolderFor(Uri.file(absPath.path));
+  return toAbsolutePath(folder.uri.fsPath);
+};
+
+// Resolves the task file of a log (which is relative to the folder the eval
+// was run from) using the workspace folder that contains the log, or else
+// the first workspace folder that contains the task file
+export const logTaskFilePath = (taskFile: string, log: Uri): AbsolutePath => {
+  if (path.isAbsolute(taskFile)) {
+    return toAbsolutePath(taskFile);
+  }
+  const logFolder = workspace.getWorkspaceFolder(log);
+  const folder =
+    [...(logFolder ? [logFolder] : []), ...workspaceFolderList()].find(
+      (folder) => existsSync(path.join(folder.uri.fsPath, taskFile))
+    ) ??
+    logFolder ??
+    activeWorkspaceFolder();
+  return toAbsolutePath(path.resolve(folder.uri.fsPath, taskFile));
 };
 
 export const toAbsolutePath = (path: string): AbsolutePath => {
@@ -1,4 +1,5 @@
 import {
+  execFile,
   spawn,
   SpawnOptions,
   spawnSync,
@@ -35,6 +36,40 @@ export function runProcess(
   }
 }
 
+// Runs a process without blocking (resolves with stdout, rejects on failure)
+export function runProcessAsync(
+  cmd: string | AbsolutePath,
+  args: string[],
+  cwd?: AbsolutePath
+): Promise<string> {
+  cmd = typeof cmd === "string" ? cmd : cmd.path;
+  return new Promise((resolve, reject) => {
+    execFile(
+      cmd,
+      args,
+      {
+        cwd: cwd?.path,
+        encoding: "utf-8",
+        windowsHide: true,
+        maxBuffer: 1000 * 1000 * 125,
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(
+            new Error(
+              typeof error.code === "number"
+                ? `Command failed with code ${error.code}: ${stderr}`
+                : `The process could not be started\n${error.message}`
+            )
+          );
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+  });
+}
+
 export function spawnProcess(
   cmd: string,
   args: string[],
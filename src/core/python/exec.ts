@@ -2,7 +2,7 @@ import { existsSync } from "node:fs";
 import { dirname, join } from "path";
 
 import { AbsolutePath, toAbsolutePath } from "../path";
-import { runProcess, spawnProcess } from "../process";
+import { runProcess, runProcessAsync, spawnProcess } from "../process";
 
 import { PythonInterpreter, pythonInterpreter } from "./interpreter";
 
@@ -79,6 +79,20 @@ export function runPython(args: string[], cwd?: AbsolutePath) {
   }
 }
 
+export function runPythonAsync(args: string[], cwd?: AbsolutePath) {
+  const execCommand = pythonInterpreter().execCommand;
+  if (execCommand) {
+    args = [...execCommand.slice(1), ...args];
+    const [cmd] = execCommand;
+    if (!cmd) {
+      throw new Error("Python exec command is empty.");
+    }
+    return runProcessAsync(cmd, args, cwd);
+  } else {
+    throw new Error("No active Python interpreter available.");
+  }
+}
+
 export function spawnPython(
   args: string[],
   cwd: AbsolutePath,
@@ -6,3 +6,17 @@ export function shQuote(value: string): string {
     return value;
   }
 }
+
+// formats a duration (e.g. 45s, 3m 10s, 2h 5m)
+export function formatDuration(ms: number) {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
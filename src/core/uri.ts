@@ -60,6 +60,14 @@ export function prettyUriPath(uri: Uri): string {
   }
 }
 
+/**
+ * The form of a Uri to pass as a command line argument (a file system
+ * path for local files, otherwise the full uri e.g. s3://bucket/logs)
+ */
+export function uriCommandArg(uri: Uri): string {
+  return uri.scheme === "file" ? uri.fsPath : uri.toString(true);
+}
+
 /**
  * Gets the relative path from a parent Uri to a child Uri
  * Returns null if child is not contained within parent
@@ -141,12 +141,6 @@ Please update to a newer version of ${packageName} to view this content.
  * rendered as plain text; blank lines separate paragraphs.
  */
 export function getMessagePanelHtml(message: string): string {
-  const escapeHtml = (text: string) =>
-    text
-      .replace(/&/g, "&amp;")
-      .replace(/</g, "&lt;")
-      .replace(/>/g, "&gt;")
-      .replace(/"/g, "&quot;");
   const paragraphs = message
     .split("\n\n")
     .map((para) => `<p>${escapeHtml(para)}</p>`)
@@ -208,3 +202,14 @@ export function handleWebviewPanelOpenMessages(
     }
   );
 }
+
+/**
+ * Escapes text for use in HTML content or attributes.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -1,4 +1,4 @@
-import { workspace, WorkspaceFolder } from "vscode";
+import { Uri, window, workspace, WorkspaceFolder } from "vscode";
 
 export function activeWorkspaceFolder(): WorkspaceFolder {
   const [folder] = workspace.workspaceFolders ?? [];
@@ -12,3 +12,21 @@ export function checkActiveWorkspaceFolder(): WorkspaceFolder | undefined {
   const workspaceFolder = workspace.workspaceFolders?.[0];
   return workspaceFolder;
 }
+
+// All of the workspace folders (there may be several in a multi-root workspace)
+export function workspaceFolderList(): readonly WorkspaceFolder[] {
+  return workspace.workspaceFolders ?? [];
+}
+
+// The workspace folder containing a file (or the first folder for files
+// outside of the workspace)
+export function workspaceFolderFor(uri: Uri): WorkspaceFolder {
+  return workspace.getWorkspaceFolder(uri) ?? activeWorkspaceFolder();
+}
+
+// The workspace folder containing the active editor's document (undefined
+// if there is no active editor or its document is outside of the workspace)
+export function activeEditorWorkspaceFolder(): WorkspaceFolder | undefined {
+  const document = window.activeTextEditor?.document;
+  return document ? workspace.getWorkspaceFolder(document.uri) : undefined;
+}
@@ -0,0 +1,185 @@
+import { open, stat } from "fs/promises";
+import { promisify } from "util";
+import { inflateRaw } from "zlib";
+
+const inflateRawAsync = promisify(inflateRaw);
+
+// Random access to the bytes of a zip file
+export interface ZipSource {
+  size(): Promise<number>;
+  // Reads the bytes from start up to (but not including) end
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const kEndOfCentralDirSignature = 0x06054b50;
+const kZip64EndOfCentralDirSignature = 0x06064b50;
+const kZip64LocatorSignature = 0x07064b50;
+const kCentralDirEntrySignature = 0x02014b50;
+const kLocalHeaderSignature = 0x04034b50;
+const kZip64ExtraField = 0x0001;
+
+const kEndOfCentralDirSize = 22;
+const kZip64LocatorSize = 20;
+const kMaxCommentSize = 0xffff;
+
+const kStored = 0;
+const kDeflated = 8;
+
+/**
+ * A zip source for a local file.
+ */
+export function fileZipSource(path: string): ZipSource {
+  return {
+    size: async () => (await stat(path)).size,
+    read: async (start, end) => {
+      const handle = await open(path, "r");
+      try {
+        const buffer = Buffer.alloc(end - start);
+        const { bytesRead } = await handle.read(buffer, 0, end - start, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+/**
+ * Reads the entries in the central directory of a zip file (including
+ * zip64 files), reading only the end of the file.
+ */
+export async function readZipDirectory(source: ZipSource): Promise<ZipEntry[]> {
+  // find the end of central directory record (which is followed by a comment)
+  const size = await source.size();
+  const tailStart = Math.max(0, size - kEndOfCentralDirSize - kMaxCommentSize);
+  const tail = toBuffer(await source.read(tailStart, size));
+  let eocd = -1;
+  for (let i = tail.length - kEndOfCentralDirSize; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === kEndOfCentralDirSignature) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a zip file (no end of central directory record)");
+  }
+
+  let entryCount = tail.readUInt16LE(eocd + 10);
+  let dirSize = tail.readUInt32LE(eocd + 12);
+  let dirOffset = tail.readUInt32LE(eocd + 16);
+
+  // zip64 files record the directory in a zip64 end of central directory
+  // record (found using the locator which precedes the end record)
+  const locator = eocd - kZip64LocatorSize;
+  if (locator >= 0 && tail.readUInt32LE(locator) === kZip64LocatorSignature) {
+    const recordOffset = Number(tail.readBigUInt64LE(locator + 8));
+    const record = toBuffer(await source.read(recordOffset, recordOffset + 56));
+    if (record.readUInt32LE(0) !== kZip64EndOfCentralDirSignature) {
+      throw new Error("Invalid zip64 end of central directory record");
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    dirSize = Number(record.readBigUInt64LE(40));
+    dirOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  // read the central directory
+  const dir = toBuffer(await source.read(dirOffset, dirOffset + dirSize));
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (dir.readUInt32LE(pos) !== kCentralDirEntrySignature) {
+      throw new Error("Invalid zip central directory entry");
+    }
+    const nameLength = dir.readUInt16LE(pos + 28);
+    const extraLength = dir.readUInt16LE(pos + 30);
+    const commentLength = dir.readUInt16LE(pos + 32);
+    const entry: ZipEntry = {
+      name: dir.toString("utf-8", pos + 46, pos + 46 + nameLength),
+      compressionMethod: dir.readUInt16LE(pos + 10),
+      compressedSize: dir.readUInt32LE(pos + 20),
+      uncompressedSize: dir.readUInt32LE(pos + 24),
+      localHeaderOffset: dir.readUInt32LE(pos + 42),
+    };
+    readZip64Extra(
+      entry,
+      dir.subarray(pos + 46 + nameLength, pos + 46 + nameLength + extraLength)
+    );
+    entries.push(entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Reads (and decompresses) the contents of a zip entry.
+ */
+export async function readZipEntry(
+  source: ZipSource,
+  entry: ZipEntry
+): Promise<Uint8Array> {
+  // the local header has its own name and extra field lengths
+  const header = toBuffer(
+    await source.read(entry.localHeaderOffset, entry.localHeaderOffset + 30)
+  );
+  if (header.readUInt32LE(0) !== kLocalHeaderSignature) {
+    throw new Error(`Invalid zip local header for ${entry.name}`);
+  }
+  const dataOffset =
+    entry.localHeaderOffset +
+    30 +
+    header.readUInt16LE(26) +
+    header.readUInt16LE(28);
+  const data = await source.read(dataOffset, dataOffset + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case kStored:
+      return data;
+    case kDeflated:
+      return await inflateRawAsync(data);
+    default:
+      throw new Error(
+        `Unsupported zip compression method ${entry.compressionMethod} for ${entry.name}`
+      );
+  }
+}
+
+// Reads sizes and offsets which are too large for the central directory
+// entry from its zip64 extra field
+function readZip64Extra(entry: ZipEntry, extra: Buffer) {
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const id = extra.readUInt16LE(pos);
+    const size = extra.readUInt16LE(pos + 2);
+    if (id === kZip64ExtraField) {
+      let field = pos + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(field));
+        field += 8;
+        return value;
+      };
+      if (entry.uncompressedSize === 0xffffffff) {
+        entry.uncompressedSize = next();
+      }
+      if (entry.compressedSize === 0xffffffff) {
+        entry.compressedSize = next();
+      }
+      if (entry.localHeaderOffset === 0xffffffff) {
+        entry.localHeaderOffset = next();
+      }
+      return;
+    }
+    pos += 4 + size;
+  }
+}
+
+function toBuffer(data: Uint8Array) {
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -13,6 +13,8 @@ import { activateActivityBar } from "./providers/activity-bar/activity-bar-provi
 import { activateScoutActivityBar } from "./providers/activity-bar/scout-activity-bar-provider";
 import { activateCodeLens } from "./providers/codelens/codelens-provider";
 import { activateScoutCodeLens } from "./providers/codelens/scout-codelens-provider";
+import { activateEvalErrorDiagnostics } from "./providers/diagnostics/eval-error-diagnostics-provider";
+import { activateTaskDiagnostics } from "./providers/diagnostics/task-diagnostics-provider";
 import { activateWorkspaceEnvironment } from "./providers/environment";
 import { activateInspectCommands } from "./providers/inspect/inspect-commands";
 import { activateEvalManager } from "./providers/inspect/inspect-eval";
@@ -24,6 +26,10 @@ import { logviewTerminalLinkProvider } from "./providers/logview/logview-link-pr
 import { activateOpenLog } from "./providers/openlog";
 import { activateOpenScan } from "./providers/openscan";
 import { activateProtocolHandler } from "./providers/protocol-handler";
+import {
+  activateRunHistory,
+  RunHistoryManager,
+} from "./providers/runs/run-history-provider";
 import { activateScanview } from "./providers/scanview/scanview";
 import { scanviewTerminalLinkProvider } from "./providers/scanview/scanview-link-provider";
 import { activateScoutManager } from "./providers/scout/scout-manager";
@@ -76,7 +82,7 @@ export async function activate(context: ExtensionContext) {
 
   // Activate the workspacestate manager
   start("Activate Workspace");
-  const [stateCommands, stateManager] = activateWorkspaceState(context);
+  const [stateCommands, stateManager] = await activateWorkspaceState(context);
   end("Activate Workspace");
 
   // For now, create an output channel for env changes
@@ -98,10 +104,21 @@ export async function activate(context: ExtensionContext) {
   // Workspace environment
   await activateWorkspaceEnvironment(context, stateManager);
 
+  // initialise logs watcher
+  start("Setup Output Watcher");
+  const outputWatcher = new OutputWatcher(stateManager);
+  end("Setup Output Watcher");
+
+  // Run history (tracks evals and scans launched from the extension)
+  start("Setup Run History");
+  const runHistory = activateRunHistory(context, outputWatcher);
+  end("Setup Run History");
+
   // Eval Manager
   start("Setup Eval Command");
   const [inspectEvalCommands, inspectEvalMgr] = activateEvalManager(
     stateManager,
+    runHistory,
     context
   );
 
@@ -133,11 +150,6 @@ export async function activate(context: ExtensionContext) {
   context.subscriptions.push(server);
   end("Setup View Server");
 
-  // initialise logs watcher
-  start("Setup Output Watcher");
-  const outputWatcher = new OutputWatcher(stateManager);
-  end("Setup Output Watcher");
-
   // Activate the log view
   start("Setup Log Viewer");
   const [logViewCommands, logviewWebviewManager] = await activateLogview(
@@ -155,7 +167,7 @@ export async function activate(context: ExtensionContext) {
 
   // Activate the Activity Bar
   start("Setup Activity Bar");
-  const taskBarCommands = await activateActivityBar(
+  const [taskBarCommands, taskResults] = await activateActivityBar(
     inspectManager,
     inspectEvalMgr,
     inspectLogviewManager,
@@ -165,6 +177,7 @@ export async function activate(context: ExtensionContext) {
     workspaceEnvManager,
     server,
     outputWatcher,
+    runHistory,
     context
   );
   end("Setup Activity Bar");
@@ -176,6 +189,7 @@ export async function activate(context: ExtensionContext) {
     workspaceEnvManager,
     stateManager,
     outputWatcher,
+    runHistory,
     settingsMgr
   );
   end("Setup Scout");
@@ -187,13 +201,30 @@ export async function activate(context: ExtensionContext) {
   );
 
   // Activate Code Lens
-  activateCodeLens(context);
+  activateCodeLens(context, stateManager, taskResults);
+
+  // Activate Task Diagnostics
+  const diagnosticsCommands = activateTaskDiagnostics(
+    context,
+    workspaceTaskMgr,
+    stateManager
+  );
+
+  // Activate Eval Error Diagnostics
+  activateEvalErrorDiagnostics(context, outputWatcher, server);
 
   // Activate Status Bar
   activateStatusBar(context, inspectManager, scoutManager);
 
   // Activate Log Notification
-  activateLogNotify(context, outputWatcher, settingsMgr, inspectLogviewManager);
+  activateLogNotify(
+    context,
+    outputWatcher,
+    settingsMgr,
+    inspectLogviewManager,
+    server,
+    inspectEvalMgr
+  );
 
   // Activate commands
   [
@@ -203,6 +234,7 @@ export async function activate(context: ExtensionContext) {
     ...stateCommands,
     ...envComands,
     ...taskCommands,
+    ...diagnosticsCommands,
     ...scoutCommands,
   ].forEach((cmd) => commandManager.register(cmd));
   context.subscriptions.push(commandManager);
@@ -220,6 +252,7 @@ export async function activateScout(
   workspaceEnvManager: WorkspaceEnvManager,
   workspaceStateManager: WorkspaceStateManager,
   outputWatcher: OutputWatcher,
+  runHistory: RunHistoryManager,
   _settingsMgr: InspectSettingsManager
 ): Promise<[PackageManager, Command[]]> {
   // Scout Project watches for scout.yml/yaml config files
@@ -270,6 +303,7 @@ export async function activateScout(
   // Activate scan commands
   const scanManagerCommands = activateScoutScanManager(
     workspaceStateManager,
+    runHistory,
     context
   );
 
@@ -0,0 +1,209 @@
+import { readdir, stat } from "fs/promises";
+import { basename, extname, isAbsolute, join } from "path";
+import { fileURLToPath } from "url";
+
+import type { EvalLog, EvalSample, Scores1 } from "../@types/log";
+import {
+  fileZipSource,
+  readZipDirectory,
+  readZipEntry,
+  ZipEntry,
+  ZipSource,
+} from "../core/zip";
+
+// The members of a .eval log (a zip file of JSON documents)
+const kHeaderEntry = "header.json";
+const kJournalStartEntry = "_journal/start.json";
+const kSummariesEntry = "summaries.json";
+const kJournalSummariesDir = "_journal/summaries/";
+
+// Log files are named with the time they were created
+const kLogFilePattern = /^\d{4}-\d{2}-\d{2}T\d{2}[:-]\d{2}[:-]\d{2}/;
+
+// A log file in a local log directory
+export interface EvalLogFile {
+  path: string;
+  // Modification time (in milliseconds)
+  mtime: number;
+  task: string;
+  task_id: string;
+}
+
+// The summary of a sample (as recorded in a .eval log)
+export interface SampleSummary {
+  id: string | number;
+  epoch: number;
+  error?: string | null;
+  model_usage?: Record<string, { total_tokens?: number }>;
+  scores?: Scores1;
+}
+
+/**
+ * Reads the header of a .eval log (without its samples). Logs of running
+ * evals don't have a header yet, so their header is read from the log's
+ * journal (with status "started").
+ */
+export async function readEvalLogHeader(source: ZipSource): Promise<EvalLog> {
+  const entries = await readZipDirectory(source);
+  const header = findEntry(entries, kHeaderEntry);
+  if (header) {
+    return await readJsonEntry<EvalLog>(source, header);
+  }
+  const start = findEntry(entries, kJournalStartEntry);
+  if (start) {
+    return {
+      ...(await readJsonEntry<EvalLog>(source, start)),
+      status: "started",
+    };
+  }
+  throw new Error("Not an eval log (no header)");
+}
+
+/**
+ * Reads a sample from a .eval log (undefined if the log has no such sample).
+ */
+export async function readEvalLogSample(
+  source: ZipSource,
+  id: string | number,
+  epoch: number
+): Promise<EvalSample | undefined> {
+  const entries = await readZipDirectory(source);
+  const sample = findEntry(entries, `samples/${id}_epoch_${epoch}.json`);
+  return sample ? await readJsonEntry<EvalSample>(source, sample) : undefined;
+}
+
+/**
+ * Reads the summaries of the samples written to a .eval log (for a running
+ * eval, the samples which have completed and been written so far).
+ */
+export async function readEvalLogSampleSummaries(
+  source: ZipSource
+): Promise<SampleSummary[]> {
+  return await readSampleSummaries(source, await readZipDirectory(source));
+}
+
+/**
+ * Reads the samples of a .eval log which have errors (at most max samples).
+ */
+export async function readEvalLogErrorSamples(
+  source: ZipSource,
+  max: number
+): Promise<EvalSample[]> {
+  const entries = await readZipDirectory(source);
+  const errors = (await readSampleSummaries(source, entries))
+    .filter((summary) => summary.error)
+    .slice(0, max);
+
+  const samples: EvalSample[] = [];
+  for (const { id, epoch } of errors) {
+    const sample = findEntry(entries, `samples/${id}_epoch_${epoch}.json`);
+    if (sample) {
+      samples.push(await readJsonEntry<EvalSample>(source, sample));
+    }
+  }
+  return samples;
+}
+
+/**
+ * The path of a local .eval log (undefined for remote or .json logs, which
+ * are read using the view server).
+ */
+export function localEvalLogPath(file: string): string | undefined {
+  if (extname(file) !== ".eval") {
+    return undefined;
+  } else if (file.startsWith("file:")) {
+    return fileURLToPath(file);
+  } else if (isAbsolute(file)) {
+    return file;
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the headers of local .eval logs (undefined for logs which aren't
+ * local .eval logs or which can't be read).
+ */
+export async function readLocalEvalLogHeaders(
+  files: string[]
+): Promise<Array<EvalLog | undefined>> {
+  return await Promise.all(
+    files.map(async (file) => {
+      const path = localEvalLogPath(file);
+      if (path) {
+        try {
+          return await readEvalLogHeader(fileZipSource(path));
+        } catch {
+          // read using the view server instead
+        }
+      }
+      return undefined;
+    })
+  );
+}
+
+/**
+ * Lists the log files in a local log directory (and its subdirectories).
+ * The task and task id are read from the log file names.
+ */
+export async function listEvalLogFiles(dir: string): Promise<EvalLogFile[]> {
+  const files: EvalLogFile[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".")) {
+        files.push(...(await listEvalLogFiles(path)));
+      }
+    } else if (entry.isFile() && isEvalLogFile(entry.name)) {
+      const info = await stat(path);
+      files.push({ path, mtime: info.mtimeMs, ...logFileTask(entry.name) });
+    }
+  }
+  return files;
+}
+
+function isEvalLogFile(name: string) {
+  return (
+    [".eval", ".json"].includes(extname(name)) && kLogFilePattern.test(name)
+  );
+}
+
+// The task and task id in a log file name (named
+// <timestamp>_<task>_<task_id>.eval)
+export function logFileTask(name: string): { task: string; task_id: string } {
+  const parts = basename(name, extname(name)).split("_");
+  if (parts.length < 2) {
+    return { task: "", task_id: "" };
+  } else if (parts.length === 2) {
+    return { task: parts[1] || "", task_id: "" };
+  } else {
+    const last = parts[parts.length > 3 ? 3 : 2] || "";
+    return { task: parts[1] || "", task_id: last.split("-")[0] || "" };
+  }
+}
+
+// Completed logs have summaries of their samples (logs of evals which
+// are running or didn't complete have summaries in their journal)
+async function readSampleSummaries(source: ZipSource, entries: ZipEntry[]) {
+  const summaries = findEntry(entries, kSummariesEntry);
+  const summaryEntries = summaries
+    ? [summaries]
+    : entries.filter((entry) => entry.name.startsWith(kJournalSummariesDir));
+  return (
+    await Promise.all(
+      summaryEntries.map((entry) =>
+        readJsonEntry<SampleSummary[]>(source, entry)
+      )
+    )
+  ).flat();
+}
+
+function findEntry(entries: ZipEntry[], name: string) {
+  return entries.find((entry) => entry.name === name);
+}
+
+async function readJsonEntry<T>(source: ZipSource, entry: ZipEntry) {
+  const data = await readZipEntry(source, entry);
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
@@ -0,0 +1,80 @@
+import type { EvalLog, EvalResults } from "../@types/log";
+
+import { errorSummary } from "./eval-traceback";
+import { formatMetricValue } from "./log-summary";
+
+// At most this many metrics are shown in a notification
+const kMaxMetrics = 3;
+
+// How each final log status is counted when several evals complete
+const kCompletedStatus: Record<string, string> = {
+  success: "succeeded",
+  error: "failed",
+  cancelled: "cancelled",
+};
+
+/**
+ * The notification message for a completed eval (falling back to just the
+ * task name when the log header can't be read).
+ */
+export function evalCompleteMessage(task: string, log?: EvalLog): string {
+  if (!log) {
+    return `Eval complete: ${task}`;
+  }
+  task = log.eval.task || task;
+  const samples = formatSamples(log);
+  const details = samples ? ` (${samples})` : "";
+  switch (log.status) {
+    case "error": {
+      const error = log.error ? ` - ${errorSummary(log.error.message)}` : "";
+      return `Eval failed: ${task}${details}${error}`;
+    }
+    case "cancelled":
+      return `Eval cancelled: ${task}${details}`;
+    default: {
+      const metrics = log.results ? formatMetrics(log.results) : "";
+      return `Eval complete: ${task}${metrics ? ` - ${metrics}` : ""}${details}`;
+    }
+  }
+}
+
+/**
+ * The notification message for several evals which completed together
+ * (e.g. the tasks of an eval set). Logs which can't be read (or which have
+ * no final status) are counted as unknown.
+ */
+export function evalsCompleteMessage(logs: Array<EvalLog | undefined>): string {
+  const counts = new Map<string, number>();
+  for (const log of logs) {
+    const status = (log?.status && kCompletedStatus[log.status]) || "unknown";
+    counts.set(status, (counts.get(status) || 0) + 1);
+  }
+  const details = ["succeeded", "failed", "cancelled", "unknown"]
+    .filter((status) => counts.has(status))
+    .map((status) => `${counts.get(status)} ${status}`);
+  return `${logs.length} evals complete: ${details.join(", ")}`;
+}
+
+// The first metric of each scorer (e.g. "accuracy 0.85")
+function formatMetrics(results: EvalResults) {
+  const metrics: string[] = [];
+  for (const score of results.scores) {
+    const metric = Object.entries(score.metrics).find(
+      ([, metric]) => typeof metric?.value === "number"
+    );
+    if (metric) {
+      const [name, { value }] = metric;
+      const label = results.scores.length > 1 ? `${score.name}/${name}` : name;
+      metrics.push(`${label} ${formatMetricValue(value)}`);
+    }
+  }
+  return metrics.slice(0, kMaxMetrics).join(", ");
+}
+
+function formatSamples(log: EvalLog) {
+  const total = log.results?.total_samples;
+  const completed = log.results?.completed_samples;
+  return typeof total === "number" && typeof completed === "number"
+    ? `${completed}/${total} samples`
+    : undefined;
+}
@@ -0,0 +1,124 @@
+import type { EvalLog } from "../@types/log";
+import { formatDuration } from "../core/string";
+
+// A sample in the view server's buffer of pending samples (samples which
+// are running or have completed but haven't been written to the log)
+export interface PendingSample {
+  id: string | number;
+  epoch: number;
+  completed?: boolean;
+  model_usage?: Record<string, { total_tokens?: number }>;
+}
+
+// A sample which has been written to the log
+export type WrittenSample = Omit<PendingSample, "completed">;
+
+// The view server's pending samples for a running eval
+export interface PendingSamples {
+  samples: PendingSample[];
+  refresh?: number;
+  etag?: string;
+}
+
+// The progress of a running eval
+export interface EvalProgress {
+  uri: string;
+  task: string;
+  model: string;
+  // ISO 8601 start time
+  started: string;
+  completed: number;
+  total?: number;
+  tokens: number;
+}
+
+/**
+ * The progress of a running eval (from its log header, the samples written
+ * to the log so far and the pending samples which haven't been written yet).
+ */
+export function evalProgress(
+  uri: string,
+  log: EvalLog,
+  pending?: PendingSamples,
+  written: WrittenSample[] = []
+): EvalProgress {
+  // (samples are removed from the pending samples once they are written,
+  // but they may briefly be in both)
+  const sampleKey = (sample: WrittenSample) => `${sample.id}:${sample.epoch}`;
+  const writtenKeys = new Set(written.map(sampleKey));
+  const samples = [
+    ...written.map((sample) => ({ ...sample, completed: true })),
+    ...(pending?.samples || []).filter(
+      (sample) => !writtenKeys.has(sampleKey(sample))
+    ),
+  ];
+  const progress: EvalProgress = {
+    uri,
+    task: log.eval.task,
+    model: log.eval.model,
+    started: log.stats?.started_at || log.eval.created,
+    completed: samples.filter((sample) => sample.completed).length,
+    tokens: samples.reduce(
+      (total, sample) =>
+        total +
+        Object.values(sample.model_usage || {}).reduce(
+          (tokens, usage) => tokens + (usage.total_tokens || 0),
+          0
+        ),
+      0
+    ),
+  };
+
+  const dataset = log.eval.dataset;
+  const samplesCount = dataset.sample_ids?.length || dataset.samples;
+  if (typeof samplesCount === "number" && samplesCount > 0) {
+    progress.total = samplesCount * (log.eval.config.epochs || 1);
+  }
+  return progress;
+}
+
+/**
+ * Formats the progress of an eval (e.g. 12/50 samples, 3m 10s, 45.2k tokens).
+ */
+export function formatEvalProgress(
+  progress: EvalProgress,
+  now = new Date()
+): string {
+  const parts = [
+    progress.total !== undefined
+      ? `${progress.completed}/${progress.total} samples`
+      : `${progress.completed} ${progress.completed === 1 ? "sample" : "samples"}`,
+  ];
+  const started = Date.parse(progress.started);
+  if (!isNaN(started)) {
+    parts.push(formatDuration(now.getTime() - started));
+  }
+  if (progress.tokens > 0) {
+    parts.push(`${formatTokens(progress.tokens)} tokens`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Summarizes the progress of all running evals (e.g. 2 evals: 34/100 samples).
+ */
+export function summarizeEvalProgress(progress: EvalProgress[]): string {
+  const evals = `${progress.length} ${progress.length === 1 ? "eval" : "evals"}`;
+  const completed = progress.reduce((total, p) => total + p.completed, 0);
+  if (progress.every((p) => p.total !== undefined)) {
+    const total = progress.reduce((total, p) => total + (p.total || 0), 0);
+    return `${evals}: ${completed}/${total} samples`;
+  } else {
+    return `${evals}: ${completed} ${completed === 1 ? "sample" : "samples"}`;
+  }
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  } else if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  } else {
+    return tokens.toString();
+  }
+}
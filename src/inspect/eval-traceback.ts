@@ -0,0 +1,119 @@
+import type { EvalError } from "../@types/log";
+
+// Error messages are truncated to keep them readable
+const kMaxErrorLength = 200;
+
+// At most this many failures are listed in a problem's message
+const kMaxFailures = 3;
+
+// Python traceback frames (prefixed with "|" within exception groups), e.g.
+//   File "/project/tasks/math.py", line 42, in solve
+const kFramePattern = /^[\s|]*File "(.+)", line (\d+)(?:, in (.+))?\s*$/;
+
+// A frame of a Python traceback
+export interface TracebackFrame {
+  file: string;
+  // Line number (1-based)
+  line: number;
+  name?: string;
+}
+
+// An error which occurred within an eval
+export interface EvalFailure {
+  error: EvalError;
+  // What failed (e.g. "math eval failed" or "math sample 3 failed")
+  failure: string;
+}
+
+// A problem at a frame of the traceback of one or more failures
+export interface TracebackProblem {
+  file: string;
+  // Line number (1-based)
+  line: number;
+  message: string;
+  // Whether this is the innermost frame (where the error was raised)
+  innermost: boolean;
+}
+
+/**
+ * Reads the frames of a Python traceback (outermost first). Chained
+ * exceptions and exception groups are read in the order they're printed,
+ * so the last frame is where the final error was raised.
+ */
+export function tracebackFrames(traceback: string): TracebackFrame[] {
+  const frames: TracebackFrame[] = [];
+  for (const line of traceback.split(/\r?\n/)) {
+    const match = line.match(kFramePattern);
+    if (match) {
+      const frame: TracebackFrame = {
+        file: match[1]!,
+        line: Number(match[2]),
+      };
+      if (match[3]) {
+        frame.name = match[3];
+      }
+      frames.push(frame);
+    }
+  }
+  return frames;
+}
+
+/**
+ * The problems for the frames of failures that are in files we can show
+ * them in (e.g. workspace files rather than library code). Failures with
+ * the same error at the same line are reported as a single problem.
+ */
+export function tracebackProblems(
+  failures: EvalFailure[],
+  includeFile: (file: string) => boolean
+): TracebackProblem[] {
+  const problems = new Map<
+    string,
+    Omit<TracebackProblem, "message"> & { error: string; failures: string[] }
+  >();
+  for (const { error, failure } of failures) {
+    const summary = errorSummary(error.message);
+    const frames = tracebackFrames(error.traceback).filter((frame) =>
+      includeFile(frame.file)
+    );
+    frames.forEach((frame, i) => {
+      const innermost = i === frames.length - 1;
+      const key = [frame.file, frame.line, innermost, summary].join(":");
+      const problem = problems.get(key) || {
+        file: frame.file,
+        line: frame.line,
+        innermost,
+        error: summary,
+        failures: [],
+      };
+      if (!problem.failures.includes(failure)) {
+        problem.failures.push(failure);
+      }
+      problems.set(key, problem);
+    });
+  }
+
+  return Array.from(problems.values()).map(
+    ({ error, failures, ...problem }) => {
+      const more = failures.length - kMaxFailures;
+      const failed = failures.slice(0, kMaxFailures).join(", ");
+      const details = more > 0 ? `${failed} and ${more} more` : failed;
+      return {
+        ...problem,
+        message: problem.innermost
+          ? `${error} (${details})`
+          : `${error} (raised from a call here; ${details})`,
+      };
+    }
+  );
+}
+
+/**
+ * The first line of an error message (truncated if it's long).
+ */
+export function errorSummary(message: string) {
+  const line = message.trim().split("\n")[0] || "";
+  return line.length > kMaxErrorLength
+    ? `${line.slice(0, kMaxErrorLength)}...`
+    : line;
+}
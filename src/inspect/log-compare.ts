@@ -0,0 +1,248 @@
+import type { EvalLog, EvalSample, Value1 } from "../@types/log";
+
+// A row comparing a value across logs (undefined where a log has no value)
+export interface ComparedValues<T> {
+  values: Array<T | undefined>;
+  // Whether the values aren't all the same
+  differs: boolean;
+}
+
+export interface SpecComparison extends ComparedValues<string> {
+  field: string;
+}
+
+export interface MetricComparison extends ComparedValues<number> {
+  scorer: string;
+  metric: string;
+  // The change from the first log (for each log)
+  deltas: Array<number | undefined>;
+}
+
+export interface UsageComparison {
+  model: string;
+  input: Array<number | undefined>;
+  output: Array<number | undefined>;
+  total: Array<number | undefined>;
+}
+
+export interface SampleScoreComparison extends ComparedValues<string> {
+  sample: string | number;
+  epoch: number;
+  scorer: string;
+  // The change from the first log (for numeric scores)
+  deltas: Array<number | undefined>;
+}
+
+export interface LogComparison {
+  spec: SpecComparison[];
+  metrics: MetricComparison[];
+  usage: UsageComparison[];
+  // The scores of samples present in every log
+  samples: SampleScoreComparison[];
+  // Whether each log included its samples
+  haveSamples: boolean[];
+}
+
+// The scores of a sample (from the log's samples or its sample summaries)
+export type SampleScores = Pick<EvalSample, "id" | "epoch" | "scores">;
+
+// Spec fields which are shown even when they are the same
+const kKeyFields = ["task", "model", "revision"];
+
+/**
+ * Compares eval logs: the differences between their specs, their metrics
+ * and token usage, and the scores of the samples they have in common. The
+ * sample scores of each log can be passed separately (e.g. when only the
+ * log headers are read), otherwise the logs' samples are used.
+ */
+export function compareLogs(
+  logs: EvalLog[],
+  samples: Array<SampleScores[] | undefined> = logs.map(
+    (log) => log.samples || undefined
+  )
+): LogComparison {
+  return {
+    spec: compareSpecs(logs),
+    metrics: compareMetrics(logs),
+    usage: compareUsage(logs),
+    samples: compareSamples(samples),
+    haveSamples: samples.map((scores) => !!scores && scores.length > 0),
+  };
+}
+
+/**
+ * Formats a score value (numbers are shown with up to 3 decimal places).
+ */
+export function formatScoreValue(
+  value: Value1 | undefined
+): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  } else if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? value.toString()
+      : value.toFixed(3).replace(/\.?0+$/, "");
+  } else if (typeof value === "string") {
+    return value;
+  } else {
+    return JSON.stringify(value);
+  }
+}
+
+function compareSpecs(logs: EvalLog[]): SpecComparison[] {
+  const specs = logs.map(specFields);
+  const fields: string[] = [];
+  for (const spec of specs) {
+    for (const field of spec.keys()) {
+      if (!fields.includes(field)) {
+        fields.push(field);
+      }
+    }
+  }
+  return fields
+    .map((field) => {
+      const values = specs.map((spec) => spec.get(field));
+      return { field, values, differs: differs(values) };
+    })
+    .filter((row) => row.differs || kKeyFields.includes(row.field));
+}
+
+// The fields of an eval spec (flattening args and config)
+function specFields(log: EvalLog): Map<string, string> {
+  const spec = log.eval;
+  const fields = new Map<string, string>();
+  const add = (field: string, value: unknown) => {
+    if (value !== undefined && value !== null) {
+      fields.set(field, formatSpecValue(value));
+    }
+  };
+  const addAll = (prefix: string, values?: object | null) => {
+    for (const [key, value] of Object.entries(values || {})) {
+      add(`${prefix}.${key}`, value);
+    }
+  };
+
+  add("task", spec.task);
+  add("model", spec.model);
+  if (spec.revision) {
+    add("revision", `${spec.revision.origin}@${spec.revision.commit}`);
+  }
+  add("status", log.status);
+  add("dataset", spec.dataset.name);
+  add("dataset.samples", spec.dataset.samples);
+  add("solver", spec.solver);
+  if (spec.tags && spec.tags.length > 0) {
+    add("tags", spec.tags.join(", "));
+  }
+  addAll("task_args", spec.task_args);
+  addAll("solver_args", spec.solver_args);
+  addAll("model_args", spec.model_args);
+  addAll("config", spec.config);
+  addAll("generate_config", spec.model_generate_config);
+  addAll("packages", spec.packages);
+  return fields;
+}
+
+function formatSpecValue(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function compareMetrics(logs: EvalLog[]): MetricComparison[] {
+  const rows = new Map<string, MetricComparison>();
+  logs.forEach((log, index) => {
+    for (const score of log.results?.scores || []) {
+      for (const [metric, value] of Object.entries(score.metrics)) {
+        const key = `${score.name}/${metric}`;
+        const row = rows.get(key) || {
+          scorer: score.name,
+          metric,
+          values: logs.map(() => undefined),
+          deltas: [],
+          differs: false,
+        };
+        if (typeof value?.value === "number") {
+          row.values[index] = value.value;
+        }
+        rows.set(key, row);
+      }
+    }
+  });
+
+  return Array.from(rows.values()).map((row) => ({
+    ...row,
+    deltas: deltas(row.values),
+    differs: differs(row.values),
+  }));
+}
+
+function compareUsage(logs: EvalLog[]): UsageComparison[] {
+  const models = new Set<string>();
+  for (const log of logs) {
+    Object.keys(log.stats?.model_usage || {}).forEach((model) =>
+      models.add(model)
+    );
+  }
+  return Array.from(models).map((model) => {
+    const usage = logs.map((log) => log.stats?.model_usage[model]);
+    return {
+      model,
+      input: usage.map((u) => u?.input_tokens),
+      output: usage.map((u) => u?.output_tokens),
+      total: usage.map((u) => u?.total_tokens),
+    };
+  });
+}
+
+function compareSamples(
+  logSamples: Array<SampleScores[] | undefined>
+): SampleScoreComparison[] {
+  const [first, ...rest] = logSamples.map(
+    (samples) => new Map((samples || []).map((s) => [sampleKey(s), s]))
+  );
+  if (!first || rest.length === 0) {
+    return [];
+  }
+
+  const rows: SampleScoreComparison[] = [];
+  for (const [key, sample] of first) {
+    const samples = [sample, ...rest.map((samples) => samples.get(key))];
+    if (samples.some((s) => s === undefined)) {
+      continue;
+    }
+
+    const scorers = new Set<string>();
+    samples.forEach((s) =>
+      Object.keys(s?.scores || {}).forEach((scorer) => scorers.add(scorer))
+    );
+    for (const scorer of scorers) {
+      const scores = samples.map((s) => s?.scores?.[scorer]?.value);
+      const values = scores.map(formatScoreValue);
+      rows.push({
+        sample: sample.id,
+        epoch: sample.epoch,
+        scorer,
+        values,
+        deltas: deltas(
+          scores.map((score) => (typeof score === "number" ? score : undefined))
+        ),
+        differs: differs(values),
+      });
+    }
+  }
+  return rows;
+}
+
+function sampleKey(sample: SampleScores) {
+  return `${sample.id}#${sample.epoch}`;
+}
+
+function deltas(values: Array<number | undefined>) {
+  const [first] = values;
+  return values.map((value) =>
+    first !== undefined && value !== undefined ? value - first : undefined
+  );
+}
+
+function differs<T>(values: Array<T | undefined>) {
+  return values.some((value) => value !== values[0]);
+}
@@ -0,0 +1,158 @@
+import type { EvalLog } from "../@types/log";
+import { CsvValue, toCsv } from "../core/csv";
+
+import { formatMetricValue } from "./log-summary";
+
+export type LogExportFormat = "csv" | "markdown" | "json";
+
+export const kLogExportFormats: Array<{
+  format: LogExportFormat;
+  label: string;
+  extension: string;
+}> = [
+  { format: "csv", label: "CSV", extension: "csv" },
+  { format: "markdown", label: "Markdown Table", extension: "md" },
+  { format: "json", label: "JSON", extension: "json" },
+];
+
+// The summary of a log which is exported
+export interface LogExportRow {
+  log: string;
+  task: string;
+  model: string;
+  status: string;
+  total_samples?: number;
+  completed_samples?: number;
+  // Metric values keyed by `scorer/metric`
+  metrics: Record<string, number>;
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+  // Duration in seconds
+  duration?: number;
+  revision?: string;
+}
+
+/**
+ * Summarizes an eval log header for export (token usage is the total
+ * across all of the models used).
+ */
+export function logExportRow(uri: string, log: EvalLog): LogExportRow {
+  const row: LogExportRow = {
+    log: uri,
+    task: log.eval.task,
+    model: log.eval.model,
+    status: log.status || "started",
+    metrics: {},
+  };
+  if (log.results) {
+    row.total_samples = log.results.total_samples;
+    row.completed_samples = log.results.completed_samples;
+    for (const score of log.results.scores) {
+      for (const [name, metric] of Object.entries(score.metrics)) {
+        if (typeof metric?.value === "number") {
+          row.metrics[`${score.name}/${name}`] = metric.value;
+        }
+      }
+    }
+  }
+
+  const usage = Object.values(log.stats?.model_usage || {});
+  if (usage.length > 0) {
+    row.input_tokens = sum(usage.map((u) => u.input_tokens));
+    row.output_tokens = sum(usage.map((u) => u.output_tokens));
+    row.total_tokens = sum(usage.map((u) => u.total_tokens));
+  }
+
+  const started = Date.parse(log.stats?.started_at ?? "");
+  const completed = Date.parse(log.stats?.completed_at ?? "");
+  if (!isNaN(started) && !isNaN(completed)) {
+    row.duration = Math.round((completed - started) / 1000);
+  }
+
+  if (log.eval.revision) {
+    row.revision = log.eval.revision.commit;
+  }
+  return row;
+}
+
+/**
+ * Formats exported log summaries (with a column for every metric in any
+ * of the logs).
+ */
+export function formatLogExport(
+  rows: LogExportRow[],
+  format: LogExportFormat
+): string {
+  if (format === "json") {
+    return JSON.stringify(rows, undefined, 2) + "\n";
+  }
+
+  const metrics = Array.from(
+    new Set(rows.flatMap((r) => Object.keys(r.metrics)))
+  );
+  const header = [
+    "log",
+    "task",
+    "model",
+    "status",
+    "total_samples",
+    "completed_samples",
+    ...metrics,
+    "input_tokens",
+    "output_tokens",
+    "total_tokens",
+    "duration",
+    "revision",
+  ];
+  const values = (row: LogExportRow, metric: (value: number) => CsvValue) => [
+    row.log,
+    row.task,
+    row.model,
+    row.status,
+    row.total_samples,
+    row.completed_samples,
+    ...metrics.map((name) => {
+      const value = row.metrics[name];
+      return value === undefined ? undefined : metric(value);
+    }),
+    row.input_tokens,
+    row.output_tokens,
+    row.total_tokens,
+    row.duration,
+    row.revision,
+  ];
+
+  if (format === "csv") {
+    return toCsv(
+      header,
+      rows.map((row) => values(row, (value) => value))
+    );
+  } else {
+    return markdownTable(
+      header,
+      rows.map((row) => values(row, formatMetricValue))
+    );
+  }
+}
+
+function markdownTable(header: string[], rows: CsvValue[][]) {
+  const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+  return [
+    line(header),
+    line(header.map(() => "---")),
+    ...rows.map((row) => line(row.map(markdownCell))),
+  ]
+    .join("\n")
+    .concat("\n");
+}
+
+// Escapes pipes and line breaks (which would end the table cell or row)
+function markdownCell(value: CsvValue) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0);
+}
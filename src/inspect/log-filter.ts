@@ -0,0 +1,205 @@
+import { subDays, subHours, subWeeks } from "date-fns";
+
+// The statuses that logs can be filtered by
+export const kLogFilterStatuses = [
+  "success",
+  "error",
+  "cancelled",
+  "started",
+] as const;
+
+// A filter for the logs in a log listing (values for the same field match
+// any of the values, different fields must all match)
+export interface LogFilter {
+  query: string;
+  // Terms which match the task, model or tags
+  text: string[];
+  task: string[];
+  model: string[];
+  status: string[];
+  tags: string[];
+  after?: Date;
+  before?: Date;
+}
+
+// The log attributes that a filter is matched against (attributes which
+// haven't been read yet don't match any criteria for them)
+export interface FilterableLog {
+  task?: string;
+  model?: string;
+  status?: string;
+  tags?: string[];
+  // ISO 8601 creation time
+  created?: string;
+}
+
+export type LogFilterParseResult =
+  | { filter: LogFilter; error?: undefined }
+  | { filter?: undefined; error: string };
+
+const kTermPattern = /(\w+):(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/g;
+const kDatePattern = /^(\d{4})-(\d{2})-(\d{2})$/;
+const kAgePattern = /^(\d+)([hdw])$/;
+
+/**
+ * Parses a log filter query (e.g. `task:math model:gpt-4o status:error
+ * tag:nightly after:2025-01-01 before:7d`). Terms without a field match the
+ * task, model or tags.
+ */
+export function parseLogFilter(
+  query: string,
+  now = new Date()
+): LogFilterParseResult {
+  const filter: LogFilter = {
+    query: query.trim(),
+    text: [],
+    task: [],
+    model: [],
+    status: [],
+    tags: [],
+  };
+
+  for (const match of query.matchAll(kTermPattern)) {
+    const [, field, quotedValue, fieldValue, quotedText, text] = match;
+    if (field === undefined) {
+      const term = (quotedText ?? text ?? "").trim();
+      if (term) {
+        filter.text.push(term.toLowerCase());
+      }
+      continue;
+    }
+
+    const value = (quotedValue ?? fieldValue ?? "").trim();
+    if (!value) {
+      return { error: `No value provided for '${field}:'.` };
+    }
+    switch (field.toLowerCase()) {
+      case "task":
+        filter.task.push(value.toLowerCase());
+        break;
+      case "model":
+        filter.model.push(value.toLowerCase());
+        break;
+      case "status": {
+        const status = value.toLowerCase();
+        if (!(kLogFilterStatuses as readonly string[]).includes(status)) {
+          return {
+            error: `Unknown status '${value}' (expected ${kLogFilterStatuses.join(", ")}).`,
+          };
+        }
+        filter.status.push(status);
+        break;
+      }
+      case "tag":
+      case "tags":
+        filter.tags.push(value.toLowerCase());
+        break;
+      case "after":
+      case "before": {
+        const date = parseFilterDate(value, now);
+        if (!date) {
+          return {
+            error: `Invalid date '${value}' (expected YYYY-MM-DD or an age like 12h, 7d or 2w).`,
+          };
+        }
+        filter[field.toLowerCase() as "after" | "before"] = date;
+        break;
+      }
+      default:
+        return {
+          error: `Unknown filter '${field}:' (expected task, model, status, tag, after or before).`,
+        };
+    }
+  }
+  return { filter };
+}
+
+/**
+ * Whether a filter has any criteria.
+ */
+export function isEmptyLogFilter(filter: LogFilter) {
+  return (
+    filter.text.length === 0 &&
+    filter.task.length === 0 &&
+    filter.model.length === 0 &&
+    filter.status.length === 0 &&
+    filter.tags.length === 0 &&
+    filter.after === undefined &&
+    filter.before === undefined
+  );
+}
+
+/**
+ * Whether a log matches a filter.
+ */
+export function matchesLogFilter(filter: LogFilter, log: FilterableLog) {
+  const task = log.task?.toLowerCase();
+  const model = log.model?.toLowerCase();
+  const tags = (log.tags || []).map((tag) => tag.toLowerCase());
+
+  const matchesAny = (values: string[], test: (value: string) => boolean) =>
+    values.length === 0 || values.some(test);
+
+  if (
+    !matchesAny(filter.task, (value) => !!task?.includes(value)) ||
+    !matchesAny(filter.model, (value) => !!model?.includes(value)) ||
+    !matchesAny(filter.status, (value) => log.status === value) ||
+    !matchesAny(filter.tags, (value) => tags.includes(value))
+  ) {
+    return false;
+  }
+
+  // All of the free text terms must match something
+  if (
+    !filter.text.every(
+      (term) =>
+        !!task?.includes(term) ||
+        !!model?.includes(term) ||
+        tags.some((tag) => tag.includes(term))
+    )
+  ) {
+    return false;
+  }
+
+  if (filter.after || filter.before) {
+    const created = log.created ? new Date(log.created) : undefined;
+    if (!created || isNaN(created.getTime())) {
+      return false;
+    }
+    if (filter.after && created < filter.after) {
+      return false;
+    }
+    if (filter.before && created >= filter.before) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Parses a date (YYYY-MM-DD, in local time) or an age (e.g. 7d)
+function parseFilterDate(value: string, now: Date): Date | undefined {
+  const date = value.match(kDatePattern);
+  if (date) {
+    const [year, month, day] = date.slice(1).map(Number) as [
+      number,
+      number,
+      number,
+    ];
+    const result = new Date(year, month - 1, day);
+    return result.getMonth() === month - 1 ? result : undefined;
+  }
+
+  const age = value.toLowerCase().match(kAgePattern);
+  if (age) {
+    const amount = Number(age[1]);
+    switch (age[2]) {
+      case "h":
+        return subHours(now, amount);
+      case "d":
+        return subDays(now, amount);
+      case "w":
+        return subWeeks(now, amount);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,140 @@
+import {
+  isSameDay,
+  isSameMonth,
+  isSameWeek,
+  subDays,
+  subMonths,
+} from "date-fns";
+
+// How the logs in a log listing are grouped
+export type LogGroupBy = "directory" | "task" | "model" | "eval-set" | "day";
+
+export const kLogGroupings: Array<{ groupBy: LogGroupBy; label: string }> = [
+  { groupBy: "directory", label: "Directory" },
+  { groupBy: "task", label: "Task" },
+  { groupBy: "model", label: "Model" },
+  { groupBy: "eval-set", label: "Eval Set" },
+  { groupBy: "day", label: "Day" },
+];
+
+// The log attributes used to group logs (attributes which haven't been
+// read yet are grouped as unknown)
+export interface GroupableLog {
+  // The path of the log relative to the log directory
+  path: string;
+  task?: string;
+  model?: string;
+  // ISO 8601 creation time
+  created?: string;
+}
+
+export interface LogGroup<T> {
+  key: string;
+  label: string;
+  logs: T[];
+}
+
+const kDays = [
+  "Today",
+  "Yesterday",
+  "This Week",
+  "This Month",
+  "Last Month",
+  "Older",
+];
+const kUnknown: Record<Exclude<LogGroupBy, "directory">, string> = {
+  task: "Unknown Task",
+  model: "Unknown Model",
+  "eval-set": "No Eval Set",
+  day: "Unknown Date",
+};
+
+/**
+ * Whether grouping logs requires their headers (rather than just the
+ * information in the log listing).
+ */
+export function groupingReadsHeaders(groupBy: LogGroupBy) {
+  return groupBy === "model";
+}
+
+/**
+ * Groups logs (most recent first within each group). Groups are ordered by
+ * name (or by date for days), with unknown values last.
+ *
+ * Eval sets write their logs into their own directory, so logs are grouped
+ * into eval sets by the directory that contains them.
+ */
+export function groupLogs<T>(
+  logs: T[],
+  groupBy: Exclude<LogGroupBy, "directory">,
+  groupable: (log: T) => GroupableLog,
+  now = new Date()
+): LogGroup<T>[] {
+  const groups = new Map<string, LogGroup<T>>();
+  const created = new Map<T, number>();
+  for (const log of logs) {
+    const info = groupable(log);
+    const date = info.created ? new Date(info.created) : undefined;
+    created.set(log, date?.getTime() || 0);
+
+    const label = groupLabel(groupBy, info, date, now);
+    const key = label ?? "";
+    const group = groups.get(key) || {
+      key,
+      label: label ?? kUnknown[groupBy],
+      logs: [],
+    };
+    group.logs.push(log);
+    groups.set(key, group);
+  }
+
+  for (const group of groups.values()) {
+    group.logs.sort((a, b) => (created.get(b) || 0) - (created.get(a) || 0));
+  }
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.key || !b.key) {
+      return a.key ? -1 : b.key ? 1 : 0;
+    } else if (groupBy === "day") {
+      return kDays.indexOf(a.key) - kDays.indexOf(b.key);
+    } else {
+      return a.label.localeCompare(b.label);
+    }
+  });
+}
+
+// The label of the group for a log (undefined if it isn't known)
+function groupLabel(
+  groupBy: Exclude<LogGroupBy, "directory">,
+  log: GroupableLog,
+  date: Date | undefined,
+  now: Date
+): string | undefined {
+  switch (groupBy) {
+    case "task":
+      return log.task || undefined;
+    case "model":
+      return log.model || undefined;
+    case "eval-set": {
+      const separator = log.path.lastIndexOf("/");
+      return separator > 0 ? log.path.slice(0, separator) : undefined;
+    }
+    case "day":
+      return date && !isNaN(date.getTime()) ? dayLabel(date, now) : undefined;
+  }
+}
+
+function dayLabel(date: Date, now: Date) {
+  if (isSameDay(date, now)) {
+    return "Today";
+  } else if (isSameDay(date, subDays(now, 1))) {
+    return "Yesterday";
+  } else if (isSameWeek(date, now)) {
+    return "This Week";
+  } else if (isSameMonth(date, now)) {
+    return "This Month";
+  } else if (isSameMonth(date, subMonths(now, 1))) {
+    return "Last Month";
+  } else {
+    return "Older";
+  }
+}
@@ -0,0 +1,74 @@
+import type { EvalLog, EvalResults } from "../@types/log";
+
+// The headline results of an eval log (small enough to cache for each log)
+export interface LogSummary {
+  uri: string;
+  task: string;
+  taskFile?: string;
+  model: string;
+  status: string;
+  // ISO 8601 creation time
+  created: string;
+  samples?: number;
+  tags?: string[];
+  metric?: { name: string; value: number };
+}
+
+/**
+ * Summarizes an eval log header.
+ */
+export function summarizeLog(uri: string, log: EvalLog): LogSummary {
+  const summary: LogSummary = {
+    uri,
+    task: log.eval.task,
+    model: log.eval.model,
+    status: log.status || "started",
+    created: log.eval.created,
+  };
+  if (log.eval.task_file) {
+    summary.taskFile = log.eval.task_file;
+  }
+  if (log.eval.tags && log.eval.tags.length > 0) {
+    summary.tags = log.eval.tags;
+  }
+  const samples =
+    log.results?.completed_samples ??
+    log.results?.total_samples ??
+    log.eval.dataset.samples;
+  if (typeof samples === "number") {
+    summary.samples = samples;
+  }
+  const metric = log.results ? primaryMetric(log.results) : undefined;
+  if (metric) {
+    summary.metric = metric;
+  }
+  return summary;
+}
+
+/**
+ * The first metric of the first scorer.
+ */
+export function primaryMetric(
+  results: EvalResults
+): { name: string; value: number } | undefined {
+  for (const score of results.scores) {
+    for (const [name, metric] of Object.entries(score.metrics)) {
+      if (typeof metric?.value === "number") {
+        return {
+          name: results.scores.length > 1 ? `${score.name}/${name}` : name,
+          value: metric.value,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a metric value (up to 3 decimal places).
+ */
+export function formatMetricValue(value: number) {
+  return Number.isInteger(value)
+    ? value.toString()
+    : value.toFixed(3).replace(/\.?0+$/, "");
+}
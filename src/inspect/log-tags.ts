@@ -0,0 +1,48 @@
+// An edit of the tags of an eval log (see inspect_ai.log.TagsEdit)
+export interface TagsEdit {
+  type: "tags";
+  tags_add: string[];
+  tags_remove: string[];
+}
+
+/**
+ * Parses a list of tags separated by commas or whitespace.
+ */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(/[\s,]+/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * The tags which every log has (the tags which can be edited in bulk).
+ */
+export function commonTags(logTags: string[][]): string[] {
+  const [first, ...rest] = logTags;
+  return (first || []).filter((tag) =>
+    rest.every((tags) => tags.includes(tag))
+  );
+}
+
+/**
+ * The edit which gives every log the edited common tags (tags which
+ * only some of the logs have are left as they are).
+ */
+export function tagsEdit(
+  logTags: string[][],
+  tags: string[]
+): TagsEdit | undefined {
+  const common = commonTags(logTags);
+  const edit: TagsEdit = {
+    type: "tags",
+    tags_add: tags.filter(
+      (tag) => !logTags.every((logTags) => logTags.includes(tag))
+    ),
+    tags_remove: common.filter((tag) => !tags.includes(tag)),
+  };
+  return edit.tags_add.length > 0 || edit.tags_remove.length > 0
+    ? edit
+    : undefined;
+}
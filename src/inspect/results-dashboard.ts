@@ -0,0 +1,95 @@
+import { toCsv } from "../core/csv";
+
+import { LogSummary } from "./log-summary";
+
+// A result plotted in a chart
+export interface ResultPoint {
+  uri: string;
+  // ISO 8601 creation time
+  created: string;
+  value: number;
+}
+
+export interface ResultSeries {
+  model: string;
+  points: ResultPoint[];
+}
+
+// The results of a task (one series for each model)
+export interface TaskResultsChart {
+  task: string;
+  metric: string;
+  series: ResultSeries[];
+}
+
+/**
+ * The results in a log directory (newest first).
+ */
+export function resultsTable(summaries: LogSummary[]): LogSummary[] {
+  return [...summaries].sort((a, b) => b.created.localeCompare(a.created));
+}
+
+/**
+ * Charts of the primary metric of each task over time (logs without a
+ * metric aren't plotted). Tasks with several metrics get a chart for each.
+ */
+export function resultsCharts(summaries: LogSummary[]): TaskResultsChart[] {
+  const charts = new Map<string, TaskResultsChart>();
+  for (const summary of summaries) {
+    if (!summary.metric) {
+      continue;
+    }
+    const key = `${summary.task}/${summary.metric.name}`;
+    const chart = charts.get(key) || {
+      task: summary.task,
+      metric: summary.metric.name,
+      series: [],
+    };
+    let series = chart.series.find((s) => s.model === summary.model);
+    if (!series) {
+      series = { model: summary.model, points: [] };
+      chart.series.push(series);
+    }
+    series.points.push({
+      uri: summary.uri,
+      created: summary.created,
+      value: summary.metric.value,
+    });
+    charts.set(key, chart);
+  }
+
+  return Array.from(charts.values())
+    .map((chart) => ({
+      ...chart,
+      series: chart.series
+        .map((series) => ({
+          ...series,
+          points: series.points.sort((a, b) =>
+            a.created.localeCompare(b.created)
+          ),
+        }))
+        .sort((a, b) => a.model.localeCompare(b.model)),
+    }))
+    .sort(
+      (a, b) => a.task.localeCompare(b.task) || a.metric.localeCompare(b.metric)
+    );
+}
+
+/**
+ * The results as CSV (newest first).
+ */
+export function resultsCsv(summaries: LogSummary[]): string {
+  return toCsv(
+    ["task", "model", "metric", "value", "samples", "status", "created", "log"],
+    resultsTable(summaries).map((summary) => [
+      summary.task,
+      summary.model,
+      summary.metric?.name,
+      summary.metric?.value,
+      summary.samples,
+      summary.status,
+      summary.created,
+      summary.uri,
+    ])
+  );
+}
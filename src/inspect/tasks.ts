@@ -0,0 +1,62 @@
+import { AbsolutePath } from "../core/path";
+import { runProcessAsync } from "../core/process";
+
+import { inspectBinPath } from "./props";
+
+// A task as reported by `inspect list tasks`
+export interface InspectTaskInfo {
+  file: string;
+  name: string;
+  attribs: Record<string, unknown>;
+}
+
+/**
+ * Lists the tasks that Inspect finds within a directory (or within the
+ * given files). Returns undefined if Inspect isn't available.
+ */
+export async function inspectListTasks(
+  cwd: AbsolutePath,
+  paths?: string[]
+): Promise<InspectTaskInfo[] | undefined> {
+  const inspectBin = inspectBinPath();
+  if (inspectBin) {
+    const output = await runProcessAsync(
+      inspectBin,
+      ["list", "tasks", ...(paths || []), "--json"],
+      cwd
+    );
+    return parseInspectTasks(output);
+  }
+}
+
+/**
+ * Parses the output of `inspect list tasks --json`.
+ */
+export function parseInspectTasks(output: string): InspectTaskInfo[] {
+  const parsed: unknown = JSON.parse(output);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Unexpected output from inspect list tasks");
+  }
+
+  const tasks: InspectTaskInfo[] = [];
+  for (const item of parsed) {
+    if (typeof item !== "object" || item === null) {
+      continue;
+    }
+    const record = item as Record<string, unknown>;
+    const file = record["file"];
+    const name = record["name"];
+    if (typeof file === "string" && typeof name === "string") {
+      const attribs = record["attribs"];
+      tasks.push({
+        file,
+        name,
+        attribs:
+          typeof attribs === "object" && attribs !== null
+            ? (attribs as Record<string, unknown>)
+            : {},
+      });
+    }
+  }
+  return tasks;
+}
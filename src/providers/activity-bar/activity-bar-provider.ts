@@ -7,15 +7,19 @@ import { OutputWatcher } from "../../core/package/output-watcher";
 import { ActiveTaskManager } from "../active-task/active-task-provider";
 import { InspectViewServer } from "../inspect/inspect-view-server";
 import { InspectViewManager } from "../logview/logview-view";
+import { RunHistoryManager } from "../runs/run-history-provider";
 import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
 import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
 import { WorkspaceTaskManager } from "../workspace/workspace-task-provider";
 
+import { activateComponentsView } from "./components-provider";
 import { InspectConfigurationProvider } from "./env-config-inspect-provider";
 import { activateLogListing } from "./log-listing/log-listing-provider";
+import { activateRunsView } from "./runs-provider";
 import {
   DebugConfigTaskCommand,
   RunConfigTaskCommand,
+  RunConfigTaskModelsCommand,
 } from "./task-config-commands";
 import { TaskConfigurationProvider } from "./task-config-provider";
 import { activateTaskOutline } from "./task-outline-provider";
@@ -30,14 +34,17 @@ export async function activateActivityBar(
   workspaceEnvMgr: WorkspaceEnvManager,
   inspectViewServer: InspectViewServer,
   outputWatcher: OutputWatcher,
+  runHistory: RunHistoryManager,
   context: ExtensionContext
 ) {
   start("Log Listing");
-  const [logsCommands, logsDispose] = await activateLogListing(
+  const [logsCommands, taskResults, logsDispose] = await activateLogListing(
     context,
     workspaceEnvMgr,
     inspectViewServer,
-    outputWatcher
+    outputWatcher,
+    runHistory,
+    inspectEvalMgr
   );
   context.subscriptions.push(...logsDispose);
   end("Log Listing");
@@ -49,16 +56,31 @@ export async function activateActivityBar(
     workspaceTaskMgr,
     activeTaskManager,
     inspectManager,
-    inspectLogviewManager
+    inspectLogviewManager,
+    workspaceEnvMgr
   );
   context.subscriptions.push(treeDataProvider);
   end("Task Outline");
 
+  start("Components");
+  const [componentsCommands, componentsDispose] = activateComponentsView(
+    context,
+    workspaceTaskMgr
+  );
+  context.subscriptions.push(componentsDispose);
+  end("Components");
+
+  start("Runs");
+  const [runsCommands, runsDispose] = activateRunsView(context, runHistory);
+  context.subscriptions.push(runsDispose);
+  end("Runs");
+
   const envProvider = new InspectConfigurationProvider(
     context.extensionUri,
     workspaceEnvMgr,
     workspaceStateMgr,
-    inspectManager
+    inspectManager,
+    activeTaskManager
   );
   context.subscriptions.push(
     window.registerWebviewViewProvider(
@@ -80,9 +102,32 @@ export async function activateActivityBar(
     )
   );
   const taskConfigCommands = [
-    new RunConfigTaskCommand(activeTaskManager, inspectEvalMgr),
-    new DebugConfigTaskCommand(activeTaskManager, inspectEvalMgr),
+    new RunConfigTaskCommand(
+      activeTaskManager,
+      inspectEvalMgr,
+      workspaceStateMgr
+    ),
+    new DebugConfigTaskCommand(
+      activeTaskManager,
+      inspectEvalMgr,
+      workspaceStateMgr
+    ),
+    new RunConfigTaskModelsCommand(
+      activeTaskManager,
+      inspectEvalMgr,
+      workspaceStateMgr,
+      workspaceEnvMgr
+    ),
   ];
 
-  return [...outlineCommands, ...taskConfigCommands, ...logsCommands];
+  return [
+    [
+      ...outlineCommands,
+      ...componentsCommands,
+      ...taskConfigCommands,
+      ...logsCommands,
+      ...runsCommands,
+    ],
+    taskResults,
+  ] as const;
 }
@@ -0,0 +1,107 @@
+import { extname } from "path";
+
+import { Range, Uri, window, workspace } from "vscode";
+
+import { findComponentUsages } from "../../components/registry-components";
+import { Command } from "../../core/command";
+import { WorkspaceComponentManager } from "../workspace/workspace-component-provider";
+import {
+  TaskPath,
+  WorkspaceTaskManager,
+} from "../workspace/workspace-task-provider";
+
+import { ComponentTreeItem } from "./components-provider";
+
+export class OpenComponentCommand implements Command {
+  async execute(item?: ComponentTreeItem): Promise<void> {
+    if (item?.node.type === "component") {
+      const component = item.node.component;
+      await showLine(component.uri, component.line);
+    }
+  }
+
+  public static readonly id = "inspect.openComponent";
+  public readonly id = OpenComponentCommand.id;
+}
+
+export class FindComponentTasksCommand implements Command {
+  constructor(private readonly workspaceTaskMgr_: WorkspaceTaskManager) {}
+  async execute(item?: ComponentTreeItem): Promise<void> {
+    if (item?.node.type !== "component") {
+      return;
+    }
+    const component = item.node.component;
+
+    // Look for the component in the definitions of the workspace tasks
+    const files = taskFiles(this.workspaceTaskMgr_.getTasks()).filter(
+      (file) => extname(file) === ".py"
+    );
+    const usages = (
+      await Promise.all(
+        files.map(async (file) => {
+          const uri = Uri.file(file);
+          try {
+            const content = new TextDecoder().decode(
+              await workspace.fs.readFile(uri)
+            );
+            return findComponentUsages(content, component.function).map(
+              (usage) => ({ ...usage, uri })
+            );
+          } catch {
+            return [];
+          }
+        })
+      )
+    ).flat();
+
+    if (usages.length === 0) {
+      await window.showInformationMessage(
+        `No tasks in the workspace use ${component.name}.`
+      );
+      return;
+    }
+
+    const selected = await window.showQuickPick(
+      usages.map((usage) => ({
+        label: usage.task,
+        description: workspace.asRelativePath(usage.uri),
+        usage,
+      })),
+      { title: `Tasks Using ${component.name}` }
+    );
+    if (selected) {
+      await showLine(selected.usage.uri, selected.usage.line);
+    }
+  }
+
+  private static readonly id = "inspect.findComponentTasks";
+  public readonly id = FindComponentTasksCommand.id;
+}
+
+export class RefreshComponentsCommand implements Command {
+  constructor(private readonly componentMgr_: WorkspaceComponentManager) {}
+  async execute(): Promise<void> {
+    await this.componentMgr_.refresh();
+  }
+
+  private static readonly id = "inspect.refreshComponents";
+  public readonly id = RefreshComponentsCommand.id;
+}
+
+async function showLine(uri: Uri, line: number) {
+  await window.showTextDocument(uri, {
+    selection: new Range(line, 0, line, 0),
+    preview: false,
+  });
+}
+
+// The paths of the files which contain tasks
+function taskFiles(nodes: TaskPath[]): string[] {
+  return nodes.flatMap((node) =>
+    node.type === "file"
+      ? [node.path]
+      : node.type === "folder"
+        ? taskFiles(node.children || [])
+        : []
+  );
+}
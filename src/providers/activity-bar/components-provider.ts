@@ -0,0 +1,210 @@
+import { basename, dirname } from "path";
+
+import {
+  commands,
+  Disposable,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  MarkdownString,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  window,
+} from "vscode";
+
+import {
+  ComponentKind,
+  kComponentKinds,
+} from "../../components/registry-components";
+import { Command } from "../../core/command";
+import {
+  WorkspaceComponent,
+  WorkspaceComponentManager,
+} from "../workspace/workspace-component-provider";
+import { WorkspaceTaskManager } from "../workspace/workspace-task-provider";
+
+import {
+  FindComponentTasksCommand,
+  OpenComponentCommand,
+  RefreshComponentsCommand,
+} from "./components-commands";
+
+// Activation function for the components view
+export function activateComponentsView(
+  context: ExtensionContext,
+  workspaceTaskMgr: WorkspaceTaskManager
+): [Command[], Disposable] {
+  const componentMgr = new WorkspaceComponentManager();
+  context.subscriptions.push(componentMgr);
+
+  const treeDataProvider = new ComponentsTreeDataProvider(componentMgr);
+  const tree = window.createTreeView(ComponentsTreeDataProvider.viewType, {
+    treeDataProvider,
+    showCollapseAll: true,
+    canSelectMany: false,
+  });
+  context.subscriptions.push(tree);
+
+  // Read the components the first time the view is shown
+  const loadComponents = async () => {
+    if (tree.visible && !componentMgr.isLoaded()) {
+      await componentMgr.refresh();
+    }
+  };
+  context.subscriptions.push(tree.onDidChangeVisibility(loadComponents));
+  void loadComponents();
+
+  return [
+    [
+      new OpenComponentCommand(),
+      new FindComponentTasksCommand(workspaceTaskMgr),
+      new RefreshComponentsCommand(componentMgr),
+    ],
+    treeDataProvider,
+  ];
+}
+
+// A tree item for a component kind, a file, or a component
+export class ComponentTreeItem extends TreeItem {
+  constructor(
+    public readonly node:
+      | { type: "kind"; kind: ComponentKind; components: WorkspaceComponent[] }
+      | { type: "file"; file: string; components: WorkspaceComponent[] }
+      | { type: "component"; component: WorkspaceComponent }
+  ) {
+    super(
+      node.type === "kind"
+        ? kComponentKinds[node.kind]
+        : node.type === "file"
+          ? basename(node.file)
+          : node.component.name,
+      node.type === "component"
+        ? TreeItemCollapsibleState.None
+        : node.type === "kind"
+          ? TreeItemCollapsibleState.Collapsed
+          : TreeItemCollapsibleState.Expanded
+    );
+
+    if (node.type === "kind") {
+      this.id = `kind:${node.kind}`;
+      this.description = String(node.components.length);
+      this.contextValue = "component-kind";
+    } else if (node.type === "file") {
+      this.id = `file:${node.components[0]?.kind}:${node.file}`;
+      this.iconPath = new ThemeIcon("file-code");
+      const dir = dirname(node.file);
+      this.description = dir !== "." ? dir : undefined;
+      this.tooltip = node.file;
+      this.contextValue = "component-file";
+    } else {
+      const component = node.component;
+      this.iconPath = new ThemeIcon(kComponentIcons[component.kind]);
+      if (component.function !== component.name) {
+        this.description = component.function;
+      }
+      this.tooltip = new MarkdownString(
+        `**${component.name}** (${component.kind})\n\n${component.file}:${component.line + 1}`
+      );
+      this.contextValue = "component";
+      this.command = {
+        title: "Go to Definition",
+        command: OpenComponentCommand.id,
+        arguments: [this],
+      };
+    }
+  }
+}
+
+const kComponentIcons: Record<ComponentKind, string> = {
+  solver: "symbol-method",
+  scorer: "symbol-numeric",
+  tool: "tools",
+  agent: "hubot",
+  metric: "graph",
+};
+
+// Data provider for the components view
+export class ComponentsTreeDataProvider
+  implements TreeDataProvider<ComponentTreeItem>, Disposable
+{
+  public static readonly viewType = "inspect_ai.components-view";
+
+  constructor(private readonly componentMgr_: WorkspaceComponentManager) {
+    this.disposables_.push(
+      this.componentMgr_.onComponentsChanged(async () => {
+        this.onDidChangeTreeData_.fire();
+        await commands.executeCommand(
+          "setContext",
+          "inspect_ai.components-view.loaded",
+          true
+        );
+      })
+    );
+  }
+
+  private disposables_: Disposable[] = [];
+  dispose() {
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+
+  private onDidChangeTreeData_ = new EventEmitter<
+    ComponentTreeItem | undefined | null | void
+  >();
+  readonly onDidChangeTreeData: Event<
+    ComponentTreeItem | undefined | null | void
+  > = this.onDidChangeTreeData_.event;
+
+  getTreeItem(element: ComponentTreeItem): TreeItem {
+    return element;
+  }
+
+  getChildren(element?: ComponentTreeItem): Thenable<ComponentTreeItem[]> {
+    if (!element) {
+      // Group the components by kind
+      const components = this.componentMgr_.getComponents();
+      const kinds = Object.keys(kComponentKinds) as ComponentKind[];
+      return Promise.resolve(
+        kinds
+          .map((kind) => ({
+            type: "kind" as const,
+            kind,
+            components: components.filter((c) => c.kind === kind),
+          }))
+          .filter((node) => node.components.length > 0)
+          .map((node) => new ComponentTreeItem(node))
+      );
+    } else if (element.node.type === "kind") {
+      // Group the components by file
+      const files = new Map<string, WorkspaceComponent[]>();
+      for (const component of element.node.components) {
+        files.set(component.file, [
+          ...(files.get(component.file) || []),
+          component,
+        ]);
+      }
+      return Promise.resolve(
+        Array.from(files.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(
+            ([file, components]) =>
+              new ComponentTreeItem({ type: "file", file, components })
+          )
+      );
+    } else if (element.node.type === "file") {
+      return Promise.resolve(
+        [...element.node.components]
+          .sort((a, b) => a.line - b.line)
+          .map(
+            (component) =>
+              new ComponentTreeItem({ type: "component", component })
+          )
+      );
+    } else {
+      return Promise.resolve([]);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Uri, Webview } from "vscode";
 
 import { getNonce } from "../../core/nonce";
 import { PackageManager } from "../../core/package/manager";
+import { ActiveTaskManager } from "../active-task/active-task-provider";
 import { kInspectEnvValues } from "../inspect/inspect-constants";
 import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
 import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
@@ -46,9 +47,12 @@ class InspectConfig implements EnvConfigManager<EnvConfiguration> {
 
     return env;
   }
-  public envToConfig(envManager: WorkspaceEnvManager): EnvConfiguration {
+  public envToConfig(
+    envManager: WorkspaceEnvManager,
+    folder?: Uri
+  ): EnvConfiguration {
     const config: EnvConfiguration = {};
-    const env = envManager.getValues();
+    const env = envManager.getValues(folder);
     const providerModelStr = env[kInspectEnvValues.providerModel];
     if (providerModelStr) {
       const providerModelParts = providerModelStr.split("/");
@@ -132,7 +136,8 @@ export class InspectConfigurationProvider extends EnvConfigurationProvider<EnvCo
     extensionUri: Uri,
     envManager: WorkspaceEnvManager,
     stateManager: WorkspaceStateManager,
-    inspectManager: PackageManager
+    inspectManager: PackageManager,
+    activeTaskManager: ActiveTaskManager
   ) {
     super(
       extensionUri,
@@ -140,6 +145,7 @@ export class InspectConfigurationProvider extends EnvConfigurationProvider<EnvCo
       new InspectConfig(),
       stateManager,
       inspectManager,
+      activeTaskManager,
       "logDir",
       "inspect.logListingUpdate"
     );
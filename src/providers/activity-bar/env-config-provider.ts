@@ -13,7 +13,9 @@ import {
   PackageChangedEvent,
   PackageManager,
 } from "../../core/package/manager";
+import { workspaceFolderFor } from "../../core/workspace";
 import { inspectVersion } from "../../inspect";
+import { ActiveTaskManager } from "../active-task/active-task-provider";
 import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
 import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
 
@@ -43,7 +45,7 @@ export interface EnvConfig {
 export interface EnvConfigManager<T extends EnvConfig> {
   defaultConfig: () => T;
   configToEnv: (config: T) => Record<string, string>;
-  envToConfig: (envMgr: WorkspaceEnvManager) => T;
+  envToConfig: (envMgr: WorkspaceEnvManager, folder?: Uri) => T;
   setConfiguration: (key: string, value: string, state: T) => void;
 }
 
@@ -56,6 +58,7 @@ export class EnvConfigurationProvider<
     private readonly envConfigManager_: EnvConfigManager<T>,
     private readonly stateManager_: WorkspaceStateManager,
     private readonly packageManager_: PackageManager,
+    private readonly activeTaskManager_: ActiveTaskManager,
     private readonly updateListingVar_: string,
     private readonly updateListingCommand_: string
   ) {
@@ -63,6 +66,13 @@ export class EnvConfigurationProvider<
   }
   private env: T;
 
+  // The workspace folder of the active task (whose .env file is edited)
+  private folder_?: Uri;
+  private activeTaskFolder() {
+    const taskInfo = this.activeTaskManager_.getActiveTaskInfo();
+    return taskInfo ? workspaceFolderFor(taskInfo.document).uri : undefined;
+  }
+
   public resolveWebviewView(webviewView: WebviewView) {
     webviewView.webview.options = {
       // Allow scripts in the webview
@@ -120,7 +130,8 @@ export class EnvConfigurationProvider<
 
             // Save the env
             this.envManager_.setValues(
-              this.envConfigManager_.configToEnv(this.env)
+              this.envConfigManager_.configToEnv(this.env),
+              this.folder_
             );
 
             if (updateWebview) {
@@ -154,7 +165,11 @@ export class EnvConfigurationProvider<
 
     const initMsg = async () => {
       // Merge current state
-      this.env = this.envConfigManager_.envToConfig(this.envManager_);
+      this.folder_ = this.activeTaskFolder();
+      this.env = this.envConfigManager_.envToConfig(
+        this.envManager_,
+        this.folder_
+      );
 
       // Send the state over
       await webviewView.webview.postMessage({
@@ -173,8 +188,14 @@ export class EnvConfigurationProvider<
 
     // Update the panel if the environment changes
     this.disposables_.push(
-      this.envManager_.onEnvironmentChanged(async () => {
-        this.env = this.envConfigManager_.envToConfig(this.envManager_);
+      this.envManager_.onEnvironmentChanged(async (e) => {
+        if (e.folder.toString() !== this.folder_?.toString()) {
+          return;
+        }
+        this.env = this.envConfigManager_.envToConfig(
+          this.envManager_,
+          this.folder_
+        );
         await webviewView.webview.postMessage({
           type: kEnvChanged,
           message: {
@@ -184,6 +205,20 @@ export class EnvConfigurationProvider<
       })
     );
 
+    // Reload the panel if the active task moves to another folder
+    this.disposables_.push(
+      this.activeTaskManager_.onActiveTaskChanged(async () => {
+        const folder = this.activeTaskFolder();
+        if (
+          folder !== undefined &&
+          folder.toString() !== this.folder_?.toString() &&
+          inspectVersion() !== null
+        ) {
+          await initMsg();
+        }
+      })
+    );
+
     // If the interpreter changes, refresh the tasks
     this.disposables_.push(
       this.packageManager_.onPackageChanged(async (e: PackageChangedEvent) => {
@@ -256,7 +291,10 @@ export function headHTML(
   `;
 }
 
-export function modelPickerHTML(modelCaption: string = "Model"): string {
+export function modelPickerHTML(
+  modelCaption: string = "Model",
+  includeBaseUrl: boolean = true
+): string {
   const kInspectProviders = [
     "openai",
     "anthropic",
@@ -298,6 +336,11 @@ export function modelPickerHTML(modelCaption: string = "Model"): string {
                       <div id="model-container">  
                         <vscode-text-field placeholder="Model Name" id="model"></vscode-text-field>
                       </div>
+                      ${includeBaseUrl ? baseUrlHTML : ""}
+    `;
+}
+
+const baseUrlHTML = `
                       <div id="show-base-url-container">
                         <vscode-link id="show-base-url"><i class="codicon codicon-ellipsis"></i></vscode-link>
                       </div>
@@ -305,4 +348,3 @@ export function modelPickerHTML(modelCaption: string = "Model"): string {
                         <vscode-text-field placeholder="Model Base Url" id="model-base-url" class="full-width"></vscode-text-field>
                       </div>
     `;
-}
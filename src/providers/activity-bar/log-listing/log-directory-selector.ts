@@ -1,18 +1,21 @@
-import { ExtensionContext } from "vscode";
+import { ExtensionContext, Uri } from "vscode";
 
 import { selectDirectory } from "../../../core/select";
 import { WorkspaceEnvManager } from "../../workspace/workspace-env-provider";
 
 import { LogListingMRU } from "./log-listing-mru";
 
+// Selects a log directory (defaulting to the log directory of the
+// workspace folder containing folder)
 export async function selectLogDirectory(
   context: ExtensionContext,
-  envManager: WorkspaceEnvManager
+  envManager: WorkspaceEnvManager,
+  folder?: Uri
 ) {
   return await selectDirectory(
     "Log Directory",
     "logs",
-    envManager.getDefaultLogDir(),
+    envManager.getDefaultLogDir(folder),
     new LogListingMRU(context)
   );
 }
@@ -0,0 +1,190 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+import { debounce } from "lodash";
+import { Disposable } from "vscode";
+
+import { log } from "../../../core/log";
+import { LruCache } from "../../../core/lru";
+import { LogSummary } from "../../../inspect/log-summary";
+
+// The number of logs kept in the index
+const kMaxIndexEntries = 20000;
+
+// Bump this when the format of the entries changes
+const kIndexVersion = 1;
+
+// Changes are written once they stop for a while (and at least this often
+// while they continue)
+const kWriteDelay = 5000;
+const kMaxWriteDelay = 30000;
+
+// The summary of a completed log's header
+export interface LogHeaderIndexEntry {
+  // The modification time of the log when its header was read
+  mtime: number;
+  status?: string;
+  summary: LogSummary;
+}
+
+interface LogHeaderIndexFile {
+  version: number;
+  // Least recently used first
+  entries: Array<[string, LogHeaderIndexEntry]>;
+}
+
+/**
+ * An index of the headers of completed logs, kept on disk so that it is
+ * shared by every workspace (workspaces which use the same log dir
+ * don't need to read its headers again). Entries are keyed by log URI and
+ * are only used if the log hasn't been modified since its header was read.
+ * Each window merges its changes with the entries written by other windows
+ * when it writes the index.
+ */
+export class LogHeaderIndex implements Disposable {
+  constructor(private readonly file_: string) {
+    this.load();
+  }
+
+  // The entry for a log (if the log hasn't been modified since it was indexed)
+  public get(uri: string, mtime: number): LogHeaderIndexEntry | undefined {
+    const entry = this.entries_.get(uri);
+    if (entry && entry.mtime === mtime) {
+      return entry;
+    } else if (entry) {
+      this.entries_.delete(uri);
+      this.changed(uri, undefined);
+    }
+    return undefined;
+  }
+
+  public set(uri: string, entry: LogHeaderIndexEntry) {
+    this.entries_.set(uri, entry);
+    this.changed(uri, entry);
+  }
+
+  public clear() {
+    this.entries_.clear();
+    this.changes_.clear();
+    this.cleared_ = true;
+    this.writeDebounced_();
+  }
+
+  dispose() {
+    // write any pending changes before the extension is deactivated
+    this.writeDebounced_.cancel();
+    if (this.changes_.size > 0 || this.cleared_) {
+      try {
+        const contents = existsSync(this.file_)
+          ? readFileSync(this.file_, { encoding: "utf-8" })
+          : undefined;
+        this.merge(contents);
+        writeFileSync(this.file_, this.serialize());
+      } catch (error) {
+        log.error(`Error writing log header index: ${String(error)}`);
+      }
+    }
+  }
+
+  private load() {
+    try {
+      if (existsSync(this.file_)) {
+        for (const [uri, entry] of readEntries(
+          readFileSync(this.file_, { encoding: "utf-8" })
+        )) {
+          this.entries_.set(uri, entry);
+        }
+      } else {
+        mkdirSync(dirname(this.file_), { recursive: true });
+      }
+    } catch (error) {
+      log.error(`Error reading log header index: ${String(error)}`);
+    }
+  }
+
+  // Records a change to write (undefined for a removed entry)
+  private changed(uri: string, entry: LogHeaderIndexEntry | undefined) {
+    this.changes_.set(uri, entry);
+    this.writeDebounced_();
+  }
+
+  private readonly writeDebounced_ = debounce(
+    () => {
+      void this.write();
+    },
+    kWriteDelay,
+    { maxWait: kMaxWriteDelay }
+  );
+
+  // Writes the index via a temporary file (so that it is never partially
+  // written), after merging it with the index written by other windows
+  private async write() {
+    const tempFile = `${this.file_}.${process.pid}.tmp`;
+    try {
+      await mkdir(dirname(this.file_), { recursive: true });
+      let contents: string | undefined;
+      try {
+        contents = await readFile(this.file_, { encoding: "utf-8" });
+      } catch {
+        // no index has been written yet
+      }
+      this.merge(contents);
+      await writeFile(tempFile, this.serialize());
+      await rename(tempFile, this.file_);
+    } catch (error) {
+      log.error(`Error writing log header index: ${String(error)}`);
+    }
+  }
+
+  // Merges the changes made since the index was last written with the
+  // index on disk (other windows' entries are kept unless they have been
+  // changed or removed here, or are older than ours)
+  private merge(contents: string | undefined) {
+    const changes = this.changes_;
+    const cleared = this.cleared_;
+    this.changes_ = new Map();
+    this.cleared_ = false;
+
+    const merged = new LruCache<string, LogHeaderIndexEntry>(kMaxIndexEntries);
+    if (contents !== undefined && !cleared) {
+      for (const [uri, entry] of readEntries(contents)) {
+        if (!changes.has(uri)) {
+          merged.set(uri, entry);
+        }
+      }
+    }
+    for (const [uri, entry] of this.entries_.entries()) {
+      const other = merged.peek(uri);
+      if (!other || changes.has(uri) || entry.mtime >= other.mtime) {
+        merged.set(uri, entry);
+      }
+    }
+    this.entries_ = merged;
+  }
+
+  private serialize() {
+    const index: LogHeaderIndexFile = {
+      version: kIndexVersion,
+      entries: this.entries_.entries(),
+    };
+    return JSON.stringify(index);
+  }
+
+  private entries_ = new LruCache<string, LogHeaderIndexEntry>(
+    kMaxIndexEntries
+  );
+  private changes_ = new Map<string, LogHeaderIndexEntry | undefined>();
+  private cleared_ = false;
+}
+
+// The entries of an index file (none if it's unreadable or an older version)
+function readEntries(contents: string): Array<[string, LogHeaderIndexEntry]> {
+  try {
+    const index = JSON.parse(contents) as LogHeaderIndexFile;
+    return index.version === kIndexVersion ? index.entries : [];
+  } catch (error) {
+    log.error(`Error reading log header index: ${String(error)}`);
+    return [];
+  }
+}
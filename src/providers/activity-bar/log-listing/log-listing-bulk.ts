@@ -0,0 +1,294 @@
+import { userInfo } from "os";
+
+import { env, ProgressLocation, Uri, window, workspace } from "vscode";
+
+import { activeWorkspacePath } from "../../../core/path";
+import { runPythonAsync } from "../../../core/python/exec";
+import { prettyUriPath, uriCommandArg } from "../../../core/uri";
+import { commonTags, parseTags, tagsEdit } from "../../../inspect/log-tags";
+import { readLogHeaders } from "../../inspect/inspect-log-headers";
+import { InspectViewServer } from "../../inspect/inspect-view-server";
+
+// Streams a file between fsspec locations (for remote logs which VS Code
+// can't read or write). The target is only replaced if the third argument
+// is "overwrite".
+const kCopyLogScript = `
+import shutil, sys
+import fsspec
+from fsspec.core import url_to_fs
+fs, path = url_to_fs(sys.argv[2])
+if sys.argv[3] != "overwrite" and fs.exists(path):
+    sys.exit(f"{sys.argv[2]} already exists")
+with fsspec.open(sys.argv[1], "rb") as src, fsspec.open(sys.argv[2], "wb") as dst:
+    shutil.copyfileobj(src, dst)
+`;
+
+/**
+ * Deletes log files (after confirming). Returns whether any were deleted.
+ */
+export async function deleteLogs(
+  server: InspectViewServer,
+  logs: Uri[]
+): Promise<boolean> {
+  const result = await window.showInformationMessage(
+    logs.length === 1 ? "Delete Log File" : `Delete ${logs.length} Log Files`,
+    {
+      modal: true,
+      detail:
+        logs.length === 1
+          ? `Are you sure you want to delete the log file at ${prettyUriPath(logs[0]!)}?`
+          : `Are you sure you want to delete these log files?\n\n${describeLogs(logs)}`,
+    },
+    { title: "Delete", isCloseAffordance: false },
+    { title: "Cancel", isCloseAffordance: true }
+  );
+  if (result?.title !== "Delete") {
+    return false;
+  }
+
+  const completed = await forEachLog("Deleting logs", logs, async (log) => {
+    await server.evalLogDelete(log.toString());
+  });
+  return completed > 0;
+}
+
+/**
+ * Copies (or moves) log files to another log directory. Logs are copied
+ * using VS Code when it can access both locations (otherwise they are
+ * streamed with fsspec, e.g. for S3). Logs which already exist in the
+ * directory are only replaced after confirming. Returns whether any were
+ * copied.
+ */
+export async function copyLogs(
+  server: InspectViewServer,
+  logs: Uri[],
+  logDir: Uri,
+  move: boolean
+): Promise<boolean> {
+  const verb = move ? "Move" : "Copy";
+  let transfers = logs
+    .map((log) => ({
+      source: log,
+      target: Uri.joinPath(logDir, log.path.split("/").pop() || ""),
+    }))
+    .filter(({ source, target }) => source.toString() !== target.toString());
+  if (transfers.length === 0) {
+    await window.showInformationMessage(
+      `The logs are already in ${prettyUriPath(logDir)}.`
+    );
+    return false;
+  }
+
+  // Confirm moves (and copies which would replace existing logs)
+  const existing = await existingTargets(
+    server,
+    transfers.map((t) => t.target)
+  );
+  if (move || existing.length > 0) {
+    const details = [
+      ...(move
+        ? [
+            `Are you sure you want to move these log files to ${prettyUriPath(logDir)}?\n\n${describeLogs(transfers.map((t) => t.source))}`,
+          ]
+        : []),
+      ...(existing.length > 0
+        ? [
+            `${existing.length === 1 ? "This log file already exists" : "These log files already exist"} in ${prettyUriPath(logDir)} and will be replaced:\n\n${describeLogs(existing)}`,
+          ]
+        : []),
+    ];
+    const kSkipExisting = "Skip Existing";
+    const result = await window.showInformationMessage(
+      `${verb} ${transfers.length} ${transfers.length === 1 ? "Log File" : "Log Files"}`,
+      { modal: true, detail: details.join("\n\n") },
+      { title: verb, isCloseAffordance: false },
+      ...(existing.length > 0 && existing.length < transfers.length
+        ? [{ title: kSkipExisting, isCloseAffordance: false }]
+        : []),
+      { title: "Cancel", isCloseAffordance: true }
+    );
+    if (result?.title === kSkipExisting) {
+      const skipped = new Set(existing.map((uri) => uri.toString()));
+      transfers = transfers.filter((t) => !skipped.has(t.target.toString()));
+    } else if (result?.title !== verb) {
+      return false;
+    }
+  }
+
+  // (only the existing logs confirmed above are replaced)
+  const replace = new Set(existing.map((uri) => uri.toString()));
+  const targets = new Map(transfers.map((t) => [t.source, t.target]));
+  const completed = await forEachLog(
+    `${move ? "Moving" : "Copying"} logs to ${prettyUriPath(logDir)}`,
+    transfers.map((t) => t.source),
+    async (log) => {
+      const target = targets.get(log)!;
+      await copyLog(log, target, replace.has(target.toString()));
+      if (move) {
+        await server.evalLogDelete(log.toString());
+      }
+    }
+  );
+  return completed > 0;
+}
+
+/**
+ * Edits the tags of log files (the tags that all of the logs have are
+ * shown for editing). Returns whether any logs were edited.
+ */
+export async function editLogTags(
+  server: InspectViewServer,
+  logs: Uri[]
+): Promise<boolean> {
+  const headers = await readLogHeaders(
+    server,
+    logs.map((log) => log.toString())
+  );
+  if (headers === undefined) {
+    return false;
+  }
+  const logTags = headers.map((header) => header?.eval.tags || []);
+  const current = commonTags(logTags);
+
+  const input = await window.showInputBox({
+    title: logs.length === 1 ? "Edit Tags" : `Edit Tags of ${logs.length} Logs`,
+    prompt:
+      logs.length === 1
+        ? "Tags (separated by commas)"
+        : "Tags for all of the logs (separated by commas). Tags only some of the logs have aren't changed.",
+    value: current.join(", "),
+  });
+  if (input === undefined) {
+    return false;
+  }
+  const edit = tagsEdit(logTags, parseTags(input));
+  if (!edit) {
+    return false;
+  }
+
+  const update = {
+    edits: [edit],
+    provenance: {
+      author: await editAuthor(server),
+      reason: "Edited tags in VS Code",
+      timestamp: new Date().toISOString(),
+    },
+  };
+  const completed = await forEachLog("Editing log tags", logs, async (log) => {
+    await server.editLog(log.toString(), update);
+  });
+  return completed > 0;
+}
+
+/**
+ * Copies the paths of log files to the clipboard (one per line).
+ */
+export async function copyLogPaths(logs: Uri[]) {
+  await env.clipboard.writeText(logs.map(prettyUriPath).join("\n"));
+}
+
+// The targets which already exist (checked using VS Code when it can access
+// them, otherwise using the view server)
+async function existingTargets(server: InspectViewServer, targets: Uri[]) {
+  const exists = await Promise.all(
+    targets.map(async (target) => {
+      try {
+        if (canAccess(target)) {
+          await workspace.fs.stat(target);
+        } else {
+          await server.evalLogSize(target.toString());
+        }
+        return true;
+      } catch {
+        return false;
+      }
+    })
+  );
+  return targets.filter((_target, index) => exists[index]);
+}
+
+// (isWritableFileSystem is undefined for schemes VS Code can't access)
+function canAccess(uri: Uri) {
+  return workspace.fs.isWritableFileSystem(uri.scheme) !== undefined;
+}
+
+async function copyLog(source: Uri, target: Uri, overwrite: boolean) {
+  if (canAccess(source) && workspace.fs.isWritableFileSystem(target.scheme)) {
+    await workspace.fs.copy(source, target, { overwrite });
+  } else {
+    await runPythonAsync(
+      [
+        "-c",
+        kCopyLogScript,
+        uriCommandArg(source),
+        uriCommandArg(target),
+        overwrite ? "overwrite" : "",
+      ],
+      activeWorkspacePath()
+    );
+  }
+}
+
+// Runs an operation on each log (with progress), reporting any failures.
+// Returns the number of logs the operation completed for.
+async function forEachLog(
+  title: string,
+  logs: Uri[],
+  operation: (log: Uri) => Promise<void>
+): Promise<number> {
+  const failures: Array<{ log: Uri; error: unknown }> = [];
+  const completed = await window.withProgress(
+    { location: ProgressLocation.Notification, title, cancellable: true },
+    async (progress, token) => {
+      let completed = 0;
+      for (const log of logs) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        progress.report({
+          message: `${completed + failures.length + 1} of ${logs.length}`,
+          increment: 100 / logs.length,
+        });
+        try {
+          await operation(log);
+          completed++;
+        } catch (error) {
+          failures.push({ log, error });
+        }
+      }
+      return completed;
+    }
+  );
+
+  const [first] = failures;
+  if (first) {
+    const message =
+      first.error instanceof Error ? first.error.message : String(first.error);
+    await window.showErrorMessage(
+      `${title} failed for ${failures.length} of ${logs.length} ${logs.length === 1 ? "log" : "logs"} (${prettyUriPath(first.log)}: ${message})`
+    );
+  }
+  return completed;
+}
+
+// The user editing logs (as reported by the view server, or the OS login)
+async function editAuthor(server: InspectViewServer) {
+  try {
+    const info = JSON.parse(await server.getUserInfo()) as { name?: unknown };
+    if (typeof info.name === "string" && info.name.length > 0) {
+      return info.name;
+    }
+  } catch {
+    // fall back to the OS login
+  }
+  return userInfo().username;
+}
+
+// A list of log paths for confirmation dialogs (truncated for many logs)
+function describeLogs(logs: Uri[], max = 10) {
+  const lines = logs.slice(0, max).map(prettyUriPath);
+  if (logs.length > max) {
+    lines.push(`(and ${logs.length - max} more)`);
+  }
+  return lines.join("\n");
+}
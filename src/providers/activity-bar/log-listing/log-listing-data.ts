@@ -1,17 +1,38 @@
 import * as path from "path";
 
+import { throttle } from "lodash";
 import { TreeItem, TreeItemCollapsibleState } from "vscode";
 import * as vscode from "vscode";
 
 import { EvalLog } from "../../../@types/log";
+import { formatEvalProgress } from "../../../inspect/eval-progress";
+import {
+  FilterableLog,
+  LogFilter,
+  matchesLogFilter,
+} from "../../../inspect/log-filter";
+import {
+  groupingReadsHeaders,
+  groupLogs,
+  LogGroupBy,
+} from "../../../inspect/log-groups";
+import { LogSummary } from "../../../inspect/log-summary";
 import { InspectViewServer } from "../../inspect/inspect-view-server";
 
+import { LogHeaderIndex } from "./log-header-index";
 import {
+  describeLogDir,
   formatPrettyDateTime,
   LogListingTreeDataProvider,
   LogNode,
+  LogNodeListing,
+  WorkspaceLogListing,
 } from "./log-listing";
-import { evalSummary } from "./log-listing-server-queue";
+import { EvalProgressMonitor } from "./log-listing-progress";
+import {
+  evalSummary,
+  LogElementQueueProcessor,
+} from "./log-listing-server-queue";
 
 export class LogTreeDataProvider extends LogListingTreeDataProvider {
   public static readonly viewType = "inspect_ai.logs-view";
@@ -21,9 +42,147 @@ export class LogTreeDataProvider extends LogListingTreeDataProvider {
     private viewServer_: InspectViewServer
   ) {
     super();
+    // headers of completed logs are indexed on disk (shared by workspaces)
+    const index = new LogHeaderIndex(
+      path.join(this.context_.globalStorageUri.fsPath, "log-header-index.json")
+    );
+    this.disposables_.push(index);
+    this.queueProcessor_ = new LogElementQueueProcessor(
+      this.viewServer_,
+      () => this.logListing_,
+      this.context_,
+      (element) => {
+        this.elementUpdated(element);
+      },
+      index
+    );
+
+    // re-filter (or re-group) the tree as log headers are read
+    const rerenderWithHeaders = throttle(
+      () => {
+        if (this.readsHeaders()) {
+          this.rerender();
+        }
+      },
+      1000,
+      { leading: false, trailing: true }
+    );
+    // show the progress of running evals (and refresh when they finish)
+    this.progress_ = new EvalProgressMonitor(this.viewServer_);
+    this.disposables_.push(
+      this.progress_,
+      this.progress_.onDidChangeProgress((uris) => {
+        for (const uri of uris) {
+          const node = this.logListing_?.nodeForUri(vscode.Uri.parse(uri));
+          if (node) {
+            this.elementUpdated(node);
+          }
+        }
+      }),
+      this.progress_.onDidFinish(() => {
+        this.refresh();
+      })
+    );
+
+    this.disposables_.push(
+      this.queueProcessor_.onLogSummary((summary) => {
+        this.summaries_.set(summary.uri, summary);
+        this.progress_.track(summary);
+        if (this.readsHeaders()) {
+          rerenderWithHeaders();
+        }
+      }),
+      this.onDidRefresh(() => {
+        this.summaries_.clear();
+        this.progress_.reset();
+      })
+    );
+  }
+
+  // The filter applied to the logs (if any)
+  public get filter(): LogFilter | undefined {
+    return this.filter_;
+  }
+
+  public setFilter(filter?: LogFilter) {
+    this.filter_ = filter;
+    this.rerender();
+  }
+
+  // The progress of running evals
+  public get progress(): EvalProgressMonitor {
+    return this.progress_;
+  }
+
+  // How the logs are grouped
+  public get groupBy(): LogGroupBy {
+    return this.groupBy_;
+  }
+
+  public setGroupBy(groupBy: LogGroupBy) {
+    this.groupBy_ = groupBy;
+    this.groupParents_ = new WeakMap();
+    this.rerender();
+  }
+
+  override async getChildren(element?: LogNode): Promise<LogNode[]> {
+    const listing = this.logListing_;
+    if (!listing) {
+      return [];
+    }
+
+    // the filter (and some groupings) use the log headers, so read them all
+    if (!element && this.readsHeaders()) {
+      this.requestSummaries(await listing.files());
+    }
+
+    const children = await this.listChildren(listing, element);
+    const filter = this.filter_;
+    return filter
+      ? children.filter((node) => this.matchesFilter(filter, node))
+      : children;
+  }
+
+  override getParent(element: LogNode): LogNode | undefined {
+    return this.groupParents_.get(element) ?? element.parent;
   }
 
   getTreeItem(element: LogNode): TreeItem {
+    // a group of logs
+    const groupId = this.groups_.get(element);
+    if (groupId && element.type === "dir") {
+      const filter = this.filter_;
+      const count = filter
+        ? element.children.filter((child) => this.matchesFilter(filter, child))
+            .length
+        : element.children.length;
+      return {
+        id: groupId,
+        iconPath: element.iconPath,
+        label: element.name,
+        description: `${count} ${count === 1 ? "log" : "logs"}`,
+        collapsibleState: TreeItemCollapsibleState.Collapsed,
+        contextValue: "log-group",
+      };
+    }
+
+    // the log directory of a workspace folder
+    if (
+      this.logListing_ instanceof WorkspaceLogListing &&
+      this.logListing_.isFolderNode(element)
+    ) {
+      const logDir = this.logListing_.uriForNode(element);
+      return {
+        id: `folder:${logDir.toString()}`,
+        iconPath: element.iconPath,
+        label: element.name,
+        description: describeLogDir(logDir),
+        tooltip: element.tooltip,
+        collapsibleState: TreeItemCollapsibleState.Expanded,
+        contextValue: "workspace-folder",
+      };
+    }
+
     // determine some context value attributes
     const contextValue: string[] = [element.type];
     contextValue.push(
@@ -32,6 +191,15 @@ export class LogTreeDataProvider extends LogListingTreeDataProvider {
         : "remote"
     );
     contextValue.push(element.name.endsWith(".eval") ? "eval" : "json");
+    if (element.type === "file" && element.status === "started") {
+      contextValue.push("running");
+    }
+
+    // read the log header (for status and summary) in the background
+    if (element.type === "file" && !this.enqueued_.has(element)) {
+      this.enqueued_.add(element);
+      this.queueProcessor_.enqueueElement(element);
+    }
 
     const uri = this.logListing_?.uriForNode(element);
 
@@ -68,6 +236,14 @@ export class LogTreeDataProvider extends LogListingTreeDataProvider {
       } catch {
         treeItem.description = String(element.name.split("/").pop()!);
       }
+
+      // show the progress of running evals
+      const progress = uri
+        ? this.progress_.progress(uri.toString())
+        : undefined;
+      if (progress && element.status === "started") {
+        treeItem.description = formatEvalProgress(progress);
+      }
     }
 
     // open files in the editor
@@ -100,8 +276,150 @@ export class LogTreeDataProvider extends LogListingTreeDataProvider {
     }
     return Promise.resolve(item);
   }
+
+  // Fired with the summary of each log header that is read
+  public get onLogSummary() {
+    return this.queueProcessor_.onLogSummary;
+  }
+
+  // The summary of a log (if its header has been read)
+  public logSummary(uri: string, mtime: number): LogSummary | undefined {
+    return (
+      this.summaries_.get(uri) || this.queueProcessor_.cachedSummary(uri, mtime)
+    );
+  }
+
+  // Reads the headers for log files (if they haven't already been read)
+  public requestSummaries(nodes: LogNode[]) {
+    for (const node of nodes) {
+      if (node.type === "file" && !this.enqueued_.has(node)) {
+        this.enqueued_.add(node);
+        this.queueProcessor_.enqueueElement(node);
+      }
+    }
+  }
+
+  override dispose() {
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+
+  private readsHeaders() {
+    return !!this.filter_ || groupingReadsHeaders(this.groupBy_);
+  }
+
+  // The children of a node (grouping the logs unless they are listed by
+  // directory)
+  private async listChildren(
+    listing: LogNodeListing,
+    element?: LogNode
+  ): Promise<LogNode[]> {
+    const groupBy = this.groupBy_;
+    if (groupBy === "directory") {
+      return super.getChildren(element);
+    } else if (element && this.groups_.has(element)) {
+      return element.type === "dir" ? element.children : [];
+    } else if (listing instanceof WorkspaceLogListing) {
+      // group the logs beneath each workspace folder
+      const children = await super.getChildren(element);
+      return element && listing.isFolderNode(element)
+        ? this.groupNodes(groupBy, logFiles(children), element)
+        : children;
+    } else if (!element) {
+      return this.groupNodes(groupBy, await listing.files());
+    } else {
+      return [];
+    }
+  }
+
+  private groupNodes(
+    groupBy: Exclude<LogGroupBy, "directory">,
+    files: LogNode[],
+    parent?: LogNode
+  ): LogNode[] {
+    const parentId = parent
+      ? this.logListing_?.uriForNode(parent).toString()
+      : "";
+    const groups = groupLogs(files, groupBy, (file) => ({
+      ...(file.type === "file" ? this.filterableLog(file) : {}),
+      path: file.name,
+    }));
+    return groups.map((group) => {
+      const node: LogNode = {
+        type: "dir",
+        name: group.label,
+        children: group.logs,
+        iconPath: new vscode.ThemeIcon(kGroupIcons[groupBy]),
+        parent,
+      };
+      this.groups_.set(node, `group:${groupBy}:${parentId}:${group.key}`);
+      group.logs.forEach((log) => {
+        this.groupParents_.set(log, node);
+      });
+      return node;
+    });
+  }
+
+  // Directories match if any of their logs match (workspace folders
+  // are always shown)
+  private matchesFilter(filter: LogFilter, node: LogNode): boolean {
+    if (
+      this.logListing_ instanceof WorkspaceLogListing &&
+      this.logListing_.isFolderNode(node)
+    ) {
+      return true;
+    } else if (node.type === "dir") {
+      return node.children.some((child) => this.matchesFilter(filter, child));
+    } else {
+      return matchesLogFilter(filter, this.filterableLog(node));
+    }
+  }
+
+  // The header of a log if it has been read (otherwise what we know
+  // from the listing)
+  private filterableLog(node: LogNode & { type: "file" }): FilterableLog {
+    const uri = this.logListing_?.uriForNode(node).toString();
+    const summary = uri ? this.logSummary(uri, node.mtime) : undefined;
+    if (summary) {
+      return summary;
+    }
+
+    const log: FilterableLog = {
+      task: node.display_name,
+      status: node.status,
+    };
+    try {
+      log.created = parseLogDate(node.name.split("/").pop()!).toISOString();
+    } catch {
+      // no date in the log name
+    }
+    return log;
+  }
+
+  private readonly queueProcessor_: LogElementQueueProcessor;
+  private readonly progress_: EvalProgressMonitor;
+  private readonly enqueued_ = new WeakSet<LogNode>();
+  private readonly summaries_ = new Map<string, LogSummary>();
+  private readonly disposables_: vscode.Disposable[] = [];
+  private readonly groups_ = new WeakMap<LogNode, string>();
+  private groupParents_ = new WeakMap<LogNode, LogNode>();
+  private groupBy_: LogGroupBy = "directory";
+  private filter_?: LogFilter;
 }
 
+const kGroupIcons: Record<Exclude<LogGroupBy, "directory">, string> = {
+  task: "beaker",
+  model: "hubot",
+  "eval-set": "folder-library",
+  day: "calendar",
+};
+
+const logFiles = (nodes: LogNode[]): LogNode[] =>
+  nodes.flatMap((node) =>
+    node.type === "file" ? [node] : logFiles(node.children)
+  );
+
 function parseLogDate(logName: string) {
   // Take only first bit
   const logDate = logName.split("_")[0] ?? "";
@@ -0,0 +1,229 @@
+import * as vscode from "vscode";
+
+import { EvalLog } from "../../../@types/log";
+import { log } from "../../../core/log";
+import { fileZipSource } from "../../../core/zip";
+import {
+  localEvalLogPath,
+  readEvalLogSampleSummaries,
+} from "../../../inspect/eval-log-reader";
+import {
+  EvalProgress,
+  evalProgress,
+  formatEvalProgress,
+  PendingSamples,
+  summarizeEvalProgress,
+} from "../../../inspect/eval-progress";
+import { LogSummary } from "../../../inspect/log-summary";
+import {
+  kNotFoundSignal,
+  kNotModifiedSignal,
+} from "../../inspect/inspect-view-server";
+
+// How often running logs are polled for progress
+const kPollInterval = 5000;
+
+/**
+ * Polls the logs of running evals (logs whose status is "started") for
+ * their progress, until they finish.
+ */
+export class EvalProgressMonitor implements vscode.Disposable {
+  constructor(
+    private readonly viewServer_: {
+      evalLogHeaders: (uris: string[]) => Promise<string | undefined>;
+      evalLogPendingSamples: (
+        log_file: string,
+        etag?: string
+      ) => Promise<string | undefined>;
+    }
+  ) {}
+
+  // Fired with the logs whose progress was updated
+  private readonly onDidChangeProgress_ = new vscode.EventEmitter<string[]>();
+  public readonly onDidChangeProgress = this.onDidChangeProgress_.event;
+
+  // Fired with the logs whose evals have finished
+  private readonly onDidFinish_ = new vscode.EventEmitter<string[]>();
+  public readonly onDidFinish = this.onDidFinish_.event;
+
+  // Tracks the log of a running eval (or stops tracking a finished one)
+  public track(summary: LogSummary) {
+    if (summary.status === "started") {
+      if (!this.running_.has(summary.uri)) {
+        this.running_.set(summary.uri, {});
+        this.schedulePoll();
+      }
+    } else if (this.running_.delete(summary.uri)) {
+      this.progress_.delete(summary.uri);
+      this.onDidChangeProgress_.fire([summary.uri]);
+    }
+  }
+
+  // Stops tracking all of the running evals (e.g. when the logs are listed
+  // again, as the running logs are tracked again as they are read)
+  public reset() {
+    const uris = Array.from(this.running_.keys());
+    this.running_.clear();
+    this.progress_.clear();
+    if (uris.length > 0) {
+      this.onDidChangeProgress_.fire(uris);
+    }
+  }
+
+  // The progress of a running eval (once it has been polled)
+  public progress(uri: string): EvalProgress | undefined {
+    return this.progress_.get(uri);
+  }
+
+  // The progress of all of the running evals
+  public runningEvals(): EvalProgress[] {
+    return Array.from(this.progress_.values());
+  }
+
+  dispose() {
+    if (this.pollTimeout_) {
+      clearTimeout(this.pollTimeout_);
+      this.pollTimeout_ = undefined;
+    }
+    this.running_.clear();
+    this.onDidChangeProgress_.dispose();
+    this.onDidFinish_.dispose();
+  }
+
+  private schedulePoll() {
+    if (!this.pollTimeout_ && this.running_.size > 0) {
+      this.pollTimeout_ = setTimeout(() => {
+        void this.poll();
+      }, kPollInterval);
+    }
+  }
+
+  private async poll() {
+    const uris = Array.from(this.running_.keys());
+    try {
+      const headers = await this.viewServer_.evalLogHeaders(uris);
+      const logs = headers ? (JSON.parse(headers) as EvalLog[]) : [];
+      const changed: string[] = [];
+      const finished: string[] = [];
+      for (let i = 0; i < uris.length; i++) {
+        const uri = uris[i];
+        const evalLog = logs[i];
+        const state = uri ? this.running_.get(uri) : undefined;
+        if (!uri || !state) {
+          continue;
+        }
+        if (evalLog?.version !== 2) {
+          // stop polling logs whose header can't be read (they are tracked
+          // again if they are read when the logs are next listed)
+          this.running_.delete(uri);
+          this.progress_.delete(uri);
+        } else if (evalLog.status !== "started") {
+          this.running_.delete(uri);
+          this.progress_.delete(uri);
+          finished.push(uri);
+        } else {
+          const pending = await this.pendingSamples(uri, state);
+          const written = await writtenSamples(uri);
+          if (this.running_.get(uri) !== state) {
+            // (tracking was reset while reading the samples)
+            continue;
+          }
+          this.progress_.set(uri, evalProgress(uri, evalLog, pending, written));
+        }
+        changed.push(uri);
+      }
+      if (changed.length > 0) {
+        this.onDidChangeProgress_.fire(changed);
+      }
+      if (finished.length > 0) {
+        this.onDidFinish_.fire(finished);
+      }
+    } catch (error) {
+      log.error(`Error polling running evals: ${String(error)}`);
+    } finally {
+      this.pollTimeout_ = undefined;
+      this.schedulePoll();
+    }
+  }
+
+  // The pending samples of a running eval (older versions of Inspect
+  // don't provide these, in which case only the log header is used)
+  private async pendingSamples(uri: string, state: RunningEval) {
+    try {
+      const result = await this.viewServer_.evalLogPendingSamples(
+        uri,
+        state.etag
+      );
+      if (result === kNotModifiedSignal) {
+        return state.samples;
+      } else if (!result || result === kNotFoundSignal) {
+        return undefined;
+      }
+      const samples = JSON.parse(result) as PendingSamples;
+      state.etag = samples.etag;
+      state.samples = samples;
+      return samples;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private readonly running_ = new Map<string, RunningEval>();
+  private readonly progress_ = new Map<string, EvalProgress>();
+  private pollTimeout_?: NodeJS.Timeout;
+}
+
+interface RunningEval {
+  etag?: string;
+  samples?: PendingSamples;
+}
+
+// The samples written to the log of a running eval so far (these are only
+// read for local .eval logs)
+async function writtenSamples(uri: string) {
+  const path = localEvalLogPath(uri);
+  if (!path) {
+    return undefined;
+  }
+  try {
+    return await readEvalLogSampleSummaries(fileZipSource(path));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Shows a status bar item summarizing the progress of running evals.
+ */
+export function activateEvalProgressStatus(
+  monitor: EvalProgressMonitor
+): vscode.Disposable {
+  const statusItem = vscode.window.createStatusBarItem(
+    "inspect-ai.running-evals",
+    vscode.StatusBarAlignment.Left
+  );
+  statusItem.name = "Inspect Running Evals";
+  statusItem.command = "inspect_ai.logs-view.focus";
+
+  const updateStatus = () => {
+    const running = monitor.runningEvals();
+    if (running.length > 0) {
+      statusItem.text = `$(loading~spin) ${summarizeEvalProgress(running)}`;
+      statusItem.tooltip = running
+        .map(
+          (progress) =>
+            `${progress.task} (${progress.model}): ${formatEvalProgress(progress)}`
+        )
+        .join("\n");
+      statusItem.show();
+    } else {
+      statusItem.hide();
+    }
+  };
+
+  return vscode.Disposable.from(
+    statusItem,
+    monitor.onDidChangeProgress(updateStatus),
+    monitor.onDidFinish(updateStatus)
+  );
+}
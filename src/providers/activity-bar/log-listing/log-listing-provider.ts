@@ -1,26 +1,69 @@
 import * as vscode from "vscode";
 import { Uri } from "vscode";
 
+import { EvalLog } from "../../../@types/log";
 import { Command } from "../../../core/command";
+import { ExecManager } from "../../../core/package/exec-manager";
 import { OutputWatcher } from "../../../core/package/output-watcher";
-import { getRelativeUri, prettyUriPath } from "../../../core/uri";
-import { activeWorkspaceFolder } from "../../../core/workspace";
+import { workspacePath } from "../../../core/path";
+import { selectDirectory } from "../../../core/select";
+import {
+  getRelativeUri,
+  prettyUriPath,
+  uriCommandArg,
+} from "../../../core/uri";
+import {
+  activeEditorWorkspaceFolder,
+  workspaceFolderList,
+} from "../../../core/workspace";
+import {
+  isEmptyLogFilter,
+  kLogFilterStatuses,
+  LogFilter,
+  parseLogFilter,
+} from "../../../inspect/log-filter";
+import { kLogGroupings, LogGroupBy } from "../../../inspect/log-groups";
 import { hasMinimumInspectVersion } from "../../../inspect/version";
+import {
+  ExportResultsDashboardCommand,
+  ShowResultsDashboardCommand,
+} from "../../dashboard/commands";
+import { ResultsDashboardManager } from "../../dashboard/results-dashboard";
 import { kInspectEvalLogFormatVersion } from "../../inspect/inspect-constants";
+import { resumeEvalSetArgs } from "../../inspect/inspect-eval-set";
 import { InspectViewServer } from "../../inspect/inspect-view-server";
+import { CompareLogsCommand } from "../../logcompare/commands";
+import { ExportLogSummariesCommand } from "../../logexport/commands";
+import { RunHistoryManager } from "../../runs/run-history-provider";
 import { WorkspaceEnvManager } from "../../workspace/workspace-env-provider";
 
 import { selectLogDirectory } from "./log-directory-selector";
-import { LogListing, LogNode, Logs } from "./log-listing";
+import {
+  describeLogDir,
+  LogListing,
+  LogNode,
+  Logs,
+  WorkspaceLogListing,
+} from "./log-listing";
+import {
+  copyLogPaths,
+  copyLogs,
+  deleteLogs,
+  editLogTags,
+} from "./log-listing-bulk";
 import { LogTreeDataProvider } from "./log-listing-data";
 import { LogListingMRU } from "./log-listing-mru";
+import { activateEvalProgressStatus } from "./log-listing-progress";
+import { TaskResultsManager } from "./log-task-results";
 
 export async function activateLogListing(
   context: vscode.ExtensionContext,
   envManager: WorkspaceEnvManager,
   viewServer: InspectViewServer,
-  outputWatcher: OutputWatcher
-): Promise<[Command[], vscode.Disposable[]]> {
+  outputWatcher: OutputWatcher,
+  runHistory: RunHistoryManager,
+  inspectEvalMgr: ExecManager
+): Promise<[Command[], TaskResultsManager, vscode.Disposable[]]> {
   const kLogListingDir = "inspect_ai.logListingDir";
   const disposables: vscode.Disposable[] = [];
 
@@ -33,19 +76,35 @@ export async function activateLogListing(
   // create tree data provider and tree
   const treeDataProvider = new LogTreeDataProvider(context, viewServer);
   disposables.push(treeDataProvider);
+  const taskResults = new TaskResultsManager(treeDataProvider);
+  disposables.push(taskResults);
+  disposables.push(activateEvalProgressStatus(treeDataProvider.progress));
   const tree = vscode.window.createTreeView(LogTreeDataProvider.viewType, {
     treeDataProvider,
     showCollapseAll: false,
-    canSelectMany: false,
+    canSelectMany: true,
   });
 
+  // group logs using the configured grouping
+  const kGroupByConfig = "logListingGroupBy";
+  const configuredGroupBy = () =>
+    vscode.workspace
+      .getConfiguration("inspect_ai")
+      .get<LogGroupBy>(kGroupByConfig) || "directory";
+  treeDataProvider.setGroupBy(configuredGroupBy());
+  disposables.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration(`inspect_ai.${kGroupByConfig}`)) {
+        treeDataProvider.setGroupBy(configuredGroupBy());
+      }
+    })
+  );
+
   // update the tree based on the current preferred log dir
   const updateTree = () => {
     // see what the active log dir is
     const preferredLogDir = context.workspaceState.get<string>(kLogListingDir);
-    const logDir = preferredLogDir
-      ? Uri.parse(preferredLogDir)
-      : envManager.getDefaultLogDir();
+    const folders = workspaceFolderList();
 
     // create a logs fetcher
     const logsFetcher = async (uri: Uri): Promise<Logs | undefined> => {
@@ -74,18 +133,34 @@ export async function activateLogListing(
       }
     };
 
-    // set it
-    treeDataProvider.setLogListing(
-      new LogListing(logDir, new LogListingMRU(context), logsFetcher)
-    );
+    if (preferredLogDir || folders.length < 2) {
+      const logDir = preferredLogDir
+        ? Uri.parse(preferredLogDir)
+        : envManager.getDefaultLogDir();
+
+      // set it
+      treeDataProvider.setLogListing(
+        new LogListing(logDir, new LogListingMRU(context), logsFetcher)
+      );
 
-    // show a workspace relative path if this is in the workspace,
-    // otherwise show the protocol then the last two bits of the path
-    const relativePath = getRelativeUri(activeWorkspaceFolder().uri, logDir);
-    if (relativePath) {
-      tree.description = `./${relativePath}`;
+      // show a workspace relative path if this is in the workspace,
+      // otherwise show the protocol then the last two bits of the path
+      tree.description = describeLogDir(logDir);
     } else {
-      tree.description = prettyUriPath(logDir);
+      // show the default log dir of each workspace folder
+      treeDataProvider.setLogListing(
+        new WorkspaceLogListing(
+          folders.map((folder) => ({
+            name: folder.name,
+            listing: new LogListing(
+              envManager.getDefaultLogDir(folder.uri),
+              new LogListingMRU(context),
+              logsFetcher
+            ),
+          }))
+        )
+      );
+      tree.description = undefined;
     }
   };
 
@@ -98,13 +173,22 @@ export async function activateLogListing(
       if (context.workspaceState.get<string>(kLogListingDir) === undefined) {
         updateTree();
       }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      if (context.workspaceState.get<string>(kLogListingDir) === undefined) {
+        updateTree();
+      }
     })
   );
 
   // Register select log dir command
   disposables.push(
     vscode.commands.registerCommand("inspect.logListing", async () => {
-      const logLocation = await selectLogDirectory(context, envManager);
+      const logLocation = await selectLogDirectory(
+        context,
+        envManager,
+        activeEditorWorkspaceFolder()?.uri
+      );
       if (logLocation !== undefined) {
         // store state ('null' means use workspace default so pass 'undefined' to clear for that)
         await context.workspaceState.update(
@@ -126,8 +210,11 @@ export async function activateLogListing(
     vscode.commands.registerCommand(
       "inspect.logListingReveal",
       async (uri?: Uri) => {
-        const treeLogUri = treeDataProvider.getLogListing()?.logDir();
-        if (treeLogUri && uri && getRelativeUri(treeLogUri, uri) !== null) {
+        const treeLogDirs = treeDataProvider.getLogListing()?.logDirs() || [];
+        if (
+          uri &&
+          treeLogDirs.some((logDir) => getRelativeUri(logDir, uri) !== null)
+        ) {
           const node = treeDataProvider.getLogListing()?.nodeForUri(uri);
           if (node) {
             await tree.reveal(node);
@@ -151,6 +238,52 @@ export async function activateLogListing(
     })
   );
 
+  // Register filter commands
+  const setFilter = async (filter?: LogFilter) => {
+    treeDataProvider.setFilter(filter);
+    tree.message = filter ? `Filtered by: ${filter.query}` : undefined;
+    await vscode.commands.executeCommand(
+      "setContext",
+      "inspect_ai.logListingFiltered",
+      filter !== undefined
+    );
+  };
+  disposables.push(
+    vscode.commands.registerCommand("inspect.logListingFilter", async () => {
+      const filter = await inputLogFilter(treeDataProvider.filter);
+      if (filter !== undefined) {
+        await setFilter(isEmptyLogFilter(filter) ? undefined : filter);
+      }
+    }),
+    vscode.commands.registerCommand("inspect.logListingClearFilter", () =>
+      setFilter(undefined)
+    )
+  );
+
+  // Register group by command
+  disposables.push(
+    vscode.commands.registerCommand("inspect.logListingGroupBy", async () => {
+      const current = treeDataProvider.groupBy;
+      const picked = await vscode.window.showQuickPick(
+        kLogGroupings.map((grouping) => ({
+          label: grouping.label,
+          description: grouping.groupBy === current ? "(current)" : undefined,
+          groupBy: grouping.groupBy,
+        })),
+        { title: "Group Logs By" }
+      );
+      if (picked && picked.groupBy !== current) {
+        await vscode.workspace
+          .getConfiguration("inspect_ai")
+          .update(
+            kGroupByConfig,
+            picked.groupBy,
+            vscode.ConfigurationTarget.Global
+          );
+      }
+    })
+  );
+
   // Register Reveal in Explorer command
   disposables.push(
     vscode.commands.registerCommand(
@@ -179,27 +312,76 @@ export async function activateLogListing(
     )
   );
 
+  // the log files a command applies to (the selected logs if the command's
+  // node is part of a multiple selection)
+  const selectedLogUris = (node: LogNode, selected?: LogNode[]): Uri[] => {
+    const listing = treeDataProvider.getLogListing();
+    if (!listing) {
+      return [];
+    }
+    const nodes = selected && selected.includes(node) ? selected : [node];
+    return nodes
+      .filter((node) => node.type === "file")
+      .map((node) => listing.uriForNode(node));
+  };
+
   // Register delete log file command
   disposables.push(
     vscode.commands.registerCommand(
       "inspect.logListingDeleteLogFile",
-      async (node: LogNode) => {
-        const logUri = treeDataProvider.getLogListing()?.uriForNode(node);
-        if (logUri) {
-          const result = await vscode.window.showInformationMessage(
-            "Delete Log File",
-            {
-              modal: true,
-              detail: `Are you sure you want to delete the log file at ${prettyUriPath(logUri)}?`,
-            },
-            { title: "Delete", isCloseAffordance: false },
-            { title: "Cancel", isCloseAffordance: true }
-          );
+      async (node: LogNode, selected?: LogNode[]) => {
+        const logUris = selectedLogUris(node, selected);
+        if (logUris.length > 0 && (await deleteLogs(viewServer, logUris))) {
+          treeDataProvider.refresh();
+        }
+      }
+    )
+  );
 
-          if (result?.title === "Delete") {
-            await viewServer.evalLogDelete(logUri.toString());
-            treeDataProvider.refresh();
-          }
+  // Register copy and move commands
+  const copyLogsTo = async (
+    node: LogNode,
+    selected: LogNode[] | undefined,
+    move: boolean
+  ) => {
+    const logUris = selectedLogUris(node, selected);
+    if (logUris.length === 0) {
+      return;
+    }
+    // default to the log dir of the workspace folder containing the logs
+    const defaultLogDir = envManager.getDefaultLogDir(logUris[0]);
+    const logDir = await selectDirectory(
+      "Log Directory",
+      "logs",
+      defaultLogDir,
+      new LogListingMRU(context)
+    );
+    if (logDir === undefined) {
+      return;
+    }
+    if (await copyLogs(viewServer, logUris, logDir ?? defaultLogDir, move)) {
+      treeDataProvider.refresh();
+    }
+  };
+  disposables.push(
+    vscode.commands.registerCommand(
+      "inspect.logListingCopyLogFiles",
+      (node: LogNode, selected?: LogNode[]) => copyLogsTo(node, selected, false)
+    ),
+    vscode.commands.registerCommand(
+      "inspect.logListingMoveLogFiles",
+      (node: LogNode, selected?: LogNode[]) => copyLogsTo(node, selected, true)
+    )
+  );
+
+  // Register edit tags command
+  disposables.push(
+    vscode.commands.registerCommand(
+      "inspect.logListingEditTags",
+      async (node: LogNode, selected?: LogNode[]) => {
+        const logUris = selectedLogUris(node, selected);
+        if (logUris.length > 0 && (await editLogTags(viewServer, logUris))) {
+          treeDataProvider.refresh();
         }
       }
     )
@@ -209,11 +391,10 @@ export async function activateLogListing(
   disposables.push(
     vscode.commands.registerCommand(
       "inspect.logListingCopyLogPath",
-      async (node: LogNode) => {
-        const logUri = treeDataProvider.getLogListing()?.uriForNode(node);
-        if (logUri) {
-          const path = prettyUriPath(logUri);
-          await vscode.env.clipboard.writeText(path);
+      async (node: LogNode, selected?: LogNode[]) => {
+        const logUris = selectedLogUris(node, selected);
+        if (logUris.length > 0) {
+          await copyLogPaths(logUris);
         }
       }
     )
@@ -233,11 +414,94 @@ export async function activateLogListing(
     )
   );
 
+  // Register stop eval command (for running logs)
+  disposables.push(
+    vscode.commands.registerCommand(
+      "inspect.logListingStopEval",
+      async (node: LogNode) => {
+        const task = node.type === "file" ? node.display_name : undefined;
+        await vscode.commands.executeCommand("inspect.stopTask", task);
+      }
+    )
+  );
+
+  // Register resume eval set command (for log directories)
+  disposables.push(
+    vscode.commands.registerCommand(
+      "inspect.logListingResumeEvalSet",
+      async (node: LogNode) => {
+        const listing = treeDataProvider.getLogListing();
+        const logDirUri = listing?.uriForNode(node);
+        if (!listing || !logDirUri || node.type !== "dir") {
+          return;
+        }
+
+        // Read the tasks and models for the eval set from its logs
+        const logUris = logFiles(node).map((file) =>
+          listing.uriForNode(file).toString()
+        );
+        const headers =
+          logUris.length > 0
+            ? await viewServer.evalLogHeaders(logUris)
+            : undefined;
+        const logs = headers
+          ? (JSON.parse(headers) as EvalLog[]).filter(
+              (log) => log?.version === 2
+            )
+          : [];
+        const resume = resumeEvalSetArgs(logs, uriCommandArg(logDirUri));
+        // (the eval set is run using the task file of any of its logs)
+        const taskFile = logs.find((log) => log.eval.task_file)?.eval.task_file;
+        if (!resume || !taskFile) {
+          await vscode.window.showInformationMessage(
+            `Unable to resume eval set (no task files found in the logs in ${prettyUriPath(logDirUri)}).`
+          );
+          return;
+        }
+
+        // Confirm before resuming with options that the logs don't agree on
+        if (resume.conflicts.length > 0) {
+          const result = await vscode.window.showWarningMessage(
+            "Tasks Have Different Options",
+            {
+              modal: true,
+              detail: `Options are shared by all of the tasks in an eval set. The following options differ between the logs in ${prettyUriPath(logDirUri)}, so the resumed eval set may not match them: ${resume.conflicts.join(", ")}`,
+            },
+            { title: "Resume Eval Set", isCloseAffordance: false },
+            { title: "Cancel", isCloseAffordance: true }
+          );
+          if (result?.title !== "Resume Eval Set") {
+            return;
+          }
+        }
+
+        const tasks = new Set(logs.map((log) => log.eval.task));
+        await inspectEvalMgr.startArgs(
+          workspacePath(taskFile),
+          Array.from(tasks).join(", "),
+          resume.args
+        );
+      }
+    )
+  );
+
+  // refresh when an eval finishes so stopped logs show as cancelled
+  let runningEvals = new Set(runHistory.runningRuns("Eval").map((r) => r.id));
+  disposables.push(
+    runHistory.onRunsChanged(() => {
+      const running = new Set(runHistory.runningRuns("Eval").map((r) => r.id));
+      if (Array.from(runningEvals).some((id) => !running.has(id))) {
+        treeDataProvider.refresh();
+      }
+      runningEvals = running;
+    })
+  );
+
   // refresh when a log in our directory changes
   disposables.push(
     outputWatcher.onInspectLogCreated((e) => {
-      const treeLogDir = treeDataProvider.getLogListing()?.logDir();
-      if (treeLogDir && getRelativeUri(treeLogDir, e.log)) {
+      const treeLogDirs = treeDataProvider.getLogListing()?.logDirs() || [];
+      if (treeLogDirs.some((logDir) => getRelativeUri(logDir, e.log))) {
         treeDataProvider.refresh();
       }
     })
@@ -252,7 +516,64 @@ export async function activateLogListing(
     })
   );
 
-  return [[], disposables];
+  // results dashboard for the log directory
+  const dashboard = new ResultsDashboardManager(
+    context,
+    viewServer,
+    treeDataProvider
+  );
+  disposables.push(dashboard);
+
+  return [
+    [
+      new CompareLogsCommand(context, viewServer, treeDataProvider),
+      new ExportLogSummariesCommand(viewServer, treeDataProvider),
+      new ShowResultsDashboardCommand(dashboard),
+      new ExportResultsDashboardCommand(dashboard),
+    ],
+    taskResults,
+    disposables,
+  ];
+}
+
+const logFiles = (node: LogNode): LogNode[] => {
+  if (node.type === "file") {
+    return [node];
+  } else {
+    return node.children.flatMap(logFiles);
+  }
+};
+
+// Prompts for a log filter (validating it as it is typed)
+async function inputLogFilter(
+  current?: LogFilter
+): Promise<LogFilter | undefined> {
+  const input = vscode.window.createInputBox();
+  input.title = "Filter Logs";
+  input.prompt = `Filter by task:, model:, status: (${kLogFilterStatuses.join(", ")}), tag:, after: and before: (YYYY-MM-DD or an age like 7d)`;
+  input.placeholder = "e.g. task:math status:error after:7d";
+  input.value = current?.query ?? "";
+
+  return new Promise<LogFilter | undefined>((resolve) => {
+    let result: LogFilter | undefined;
+    input.onDidChangeValue((value) => {
+      input.validationMessage = parseLogFilter(value).error;
+    });
+    input.onDidAccept(() => {
+      const parsed = parseLogFilter(input.value);
+      if (parsed.filter) {
+        result = parsed.filter;
+        input.hide();
+      } else {
+        input.validationMessage = parsed.error;
+      }
+    });
+    input.onDidHide(() => {
+      input.dispose();
+      resolve(result);
+    });
+    input.show();
+  });
 }
 
 export async function revealLogListing() {
@@ -6,44 +6,50 @@ import { stringify } from "yaml";
 
 import { EvalLog, EvalResults } from "../../../@types/log";
 import { sleep } from "../../../core/wait";
+import { LogSummary, summarizeLog } from "../../../inspect/log-summary";
 
-import { LogListing, LogNode } from "./log-listing";
+import { LogHeaderIndex } from "./log-header-index";
+import { LogNode, LogNodeListing } from "./log-listing";
 
+// The name of the header cache that was kept in workspace state (before
+// the log header index)
 export const kLogListCacheName = "logListingCache";
 
+// The number of log headers read at once starts here and adapts to how
+// long the view server takes to read them
+const kInitialBatchSize = 25;
+const kMinBatchSize = 10;
+const kMaxBatchSize = 200;
+
+// The pause between batches (so that the view server stays responsive)
+const kBatchDelay = 250;
+
 export class LogElementQueueProcessor {
   private queue: LogNode[] = [];
   private isProcessing = false;
-  private elementCache = new Map<
-    string,
-    {
-      iconPath?: string | vscode.ThemeIcon;
-      tooltip?: vscode.MarkdownString;
-    }
-  >();
   private processingTimeout: NodeJS.Timeout | null = null;
+  private batchSize = kInitialBatchSize;
 
   constructor(
     private readonly viewServer: {
       evalLogHeaders: (uris: string[]) => Promise<string | undefined>;
     },
-    private readonly logListing: () => LogListing | undefined,
+    private readonly logListing: () => LogNodeListing | undefined,
     private readonly context: vscode.ExtensionContext,
     private readonly onElementUpdated: (element: LogNode) => void,
-    private readonly batchSize: number = 10
+    private readonly index: LogHeaderIndex
   ) {
-    // Load cache from workspace storage
-    const savedCache =
-      this.context.workspaceState.get<
-        Map<string, { iconPath?: string; tooltip?: vscode.MarkdownString }>
-      >(kLogListCacheName);
-    if (savedCache) {
-      this.elementCache = new Map(savedCache);
-    } else {
-      this.elementCache = new Map();
+    // Remove the cache that was kept in workspace state
+    if (this.context.workspaceState.get(kLogListCacheName) !== undefined) {
+      void this.context.workspaceState.update(kLogListCacheName, undefined);
     }
   }
 
+  // Fired with the summary of each log header that is read (or cached)
+  private readonly onLogSummary_ = new vscode.EventEmitter<LogSummary>();
+  public readonly onLogSummary: vscode.Event<LogSummary> =
+    this.onLogSummary_.event;
+
   enqueueElement(element: LogNode): void {
     this.queue.push(element);
 
@@ -65,6 +71,11 @@ export class LogElementQueueProcessor {
     }
     this.isProcessing = true;
 
+    // Populate elements from the index (without waiting for a batch)
+    this.queue = this.queue.filter(
+      (element) => !this.populateFromIndex(element)
+    );
+
     // Process elements in batches
     const elements = this.queue.slice(0, this.batchSize);
 
@@ -78,27 +89,13 @@ export class LogElementQueueProcessor {
           elementUris.set(uri.toString(), element);
         }
       });
-      const allUris = Array.from(elementUris.keys());
-
-      // Handle cached elements (if they're in the cache,
-      // screen them out after populating them from cache)
-      const uris = allUris.filter((uri) => {
-        const cached = this.elementCache.get(uri);
-        if (cached) {
-          const el = elementUris.get(uri);
-          if (el) {
-            el.iconPath = cached.iconPath;
-            el.tooltip = cached.tooltip;
-            this.onElementUpdated(el);
-            return false;
-          }
-        }
-        return true;
-      });
+      const uris = Array.from(elementUris.keys());
 
       if (uris.length > 0) {
-        // Fetch headers
+        // Fetch headers (adapting the batch size to how long this takes)
+        const started = Date.now();
         const headers = await this.viewServer.evalLogHeaders(uris);
+        this.batchSize = nextBatchSize(this.batchSize, Date.now() - started);
 
         if (headers !== undefined) {
           const evalLogs = JSON.parse(headers) as EvalLog[];
@@ -108,7 +105,7 @@ export class LogElementQueueProcessor {
             const evalLog = evalLogs[i];
             const uri = uris[i];
             const element = uri ? elementUris.get(uri) : undefined;
-            if (element && evalLog?.version === 2) {
+            if (uri && element && evalLog?.version === 2) {
               // Populate the server provided props
               element.iconPath = iconForStatus(
                 this.context,
@@ -116,26 +113,23 @@ export class LogElementQueueProcessor {
                 evalLog.status
               );
               element.tooltip = evalSummary(evalLog);
-
-              // Cache completed elements
-              const listing = this.logListing();
-              const nodeUri = listing?.uriForNode(element);
-              if (nodeUri && evalLog.status !== "started") {
-                this.elementCache.set(nodeUri.toString(), {
-                  iconPath: element.iconPath,
-                  tooltip: element.tooltip,
+              if (element.type === "file") {
+                element.status = evalLog.status;
+              }
+              const summary = summarizeLog(uri, evalLog);
+
+              // Index completed logs
+              if (element.type === "file" && evalLog.status !== "started") {
+                this.index.set(uri, {
+                  mtime: element.mtime,
+                  status: evalLog.status,
+                  summary,
                 });
-
-                // Persist the cache
-                await this.context.workspaceState.update(
-                  kLogListCacheName,
-                  Array.from(this.elementCache.entries())
-                );
-                this.enforceCacheLimit();
               }
 
               // Notify that the element was updated
               this.onElementUpdated(element);
+              this.onLogSummary_.fire(summary);
             }
           }
         }
@@ -150,35 +144,54 @@ export class LogElementQueueProcessor {
 
       // Process remaining items if any
       if (this.queue.length > 0) {
-        await sleep(5000);
+        await sleep(kBatchDelay);
         await this.processQueue();
       }
     }
   }
 
+  // Populates an element from the log header index (if it has an entry
+  // that is up to date)
+  private populateFromIndex(element: LogNode): boolean {
+    const uri = this.logListing()?.uriForNode(element).toString();
+    const entry =
+      uri && element.type === "file"
+        ? this.index.get(uri, element.mtime)
+        : undefined;
+    if (!entry || element.type !== "file") {
+      return false;
+    }
+
+    // (the tooltip is read when it is shown)
+    element.iconPath = iconForStatus(this.context, element, entry.status);
+    element.status = entry.status;
+    this.onElementUpdated(element);
+    this.onLogSummary_.fire(entry.summary);
+    return true;
+  }
+
   clearCache(): void {
-    this.elementCache.clear();
+    this.index.clear();
   }
 
-  enforceCacheLimit(): void {
-    // Evict the least recently used item if this exceeds
-    // the max size
-    if (this.elementCache.size > 500) {
-      const keys = Array.from(this.elementCache.keys());
-      const oldestKey = keys[0];
-      if (oldestKey !== undefined) {
-        this.elementCache.delete(oldestKey);
-      }
-    }
+  // The indexed summary of a log (if it hasn't been modified since it was
+  // indexed)
+  public cachedSummary(uri: string, mtime: number): LogSummary | undefined {
+    return this.index.get(uri, mtime)?.summary;
   }
+}
 
-  public cachedValue(uri: string):
-    | {
-        iconPath?: string | vscode.ThemeIcon;
-        tooltip?: vscode.MarkdownString;
-      }
-    | undefined {
-    return this.elementCache.get(uri);
+/**
+ * The size of the next batch of log headers to read (doubling while
+ * batches are quick to read and halving when they are slow).
+ */
+export function nextBatchSize(batchSize: number, elapsedMs: number) {
+  if (elapsedMs < 1000) {
+    return Math.min(batchSize * 2, kMaxBatchSize);
+  } else if (elapsedMs > 4000) {
+    return Math.max(Math.floor(batchSize / 2), kMinBatchSize);
+  } else {
+    return batchSize;
   }
 }
 
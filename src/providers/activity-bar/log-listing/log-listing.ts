@@ -18,8 +18,10 @@ import {
   getRelativeUri,
   isUri,
   normalizeWindowsUri,
+  prettyUriPath,
   resolveToUri,
 } from "../../../core/uri";
+import { workspaceFolderFor } from "../../../core/workspace";
 
 export type LogNode =
   | ({
@@ -31,6 +33,7 @@ export type LogNode =
   | ({
       type: "file";
       iconPath?: string | ThemeIcon;
+      status?: string;
       parent?: LogNode;
     } & LogItem);
 
@@ -83,7 +86,18 @@ export function relativeLogPath(logDir: string, location: string): string {
   return location;
 }
 
-export class LogListing {
+// The nodes shown in a log listing tree (for a single log directory or for
+// the log directories of several workspace folders)
+export interface LogNodeListing {
+  logDirs(): Uri[];
+  ls(parent?: LogDirectory): Promise<LogNode[]>;
+  files(): Promise<LogNode[]>;
+  uriForNode(node: LogNode): Uri;
+  nodeForUri(uri: Uri): LogNode | undefined;
+  invalidate(): void;
+}
+
+export class LogListing implements LogNodeListing {
   constructor(
     private readonly logDir_: Uri,
     private readonly mru_: ListingMRU,
@@ -94,6 +108,10 @@ export class LogListing {
     return this.logDir_;
   }
 
+  public logDirs(): Uri[] {
+    return [this.logDir_];
+  }
+
   public async ls(parent?: LogDirectory): Promise<LogNode[]> {
     // fetch the nodes if we don't have them yet
     if (this.nodes_ === undefined) {
@@ -122,6 +140,15 @@ export class LogListing {
     return [];
   }
 
+  // All of the log files in the listing
+  public async files(): Promise<LogNode[]> {
+    const files = (nodes: LogNode[]): LogNode[] =>
+      nodes.flatMap((node) =>
+        node.type === "file" ? [node] : files(node.children)
+      );
+    return files(await this.ls());
+  }
+
   public uriForNode(node: LogNode) {
     return Uri.joinPath(this.logDir_, node.name);
   }
@@ -204,6 +231,135 @@ export class LogListing {
   private nodes_: LogNode[] | undefined;
 }
 
+// A log directory shown beneath a node for its workspace folder
+export interface WorkspaceFolderLogs {
+  name: string;
+  listing: LogListing;
+}
+
+/**
+ * The log listings for several workspace folders (each shown beneath a
+ * node for the folder).
+ */
+export class WorkspaceLogListing implements LogNodeListing {
+  constructor(folders: WorkspaceFolderLogs[]) {
+    for (const folder of folders) {
+      const logDir = folder.listing.logDir();
+      this.folders_.set(
+        {
+          type: "dir",
+          name: folder.name,
+          children: [],
+          iconPath: new ThemeIcon("root-folder"),
+          tooltip: new MarkdownString(
+            `${folder.name}: ${logDir.toString(true)}`
+          ),
+        },
+        folder.listing
+      );
+    }
+  }
+
+  public logDirs(): Uri[] {
+    return Array.from(this.folders_.values()).map((listing) =>
+      listing.logDir()
+    );
+  }
+
+  public isFolderNode(node: LogNode) {
+    return this.folders_.has(node);
+  }
+
+  public async ls(parent?: LogDirectory): Promise<LogNode[]> {
+    if (parent === undefined) {
+      return Array.from(this.folders_.keys());
+    }
+
+    const folderNode = this.folderNodeFor(parent as LogNode);
+    const listing = folderNode && this.folders_.get(folderNode);
+    if (!folderNode || !listing) {
+      return [];
+    } else if (folderNode === parent) {
+      // The top level nodes of the folder's listing
+      const nodes = await listing.ls();
+      nodes.forEach((node) => {
+        node.parent = folderNode;
+      });
+      return nodes;
+    } else {
+      return listing.ls(parent);
+    }
+  }
+
+  public async files(): Promise<LogNode[]> {
+    const files: LogNode[] = [];
+    for (const [folderNode, listing] of this.folders_) {
+      // (listing the folder links its nodes to the folder node)
+      await this.ls(folderNode as LogDirectory);
+      files.push(...(await listing.files()));
+    }
+    return files;
+  }
+
+  public uriForNode(node: LogNode): Uri {
+    const folderNode = this.folderNodeFor(node);
+    const listing = folderNode ? this.folders_.get(folderNode) : undefined;
+    if (!listing) {
+      throw new Error(`No log listing found for ${node.name}`);
+    }
+    return folderNode === node ? listing.logDir() : listing.uriForNode(node);
+  }
+
+  public nodeForUri(uri: Uri): LogNode | undefined {
+    for (const listing of this.folders_.values()) {
+      const node = listing.nodeForUri(uri);
+      if (node) {
+        return node;
+      }
+    }
+    return undefined;
+  }
+
+  public invalidate() {
+    for (const listing of this.folders_.values()) {
+      listing.invalidate();
+    }
+  }
+
+  // The folder node which a node is beneath
+  private folderNodeFor(node: LogNode): LogNode | undefined {
+    let current: LogNode | undefined = node;
+    while (current && !this.folders_.has(current)) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  private folders_ = new Map<LogNode, LogListing>();
+}
+
+/**
+ * The log files beneath a node (workspace folder nodes don't hold their
+ * children, so their logs are listed).
+ */
+export async function logFilesBeneath(
+  listing: LogNodeListing,
+  node: LogNode
+): Promise<LogNode[]> {
+  if (node.type === "file") {
+    return [node];
+  }
+  const children =
+    listing instanceof WorkspaceLogListing && listing.isFolderNode(node)
+      ? await listing.ls(node)
+      : node.children;
+  const files: LogNode[] = [];
+  for (const child of children) {
+    files.push(...(await logFilesBeneath(listing, child)));
+  }
+  return files;
+}
+
 function deduplicateByName(logs: LogItem[]): LogItem[] {
   const seen = new Set<string>();
   return logs.filter((item) => {
@@ -317,18 +473,19 @@ export abstract class LogListingTreeDataProvider
   constructor() {
     this.throttledRefresh_ = throttle(() => {
       this.logListing_?.invalidate();
+      this._onDidRefresh.fire();
       this._onDidChangeTreeData.fire();
     }, 1000);
   }
 
   dispose() {}
 
-  public setLogListing(logListing: LogListing) {
+  public setLogListing(logListing: LogNodeListing) {
     this.logListing_ = logListing;
     this.refresh();
   }
 
-  public getLogListing(): LogListing | undefined {
+  public getLogListing(): LogNodeListing | undefined {
     return this.logListing_;
   }
 
@@ -336,6 +493,16 @@ export abstract class LogListingTreeDataProvider
     this.throttledRefresh_();
   }
 
+  // Re-renders a single element (e.g. once its header has been read)
+  protected elementUpdated(element: LogNode): void {
+    this._onDidChangeTreeData.fire(element);
+  }
+
+  // Re-renders the tree (without listing the log directory again)
+  protected rerender(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
   abstract getTreeItem(element: LogNode): TreeItem;
 
   async getChildren(element?: LogNode): Promise<LogNode[]> {
@@ -356,8 +523,20 @@ export abstract class LogListingTreeDataProvider
   readonly onDidChangeTreeData: Event<LogNode | undefined | null | void> =
     this._onDidChangeTreeData.event;
 
-  protected logListing_?: LogListing;
+  // Fired when the log directory is listed again (or changes)
+  private _onDidRefresh = new vscode.EventEmitter<void>();
+  readonly onDidRefresh: Event<void> = this._onDidRefresh.event;
+
+  protected logListing_?: LogNodeListing;
+}
+
+// Describes a log directory (using a path relative to its workspace folder
+// if it's in the workspace, otherwise the protocol then the path)
+export function describeLogDir(logDir: Uri) {
+  const relativePath = getRelativeUri(workspaceFolderFor(logDir).uri, logDir);
+  return relativePath ? `./${relativePath}` : prettyUriPath(logDir);
 }
+
 export function formatPrettyDateTime(date: Date) {
   // For today, just show time
   if (isToday(date)) {
@@ -0,0 +1,94 @@
+import { throttle } from "lodash";
+import { Disposable, Event, EventEmitter, Uri } from "vscode";
+
+import { LogSummary } from "../../../inspect/log-summary";
+
+import { LogTreeDataProvider } from "./log-listing-data";
+
+// The number of recent runs read for each task
+export const kMaxTaskResults = 5;
+
+/**
+ * Tracks the results of recent runs of each task (using the log headers
+ * read for the Logs panel).
+ */
+export class TaskResultsManager implements Disposable {
+  constructor(private readonly logs_: LogTreeDataProvider) {
+    const fireChanged = throttle(
+      () => {
+        this.onResultsChanged_.fire();
+      },
+      1000,
+      { leading: false, trailing: true }
+    );
+    this.disposables_.push(
+      this.onResultsChanged_,
+      this.logs_.onLogSummary((summary) => {
+        this.summaries_.set(summary.uri, summary);
+        fireChanged();
+      }),
+      this.logs_.onDidRefresh(() => {
+        // The listing was refreshed (or the log dir changed)
+        this.summaries_.clear();
+        this.requested_.clear();
+        fireChanged();
+      })
+    );
+  }
+
+  /**
+   * The results of the most recent runs of a task (newest first).
+   */
+  public taskResults(task: string, taskFile?: Uri): LogSummary[] {
+    return Array.from(this.summaries_.values())
+      .filter(
+        (summary) =>
+          summary.task === task &&
+          (!taskFile || !summary.taskFile || isTaskFile(taskFile, summary))
+      )
+      .sort((a, b) => b.created.localeCompare(a.created))
+      .slice(0, kMaxTaskResults);
+  }
+
+  /**
+   * Reads the headers of the most recent logs for a task in the background
+   * (listeners are notified as results are read).
+   */
+  public requestTaskResults(task: string) {
+    const listing = this.logs_.getLogListing();
+    if (listing && !this.requested_.has(task)) {
+      this.requested_.add(task);
+      void listing.files().then((files) => {
+        const taskFiles = files
+          .filter((file) => file.type === "file" && file.display_name === task)
+          .sort((a, b) =>
+            a.type === "file" && b.type === "file" ? b.mtime - a.mtime : 0
+          )
+          .slice(0, kMaxTaskResults);
+        this.logs_.requestSummaries(taskFiles);
+      });
+    }
+  }
+
+  dispose() {
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+
+  private summaries_ = new Map<string, LogSummary>();
+  private requested_ = new Set<string>();
+  private disposables_: Disposable[] = [];
+
+  private readonly onResultsChanged_ = new EventEmitter<void>();
+  public readonly onResultsChanged: Event<void> = this.onResultsChanged_.event;
+}
+
+// Whether a log was run from a task file (logs record the task file
+// relative to the directory the eval was run from)
+function isTaskFile(taskFile: Uri, summary: LogSummary) {
+  const logTaskFile = (summary.taskFile || "").replace(/\\/g, "/");
+  return taskFile.path.endsWith(
+    logTaskFile.startsWith("/") ? logTaskFile : `/${logTaskFile}`
+  );
+}
@@ -11,12 +11,17 @@ import {
   prettyUriPath,
   resolveToUri,
 } from "../../../core/uri";
-import { activeWorkspaceFolder } from "../../../core/workspace";
 import { ScanResultsListingMRU } from "../../scanview/scanview-view";
 import { ScoutProjectManager } from "../../scout/scout-project";
 import { ScoutViewServer } from "../../scout/scout-view-server";
 
-import { LogItem, LogListing, LogNode, Logs } from "./log-listing";
+import {
+  describeLogDir,
+  LogItem,
+  LogListing,
+  LogNode,
+  Logs,
+} from "./log-listing";
 import { ScansTreeDataProvider } from "./scan-listing-data";
 
 export async function activateScanListing(
@@ -68,12 +73,7 @@ export async function activateScanListing(
     );
     // show a workspace relative path if this is in the workspace,
     // otherwise show the protocol then the last two bits of the path
-    const relativePath = getRelativeUri(activeWorkspaceFolder().uri, scanDir);
-    if (relativePath) {
-      tree.description = `./${relativePath}`;
-    } else {
-      tree.description = prettyUriPath(scanDir);
-    }
+    tree.description = describeLogDir(scanDir);
   };
 
   // initial tree update
@@ -91,8 +91,11 @@ export async function activateScanListing(
     vscode.commands.registerCommand(
       "inspect.scanListingReveal",
       async (uri?: Uri) => {
-        const treeLogUri = treeDataProvider.getLogListing()?.logDir();
-        if (treeLogUri && uri && getRelativeUri(treeLogUri, uri) !== null) {
+        const treeLogDirs = treeDataProvider.getLogListing()?.logDirs() || [];
+        if (
+          uri &&
+          treeLogDirs.some((logDir) => getRelativeUri(logDir, uri) !== null)
+        ) {
           const node = treeDataProvider.getLogListing()?.nodeForUri(uri);
           if (node) {
             await tree.reveal(node);
@@ -158,8 +161,8 @@ export async function activateScanListing(
   // refresh when a scan occurs
   disposables.push(
     outputWatcher.onScoutScanCreated((e) => {
-      const treeLogDir = treeDataProvider.getLogListing()?.logDir();
-      if (treeLogDir && getRelativeUri(treeLogDir, e.scan)) {
+      const treeLogDirs = treeDataProvider.getLogListing()?.logDirs() || [];
+      if (treeLogDirs.some((logDir) => getRelativeUri(logDir, e.scan))) {
         treeDataProvider.refresh();
       }
     })
@@ -0,0 +1,82 @@
+import { basename } from "path";
+
+import { commands, Uri, window } from "vscode";
+
+import { Command } from "../../core/command";
+import { RunHistoryManager } from "../runs/run-history-provider";
+
+import { RunTreeItem } from "./runs-provider";
+
+export class RerunCommand implements Command {
+  constructor(private readonly runHistory_: RunHistoryManager) {}
+  async execute(item?: RunTreeItem): Promise<void> {
+    if (item) {
+      const controller = this.runHistory_.controller(item.run.target);
+      if (controller) {
+        await controller.rerun(item.run);
+      }
+    }
+  }
+  private static readonly id = "inspect.runHistoryRerun";
+  public readonly id = RerunCommand.id;
+}
+
+export class StopRunCommand implements Command {
+  constructor(private readonly runHistory_: RunHistoryManager) {}
+  async execute(item?: RunTreeItem): Promise<void> {
+    if (item) {
+      const controller = this.runHistory_.controller(item.run.target);
+      const stopped = controller ? await controller.stop(item.run) : false;
+      if (!stopped) {
+        await window.showInformationMessage(
+          "This run is no longer active in this window and can't be stopped."
+        );
+      }
+    }
+  }
+  private static readonly id = "inspect.runHistoryStop";
+  public readonly id = StopRunCommand.id;
+}
+
+export class OpenRunOutputCommand implements Command {
+  async execute(item?: RunTreeItem): Promise<void> {
+    if (!item || item.run.outputs.length === 0) {
+      return;
+    }
+
+    // Runs which produce several logs (or scans) prompt for one
+    const outputs = item.run.outputs.map((output) => Uri.parse(output));
+    const output =
+      outputs.length === 1
+        ? outputs[0]
+        : (
+            await window.showQuickPick(
+              outputs.map((uri) => ({ label: basename(uri.path), uri })),
+              {
+                title:
+                  item.run.target === "Eval" ? "Open Log File" : "Open Scan",
+              }
+            )
+          )?.uri;
+
+    if (output) {
+      await commands.executeCommand(
+        item.run.target === "Eval"
+          ? "inspect.openLogViewer"
+          : "inspect.openScanViewer",
+        output
+      );
+    }
+  }
+  public static readonly id = "inspect.runHistoryOpenOutput";
+  public readonly id = OpenRunOutputCommand.id;
+}
+
+export class ClearRunsCommand implements Command {
+  constructor(private readonly runHistory_: RunHistoryManager) {}
+  async execute(): Promise<void> {
+    await this.runHistory_.clear();
+  }
+  private static readonly id = "inspect.runHistoryClear";
+  public readonly id = ClearRunsCommand.id;
+}
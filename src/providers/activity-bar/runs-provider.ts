@@ -0,0 +1,190 @@
+import { basename } from "path";
+
+import { formatDistanceToNow } from "date-fns";
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  MarkdownString,
+  ThemeColor,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  window,
+} from "vscode";
+
+import { Command } from "../../core/command";
+import { formatDuration } from "../../core/string";
+import { RunHistoryManager, RunRecord } from "../runs/run-history-provider";
+
+import {
+  ClearRunsCommand,
+  OpenRunOutputCommand,
+  RerunCommand,
+  StopRunCommand,
+} from "./runs-commands";
+
+// Activation function for the runs view
+export function activateRunsView(
+  context: ExtensionContext,
+  runHistory: RunHistoryManager
+): [Command[], Disposable] {
+  const treeDataProvider = new RunsTreeDataProvider(runHistory);
+  const tree = window.createTreeView(RunsTreeDataProvider.viewType, {
+    treeDataProvider,
+    showCollapseAll: false,
+    canSelectMany: false,
+  });
+  context.subscriptions.push(tree);
+
+  return [
+    [
+      new RerunCommand(runHistory),
+      new StopRunCommand(runHistory),
+      new OpenRunOutputCommand(),
+      new ClearRunsCommand(runHistory),
+    ],
+    treeDataProvider,
+  ];
+}
+
+// A tree item for a single run
+export class RunTreeItem extends TreeItem {
+  constructor(public readonly run: RunRecord) {
+    super(run.task || basename(run.file), TreeItemCollapsibleState.None);
+
+    this.id = run.id;
+    this.iconPath = iconForRun(run);
+    this.description = describeRun(run);
+    this.tooltip = runTooltip(run);
+
+    const contextValue = ["run", run.status];
+    if (run.outputs.length > 0) {
+      contextValue.push("output");
+    }
+    this.contextValue = contextValue.join("+");
+
+    if (run.outputs.length > 0) {
+      this.command = {
+        title: run.target === "Eval" ? "View Log" : "View Scan",
+        command: OpenRunOutputCommand.id,
+        arguments: [this],
+      };
+    }
+  }
+}
+
+// Data provider for the runs view
+export class RunsTreeDataProvider
+  implements TreeDataProvider<RunTreeItem>, Disposable
+{
+  public static readonly viewType = "inspect_ai.runs-view";
+
+  constructor(private readonly runHistory_: RunHistoryManager) {
+    this.disposables_.push(
+      this.runHistory_.onRunsChanged(() => {
+        this.onDidChangeTreeData_.fire();
+      })
+    );
+
+    // Keep the relative times and durations current
+    const refreshInterval = setInterval(() => {
+      this.onDidChangeTreeData_.fire();
+    }, 30 * 1000);
+    this.disposables_.push({
+      dispose: () => {
+        clearInterval(refreshInterval);
+      },
+    });
+  }
+
+  private disposables_: Disposable[] = [];
+  dispose() {
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+
+  private onDidChangeTreeData_ = new EventEmitter<
+    RunTreeItem | undefined | null | void
+  >();
+  readonly onDidChangeTreeData: Event<RunTreeItem | undefined | null | void> =
+    this.onDidChangeTreeData_.event;
+
+  getTreeItem(element: RunTreeItem): TreeItem {
+    return element;
+  }
+
+  getChildren(element?: RunTreeItem): Thenable<RunTreeItem[]> {
+    if (element) {
+      return Promise.resolve([]);
+    }
+    return Promise.resolve(
+      this.runHistory_.getRuns().map((run) => new RunTreeItem(run))
+    );
+  }
+}
+
+function iconForRun(run: RunRecord) {
+  switch (run.status) {
+    case "running":
+      return new ThemeIcon("sync~spin");
+    case "succeeded":
+      return new ThemeIcon("pass", new ThemeColor("testing.iconPassed"));
+    case "failed":
+      return new ThemeIcon("error", new ThemeColor("testing.iconFailed"));
+    case "cancelled":
+      return new ThemeIcon("circle-slash");
+    case "ended":
+    case "untracked":
+    default:
+      return new ThemeIcon("circle-outline");
+  }
+}
+
+function describeRun(run: RunRecord) {
+  const parts: string[] = [];
+  if (run.debug) {
+    parts.push("debug");
+  }
+  if (run.status === "running") {
+    parts.push(`running ${formatDuration(Date.now() - run.startedAt)}`);
+  } else {
+    parts.push(formatDistanceToNow(run.startedAt, { addSuffix: true }));
+    if (run.endedAt) {
+      parts.push(formatDuration(run.endedAt - run.startedAt));
+    }
+  }
+  return parts.join(" · ");
+}
+
+function runTooltip(run: RunRecord) {
+  const lines = [
+    `**${run.task || basename(run.file)}** (${run.status})`,
+    "",
+    "```",
+    [run.command, ...run.args].join(" "),
+    "```",
+    "",
+    `Started: ${new Date(run.startedAt).toLocaleString()}  `,
+  ];
+  if (run.endedAt) {
+    lines.push(`Ended: ${new Date(run.endedAt).toLocaleString()}  `);
+  }
+  if (run.exitCode !== undefined) {
+    lines.push(`Exit code: ${run.exitCode}  `);
+  }
+  if (run.interpreter) {
+    lines.push(`Interpreter: ${run.interpreter}  `);
+  }
+  lines.push(`Directory: ${run.cwd}  `);
+  if (run.status === "untracked") {
+    lines.push(
+      "",
+      "_Shell integration was unavailable, so completion of this run is not tracked._"
+    );
+  }
+  return new MarkdownString(lines.join("\n"));
+}
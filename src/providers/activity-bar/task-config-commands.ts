@@ -1,13 +1,26 @@
+import { basename } from "path";
+
+import { format } from "date-fns";
+import { Uri, window } from "vscode";
+
 import { scheduleReturnFocus } from "../../components/focus";
 import { Command } from "../../core/command";
 import { ExecManager } from "../../core/package/exec-manager";
-import { toAbsolutePath } from "../../core/path";
+import {
+  AbsolutePath,
+  toAbsolutePath,
+  workspaceRelativePath,
+} from "../../core/path";
+import { uriCommandArg } from "../../core/uri";
 import { ActiveTaskManager } from "../active-task/active-task-provider";
+import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
+import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
 
 export class RunConfigTaskCommand implements Command {
   constructor(
     private readonly manager_: ActiveTaskManager,
-    private readonly inspectMgr_: ExecManager
+    private readonly inspectMgr_: ExecManager,
+    private readonly stateMgr_: WorkspaceStateManager
   ) {}
   async execute(): Promise<void> {
     const taskInfo = this.manager_.getActiveTaskInfo();
@@ -16,7 +29,8 @@ export class RunConfigTaskCommand implements Command {
       const evalPromise = this.inspectMgr_.start(
         docPath,
         taskInfo.activeTask?.name,
-        false
+        false,
+        selectedPreset(this.stateMgr_, docPath, taskInfo.activeTask?.name)
       );
       scheduleReturnFocus("inspect_ai.task-configuration.focus");
       await evalPromise;
@@ -30,7 +44,8 @@ export class RunConfigTaskCommand implements Command {
 export class DebugConfigTaskCommand implements Command {
   constructor(
     private readonly manager_: ActiveTaskManager,
-    private readonly inspectMgr_: ExecManager
+    private readonly inspectMgr_: ExecManager,
+    private readonly stateMgr_: WorkspaceStateManager
   ) {}
   async execute(): Promise<void> {
     const taskInfo = this.manager_.getActiveTaskInfo();
@@ -39,7 +54,8 @@ export class DebugConfigTaskCommand implements Command {
       const evalPromise = this.inspectMgr_.start(
         docPath,
         taskInfo.activeTask?.name,
-        true
+        true,
+        selectedPreset(this.stateMgr_, docPath, taskInfo.activeTask?.name)
       );
       scheduleReturnFocus("inspect_ai.task-configuratio.focus");
       await evalPromise;
@@ -49,3 +65,76 @@ export class DebugConfigTaskCommand implements Command {
   private static readonly id = "inspect.debugConfigTask";
   public readonly id = DebugConfigTaskCommand.id;
 }
+
+export class RunConfigTaskModelsCommand implements Command {
+  constructor(
+    private readonly manager_: ActiveTaskManager,
+    private readonly inspectMgr_: ExecManager,
+    private readonly stateMgr_: WorkspaceStateManager,
+    private readonly envMgr_: WorkspaceEnvManager
+  ) {}
+  async execute(): Promise<void> {
+    const taskInfo = this.manager_.getActiveTaskInfo();
+    if (!taskInfo) {
+      return;
+    }
+
+    const docPath = toAbsolutePath(taskInfo.document.fsPath);
+    const task = taskInfo.activeTask?.name;
+    const preset = selectedPreset(this.stateMgr_, docPath, task);
+    const models =
+      this.stateMgr_.getTaskState(docPath.path, task, preset || undefined)
+        .models || [];
+    if (models.length === 0) {
+      await window.showInformationMessage(
+        "Add models in the Models tab of the Task panel to run the task on multiple models."
+      );
+      return;
+    }
+
+    if (
+      !(await this.inspectMgr_.validate([
+        { file: docPath, target: task, preset },
+      ]))
+    ) {
+      return;
+    }
+
+    // Write the logs for each of the models into a single directory
+    // (so they are grouped together in the Logs panel)
+    const name = task || basename(docPath.path, ".py");
+    const logDir = Uri.joinPath(
+      this.envMgr_.getDefaultLogDir(Uri.file(docPath.path)),
+      `${name}-models-${format(new Date(), "yyyy-MM-dd'T'HH-mm-ss")}`
+    );
+
+    const relativePath = workspaceRelativePath(docPath);
+    // (the models and log dir come last so they take precedence over
+    // any model or log dir set in the task options)
+    const args = [
+      "eval",
+      task ? `${relativePath}@${task}` : relativePath,
+      ...this.inspectMgr_.taskArgs(docPath, task, false, preset),
+      "--model",
+      models.join(","),
+      "--log-dir",
+      uriCommandArg(logDir),
+    ];
+
+    const evalPromise = this.inspectMgr_.startArgs(docPath, task, args);
+    scheduleReturnFocus("inspect_ai.task-configuration.focus");
+    await evalPromise;
+  }
+
+  private static readonly id = "inspect.runConfigTaskModels";
+  public readonly id = RunConfigTaskModelsCommand.id;
+}
+
+// The preset shown in the Task panel (null when the unnamed task state is shown)
+function selectedPreset(
+  stateMgr: WorkspaceStateManager,
+  docPath: AbsolutePath,
+  task?: string
+) {
+  return stateMgr.getTaskPresets(docPath.path, task).selectedPreset ?? null;
+}
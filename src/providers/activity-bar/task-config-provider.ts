@@ -7,6 +7,7 @@ import {
   Webview,
   WebviewView,
   WebviewViewProvider,
+  window,
 } from "vscode";
 
 import { DocumentTaskInfo } from "../../components/task";
@@ -17,17 +18,34 @@ import {
   ActiveTaskChangedEvent,
   ActiveTaskManager,
 } from "../active-task/active-task-provider";
+import {
+  availableEvalOptions,
+  EvalOption,
+  EvalOptionGroup,
+  kEvalOptionGroups,
+} from "../inspect/inspect-eval-options";
 import {
   DocumentState,
   WorkspaceStateManager,
 } from "../workspace/workspace-state-provider";
 
+import { modelPickerHTML } from "./env-config-provider";
+
 export type SetActiveTaskCommand = {
   type: "setActiveTask";
   task: DocumentTaskInfo;
   state: DocumentState;
+  presets: PresetsInfo;
+  evalOptions: EvalOption[];
+  evalOptionGroups: Record<EvalOptionGroup, string>;
 } & Record<string, unknown>;
 
+export interface PresetsInfo {
+  names: string[];
+  defaultPreset?: string;
+  selectedPreset?: string;
+}
+
 export type SetStateCmd = {
   command: "setStateValue";
   key: string;
@@ -40,6 +58,34 @@ export type SetStateParamCmd = {
   value: string;
 };
 
+export type SetStateOptionCmd = {
+  command: "setStateOption";
+  key: string;
+  value: string;
+};
+
+export type SetStateModelsCmd = {
+  command: "setStateModels";
+  models: string[];
+};
+
+export type RunModelsCmd = {
+  command: "runModels";
+};
+
+export type SelectPresetCmd = {
+  command: "selectPreset";
+  preset: string;
+};
+
+export type PresetAction =
+  "create" | "rename" | "duplicate" | "delete" | "setDefault";
+
+export type PresetActionCmd = {
+  command: "presetAction";
+  action: PresetAction;
+};
+
 export type NoInspectCmd = {
   command: "noPackage";
 };
@@ -87,9 +133,11 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
     };
 
     const removeStaleTaskParams = async (activeTaskInfo: DocumentTaskInfo) => {
+      const preset = this.selectedPreset(activeTaskInfo);
       const currentState = this.stateManager_.getTaskState(
         activeTaskInfo.document.fsPath,
-        activeTaskInfo.activeTask?.name
+        activeTaskInfo.activeTask?.name,
+        preset
       );
       const keysToRemove = Object.keys(currentState.params || {}).filter(
         (key) => {
@@ -105,7 +153,8 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
         await this.stateManager_.setTaskState(
           activeTaskInfo.document.fsPath,
           currentState,
-          activeTaskInfo.activeTask?.name
+          activeTaskInfo.activeTask?.name,
+          preset
         );
       }
     };
@@ -148,15 +197,29 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
         return;
       }
 
-      const currentState = this.stateManager_.getTaskState(
+      const presets = this.stateManager_.getTaskPresets(
         activeTaskInfo.document.fsPath,
         activeTaskInfo.activeTask?.name
       );
+      const currentState = this.stateManager_.getTaskState(
+        activeTaskInfo.document.fsPath,
+        activeTaskInfo.activeTask?.name,
+        this.selectedPreset(activeTaskInfo)
+      );
+      const presetsInfo: PresetsInfo = {
+        names: Object.keys(presets.presets).sort(),
+        defaultPreset: presets.defaultPreset,
+        selectedPreset: this.selectedPreset(activeTaskInfo),
+      };
       await webviewView.webview.postMessage({
         type: "setActiveTask",
         task: activeTaskInfo,
         state: currentState,
+        presets: presetsInfo,
+        evalOptions: availableEvalOptions(),
+        evalOptionGroups: kEvalOptionGroups,
       });
+      await updateModelsState(currentState);
       webviewView.description =
         activeTaskInfo.activeTask?.name ||
         basename(activeTaskInfo.document.fsPath);
@@ -169,6 +232,16 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
       })
     );
 
+    // Reflect edits to the workspace task configuration file
+    this.disposables_.push(
+      this.stateManager_.onTaskStateChanged(async () => {
+        const activeTask = this.taskManager_.getActiveTaskInfo();
+        if (activeTask) {
+          await postActiveTaskMsg(activeTask);
+        }
+      })
+    );
+
     if (inspectVersion() === null) {
       await noInspectMsg();
     }
@@ -178,13 +251,43 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
 
     // Process UI messages
     webviewView.webview.onDidReceiveMessage(
-      async (data: SetStateCmd | SetStateParamCmd) => {
+      async (
+        data:
+          | SetStateCmd
+          | SetStateParamCmd
+          | SetStateOptionCmd
+          | SetStateModelsCmd
+          | RunModelsCmd
+          | SelectPresetCmd
+          | PresetActionCmd
+      ) => {
+        if (data.command === "runModels") {
+          await commands.executeCommand("inspect.runConfigTaskModels");
+          return;
+        }
+
         const activeTask = this.taskManager_.getActiveTaskInfo();
+        if (activeTask && data.command === "selectPreset") {
+          await this.stateManager_.selectTaskPreset(
+            activeTask.document.fsPath,
+            activeTask.activeTask?.name,
+            data.preset || undefined
+          );
+          await postActiveTaskMsg(activeTask);
+          return;
+        } else if (activeTask && data.command === "presetAction") {
+          await this.handlePresetAction(activeTask, data.action);
+          await postActiveTaskMsg(activeTask);
+          return;
+        }
+
         if (activeTask) {
           const path = activeTask.document.fsPath;
+          const preset = this.selectedPreset(activeTask);
           const currentState = this.stateManager_.getTaskState(
             path,
-            activeTask.activeTask?.name
+            activeTask.activeTask?.name,
+            preset
           );
           switch (data.command) {
             case "setStateValue":
@@ -222,11 +325,25 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
                 currentState.params[data.key] = data.value;
               }
               break;
+            case "setStateOption":
+              currentState.options = currentState.options || {};
+              if (data.value.trim() === "") {
+                delete currentState.options[data.key];
+              } else {
+                currentState.options[data.key] = data.value;
+              }
+              break;
+            case "setStateModels":
+              currentState.models =
+                data.models.length > 0 ? data.models : undefined;
+              await updateModelsState(currentState);
+              break;
           }
           await this.stateManager_.setTaskState(
             path,
             currentState,
-            activeTask.activeTask?.name
+            activeTask.activeTask?.name,
+            preset
           );
         }
       }
@@ -237,6 +354,100 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
       this.dispose();
     });
   }
+
+  // The preset being edited (if it still exists)
+  private selectedPreset(taskInfo: DocumentTaskInfo) {
+    const presets = this.stateManager_.getTaskPresets(
+      taskInfo.document.fsPath,
+      taskInfo.activeTask?.name
+    );
+    return presets.selectedPreset && presets.presets[presets.selectedPreset]
+      ? presets.selectedPreset
+      : undefined;
+  }
+
+  private async handlePresetAction(
+    taskInfo: DocumentTaskInfo,
+    action: PresetAction
+  ) {
+    const file = taskInfo.document.fsPath;
+    const task = taskInfo.activeTask?.name;
+    const presets = this.stateManager_.getTaskPresets(file, task);
+    const selected = this.selectedPreset(taskInfo);
+
+    const promptName = (title: string, value?: string) => {
+      return window.showInputBox({
+        title,
+        prompt: "Preset name",
+        value,
+        validateInput: (name) => {
+          const trimmed = name.trim();
+          if (trimmed.length === 0) {
+            return "Please provide a name for the preset";
+          } else if (trimmed !== value && presets.presets[trimmed]) {
+            return `A preset named '${trimmed}' already exists`;
+          }
+          return undefined;
+        },
+      });
+    };
+
+    switch (action) {
+      case "create": {
+        const name = await promptName("New Preset");
+        if (name) {
+          await this.stateManager_.createTaskPreset(file, task, name.trim());
+        }
+        break;
+      }
+      case "duplicate": {
+        const name = await promptName(
+          "Duplicate Preset",
+          selected ? `${selected} (copy)` : undefined
+        );
+        if (name) {
+          await this.stateManager_.createTaskPreset(
+            file,
+            task,
+            name.trim(),
+            this.stateManager_.getTaskState(file, task, selected)
+          );
+        }
+        break;
+      }
+      case "rename": {
+        if (selected) {
+          const name = await promptName("Rename Preset", selected);
+          if (name && name.trim() !== selected) {
+            await this.stateManager_.renameTaskPreset(
+              file,
+              task,
+              selected,
+              name.trim()
+            );
+          }
+        }
+        break;
+      }
+      case "delete": {
+        if (selected) {
+          const result = await window.showWarningMessage(
+            `Delete the preset '${selected}'?`,
+            { modal: true },
+            "Delete"
+          );
+          if (result === "Delete") {
+            await this.stateManager_.deleteTaskPreset(file, task, selected);
+          }
+        }
+        break;
+      }
+      case "setDefault":
+        await this.stateManager_.setDefaultTaskPreset(file, task, selected);
+        break;
+    }
+  }
+
   private disposables_: Disposable[] = [];
   private dispose() {
     this.disposables_.forEach((disposable) => {
@@ -301,9 +512,19 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
               <body>
               <section class="component-container">
                 <form id="configuration-controls" class="hidden">
+                  <div id="preset-controls" class="preset-controls full-width">
+                    <vscode-dropdown id="preset" title="The preset to edit and run from this panel"></vscode-dropdown>
+                    <vscode-button id="preset-default" appearance="icon" title="Use this preset when running the task from the editor or task list"><span class="codicon codicon-star-empty"></span></vscode-button>
+                    <vscode-button id="preset-create" appearance="icon" title="New preset"><span class="codicon codicon-add"></span></vscode-button>
+                    <vscode-button id="preset-duplicate" appearance="icon" title="Duplicate preset"><span class="codicon codicon-copy"></span></vscode-button>
+                    <vscode-button id="preset-rename" appearance="icon" title="Rename preset"><span class="codicon codicon-edit"></span></vscode-button>
+                    <vscode-button id="preset-delete" appearance="icon" title="Delete preset"><span class="codicon codicon-trash"></span></vscode-button>
+                  </div>
                   <vscode-panels>
                   <vscode-panel-tab id="tab-1">Options</vscode-panel-tab>
                   <vscode-panel-tab id="tab-2">Task Args</vscode-panel-tab>
+                  <vscode-panel-tab id="tab-3">Models</vscode-panel-tab>
+                  <vscode-panel-tab id="tab-4">More</vscode-panel-tab>
                   <vscode-panel-view id="view-1" class="flex-rows">
                     <div class="cols full-width two-cols">
                       <vscode-text-field id="limit" size="3" placeholder="default" title="Limit samples to evaluate e.g. 10 or 10-20">Limit</vscode-text-field>
@@ -321,6 +542,19 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
                     <div id="task-args" class="full-width cols">
                     </div>
                   </vscode-panel-view>
+                  <vscode-panel-view id="view-3" class="flex-rows">
+                    <div class="full-width">
+                      ${modelPickerHTML("Add Model", false)}
+                      <vscode-button id="add-model" appearance="secondary" title="Add this model to the list of models to run the task against">Add</vscode-button>
+                    </div>
+                    <div id="model-list" class="full-width">
+                    </div>
+                    <vscode-button id="run-models" class="hidden" title="Run the task against each of the models (logs are grouped in a single folder)">Run on All Models</vscode-button>
+                  </vscode-panel-view>
+                  <vscode-panel-view id="view-4" class="flex-rows">
+                    <div id="eval-options" class="full-width">
+                    </div>
+                  </vscode-panel-view>
                 </vscode-panels>      
                 </form>
               </section>
@@ -331,6 +565,14 @@ export class TaskConfigurationProvider implements WebviewViewProvider {
   }
 }
 
+const updateModelsState = async (state: DocumentState) => {
+  await commands.executeCommand(
+    "setContext",
+    "inspect_ai.task-configuration.hasModels",
+    (state.models || []).length > 0
+  );
+};
+
 const updateSidebarState = async (taskInfo?: DocumentTaskInfo) => {
   await commands.executeCommand(
     "setContext",
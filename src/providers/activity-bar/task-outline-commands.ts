@@ -1,5 +1,6 @@
 import { writeFileSync } from "fs";
 
+import { format } from "date-fns";
 import {
   commands,
   ConfigurationTarget,
@@ -25,10 +26,20 @@ import {
 import { readTemplate, templates } from "../../components/templates";
 import { Command } from "../../core/command";
 import { ExecManager } from "../../core/package/exec-manager";
-import { pathExists, toAbsolutePath, workspacePath } from "../../core/path";
+import {
+  pathExists,
+  toAbsolutePath,
+  workspacePath,
+  workspaceRelativePath,
+} from "../../core/path";
 import { isValidPythonFnName } from "../../core/python";
+import { getRelativeUri, uriCommandArg } from "../../core/uri";
+import { workspaceFolderFor } from "../../core/workspace";
 import { ActiveTaskManager } from "../active-task/active-task-provider";
+import { evalSetArgs, mergeTaskArgs } from "../inspect/inspect-eval-set";
 import { InspectViewManager } from "../logview/logview-view";
+import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
+import { TaskPath } from "../workspace/workspace-task-provider";
 
 import {
   TaskOutLineTreeDataProvider,
@@ -91,6 +102,172 @@ export class DebugSelectedEvalCommand implements Command {
   public readonly id = DebugSelectedEvalCommand.id;
 }
 
+export class RunEvalSetCommand implements Command {
+  constructor(
+    private readonly tree_: TreeView<TaskTreeItem>,
+    private readonly inspectEvalMgr_: ExecManager,
+    private readonly envMgr_: WorkspaceEnvManager
+  ) {}
+  async execute(
+    treeItem?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    // Collect the tasks for the selected items (files and folders
+    // contribute all of the tasks within them)
+    const items =
+      selection && selection.length > 0
+        ? selection
+        : this.tree_.selection.length > 0
+          ? this.tree_.selection
+          : treeItem
+            ? [treeItem]
+            : [];
+    const tasks = uniqueTasks(items.flatMap((item) => tasksFor(item.taskPath)));
+    if (tasks.length === 0) {
+      await window.showInformationMessage(
+        "Select one or more tasks in the Tasks panel to run as an eval set."
+      );
+      return;
+    }
+
+    // Eval sets are run from the workspace folder containing the tasks
+    const folders = new Set(
+      tasks.map((task) => workspaceFolderFor(Uri.file(task.path)).uri.fsPath)
+    );
+    const [folder] = folders;
+    if (folder === undefined || folders.size > 1) {
+      await window.showInformationMessage(
+        "The tasks in an eval set must be within the same workspace folder."
+      );
+      return;
+    }
+
+    // Check the tasks' options before launching
+    if (
+      !(await this.inspectEvalMgr_.validate(
+        tasks.map((task) => ({
+          file: toAbsolutePath(task.path),
+          target: task.name,
+        }))
+      ))
+    ) {
+      return;
+    }
+
+    // Gather the log dir and retry options
+    const logDir = await window.showInputBox({
+      title: "Run as Eval Set",
+      prompt: "Log directory for the eval set",
+      value: this.defaultLogDir(Uri.file(folder)),
+      validateInput: (input) =>
+        input.trim().length === 0 ? "A log directory is required." : null,
+    });
+    if (logDir === undefined) {
+      return;
+    }
+    const retryAttempts = await window.showInputBox({
+      title: "Run as Eval Set",
+      prompt: "Maximum number of retry attempts (leave blank for default)",
+      placeHolder: "10",
+      validateInput: validateCount,
+    });
+    if (retryAttempts === undefined) {
+      return;
+    }
+    const retryWait = await window.showInputBox({
+      title: "Run as Eval Set",
+      prompt:
+        "Seconds to wait before retrying, doubling with each attempt (leave blank for default)",
+      placeHolder: "30",
+      validateInput: validateCount,
+    });
+    if (retryWait === undefined) {
+      return;
+    }
+
+    // Options apply to all of the tasks in an eval set, so confirm
+    // before dropping options that the tasks don't agree on
+    const merged = mergeTaskArgs(
+      tasks.map((task) =>
+        this.inspectEvalMgr_.taskArgs(toAbsolutePath(task.path), task.name)
+      )
+    );
+    if (merged.conflicts.length > 0) {
+      const result = await window.showWarningMessage(
+        "Tasks Have Different Options",
+        {
+          modal: true,
+          detail: `Options are shared by all of the tasks in an eval set. The following options differ between the selected tasks and will not be used: ${merged.conflicts.join(", ")}`,
+        },
+        { title: "Run Eval Set", isCloseAffordance: false },
+        { title: "Cancel", isCloseAffordance: true }
+      );
+      if (result?.title !== "Run Eval Set") {
+        return;
+      }
+    }
+
+    const taskSpecs = tasks.map(
+      (task) =>
+        `${workspaceRelativePath(toAbsolutePath(task.path))}@${task.name}`
+    );
+    const args = evalSetArgs(taskSpecs, merged.args, {
+      logDir: logDir.trim(),
+      retryAttempts: retryAttempts.trim(),
+      retryWait: retryWait.trim(),
+    });
+
+    const [first] = tasks;
+    if (first) {
+      await this.inspectEvalMgr_.startArgs(
+        toAbsolutePath(first.path),
+        tasks.map((task) => task.name).join(", "),
+        args
+      );
+    }
+  }
+
+  private defaultLogDir(folder: Uri) {
+    const logDir = this.envMgr_.getDefaultLogDir(folder);
+    const name = `eval-set-${format(new Date(), "yyyy-MM-dd'T'HH-mm-ss")}`;
+    const relative = getRelativeUri(folder, logDir);
+    if (relative !== null) {
+      return `${relative}/${name}`;
+    } else {
+      return uriCommandArg(Uri.joinPath(logDir, name));
+    }
+  }
+
+  private static readonly id = "inspect.runEvalSet";
+  public readonly id = RunEvalSetCommand.id;
+}
+
+const tasksFor = (taskPath: TaskPath): TaskPath[] => {
+  if (taskPath.type === "task") {
+    return [taskPath];
+  } else {
+    return taskPath.children?.flatMap(tasksFor) || [];
+  }
+};
+
+const uniqueTasks = (tasks: TaskPath[]) => {
+  const seen = new Set<string>();
+  return tasks.filter((task) => {
+    const key = `${task.path}@${task.name}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+const validateCount = (input: string) => {
+  return input.trim().length === 0 || /^\d+$/.test(input.trim())
+    ? null
+    : "Please enter a whole number.";
+};
+
 export class EditSelectedTaskCommand implements Command {
   constructor(
     private readonly tree_: TreeView<TaskTreeItem>,
@@ -98,8 +275,9 @@ export class EditSelectedTaskCommand implements Command {
     private activeTaskManager_: ActiveTaskManager
   ) {}
   async execute() {
+    // Multiple selections are used for eval sets (not editing)
     if (this.tree_.selection.length > 1) {
-      throw new Error("Expected only a single selector for the task tree");
+      return;
     }
 
     if (this.tree_.selection.length === 1) {
@@ -1,6 +1,3 @@
-import { basename, relative, sep } from "path";
-
-import { throttle } from "lodash";
 import {
   commands,
   Disposable,
@@ -23,10 +20,10 @@ import { DocumentTaskInfo } from "../../components/task";
 import { Command } from "../../core/command";
 import { ExecManager } from "../../core/package/exec-manager";
 import { PackageManager } from "../../core/package/manager";
-import { AbsolutePath, activeWorkspacePath } from "../../core/path";
 import { inspectVersion } from "../../inspect";
 import { ActiveTaskManager } from "../active-task/active-task-provider";
 import { InspectViewManager } from "../logview/logview-view";
+import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
 import {
   TaskPath,
   TasksChangedEvent,
@@ -37,6 +34,7 @@ import {
   CreateTaskCommand,
   DebugSelectedEvalCommand,
   EditSelectedTaskCommand,
+  RunEvalSetCommand,
   RunSelectedEvalCommand,
   ShowTaskList,
   ShowTaskTree,
@@ -49,7 +47,8 @@ export async function activateTaskOutline(
   workspaceTaskMgr: WorkspaceTaskManager,
   activeTaskManager: ActiveTaskManager,
   inspectManager: PackageManager,
-  inspectLogviewManager: InspectViewManager
+  inspectLogviewManager: InspectViewManager,
+  workspaceEnvMgr: WorkspaceEnvManager
 ): Promise<[Command[], Disposable]> {
   // Command when item is clicked
   const treeDataProvider = new TaskOutLineTreeDataProvider(workspaceTaskMgr, {
@@ -82,7 +81,7 @@ export async function activateTaskOutline(
   const tree = window.createTreeView(TaskOutLineTreeDataProvider.viewType, {
     treeDataProvider,
     showCollapseAll: true,
-    canSelectMany: false,
+    canSelectMany: true,
   });
 
   context.subscriptions.push(
@@ -123,6 +122,7 @@ export async function activateTaskOutline(
       new ShowTaskTree(treeDataProvider),
       new RunSelectedEvalCommand(inspectEvalMgr),
       new DebugSelectedEvalCommand(inspectEvalMgr),
+      new RunEvalSetCommand(tree, inspectEvalMgr, workspaceEnvMgr),
       new EditSelectedTaskCommand(
         tree,
         inspectLogviewManager,
@@ -243,25 +243,19 @@ export class TaskOutLineTreeDataProvider
     private readonly command_?: VsCodeCommand
   ) {
     this.disposables_.push(
-      this.workspaceMgr.onTasksChanged(
-        throttle(
-          async (e: TasksChangedEvent) => {
-            this.setTasks(e.tasks || []);
-            await commands.executeCommand(
-              "setContext",
-              "inspect_ai.task-outline-view.tasksLoaded",
-              true
-            );
-            await commands.executeCommand(
-              "setContext",
-              "inspect_ai.task-outline-view.noTasks",
-              e.tasks?.length === 0
-            );
-          },
-          500,
-          { leading: true, trailing: true }
-        )
-      )
+      this.workspaceMgr.onTasksChanged(async (e: TasksChangedEvent) => {
+        this.setTasks(e.tasks || [], e.changed);
+        await commands.executeCommand(
+          "setContext",
+          "inspect_ai.task-outline-view.tasksLoaded",
+          true
+        );
+        await commands.executeCommand(
+          "setContext",
+          "inspect_ai.task-outline-view.noTasks",
+          e.tasks?.length === 0
+        );
+      })
     );
   }
 
@@ -282,15 +276,34 @@ export class TaskOutLineTreeDataProvider
 
   async refresh() {
     await this.workspaceMgr.refresh();
+    this.setTasks(this.workspaceMgr.getTasks());
   }
 
   clear() {
     this.setTasks([]);
   }
 
-  private setTasks(taskNodes: TaskPath[]) {
+  // Tree items are reused for unchanged nodes so that individual nodes can
+  // be refreshed when the tasks in a file change
+  private treeItems_ = new WeakMap<TaskPath, TaskTreeItem>();
+
+  private setTasks(taskNodes: TaskPath[], changed?: TaskPath[]) {
     this.taskNodes = taskNodes;
-    this.onDidChangeTreeData_.fire();
+    const mode =
+      workspace.getConfiguration("inspect_ai").get("taskListView") || "tree";
+    const changedItems = changed?.map((node) => this.treeItems_.get(node));
+    if (
+      mode === "tree" &&
+      changedItems &&
+      changedItems.every((item) => item !== undefined)
+    ) {
+      changedItems.forEach((item) => {
+        this.onDidChangeTreeData_.fire(item);
+      });
+    } else {
+      this.treeItems_ = new WeakMap();
+      this.onDidChangeTreeData_.fire();
+    }
   }
 
   getTreeItem(element: TaskTreeItem): TreeItem {
@@ -317,7 +330,18 @@ export class TaskOutLineTreeDataProvider
       workspace.getConfiguration("inspect_ai").get("taskListView") || "tree";
 
     if (mode === "tree") {
-      return tree.map((node) => new TaskTreeItem(node, this.command_, parent));
+      return tree.map((node) => {
+        // Tasks are recreated when their file changes, so only folders and
+        // files need to be reused
+        let item = this.treeItems_.get(node);
+        if (!item) {
+          item = new TaskTreeItem(node, this.command_, parent);
+          if (node.type !== "task") {
+            this.treeItems_.set(node, item);
+          }
+        }
+        return item;
+      });
     } else {
       const getTasks = (node: TaskPath): TaskPath[] => {
         if (node.type === "task") {
@@ -331,8 +355,6 @@ export class TaskOutLineTreeDataProvider
         }
       };
 
-      const workspacePath = activeWorkspacePath();
-
       return tree
         .flatMap((node) => getTasks(node))
         .sort((a, b) => {
@@ -341,7 +363,7 @@ export class TaskOutLineTreeDataProvider
         .map((taskPath) => {
           return new TaskListItem(
             taskPath,
-            describeRelativePath(taskPath.path, workspacePath),
+            describeRelativePath(taskPath.path),
             this.command_,
             parent
           );
@@ -350,14 +372,10 @@ export class TaskOutLineTreeDataProvider
   }
 }
 
-function describeRelativePath(path: string, workspacePath?: AbsolutePath) {
-  if (!workspacePath) {
-    return basename(path);
-  } else {
-    const relPath = relative(workspacePath.path, path);
-    const parts = relPath.split(sep);
-    return parts.join(" > ");
-  }
+// The workspace relative path of a file (including the workspace folder
+// name in multi-root workspaces)
+function describeRelativePath(path: string) {
+  return workspace.asRelativePath(path).split(/[\\/]/).join(" > ");
 }
 
 // Find a task in the tree based upon its
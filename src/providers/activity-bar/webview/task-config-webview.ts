@@ -11,8 +11,23 @@ import {
   provideVSCodeDesignSystem,
 } from "@vscode/webview-ui-toolkit";
 
+import { TaskData } from "../../../components/task";
+import {
+  TaskParamInfo,
+  validateTaskParam,
+  validateTaskParams,
+} from "../../../components/task-params";
+import { EvalOption } from "../../inspect/inspect-eval-options";
 import { DocumentState } from "../../workspace/workspace-state-provider";
+import { PresetAction, PresetsInfo } from "../task-config-provider";
 
+import {
+  getModelEl,
+  getProviderEl,
+  getProviderText,
+  resetModel,
+  showProviderHelp,
+} from "./env-utils-model";
 import {
   isMessageFromHost,
   restoreInputState,
@@ -48,37 +63,29 @@ window.addEventListener("message", (e) => {
       break;
 
     case "setActiveTask":
-      const placeholderPanel = document.querySelector(".empty-panel");
+      const placeholderPanel = document.querySelector("body > .empty-panel");
       if (placeholderPanel) {
         placeholderPanel.remove();
       }
+      restorePresets(e.data.presets);
       restoreState(e.data.state);
+      restoreModels(e.data.state);
+      renderEvalOptions(
+        e.data.evalOptions,
+        e.data.evalOptionGroups,
+        e.data.state
+      );
       attachListeners();
 
       const taskArgContainer = document.getElementById("task-args");
       if (taskArgContainer) {
         taskArgContainer.replaceChildren();
         if (e.data.task.activeTask?.params) {
-          let count = 1;
-          for (const param of e.data.task.activeTask.params) {
-            const id = `task-param-${count}`;
-            const textField = document.createElement("vscode-text-field");
-            textField.id = id;
-            textField.setAttribute("placeholder", "default");
-            textField.classList.add("full-width");
-            textField.innerText = param;
-            if (e.data.state.params) {
-              const paramValue = e.data.state.params[param];
-              if (paramValue) {
-                textField.setAttribute("value", paramValue);
-              }
-            }
-            taskArgContainer.appendChild(textField);
-            whenChanged(id, (value) => {
-              setStateParam(param, value);
-            });
-            count++;
-          }
+          renderTaskParams(
+            taskArgContainer,
+            taskParamInfo(e.data.task.activeTask),
+            e.data.state
+          );
           if (e.data.task.activeTask?.params.length === 0) {
             showEmptyPanel(
               "No arguments for this task",
@@ -97,6 +104,144 @@ window.addEventListener("message", (e) => {
 // Once loaded, initialize the process
 window.addEventListener("load", main);
 
+// The param info for a task (params without info are edited as text)
+function taskParamInfo(task: TaskData): TaskParamInfo[] {
+  return task.params.map(
+    (param) =>
+      task.paramInfo?.find((info) => info.name === param) || {
+        name: param,
+        type: "unknown",
+        optional: false,
+      }
+  );
+}
+
+function renderTaskParams(
+  containerEl: HTMLElement,
+  params: TaskParamInfo[],
+  state?: DocumentState
+) {
+  const values: Record<string, string> = { ...state?.params };
+  const errorsEl = document.createElement("div");
+  errorsEl.classList.add("full-width", "error", "hidden");
+
+  const validate = () => {
+    const errors = validateTaskParams(params, values);
+    errorsEl.innerText = errors.join("\n");
+    errorsEl.classList.toggle("hidden", errors.length === 0);
+  };
+
+  params.forEach((param, index) => {
+    const id = `task-param-${index + 1}`;
+    const value = values[param.name] || "";
+    const [paramEl, inputEl] = taskParamElement(param, value);
+    inputEl.id = id;
+    paramEl.title = taskParamTitle(param);
+    containerEl.appendChild(paramEl);
+
+    const onChange = (value: string) => {
+      if (value === "") {
+        delete values[param.name];
+      } else {
+        values[param.name] = value;
+      }
+      inputEl.classList.toggle(
+        "error-border",
+        validateTaskParam(param, value) !== undefined
+      );
+      validate();
+      setStateParam(param.name, value);
+    };
+
+    if (inputEl.tagName.toLowerCase() === "vscode-checkbox") {
+      inputEl.addEventListener("change", () => {
+        // Clear the value when it matches the default (so the default is used)
+        const checked = (inputEl as HTMLInputElement).checked;
+        onChange(checked === pythonBool(param.default) ? "" : String(checked));
+      });
+    } else {
+      whenChanged(id, onChange);
+    }
+    if (validateTaskParam(param, value)) {
+      inputEl.classList.add("error-border");
+    }
+  });
+
+  containerEl.appendChild(errorsEl);
+  validate();
+}
+
+// Creates the editor for a task param (along with the input element that
+// holds its value)
+function taskParamElement(
+  param: TaskParamInfo,
+  value: string
+): [HTMLElement, HTMLElement] {
+  // Required bools use a checkbox (optional bools use a dropdown since they
+  // may also be None)
+  if (param.type === "bool" && !param.optional) {
+    const checkboxEl = document.createElement("vscode-checkbox");
+    checkboxEl.innerText = param.name;
+    checkboxEl.classList.add("full-width");
+    const checked = value
+      ? value.toLowerCase() === "true"
+      : pythonBool(param.default);
+    if (checked) {
+      checkboxEl.setAttribute("checked", "true");
+    }
+    return [checkboxEl, checkboxEl];
+  }
+
+  if (param.type === "choice" || param.type === "bool") {
+    const containerEl = document.createElement("div");
+    containerEl.classList.add("dropdown-container", "task-param-choice");
+    const labelEl = document.createElement("label");
+    labelEl.innerText = param.name;
+    containerEl.appendChild(labelEl);
+
+    const choices =
+      param.type === "bool" ? ["true", "false"] : param.choices || [];
+    const dropdownEl = document.createElement("vscode-dropdown");
+    for (const choice of ["", ...choices]) {
+      const choiceEl = document.createElement("vscode-option");
+      choiceEl.setAttribute("value", choice);
+      choiceEl.innerText =
+        choice || (param.default ? `default (${param.default})` : "default");
+      if (choice === value) {
+        choiceEl.setAttribute("selected", "true");
+      }
+      dropdownEl.appendChild(choiceEl);
+    }
+    containerEl.appendChild(dropdownEl);
+    return [containerEl, dropdownEl];
+  }
+
+  const textField = document.createElement("vscode-text-field");
+  textField.setAttribute(
+    "placeholder",
+    param.default !== undefined ? param.default : "default"
+  );
+  textField.classList.add("full-width");
+  textField.innerText = param.name;
+  if (value) {
+    textField.setAttribute("value", value);
+  }
+  return [textField, textField];
+}
+
+function taskParamTitle(param: TaskParamInfo) {
+  const title = param.annotation
+    ? `${param.name}: ${param.annotation}`
+    : param.name;
+  return param.type === "list"
+    ? `${title} (separate multiple values with commas)`
+    : title;
+}
+
+function pythonBool(value?: string) {
+  return value === "True";
+}
+
 function restoreState(state?: DocumentState) {
   restoreInputState("epochs", state?.epochs);
   restoreInputState("limit", state?.limit);
@@ -163,7 +308,244 @@ function validateFields() {
   }
 }
 
+function renderEvalOptions(
+  options?: EvalOption[],
+  groups?: Record<string, string>,
+  state?: DocumentState
+) {
+  const containerEl = document.getElementById("eval-options");
+  if (!containerEl || !options || !groups) {
+    return;
+  }
+  containerEl.replaceChildren();
+
+  for (const [group, title] of Object.entries(groups)) {
+    const groupOptions = options.filter((option) => option.group === group);
+    if (groupOptions.length === 0) {
+      continue;
+    }
+
+    const headingEl = document.createElement("div");
+    headingEl.classList.add("eval-options-heading");
+    headingEl.innerText = title;
+    containerEl.appendChild(headingEl);
+
+    const groupEl = document.createElement("div");
+    groupEl.classList.add("cols", "full-width", "two-cols");
+    containerEl.appendChild(groupEl);
+
+    for (const option of groupOptions) {
+      const id = `eval-option-${option.name}`;
+      const value = state?.options?.[option.name] || "";
+      const [optionEl, inputEl] = evalOptionElement(option, value);
+      inputEl.id = id;
+      optionEl.title = option.description;
+      groupEl.appendChild(optionEl);
+
+      whenChanged(id, (value) => {
+        // Don't save numbers that won't be accepted by inspect eval
+        const invalid =
+          option.kind === "number" &&
+          value.trim() !== "" &&
+          isNaN(Number(value));
+        inputEl.classList.toggle("error-border", invalid);
+        if (!invalid) {
+          setStateOption(option.name, value);
+        }
+      });
+    }
+  }
+}
+
+// Creates the element for an option (along with the input element that
+// holds its value)
+function evalOptionElement(
+  option: EvalOption,
+  value: string
+): [HTMLElement, HTMLElement] {
+  if (option.kind === "choice") {
+    const containerEl = document.createElement("div");
+    containerEl.classList.add("dropdown-container");
+    const labelEl = document.createElement("label");
+    labelEl.innerText = option.label;
+    containerEl.appendChild(labelEl);
+
+    const dropdownEl = document.createElement("vscode-dropdown");
+    for (const choice of ["", ...(option.choices || [])]) {
+      const choiceEl = document.createElement("vscode-option");
+      choiceEl.setAttribute("value", choice);
+      choiceEl.innerText = choice || "default";
+      if (choice === value) {
+        choiceEl.setAttribute("selected", "true");
+      }
+      dropdownEl.appendChild(choiceEl);
+    }
+    containerEl.appendChild(dropdownEl);
+    return [containerEl, dropdownEl];
+  }
+
+  const fieldEl = document.createElement(
+    option.kind === "list" ? "vscode-text-area" : "vscode-text-field"
+  );
+  fieldEl.innerText = option.label;
+  fieldEl.setAttribute("placeholder", option.placeholder || "default");
+  if (option.kind === "list") {
+    fieldEl.setAttribute("rows", "2");
+    fieldEl.classList.add("span-cols");
+  } else {
+    fieldEl.setAttribute("size", "3");
+  }
+  if (value) {
+    fieldEl.setAttribute("value", value);
+  }
+  return [fieldEl, fieldEl];
+}
+
+// The models to run the task against (in addition to the .env model)
+let models: string[] = [];
+
+function restoreModels(state?: DocumentState) {
+  models = state?.models ? [...state.models] : [];
+  renderModels();
+}
+
+function renderModels() {
+  const listEl = document.getElementById("model-list");
+  if (!listEl) {
+    return;
+  }
+
+  listEl.replaceChildren();
+  if (models.length === 0) {
+    showEmptyPanel(
+      "No models (runs use the model from .env)",
+      undefined,
+      "model-list"
+    );
+  }
+  for (const model of models) {
+    const rowEl = document.createElement("div");
+    rowEl.classList.add("model-row");
+
+    const nameEl = document.createElement("span");
+    nameEl.innerText = model;
+    rowEl.appendChild(nameEl);
+
+    const removeEl = document.createElement("vscode-button");
+    removeEl.setAttribute("appearance", "icon");
+    removeEl.setAttribute("title", `Remove ${model}`);
+    const iconEl = document.createElement("span");
+    iconEl.classList.add("codicon", "codicon-close");
+    removeEl.appendChild(iconEl);
+    removeEl.addEventListener("click", () => {
+      models = models.filter((m) => m !== model);
+      renderModels();
+      setStateModels(models);
+    });
+    rowEl.appendChild(removeEl);
+
+    listEl.appendChild(rowEl);
+  }
+  setControlsVisible("run-models", models.length > 0);
+}
+
+function attachModelListeners() {
+  getProviderEl().addEventListener("change", () => {
+    showProviderHelp(vscode);
+  });
+
+  document.getElementById("add-model")?.addEventListener("click", () => {
+    const provider = getProviderText().trim();
+    const model = getModelEl().value.trim();
+    if (!model) {
+      return;
+    }
+
+    const name =
+      provider && !model.startsWith(`${provider}/`)
+        ? `${provider}/${model}`
+        : model;
+    if (!models.includes(name)) {
+      models.push(name);
+      renderModels();
+      setStateModels(models);
+    }
+    resetModel();
+  });
+
+  document.getElementById("run-models")?.addEventListener("click", () => {
+    vscode.postMessage({
+      command: "runModels",
+    });
+  });
+}
+
+function restorePresets(presets?: PresetsInfo) {
+  const presetEl = document.getElementById("preset") as HTMLSelectElement;
+  if (!presetEl || !presets) {
+    return;
+  }
+
+  // The unnamed task state, followed by the named presets
+  const selected = presets.selectedPreset || "";
+  const options = [
+    { value: "", label: "(no preset)" },
+    ...presets.names.map((name) => ({ value: name, label: name })),
+  ];
+  presetEl.replaceChildren();
+  for (const option of options) {
+    const optionEl = document.createElement("vscode-option");
+    optionEl.setAttribute("value", option.value);
+    optionEl.innerText =
+      option.value === (presets.defaultPreset || "")
+        ? `${option.label} (default)`
+        : option.label;
+    if (option.value === selected) {
+      optionEl.setAttribute("selected", "true");
+    }
+    presetEl.appendChild(optionEl);
+  }
+  presetEl.value = selected;
+
+  // Only named presets can be renamed or deleted
+  setControlsVisible("preset-rename", selected !== "");
+  setControlsVisible("preset-delete", selected !== "");
+
+  const isDefault = selected === (presets.defaultPreset || "");
+  const defaultIconEl = document.querySelector("#preset-default .codicon");
+  defaultIconEl?.classList.toggle("codicon-star-full", isDefault);
+  defaultIconEl?.classList.toggle("codicon-star-empty", !isDefault);
+}
+
+function attachPresetListeners() {
+  document.getElementById("preset")?.addEventListener("change", (e) => {
+    vscode.postMessage({
+      command: "selectPreset",
+      preset: (e.target as HTMLSelectElement).value,
+    });
+  });
+
+  const actions: Record<string, PresetAction> = {
+    "preset-create": "create",
+    "preset-duplicate": "duplicate",
+    "preset-rename": "rename",
+    "preset-delete": "delete",
+    "preset-default": "setDefault",
+  };
+  for (const [id, action] of Object.entries(actions)) {
+    document.getElementById(id)?.addEventListener("click", () => {
+      vscode.postMessage({
+        command: "presetAction",
+        action,
+      });
+    });
+  }
+}
+
 function main() {
+  attachModelListeners();
+  attachPresetListeners();
+
   // Send the initialize message
   vscode.postMessage({
     command: "initialize",
@@ -185,3 +567,18 @@ function setStateParam(key: string, value: string) {
     value,
   });
 }
+
+function setStateOption(key: string, value: string) {
+  vscode.postMessage({
+    command: "setStateOption",
+    key,
+    value,
+  });
+}
+
+function setStateModels(models: string[]) {
+  vscode.postMessage({
+    command: "setStateModels",
+    models,
+  });
+}
@@ -3,6 +3,9 @@ import {
   CodeLens,
   CodeLensProvider,
   Command,
+  Disposable,
+  Event,
+  EventEmitter,
   ExtensionContext,
   languages,
   TextDocument,
@@ -10,17 +13,41 @@ import {
 } from "vscode";
 
 import { isNotebook } from "../../components/notebook";
+import { taskDecoratorName } from "../../components/task";
+import { TaskResultsManager } from "../activity-bar/log-listing/log-task-results";
+import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
 
-export function activateCodeLens(context: ExtensionContext) {
-  const provider = new InspectCodeLensProvider();
+import { taskResultCommand, TaskResultsHoverProvider } from "./task-results";
+
+export function activateCodeLens(
+  context: ExtensionContext,
+  stateManager?: WorkspaceStateManager,
+  taskResults?: TaskResultsManager
+) {
+  const provider = new InspectCodeLensProvider(stateManager, taskResults);
   const selector = { language: "python" };
   context.subscriptions.push(
-    languages.registerCodeLensProvider(selector, provider)
+    languages.registerCodeLensProvider(selector, provider),
+    provider
   );
+  if (taskResults) {
+    context.subscriptions.push(
+      languages.registerHoverProvider(
+        selector,
+        new TaskResultsHoverProvider(taskResults)
+      )
+    );
+  }
 }
 
 // The Code Lens commands
-function taskCommands(uri: Uri, fn: string): Command[] {
+function taskCommands(uri: Uri, fn: string, presets: string[]): Command[] {
+  const runPresetCommand = (preset: string) => ({
+    title: `$(play) Run (${preset})`,
+    tooltip: `Execute this evaluation task using the '${preset}' preset.`,
+    command: "inspect.runTask",
+    arguments: [uri, fn, preset],
+  });
   if (isNotebook(uri)) {
     return [
       {
@@ -29,6 +56,7 @@ function taskCommands(uri: Uri, fn: string): Command[] {
         command: "inspect.runTask",
         arguments: [uri, fn],
       },
+      ...presets.map(runPresetCommand),
     ];
   } else {
     return [
@@ -44,11 +72,74 @@ function taskCommands(uri: Uri, fn: string): Command[] {
         command: "inspect.runTask",
         arguments: [uri, fn],
       },
+      ...presets.flatMap((preset) => [
+        {
+          title: `$(debug-alt) Debug (${preset})`,
+          tooltip: `Debug this evaluation task using the '${preset}' preset.`,
+          command: "inspect.debugTask",
+          arguments: [uri, fn, preset],
+        },
+        runPresetCommand(preset),
+      ]),
     ];
   }
 }
 
 export class InspectCodeLensProvider implements CodeLensProvider {
+  constructor(
+    private readonly stateManager_?: WorkspaceStateManager,
+    private readonly taskResults_?: TaskResultsManager
+  ) {
+    if (taskResults_) {
+      this.disposables_.push(
+        taskResults_.onResultsChanged(() => {
+          this.onDidChangeCodeLenses_.fire();
+        })
+      );
+    }
+    if (stateManager_) {
+      this.disposables_.push(
+        stateManager_.onTaskPresetsChanged(() => {
+          this.onDidChangeCodeLenses_.fire();
+        }),
+        stateManager_.onTaskStateChanged(() => {
+          this.onDidChangeCodeLenses_.fire();
+        })
+      );
+    }
+  }
+
+  private readonly onDidChangeCodeLenses_ = new EventEmitter<void>();
+  public readonly onDidChangeCodeLenses: Event<void> =
+    this.onDidChangeCodeLenses_.event;
+
+  private disposables_: Disposable[] = [this.onDidChangeCodeLenses_];
+  public dispose() {
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+
+  private taskPresets(uri: Uri, task: string): string[] {
+    if (!this.stateManager_) {
+      return [];
+    }
+    return Object.keys(
+      this.stateManager_.getTaskPresets(uri.fsPath, task).presets
+    ).sort();
+  }
+
+  private latestResult(uri: Uri, task: string) {
+    if (!this.taskResults_) {
+      return undefined;
+    }
+    const results = this.taskResults_.taskResults(task, uri);
+    if (results.length === 0) {
+      this.taskResults_.requestTaskResults(task);
+    }
+    return results[0];
+  }
+
   private hasInspectImport(document: TextDocument): {
     hasImport: boolean;
     alias?: string;
@@ -102,15 +193,24 @@ export class InspectCodeLensProvider implements CodeLensProvider {
 
         // Get the function name from the next line
         let j = i + 1;
+        let decorator = line.text;
         while (j < document.lineCount) {
           const funcLine = document.lineAt(j);
           const match = funcLine.text.match(kFuncPattern);
           if (match && match[1]) {
-            taskCommands(document.uri, match[1]).forEach((cmd) => {
+            // Use the name the task is registered with
+            const task = taskDecoratorName(decorator) ?? match[1];
+            const presets = this.taskPresets(document.uri, task);
+            taskCommands(document.uri, task, presets).forEach((cmd) => {
               lenses.push(new CodeLens(line.range, cmd));
             });
+            const result = this.latestResult(document.uri, task);
+            if (result) {
+              lenses.push(new CodeLens(line.range, taskResultCommand(result)));
+            }
             break;
           }
+          decorator = decorator + "\n" + funcLine.text;
           j++;
         }
       }
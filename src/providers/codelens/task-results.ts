@@ -0,0 +1,131 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  CancellationToken,
+  Command,
+  Hover,
+  HoverProvider,
+  MarkdownString,
+  Position,
+  TextDocument,
+} from "vscode";
+
+import { readTaskData } from "../../components/task";
+import { formatMetricValue, LogSummary } from "../../inspect/log-summary";
+import { TaskResultsManager } from "../activity-bar/log-listing/log-task-results";
+
+/**
+ * The Code Lens command showing the most recent result for a task.
+ */
+export function taskResultCommand(summary: LogSummary): Command {
+  return {
+    title: `${statusIcon(summary.status)} ${describeTaskResult(summary)}`,
+    tooltip: `Open the most recent log for this task (${summary.model}).`,
+    command: "inspect.openLogViewer",
+    arguments: [summary.uri],
+  };
+}
+
+// Shows the results of recent runs when hovering over a task function name
+export class TaskResultsHoverProvider implements HoverProvider {
+  constructor(private readonly taskResults_: TaskResultsManager) {}
+
+  provideHover(
+    document: TextDocument,
+    position: Position,
+    token: CancellationToken
+  ): Hover | undefined {
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    // Find the task whose function name is being hovered
+    const wordRange = document.getWordRangeAtPosition(position);
+    if (!wordRange) {
+      return undefined;
+    }
+    const task = readTaskData(document).find((task) => {
+      for (let i = task.line; i < document.lineCount; i++) {
+        const match = document.lineAt(i).text.match(kFunctionPattern);
+        if (match) {
+          return (
+            i === position.line && document.getText(wordRange) === match[1]
+          );
+        }
+      }
+      return false;
+    });
+    if (!task) {
+      return undefined;
+    }
+
+    const results = this.taskResults_.taskResults(task.name, document.uri);
+    if (results.length === 0) {
+      this.taskResults_.requestTaskResults(task.name);
+      return undefined;
+    }
+    return new Hover(taskResultsMarkdown(task.name, results), wordRange);
+  }
+}
+
+function taskResultsMarkdown(task: string, results: LogSummary[]) {
+  const markdown = new MarkdownString(undefined, true);
+  markdown.isTrusted = { enabledCommands: ["inspect.openLogViewer"] };
+  markdown.appendMarkdown(`**Recent runs of ${task}**\n\n`);
+  markdown.appendMarkdown("| | Model | Result | Samples | Started | |\n");
+  markdown.appendMarkdown("|---|---|---|---:|---|---|\n");
+  for (const result of results) {
+    const args = encodeURIComponent(JSON.stringify([result.uri]));
+    markdown.appendMarkdown(
+      [
+        "",
+        statusIcon(result.status),
+        escapeTableCell(result.model),
+        result.metric
+          ? `${escapeTableCell(result.metric.name)} ${formatMetricValue(result.metric.value)}`
+          : result.status,
+        result.samples !== undefined ? String(result.samples) : "",
+        formatDistanceToNow(new Date(result.created), { addSuffix: true }),
+        `[Open](command:inspect.openLogViewer?${args})`,
+        "\n",
+      ].join("|")
+    );
+  }
+  return markdown;
+}
+
+function describeTaskResult(summary: LogSummary) {
+  const parts: string[] = [];
+  if (summary.metric) {
+    parts.push(
+      `${summary.metric.name} ${formatMetricValue(summary.metric.value)}`
+    );
+  } else {
+    parts.push(summary.status);
+  }
+  if (summary.samples !== undefined) {
+    parts.push(`${summary.samples} sample${summary.samples === 1 ? "" : "s"}`);
+  }
+  parts.push(
+    formatDistanceToNow(new Date(summary.created), { addSuffix: true })
+  );
+  return parts.join(" · ");
+}
+
+function statusIcon(status: string) {
+  switch (status) {
+    case "success":
+      return "$(pass)";
+    case "error":
+      return "$(error)";
+    case "cancelled":
+      return "$(circle-slash)";
+    default:
+      return "$(sync)";
+  }
+}
+
+function escapeTableCell(value: string) {
+  return value.replace(/\|/g, "\\|");
+}
+
+const kFunctionPattern = /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/;
@@ -0,0 +1,23 @@
+import { Command } from "../../core/command";
+
+import { ResultsDashboardManager } from "./results-dashboard";
+
+export class ShowResultsDashboardCommand implements Command {
+  constructor(private readonly manager_: ResultsDashboardManager) {}
+  async execute(): Promise<void> {
+    await this.manager_.show();
+  }
+
+  private static readonly id = "inspect.showResultsDashboard";
+  public readonly id = ShowResultsDashboardCommand.id;
+}
+
+export class ExportResultsDashboardCommand implements Command {
+  constructor(private readonly manager_: ResultsDashboardManager) {}
+  async execute(): Promise<void> {
+    await this.manager_.exportCsv();
+  }
+
+  private static readonly id = "inspect.exportResultsDashboard";
+  public readonly id = ExportResultsDashboardCommand.id;
+}
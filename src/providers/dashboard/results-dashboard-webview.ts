@@ -0,0 +1,160 @@
+import { ExtensionContext, Uri, ViewColumn, window } from "vscode";
+
+import { InspectWebview } from "../../components/webview";
+import { escapeHtml } from "../../core/webview";
+import { HostWebviewPanel } from "../../hooks";
+import { formatMetricValue, LogSummary } from "../../inspect/log-summary";
+import {
+  resultsCharts,
+  resultsTable,
+  TaskResultsChart,
+} from "../../inspect/results-dashboard";
+
+export const kResultsDashboardViewType = "inspect_ai.results-dashboard";
+
+export interface ResultsDashboardState {
+  logDirs: string[];
+  summaries: LogSummary[];
+}
+
+// The number of chart colors (see results-dashboard.css)
+const kSeriesColors = 6;
+
+export class ResultsDashboardWebview extends InspectWebview<ResultsDashboardState> {
+  public static create(context: ExtensionContext) {
+    const panel = window.createWebviewPanel(
+      kResultsDashboardViewType,
+      "Inspect Results Dashboard",
+      ViewColumn.Active,
+      {
+        enableCommandUris: [
+          "inspect.openLogViewer",
+          "inspect.showResultsDashboard",
+          "inspect.exportResultsDashboard",
+        ],
+        localResourceRoots: [
+          Uri.joinPath(context.extensionUri, "assets", "www"),
+        ],
+      }
+    ) as HostWebviewPanel;
+    return new ResultsDashboardWebview(context, panel);
+  }
+
+  protected getHtml(state: ResultsDashboardState): string {
+    const charts = resultsCharts(state.summaries);
+    const body = [
+      `<div class="toolbar">
+        <span class="note">${escapeHtml(state.logDirs.join(", "))} · ${state.summaries.length} ${state.summaries.length === 1 ? "log" : "logs"}</span>
+        <a href="command:inspect.showResultsDashboard">Refresh</a>
+        <a href="command:inspect.exportResultsDashboard">Export CSV...</a>
+      </div>`,
+      charts.length > 0
+        ? `<h2>Results Over Time</h2>${charts.map(chartHtml).join("\n")}`
+        : "",
+      resultsTableHtml(state.summaries),
+    ].join("\n");
+    return this.webviewHTML(
+      [],
+      ["assets", "www", "dashboard", "results-dashboard.css"],
+      "",
+      body
+    );
+  }
+}
+
+function resultsTableHtml(summaries: LogSummary[]) {
+  if (summaries.length === 0) {
+    return `<p class="note">No logs found.</p>`;
+  }
+  const rows = resultsTable(summaries).map(
+    (summary) => `<tr>
+      <td><a href="${escapeHtml(openLogCommand(summary.uri))}" title="${escapeHtml(summary.uri)}">${escapeHtml(summary.task)}</a></td>
+      <td>${escapeHtml(summary.model)}</td>
+      <td>${escapeHtml(summary.metric?.name ?? "")}</td>
+      <td class="number">${summary.metric ? formatMetricValue(summary.metric.value) : ""}</td>
+      <td class="number">${summary.samples ?? ""}</td>
+      <td>${escapeHtml(summary.status)}</td>
+      <td>${escapeHtml(new Date(summary.created).toLocaleString())}</td>
+    </tr>`
+  );
+  return `<h2>Results</h2>
+  <table>
+    <tr><th>Task</th><th>Model</th><th>Metric</th><th>Value</th><th>Samples</th><th>Status</th><th>Created</th></tr>
+    ${rows.join("\n")}
+  </table>`;
+}
+
+// A line chart of a metric over time (a line for each model)
+function chartHtml(chart: TaskResultsChart) {
+  const width = 640;
+  const height = 200;
+  const margin = { top: 10, right: 10, bottom: 24, left: 44 };
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+
+  const points = chart.series.flatMap((series) => series.points);
+  const times = points.map((point) => new Date(point.created).getTime());
+  const values = points.map((point) => point.value);
+  let [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+  if (minTime === maxTime) {
+    minTime -= 12 * 60 * 60 * 1000;
+    maxTime += 12 * 60 * 60 * 1000;
+  }
+  // (scales which are proportions are shown from 0 to 1)
+  const minValue = Math.min(0, ...values);
+  let maxValue = Math.max(...values);
+  if (minValue >= 0 && maxValue <= 1) {
+    maxValue = 1;
+  } else if (maxValue === minValue) {
+    maxValue = minValue + 1;
+  }
+
+  const x = (created: string) =>
+    margin.left +
+    ((new Date(created).getTime() - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (value: number) =>
+    margin.top +
+    plotHeight -
+    ((value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  const series = chart.series.map((series, index) => {
+    const color = `series-${index % kSeriesColors}`;
+    const line = series.points
+      .map((point) => `${x(point.created)},${y(point.value)}`)
+      .join(" ");
+    const dots = series.points.map(
+      (point) =>
+        `<a href="${escapeHtml(openLogCommand(point.uri))}"><circle class="${color}" cx="${x(point.created)}" cy="${y(point.value)}" r="3.5"><title>${escapeHtml(
+          `${series.model}: ${formatMetricValue(point.value)} (${new Date(point.created).toLocaleString()})`
+        )}</title></circle></a>`
+    );
+    return `<polyline class="${color}" points="${line}" />${dots.join("")}`;
+  });
+
+  const axes = `
+    <line class="axis" x1="${margin.left}" y1="${margin.top + plotHeight}" x2="${margin.left + plotWidth}" y2="${margin.top + plotHeight}" />
+    <line class="axis" x1="${margin.left}" y1="${margin.top}" x2="${margin.left}" y2="${margin.top + plotHeight}" />
+    <text class="label" x="${margin.left - 6}" y="${margin.top + 4}" text-anchor="end">${formatMetricValue(maxValue)}</text>
+    <text class="label" x="${margin.left - 6}" y="${margin.top + plotHeight}" text-anchor="end">${formatMetricValue(minValue)}</text>
+    <text class="label" x="${margin.left}" y="${height - 6}">${escapeHtml(new Date(minTime).toLocaleDateString())}</text>
+    <text class="label" x="${margin.left + plotWidth}" y="${height - 6}" text-anchor="end">${escapeHtml(new Date(maxTime).toLocaleDateString())}</text>`;
+
+  const legend = chart.series
+    .map(
+      (series, index) =>
+        `<span class="legend-item"><span class="swatch series-${index % kSeriesColors}"></span>${escapeHtml(series.model)}</span>`
+    )
+    .join("");
+
+  return `<div class="chart">
+    <h3>${escapeHtml(chart.task)} <span class="note">${escapeHtml(chart.metric)}</span></h3>
+    <svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${axes}${series.join("")}</svg>
+    <div class="legend">${legend}</div>
+  </div>`;
+}
+
+function openLogCommand(uri: string) {
+  return `command:inspect.openLogViewer?${encodeURIComponent(
+    JSON.stringify([uri])
+  )}`;
+}
@@ -0,0 +1,115 @@
+import { Disposable, ExtensionContext, Uri, window, workspace } from "vscode";
+
+import { activeWorkspaceFolder } from "../../core/workspace";
+import { LogSummary, summarizeLog } from "../../inspect/log-summary";
+import { resultsCsv } from "../../inspect/results-dashboard";
+import { LogTreeDataProvider } from "../activity-bar/log-listing/log-listing-data";
+import { readLogHeaders } from "../inspect/inspect-log-headers";
+import { InspectViewServer } from "../inspect/inspect-view-server";
+
+import {
+  ResultsDashboardState,
+  ResultsDashboardWebview,
+} from "./results-dashboard-webview";
+
+/**
+ * Shows the results of the logs in the Logs panel's log directory (reading
+ * any log headers which haven't already been read for the Logs panel).
+ */
+export class ResultsDashboardManager implements Disposable {
+  constructor(
+    private readonly context_: ExtensionContext,
+    private readonly server_: InspectViewServer,
+    private readonly logs_: LogTreeDataProvider
+  ) {}
+
+  public async show(): Promise<void> {
+    const listing = this.logs_.getLogListing();
+    if (!listing) {
+      return;
+    }
+    const summaries = await this.readResults();
+    if (summaries === undefined) {
+      return;
+    }
+
+    this.state_ = {
+      logDirs: listing.logDirs().map((logDir) => logDir.toString(true)),
+      summaries,
+    };
+    if (!this.webview_) {
+      const webview = ResultsDashboardWebview.create(this.context_);
+      webview.onDispose(() => {
+        if (this.webview_ === webview) {
+          this.webview_ = undefined;
+          this.state_ = undefined;
+        }
+      });
+      this.webview_ = webview;
+    }
+    await this.webview_.show(this.state_);
+  }
+
+  public async exportCsv(): Promise<void> {
+    if (!this.state_) {
+      await window.showInformationMessage(
+        "Open the results dashboard to export its results."
+      );
+      return;
+    }
+
+    const uri = await window.showSaveDialog({
+      title: "Export Results",
+      defaultUri: Uri.joinPath(activeWorkspaceFolder().uri, "results.csv"),
+      filters: { CSV: ["csv"] },
+    });
+    if (uri) {
+      await workspace.fs.writeFile(
+        uri,
+        new TextEncoder().encode(resultsCsv(this.state_.summaries))
+      );
+    }
+  }
+
+  // Reads the summary of each log (undefined if this is cancelled)
+  private async readResults(): Promise<LogSummary[] | undefined> {
+    const listing = this.logs_.getLogListing();
+    if (!listing) {
+      return [];
+    }
+    const files = await listing.files();
+
+    const summaries: LogSummary[] = [];
+    const unread: string[] = [];
+    for (const file of files) {
+      if (file.type !== "file") {
+        continue;
+      }
+      const uri = listing.uriForNode(file).toString();
+      const summary = this.logs_.logSummary(uri, file.mtime);
+      if (summary && summary.status !== "started") {
+        summaries.push(summary);
+      } else {
+        unread.push(uri);
+      }
+    }
+    const logs = await readLogHeaders(this.server_, unread);
+    if (logs === undefined) {
+      return undefined;
+    }
+    logs.forEach((log, index) => {
+      const uri = unread[index];
+      if (uri && log) {
+        summaries.push(summarizeLog(uri, log));
+      }
+    });
+    return summaries;
+  }
+
+  dispose() {
+    this.webview_?.dispose();
+  }
+
+  private webview_?: ResultsDashboardWebview;
+  private state_?: ResultsDashboardState;
+}
@@ -0,0 +1,179 @@
+import { extname, isAbsolute } from "path";
+
+import {
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticSeverity,
+  Disposable,
+  ExtensionContext,
+  languages,
+  Range,
+  Uri,
+  workspace,
+} from "vscode";
+
+import { EvalLog } from "../../@types/log";
+import { log } from "../../core/log";
+import { OutputWatcher } from "../../core/package/output-watcher";
+import { logTaskFilePath } from "../../core/path";
+import { readEvalLogErrorSamples } from "../../inspect/eval-log-reader";
+import {
+  EvalFailure,
+  TracebackProblem,
+  tracebackProblems,
+} from "../../inspect/eval-traceback";
+import { InspectViewServer } from "../inspect/inspect-view-server";
+
+export function activateEvalErrorDiagnostics(
+  context: ExtensionContext,
+  outputWatcher: OutputWatcher,
+  server: InspectViewServer
+) {
+  context.subscriptions.push(
+    new EvalErrorDiagnosticsProvider(outputWatcher, server)
+  );
+}
+
+const kDiagnosticSource = "Inspect";
+
+// The errors of at most this many samples are read from a log
+const kMaxErrorSamples = 20;
+
+// Reports the errors of evals (and of their samples) at the lines of
+// workspace files in their tracebacks. The problems for a task are
+// replaced by those of its next run (and cleared when it succeeds).
+export class EvalErrorDiagnosticsProvider implements Disposable {
+  constructor(
+    outputWatcher: OutputWatcher,
+    private readonly server_: InspectViewServer
+  ) {
+    this.diagnostics_ = languages.createDiagnosticCollection("inspect-evals");
+    this.disposables_.push(
+      this.diagnostics_,
+      outputWatcher.onInspectLogCreated((e) => {
+        if (!e.externalWorkspace) {
+          void this.update(e.log);
+        }
+      })
+    );
+  }
+
+  private diagnostics_: DiagnosticCollection;
+  // The problems for each task (from its most recent run)
+  private problems_ = new Map<string, TracebackProblem[]>();
+  private disposables_: Disposable[] = [];
+
+  dispose() {
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+
+  private async update(uri: Uri) {
+    try {
+      const evalLog = await this.readHeader(uri);
+      if (!evalLog || evalLog.status === "started") {
+        return;
+      }
+
+      // (task files are relative to the folder the eval was run from, so
+      // they are resolved to tell apart tasks in different folders)
+      const taskFile = evalLog.eval.task_file
+        ? logTaskFilePath(evalLog.eval.task_file, uri).path
+        : "";
+      const task = `${taskFile}@${evalLog.eval.task}`;
+      const problems = tracebackProblems(
+        await this.readFailures(uri, evalLog),
+        isWorkspaceFile
+      );
+      if (problems.length > 0) {
+        this.problems_.set(task, problems);
+      } else if (evalLog.status === "success") {
+        this.problems_.delete(task);
+      } else {
+        return;
+      }
+      this.publish();
+    } catch (error) {
+      log.warn(
+        `Unable to read errors from ${uri.toString()}: ${String(error)}`
+      );
+    }
+  }
+
+  private async readHeader(uri: Uri) {
+    const headers = await this.server_.evalLogHeaders([uri.toString()]);
+    const [evalLog] = headers
+      ? (JSON.parse(headers) as Array<EvalLog | undefined>)
+      : [];
+    return evalLog || undefined;
+  }
+
+  // The errors of the eval and of its samples (samples are only read from
+  // .eval logs, as .json logs must be read in full to read their samples)
+  private async readFailures(uri: Uri, evalLog: EvalLog) {
+    const failures: EvalFailure[] = [];
+    if (evalLog.error) {
+      failures.push({
+        error: evalLog.error,
+        failure: `${evalLog.eval.task} eval failed`,
+      });
+    }
+    if (extname(uri.path) === ".eval") {
+      try {
+        const samples = await readEvalLogErrorSamples(
+          this.server_.evalLogZipSource(uri.toString()),
+          kMaxErrorSamples
+        );
+        for (const sample of samples) {
+          if (sample.error) {
+            failures.push({
+              error: sample.error,
+              failure: `${evalLog.eval.task} sample ${sample.id} (epoch ${sample.epoch}) failed`,
+            });
+          }
+        }
+      } catch (error) {
+        log.warn(
+          `Unable to read sample errors from ${uri.toString()}: ${String(error)}`
+        );
+      }
+    }
+    return failures;
+  }
+
+  private publish() {
+    const diagnostics = new Map<string, Diagnostic[]>();
+    for (const problems of this.problems_.values()) {
+      for (const problem of problems) {
+        const line = problem.line - 1;
+        const diagnostic = new Diagnostic(
+          new Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+          problem.message,
+          problem.innermost
+            ? DiagnosticSeverity.Error
+            : DiagnosticSeverity.Information
+        );
+        diagnostic.source = kDiagnosticSource;
+        diagnostics.set(problem.file, [
+          ...(diagnostics.get(problem.file) || []),
+          diagnostic,
+        ]);
+      }
+    }
+
+    this.diagnostics_.clear();
+    for (const [file, fileDiagnostics] of diagnostics) {
+      this.diagnostics_.set(Uri.file(file), fileDiagnostics);
+    }
+  }
+}
+
+// Problems are shown for workspace files (and not for installed packages)
+function isWorkspaceFile(file: string) {
+  return (
+    isAbsolute(file) &&
+    !/[\\/]site-packages[\\/]/.test(file) &&
+    workspace.getWorkspaceFolder(Uri.file(file)) !== undefined
+  );
+}
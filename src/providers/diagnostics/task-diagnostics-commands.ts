@@ -0,0 +1,16 @@
+import { Command } from "../../core/command";
+import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
+
+export class RemoveSavedTaskParamsCommand implements Command {
+  constructor(private readonly stateManager_: WorkspaceStateManager) {}
+  async execute(
+    taskFilePath: string,
+    taskName: string,
+    params: string[]
+  ): Promise<void> {
+    await this.stateManager_.removeTaskParams(taskFilePath, taskName, params);
+  }
+
+  public static readonly id = "inspect.removeSavedTaskParams";
+  public readonly id = RemoveSavedTaskParamsCommand.id;
+}
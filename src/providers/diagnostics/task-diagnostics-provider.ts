@@ -0,0 +1,313 @@
+import { debounce } from "lodash";
+import {
+  CancellationToken,
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  CodeActionProvider,
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticRelatedInformation,
+  DiagnosticSeverity,
+  Disposable,
+  ExtensionContext,
+  languages,
+  Location,
+  Position,
+  Range,
+  TextDocument,
+  Uri,
+  workspace,
+  WorkspaceEdit,
+} from "vscode";
+
+import {
+  findTaskProblems,
+  placeholderDefault,
+  readTaskDefinitions,
+  SourceRange,
+  TaskDefinition,
+  TaskProblem,
+  TaskProblemKind,
+} from "../../components/task-diagnostics";
+import { Command } from "../../core/command";
+import { WorkspaceStateManager } from "../workspace/workspace-state-provider";
+import { WorkspaceTaskManager } from "../workspace/workspace-task-provider";
+
+import { RemoveSavedTaskParamsCommand } from "./task-diagnostics-commands";
+
+export function activateTaskDiagnostics(
+  context: ExtensionContext,
+  workspaceTaskMgr: WorkspaceTaskManager,
+  stateManager: WorkspaceStateManager
+): Command[] {
+  const provider = new TaskDiagnosticsProvider(workspaceTaskMgr, stateManager);
+  context.subscriptions.push(
+    provider,
+    languages.registerCodeActionsProvider({ language: "python" }, provider, {
+      providedCodeActionKinds: [CodeActionKind.QuickFix],
+    })
+  );
+  return [new RemoveSavedTaskParamsCommand(stateManager)];
+}
+
+const kDiagnosticSource = "Inspect";
+const kTaskDecoratorPattern = /@(?:inspect_ai\.)?task\b/;
+
+const kSeverity: Record<TaskProblemKind, DiagnosticSeverity> = {
+  "duplicate-task": DiagnosticSeverity.Warning,
+  "missing-default": DiagnosticSeverity.Information,
+  "stale-param": DiagnosticSeverity.Warning,
+  "missing-return": DiagnosticSeverity.Warning,
+};
+
+// Reports problems with the tasks defined in open python files (and
+// provides quick fixes for them)
+export class TaskDiagnosticsProvider implements CodeActionProvider, Disposable {
+  constructor(
+    private readonly workspaceTaskMgr_: WorkspaceTaskManager,
+    private readonly stateManager_: WorkspaceStateManager
+  ) {
+    this.diagnostics_ = languages.createDiagnosticCollection("inspect-tasks");
+    this.disposables_.push(
+      this.diagnostics_,
+      workspace.onDidOpenTextDocument((document) => {
+        this.check(document);
+      }),
+      workspace.onDidChangeTextDocument((e) => {
+        this.pending_.add(e.document);
+        this.checkPending();
+      }),
+      workspace.onDidCloseTextDocument((document) => {
+        this.pending_.delete(document);
+        this.clear(document);
+      }),
+      // Duplicate tasks depend on the rest of the workspace
+      workspaceTaskMgr_.onTasksChanged(() => {
+        this.refresh();
+      }),
+      stateManager_.onTaskStateChanged(() => {
+        this.refresh();
+      }),
+      stateManager_.onTaskPresetsChanged(() => {
+        this.refresh();
+      })
+    );
+    this.refresh();
+  }
+
+  private diagnostics_: DiagnosticCollection;
+  private definitions_ = new Map<string, TaskDefinition[]>();
+  private problems_ = new Map<string, TaskProblem[]>();
+  private pending_ = new Set<TextDocument>();
+  private disposables_: Disposable[] = [];
+
+  /**
+   * Re-checks every open document.
+   */
+  public refresh() {
+    workspace.textDocuments.forEach((document) => {
+      this.check(document);
+    });
+  }
+
+  provideCodeActions(
+    document: TextDocument,
+    _range: Range,
+    context: CodeActionContext,
+    token: CancellationToken
+  ): CodeAction[] {
+    if (token.isCancellationRequested) {
+      return [];
+    }
+
+    const key = document.uri.toString();
+    const definitions = this.definitions_.get(key) || [];
+    const problems = this.problems_.get(key) || [];
+    return context.diagnostics.flatMap((diagnostic) => {
+      if (diagnostic.source !== kDiagnosticSource) {
+        return [];
+      }
+      const problem = problems.find(
+        (problem) =>
+          problem.kind === diagnostic.code &&
+          toRange(problem.range).isEqual(diagnostic.range)
+      );
+      const task = definitions.find((task) => task.name === problem?.task);
+      if (!problem || !task) {
+        return [];
+      }
+
+      switch (problem.kind) {
+        case "missing-default":
+          return [addDefaultsAction(document, task, problem, diagnostic)];
+        case "stale-param":
+          return [removeSavedParamsAction(document, problem, diagnostic)];
+        default:
+          return [];
+      }
+    });
+  }
+
+  private checkPending = debounce(
+    () => {
+      const pending = Array.from(this.pending_);
+      this.pending_.clear();
+      pending.forEach((document) => {
+        this.check(document);
+      });
+    },
+    500,
+    { leading: false, trailing: true }
+  );
+
+  private check(document: TextDocument) {
+    if (document.languageId !== "python" || document.uri.scheme !== "file") {
+      return;
+    }
+    const source = document.getText();
+    if (!kTaskDecoratorPattern.test(source)) {
+      this.clear(document);
+      return;
+    }
+
+    const taskFile = document.uri.fsPath;
+    const descriptors = this.workspaceTaskMgr_.getTaskDescriptors();
+    const definitions = readTaskDefinitions(source);
+    const problems = findTaskProblems(definitions, {
+      otherDefinitions: (task) =>
+        descriptors
+          .filter(
+            (descriptor) =>
+              descriptor.name === task && descriptor.file !== taskFile
+          )
+          .map((descriptor) => descriptor.file),
+      describeFile: (file) => workspace.asRelativePath(file),
+      savedParams: (task) => this.savedParams(document.uri.fsPath, task),
+    });
+
+    const key = document.uri.toString();
+    this.definitions_.set(key, definitions);
+    this.problems_.set(key, problems);
+    this.diagnostics_.set(document.uri, problems.map(toDiagnostic));
+  }
+
+  private clear(document: TextDocument) {
+    const key = document.uri.toString();
+    this.definitions_.delete(key);
+    this.problems_.delete(key);
+    this.diagnostics_.delete(document.uri);
+  }
+
+  // The params with values saved for a task (in its state or presets)
+  private savedParams(taskFilePath: string, task: string): string[] {
+    const presets = this.stateManager_.getTaskPresets(taskFilePath, task);
+    const states = [
+      this.stateManager_.getTaskState(taskFilePath, task),
+      ...Object.values(presets.presets),
+    ];
+    const params = new Set<string>();
+    for (const state of states) {
+      for (const [name, value] of Object.entries(state.params || {})) {
+        if (value) {
+          params.add(name);
+        }
+      }
+    }
+    return Array.from(params);
+  }
+
+  dispose() {
+    this.checkPending.cancel();
+    this.disposables_.forEach((disposable) => {
+      disposable.dispose();
+    });
+  }
+}
+
+function toDiagnostic(problem: TaskProblem): Diagnostic {
+  const diagnostic = new Diagnostic(
+    toRange(problem.range),
+    problem.message,
+    kSeverity[problem.kind]
+  );
+  diagnostic.source = kDiagnosticSource;
+  diagnostic.code = problem.kind;
+  if (problem.files && problem.files.length > 0) {
+    diagnostic.relatedInformation = problem.files.map(
+      (file) =>
+        new DiagnosticRelatedInformation(
+          new Location(Uri.file(file), new Position(0, 0)),
+          `Task '${problem.task}' is also defined here`
+        )
+    );
+  }
+  return diagnostic;
+}
+
+// Adds placeholder defaults to a param (and to any later params without
+// defaults, since python requires them)
+function addDefaultsAction(
+  document: TextDocument,
+  task: TaskDefinition,
+  problem: TaskProblem,
+  diagnostic: Diagnostic
+) {
+  const index = task.params.findIndex(
+    (param) => param.name === problem.params?.[0]
+  );
+  const params = task.params
+    .slice(index)
+    .filter((param) => param.default === undefined);
+
+  const names = params.map((param) => `'${param.name}'`).join(", ");
+  const action = new CodeAction(
+    params.length > 1
+      ? `Add default values for ${names}`
+      : `Add a default value for ${names}`,
+    CodeActionKind.QuickFix
+  );
+  action.diagnostics = [diagnostic];
+  action.edit = new WorkspaceEdit();
+  for (const param of params) {
+    action.edit.insert(
+      document.uri,
+      new Position(param.end.line, param.end.character),
+      param.annotation
+        ? ` = ${placeholderDefault(param)}`
+        : `=${placeholderDefault(param)}`
+    );
+  }
+  return action;
+}
+
+function removeSavedParamsAction(
+  document: TextDocument,
+  problem: TaskProblem,
+  diagnostic: Diagnostic
+) {
+  const params = problem.params || [];
+  const action = new CodeAction(
+    `Remove saved ${params.length > 1 ? "values" : "value"} for ${params
+      .map((param) => `'${param}'`)
+      .join(", ")}`,
+    CodeActionKind.QuickFix
+  );
+  action.diagnostics = [diagnostic];
+  action.command = {
+    title: action.title,
+    command: RemoveSavedTaskParamsCommand.id,
+    arguments: [document.uri.fsPath, problem.task, params],
+  };
+  action.isPreferred = true;
+  return action;
+}
+
+function toRange(range: SourceRange) {
+  return new Range(
+    range.start.line,
+    range.start.character,
+    range.end.line,
+    range.end.character
+  );
+}
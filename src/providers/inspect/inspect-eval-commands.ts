@@ -6,15 +6,23 @@ import { ExecManager } from "../../core/package/exec-manager";
 import { toAbsolutePath } from "../../core/path";
 
 export function inspectEvalCommands(manager: ExecManager): Command[] {
-  return [new RunEvalCommand(manager), new DebugEvalCommand(manager)];
+  return [
+    new RunEvalCommand(manager),
+    new DebugEvalCommand(manager),
+    new StopEvalCommand(manager),
+  ];
 }
 
 export class RunEvalCommand implements Command {
   constructor(private readonly manager_: ExecManager) {}
-  async execute(documentUri: Uri, fnName: string): Promise<void> {
+  async execute(
+    documentUri: Uri,
+    fnName: string,
+    preset?: string
+  ): Promise<void> {
     const cwd = toAbsolutePath(documentUri.fsPath);
 
-    const evalPromise = this.manager_.start(cwd, fnName, false);
+    const evalPromise = this.manager_.start(cwd, fnName, false, preset);
     scheduleFocusActiveEditor();
     await evalPromise;
   }
@@ -24,10 +32,23 @@ export class RunEvalCommand implements Command {
 
 export class DebugEvalCommand implements Command {
   constructor(private readonly manager_: ExecManager) {}
-  async execute(documentUri: Uri, fnName: string): Promise<void> {
+  async execute(
+    documentUri: Uri,
+    fnName: string,
+    preset?: string
+  ): Promise<void> {
     const cwd = toAbsolutePath(documentUri.fsPath);
-    await this.manager_.start(cwd, fnName, true);
+    await this.manager_.start(cwd, fnName, true, preset);
   }
   private static readonly id = "inspect.debugTask";
   public readonly id = DebugEvalCommand.id;
 }
+
+export class StopEvalCommand implements Command {
+  constructor(private readonly manager_: ExecManager) {}
+  async execute(task?: string): Promise<void> {
+    await this.manager_.stopActive(typeof task === "string" ? task : undefined);
+  }
+  private static readonly id = "inspect.stopTask";
+  public readonly id = StopEvalCommand.id;
+}
@@ -0,0 +1,231 @@
+import { withMinimumInspectVersion } from "../../inspect/version";
+
+export type EvalOptionKind = "text" | "number" | "choice" | "list";
+
+export type EvalOptionGroup = "model" | "limits" | "execution" | "logging";
+
+/**
+ * An `inspect eval` option which can be set in the Task panel. Values are
+ * kept (as strings) in `DocumentState.options`, keyed by option name.
+ */
+export interface EvalOption {
+  name: string;
+  flag: string;
+  label: string;
+  description: string;
+  kind: EvalOptionKind;
+  group: EvalOptionGroup;
+  placeholder?: string;
+  // Values for "choice" options
+  choices?: string[];
+  // Flag passed when the value is "false" (e.g. --no-fail-on-error)
+  negation?: string;
+  // The Inspect version which introduced the option
+  minVersion?: string;
+}
+
+export const kEvalOptionGroups: Record<EvalOptionGroup, string> = {
+  model: "Model",
+  limits: "Limits",
+  execution: "Execution",
+  logging: "Logging",
+};
+
+// "list" options are passed once per line (e.g. --model-role a=x --model-role b=y)
+export const kEvalOptions: EvalOption[] = [
+  {
+    name: "model",
+    flag: "--model",
+    label: "Model",
+    description:
+      "Model used to evaluate the task (overrides the model from the Configuration panel).",
+    kind: "text",
+    group: "model",
+    placeholder: "default",
+  },
+  {
+    name: "model_role",
+    flag: "--model-role",
+    label: "Model Roles",
+    description:
+      "Named model roles for use in the task (role=model, one per line).",
+    kind: "list",
+    group: "model",
+    placeholder: "grader=openai/gpt-4o",
+    minVersion: "0.3.90",
+  },
+  {
+    name: "solver",
+    flag: "--solver",
+    label: "Solver",
+    description: "Solver to execute (overrides the task's default solver).",
+    kind: "text",
+    group: "model",
+    placeholder: "default",
+  },
+  {
+    name: "time_limit",
+    flag: "--time-limit",
+    label: "Time Limit",
+    description: "Limit on total running time for each sample (in seconds).",
+    kind: "number",
+    group: "limits",
+    placeholder: "none",
+    minVersion: "0.3.60",
+  },
+  {
+    name: "token_limit",
+    flag: "--token-limit",
+    label: "Token Limit",
+    description: "Limit on total tokens used for each sample.",
+    kind: "number",
+    group: "limits",
+    placeholder: "none",
+    minVersion: "0.3.50",
+  },
+  {
+    name: "message_limit",
+    flag: "--message-limit",
+    label: "Message Limit",
+    description: "Limit on total messages used for each sample.",
+    kind: "number",
+    group: "limits",
+    placeholder: "none",
+    minVersion: "0.3.50",
+  },
+  {
+    name: "max_connections",
+    flag: "--max-connections",
+    label: "Max Connections",
+    description:
+      "Maximum number of concurrent connections to the model provider.",
+    kind: "number",
+    group: "execution",
+    placeholder: "default",
+  },
+  {
+    name: "max_samples",
+    flag: "--max-samples",
+    label: "Max Samples",
+    description: "Maximum number of samples to run in parallel.",
+    kind: "number",
+    group: "execution",
+    placeholder: "default",
+  },
+  {
+    name: "fail_on_error",
+    flag: "--fail-on-error",
+    label: "Fail on Error",
+    description:
+      "Threshold of sample errors to tolerate (a proportion below 1 or a count), or 'false' to never fail the eval on sample errors.",
+    kind: "text",
+    group: "execution",
+    placeholder: "default",
+    negation: "--no-fail-on-error",
+  },
+  {
+    name: "sandbox",
+    flag: "--sandbox",
+    label: "Sandbox",
+    description:
+      "Sandbox environment type (with an optional config file), e.g. docker or docker:compose.yaml.",
+    kind: "text",
+    group: "execution",
+    placeholder: "default",
+  },
+  {
+    name: "epochs_reducer",
+    flag: "--epochs-reducer",
+    label: "Epochs Reducer",
+    description:
+      "Method for reducing per-epoch sample scores into a single score (comma separated), e.g. mean, median, mode, max, at_least_2.",
+    kind: "text",
+    group: "execution",
+    placeholder: "mean",
+  },
+  {
+    name: "log_dir",
+    flag: "--log-dir",
+    label: "Log Dir",
+    description: "Directory for log files.",
+    kind: "text",
+    group: "logging",
+    placeholder: "default",
+  },
+  {
+    name: "log_format",
+    flag: "--log-format",
+    label: "Log Format",
+    description: "Format for writing log files.",
+    kind: "choice",
+    group: "logging",
+    choices: ["eval", "json"],
+  },
+  {
+    name: "tags",
+    flag: "--tags",
+    label: "Tags",
+    description: "Tags to associate with the eval log (comma separated).",
+    kind: "text",
+    group: "logging",
+    placeholder: "none",
+  },
+  {
+    name: "metadata",
+    flag: "--metadata",
+    label: "Metadata",
+    description:
+      "Metadata to associate with the eval log (key=value, one per line).",
+    kind: "list",
+    group: "logging",
+    placeholder: "key=value",
+  },
+];
+
+/**
+ * The options supported by the installed version of Inspect.
+ */
+export function availableEvalOptions(
+  options: EvalOption[] = kEvalOptions
+): EvalOption[] {
+  return options.filter((option) =>
+    option.minVersion
+      ? withMinimumInspectVersion(
+          option.minVersion,
+          () => true,
+          () => false
+        )
+      : true
+  );
+}
+
+/**
+ * Builds the `inspect eval` arguments for a set of option values.
+ */
+export function evalOptionArgs(
+  values: Record<string, string> | undefined,
+  options: EvalOption[]
+): string[] {
+  const args: string[] = [];
+  for (const option of options) {
+    const value = values?.[option.name]?.trim();
+    if (!value) {
+      continue;
+    }
+
+    if (option.negation && value === "false") {
+      args.push(option.negation);
+    } else if (option.negation && value === "true") {
+      args.push(option.flag);
+    } else if (option.kind === "list") {
+      for (const line of value.split("\n")) {
+        if (line.trim()) {
+          args.push(option.flag, line.trim());
+        }
+      }
+    } else {
+      args.push(option.flag, value);
+    }
+  }
+  return args;
+}
@@ -0,0 +1,223 @@
+import { EvalLog } from "../../@types/log";
+
+export interface EvalSetOptions {
+  logDir: string;
+  retryAttempts?: string;
+  retryWait?: string;
+}
+
+export interface MergedTaskArgs {
+  // options which every task agrees on
+  args: string[];
+  // options which differ between tasks (and so aren't forwarded)
+  conflicts: string[];
+}
+
+/**
+ * Builds the arguments for an `inspect eval-set` invocation over the
+ * given task specs (e.g. `tasks/arc.py@arc_easy`).
+ */
+export function evalSetArgs(
+  tasks: string[],
+  taskArgs: string[],
+  options: EvalSetOptions
+): string[] {
+  const args = ["eval-set", ...tasks, "--log-dir", options.logDir];
+  if (options.retryAttempts) {
+    args.push(...["--retry-attempts", options.retryAttempts]);
+  }
+  if (options.retryWait) {
+    args.push(...["--retry-wait", options.retryWait]);
+  }
+
+  // The eval set log dir takes precedence over a task's log dir
+  for (const [flag, value] of optionPairs(taskArgs)) {
+    if (flag !== "--log-dir") {
+      args.push(...(value !== undefined ? [flag, value] : [flag]));
+    }
+  }
+  return args;
+}
+
+/**
+ * Merges the per-task options for an eval set. Options passed to
+ * `inspect eval-set` apply to every task, so only options which are the
+ * same for all of the tasks are forwarded (the rest are reported as
+ * conflicts).
+ */
+export function mergeTaskArgs(taskArgs: string[][]): MergedTaskArgs {
+  const taskOptions = taskArgs.map(parseOptions);
+  const [first, ...rest] = taskOptions;
+  if (!first) {
+    return { args: [], conflicts: [] };
+  }
+
+  const keys = new Set(taskOptions.flatMap((options) => [...options.keys()]));
+  const args: string[] = [];
+  const conflicts: string[] = [];
+  for (const key of keys) {
+    const value = first.get(key);
+    if (
+      first.has(key) &&
+      rest.every((options) => options.has(key) && options.get(key) === value)
+    ) {
+      const [flag, name] = splitKey(key);
+      if (name !== undefined) {
+        args.push(flag, `${name}=${value ?? ""}`);
+      } else {
+        args.push(...(value !== undefined ? [flag, value] : [flag]));
+      }
+    } else {
+      conflicts.push(describeKey(key));
+    }
+  }
+  return { args, conflicts };
+}
+
+/**
+ * Builds the arguments to resume (or complete) an existing eval set from
+ * the headers of the logs in its log directory. The options each task was
+ * run with (task args, eval config and generate config) are carried over
+ * when all of the tasks agree on them. Options which differ (and tasks
+ * which weren't run with the same models) are reported as conflicts, as a
+ * single `inspect eval-set` can't reproduce them.
+ */
+export function resumeEvalSetArgs(
+  logs: EvalLog[],
+  logDir: string
+): MergedTaskArgs | undefined {
+  const taskModels = new Map<string, Set<string>>();
+  const taskArgs: string[][] = [];
+  for (const log of logs) {
+    const task = log.eval.task_registry_name || log.eval.task;
+    if (!log.eval.task_file) {
+      continue;
+    }
+    const spec = `${log.eval.task_file}@${task}`;
+    const models = taskModels.get(spec) || new Set<string>();
+    models.add(log.eval.model);
+    taskModels.set(spec, models);
+
+    const passed = log.eval.task_args_passed || {};
+    taskArgs.push([
+      ...Object.keys(passed).flatMap((key) => [
+        "-T",
+        `${key}=${formatTaskArg(passed[key])}`,
+      ]),
+      ...logConfigArgs(log),
+    ]);
+  }
+
+  if (taskModels.size === 0) {
+    return undefined;
+  }
+
+  // Every task is run with every model
+  const models = new Set(
+    Array.from(taskModels.values()).flatMap((task) => Array.from(task))
+  );
+  const conflicts: string[] = [];
+  if (
+    Array.from(taskModels.values()).some((task) => task.size !== models.size)
+  ) {
+    conflicts.push("model");
+  }
+
+  const merged = mergeTaskArgs(taskArgs);
+  const args = ["--model", Array.from(models).join(","), ...merged.args];
+  return {
+    args: evalSetArgs(Array.from(taskModels.keys()), args, { logDir }),
+    conflicts: [...conflicts, ...merged.conflicts],
+  };
+}
+
+// The options for the eval config and generate config of a log
+function logConfigArgs(log: EvalLog): string[] {
+  const args: string[] = [];
+  const option = (
+    flag: string,
+    value: string | number | unknown[] | null | undefined
+  ) => {
+    if (value !== null && value !== undefined) {
+      args.push(flag, Array.isArray(value) ? value.join(",") : String(value));
+    }
+  };
+
+  const config = log.eval.config;
+  if (config) {
+    option("--limit", config.limit);
+    option("--sample-id", config.sample_id);
+    option("--epochs", config.epochs);
+    option("--epochs-reducer", config.epochs_reducer);
+    if (config.fail_on_error === false) {
+      args.push("--no-fail-on-error");
+    } else if (typeof config.fail_on_error === "number") {
+      option("--fail-on-error", config.fail_on_error);
+    }
+    option("--message-limit", config.message_limit);
+    option("--token-limit", config.token_limit);
+    option("--time-limit", config.time_limit);
+    option("--working-limit", config.working_limit);
+  }
+
+  const generate = log.eval.model_generate_config;
+  if (generate) {
+    option("--temperature", generate.temperature);
+    option("--max-tokens", generate.max_tokens);
+    option("--top-p", generate.top_p);
+    option("--top-k", generate.top_k);
+  }
+  return args;
+}
+
+// Options whose values are name=value pairs (and which may be repeated)
+const kNamedValueFlags = ["-T", "--model-role", "--metadata"];
+
+// Options are keyed by flag (and by name for options like -T task params)
+function parseOptions(args: string[]): Map<string, string | undefined> {
+  const options = new Map<string, string | undefined>();
+  for (const [flag, value] of optionPairs(args)) {
+    if (kNamedValueFlags.includes(flag) && value !== undefined) {
+      const eq = value.indexOf("=");
+      const name = eq === -1 ? value : value.slice(0, eq);
+      options.set(`${flag} ${name}`, eq === -1 ? "" : value.slice(eq + 1));
+    } else {
+      options.set(flag, value);
+    }
+  }
+  return options;
+}
+
+// Splits args into flags and their values (boolean flags have no value)
+function optionPairs(args: string[]): Array<[string, string | undefined]> {
+  const pairs: Array<[string, string | undefined]> = [];
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i]!;
+    const value = args[i + 1];
+    if (value !== undefined && !isFlag(value)) {
+      pairs.push([flag, value]);
+      i++;
+    } else {
+      pairs.push([flag, undefined]);
+    }
+  }
+  return pairs;
+}
+
+function isFlag(arg: string) {
+  return /^-[-a-zA-Z]/.test(arg);
+}
+
+function splitKey(key: string): [string, string | undefined] {
+  const [flag, name] = key.split(" ");
+  return [flag || key, name];
+}
+
+function describeKey(key: string) {
+  const [flag, name] = splitKey(key);
+  return name !== undefined ? name : flag.replace(/^--/, "");
+}
+
+function formatTaskArg(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
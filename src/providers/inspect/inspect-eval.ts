@@ -1,17 +1,23 @@
 import { ExtensionContext, workspace } from "vscode";
 
+import { readTaskData } from "../../components/task";
+import { validateTaskParams } from "../../components/task-params";
 import { Command } from "../../core/command";
 import { ExecManager, ExecProfile } from "../../core/package/exec-manager";
+import { AbsolutePath } from "../../core/path";
 import { inspectBinPath, inspectVersionDescriptor } from "../../inspect/props";
+import { RunHistoryManager } from "../runs/run-history-provider";
 import {
   DocumentState,
   WorkspaceStateManager,
 } from "../workspace/workspace-state-provider";
 
 import { inspectEvalCommands } from "./inspect-eval-commands";
+import { availableEvalOptions, evalOptionArgs } from "./inspect-eval-options";
 
 export function activateEvalManager(
   stateManager: WorkspaceStateManager,
+  runHistory: RunHistoryManager,
   context: ExtensionContext
 ): [Command[], ExecManager] {
   const profile: ExecProfile = {
@@ -79,11 +85,29 @@ export function activateEvalManager(
         });
       }
 
+      // Forward the other eval options
+      args.push(...evalOptionArgs(docState.options, availableEvalOptions()));
+
       return args;
     },
+    validate: async (
+      file: AbsolutePath,
+      target: string | undefined,
+      docState: DocumentState
+    ) => {
+      // Check task params against the types in the task signature
+      const document = await workspace.openTextDocument(file.path);
+      const task = readTaskData(document).find((task) => task.name === target);
+      return validateTaskParams(task?.paramInfo || [], docState.params);
+    },
   };
 
   // Activate the manager
-  const inspectExecManager = new ExecManager(profile, stateManager, context);
+  const inspectExecManager = new ExecManager(
+    profile,
+    stateManager,
+    runHistory,
+    context
+  );
   return [inspectEvalCommands(inspectExecManager), inspectExecManager];
 }
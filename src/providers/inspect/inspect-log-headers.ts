@@ -0,0 +1,51 @@
+import { ProgressLocation, window } from "vscode";
+
+import { EvalLog } from "../../@types/log";
+
+import { InspectViewServer } from "./inspect-view-server";
+
+// The number of log headers read at once
+const kHeaderBatchSize = 50;
+
+/**
+ * Reads the headers of eval logs in batches (showing progress). Returns a
+ * header for each log (undefined for logs which couldn't be read), or
+ * undefined if reading is cancelled.
+ */
+export async function readLogHeaders(
+  server: InspectViewServer,
+  uris: string[],
+  title = "Reading eval logs"
+): Promise<Array<EvalLog | undefined> | undefined> {
+  if (uris.length === 0) {
+    return [];
+  }
+  return await window.withProgress(
+    {
+      location: ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const logs: Array<EvalLog | undefined> = [];
+      for (let i = 0; i < uris.length; i += kHeaderBatchSize) {
+        if (token.isCancellationRequested) {
+          return undefined;
+        }
+        progress.report({
+          message: `${i} of ${uris.length}`,
+          increment: (kHeaderBatchSize / uris.length) * 100,
+        });
+
+        const batch = uris.slice(i, i + kHeaderBatchSize);
+        const headers = await server.evalLogHeaders(batch);
+        const batchLogs = headers ? (JSON.parse(headers) as EvalLog[]) : [];
+        batch.forEach((_uri, index) => {
+          const log = batchLogs[index];
+          logs.push(log?.version === 2 ? log : undefined);
+        });
+      }
+      return logs;
+    }
+  );
+}
@@ -1,5 +1,6 @@
 import { ExtensionContext, Uri } from "vscode";
 
+import { EvalLog } from "../../@types/log";
 import { PackageManager } from "../../core/package/manager";
 import { PackageViewServer } from "../../core/package/view-server";
 import {
@@ -8,6 +9,12 @@ import {
   toAbsolutePath,
 } from "../../core/path";
 import { activeWorkspaceFolder } from "../../core/workspace";
+import { fileZipSource, ZipSource } from "../../core/zip";
+import {
+  listEvalLogFiles,
+  localEvalLogPath,
+  readLocalEvalLogHeaders,
+} from "../../inspect/eval-log-reader";
 import {
   inspectEvalLog,
   inspectEvalLogHeaders,
@@ -25,8 +32,8 @@ import {
   kInspectOpenInspectViewVersion,
 } from "./inspect-constants";
 
-const kNotFoundSignal = "NotFound";
-const kNotModifiedSignal = "NotModified";
+export const kNotFoundSignal = "NotFound";
+export const kNotModifiedSignal = "NotModified";
 
 /**
  * Base64url-encode a string (RFC 4648 §5: url-safe alphabet, no padding) to
@@ -95,6 +102,14 @@ export class InspectViewServer extends PackageViewServer {
   }
 
   public async evalLogs(log_dir: Uri): Promise<string | undefined> {
+    // list local log dirs directly (without waiting for the server)
+    if (log_dir.scheme === "file") {
+      const logs = await localEvalLogs(log_dir);
+      if (logs) {
+        return logs;
+      }
+    }
+
     if (this.haveInspectEvalLogFormat()) {
       return (
         await this.api_json(
@@ -168,7 +183,39 @@ export class InspectViewServer extends PackageViewServer {
     }
   }
 
+  // A source for reading the members of a .eval log (local logs are read
+  // directly, others are read using the server)
+  public evalLogZipSource(file: string): ZipSource {
+    const path = localEvalLogPath(file);
+    if (path) {
+      return fileZipSource(path);
+    }
+    return {
+      size: () => this.evalLogSize(file),
+      read: (start, end) => this.evalLogBytes(file, start, end - 1),
+    };
+  }
+
   public async evalLogHeaders(files: string[]): Promise<string | undefined> {
+    // read the headers of local .eval logs directly (the server reads the
+    // rest, e.g. remote logs and .json logs)
+    const headers = await readLocalEvalLogHeaders(files);
+    const remaining = files.filter((_file, index) => !headers[index]);
+    if (remaining.length === files.length) {
+      return await this.serverLogHeaders(files);
+    } else if (remaining.length > 0) {
+      const serverHeaders = await this.serverLogHeaders(remaining);
+      const remainingHeaders = serverHeaders
+        ? (JSON.parse(serverHeaders) as Array<EvalLog | undefined>)
+        : [];
+      remaining.forEach((file, index) => {
+        headers[files.indexOf(file)] = remainingHeaders[index];
+      });
+    }
+    return JSON.stringify(headers);
+  }
+
+  private async serverLogHeaders(files: string[]): Promise<string | undefined> {
     if (this.haveInspectEvalLogFormat()) {
       const params = new URLSearchParams();
       for (const file of files) {
@@ -527,3 +574,22 @@ function evalLog(
 function evalLogHeaders(files: string[]) {
   return Promise.resolve(inspectEvalLogHeaders(activeWorkspacePath(), files));
 }
+
+// Lists a local log dir in the same form as the view server (undefined
+// if the log dir can't be read, in which case the server lists it)
+async function localEvalLogs(log_dir: Uri): Promise<string | undefined> {
+  try {
+    const files = await listEvalLogFiles(log_dir.fsPath);
+    return JSON.stringify({
+      log_dir: log_dir.toString(),
+      files: files.map((file) => ({
+        name: Uri.file(file.path).toString(),
+        mtime: file.mtime,
+        task: file.task,
+        task_id: file.task_id,
+      })),
+    });
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import { ExtensionContext, Uri, window } from "vscode";
+
+import { Command } from "../../core/command";
+import { LogNode } from "../activity-bar/log-listing/log-listing";
+import { LogTreeDataProvider } from "../activity-bar/log-listing/log-listing-data";
+import { InspectViewServer } from "../inspect/inspect-view-server";
+
+import { showLogComparison } from "./logcompare-webview";
+
+// Compares the logs selected in the Logs panel or the Explorer (or chosen
+// using a file dialog)
+export class CompareLogsCommand implements Command {
+  constructor(
+    private readonly context_: ExtensionContext,
+    private readonly server_: InspectViewServer,
+    private readonly logs_: LogTreeDataProvider
+  ) {}
+  async execute(
+    item?: Uri | LogNode,
+    selected?: Array<Uri | LogNode>
+  ): Promise<void> {
+    const items =
+      selected && selected.length > 0 ? selected : item ? [item] : [];
+    let logs = items.flatMap((item) => {
+      const uri = this.logUri(item);
+      return uri ? [uri] : [];
+    });
+    if (logs.length < 2) {
+      // choose the logs to compare (with the selected log)
+      const selectedLogs = await this.selectLogs();
+      if (!selectedLogs || selectedLogs.length === 0) {
+        return;
+      }
+      logs = [...logs, ...selectedLogs];
+    }
+    if (logs.length < 2) {
+      await window.showInformationMessage(
+        "Select two or more eval logs to compare."
+      );
+      return;
+    }
+
+    showLogComparison(this.context_, this.server_, logs);
+  }
+
+  private logUri(item: Uri | LogNode): Uri | undefined {
+    if (item instanceof Uri) {
+      return item;
+    } else if (item.type === "file") {
+      return this.logs_.getLogListing()?.uriForNode(item);
+    } else {
+      return undefined;
+    }
+  }
+
+  private async selectLogs() {
+    const logDir = this.logs_.getLogListing()?.logDirs()[0];
+    return await window.showOpenDialog({
+      title: "Compare Logs",
+      openLabel: "Compare",
+      canSelectMany: true,
+      defaultUri: logDir?.scheme === "file" ? logDir : undefined,
+      filters: { "Eval Logs": ["eval", "json"] },
+    });
+  }
+
+  private static readonly id = "inspect.compareLogs";
+  public readonly id = CompareLogsCommand.id;
+}
@@ -0,0 +1,292 @@
+import { extname } from "path";
+
+import { ExtensionContext, Uri, ViewColumn, window } from "vscode";
+
+import { EvalLog } from "../../@types/log";
+import { InspectWebview } from "../../components/webview";
+import { log } from "../../core/log";
+import { escapeHtml } from "../../core/webview";
+import { HostWebviewPanel } from "../../hooks";
+import { readEvalLogSampleSummaries } from "../../inspect/eval-log-reader";
+import {
+  compareLogs,
+  LogComparison,
+  MetricComparison,
+  SampleScores,
+} from "../../inspect/log-compare";
+import { formatMetricValue } from "../../inspect/log-summary";
+import { InspectViewServer } from "../inspect/inspect-view-server";
+
+export const kLogCompareViewType = "inspect_ai.log-compare";
+
+// .json logs larger than this (in MB) are compared without their samples
+const kMaxSamplesLogSize = 100;
+
+// The most sample scores shown
+const kMaxSampleRows = 1000;
+
+export interface LogCompareState {
+  logs: string[];
+}
+
+/**
+ * Opens a panel comparing eval logs.
+ */
+export function showLogComparison(
+  context: ExtensionContext,
+  server: InspectViewServer,
+  logs: Uri[]
+) {
+  const panel = window.createWebviewPanel(
+    kLogCompareViewType,
+    `Compare: ${logs.map(logName).join(" · ")}`,
+    ViewColumn.Active,
+    {
+      enableCommandUris: ["inspect.openLogViewer"],
+      localResourceRoots: [Uri.joinPath(context.extensionUri, "assets", "www")],
+    }
+  ) as HostWebviewPanel;
+  const webview = new LogCompareWebview(context, server, panel);
+  void webview.show({ logs: logs.map((log) => log.toString()) });
+  return webview;
+}
+
+export class LogCompareWebview extends InspectWebview<LogCompareState> {
+  constructor(
+    context: ExtensionContext,
+    private readonly server_: InspectViewServer,
+    webviewPanel: HostWebviewPanel
+  ) {
+    super(context, webviewPanel);
+  }
+
+  protected async getHtml(state: LogCompareState): Promise<string> {
+    const logs = await Promise.all(state.logs.map((uri) => this.readLog(uri)));
+    const evalLogs = logs.map(({ evalLog }) => evalLog);
+    const comparison = compareLogs(
+      evalLogs,
+      logs.map(({ samples }) => samples)
+    );
+
+    const body = [
+      logsTable(state.logs, evalLogs),
+      specSection(state.logs, comparison),
+      metricsSection(state.logs, comparison),
+      usageSection(state.logs, comparison),
+      samplesSection(state.logs, comparison),
+    ].join("\n");
+    return this.webviewHTML(
+      [],
+      ["assets", "www", "compare", "log-compare.css"],
+      "",
+      body
+    );
+  }
+
+  // Reads the header of a log and the scores of its samples (.json logs
+  // must be read in full to read their samples)
+  private async readLog(
+    uri: string
+  ): Promise<{ evalLog: EvalLog; samples?: SampleScores[] }> {
+    if (extname(Uri.parse(uri).path) === ".json") {
+      const evalLog = await this.server_.evalLog(uri, kMaxSamplesLogSize);
+      if (!evalLog) {
+        throw new Error(`Unable to read ${uri}`);
+      }
+      const parsed = JSON.parse(evalLog) as EvalLog;
+      return { evalLog: parsed, samples: parsed.samples || undefined };
+    }
+
+    const headers = await this.server_.evalLogHeaders([uri]);
+    const [evalLog] = headers
+      ? (JSON.parse(headers) as Array<EvalLog | undefined>)
+      : [];
+    if (!evalLog) {
+      throw new Error(`Unable to read ${uri}`);
+    }
+    return { evalLog, samples: await this.readSampleScores(uri) };
+  }
+
+  // The scores of the samples of a .eval log (from its sample summaries)
+  private async readSampleScores(
+    uri: string
+  ): Promise<SampleScores[] | undefined> {
+    try {
+      const summaries = await readEvalLogSampleSummaries(
+        this.server_.evalLogZipSource(uri)
+      );
+      return summaries.map(({ id, epoch, scores }) => ({
+        id,
+        epoch,
+        scores: scores || null,
+      }));
+    } catch (error) {
+      log.warn(`Unable to read sample scores from ${uri}: ${String(error)}`);
+      return undefined;
+    }
+  }
+}
+
+function logsTable(uris: string[], logs: EvalLog[]) {
+  const rows = logs.map((log, index) => {
+    const uri = uris[index] ?? "";
+    const open = `command:inspect.openLogViewer?${encodeURIComponent(
+      JSON.stringify([uri])
+    )}`;
+    return `<tr>
+      <td>${index + 1}</td>
+      <td><a href="${escapeHtml(open)}" title="${escapeHtml(uri)}">${escapeHtml(logName(Uri.parse(uri)))}</a></td>
+      <td>${escapeHtml(log.eval.task)}</td>
+      <td>${escapeHtml(log.eval.model)}</td>
+      <td>${escapeHtml(log.status || "")}</td>
+      <td>${escapeHtml(new Date(log.eval.created).toLocaleString())}</td>
+    </tr>`;
+  });
+  return `<h2>Logs</h2>
+  <table>
+    <tr><th>#</th><th>Log</th><th>Task</th><th>Model</th><th>Status</th><th>Created</th></tr>
+    ${rows.join("\n")}
+  </table>`;
+}
+
+function specSection(uris: string[], comparison: LogComparison) {
+  const rows = comparison.spec.map(
+    (row) => `<tr class="${row.differs ? "differs" : ""}">
+      <td class="field">${escapeHtml(row.field)}</td>
+      ${row.values.map((value) => `<td class="value">${valueHtml(value)}</td>`).join("")}
+    </tr>`
+  );
+  return `<h2>Eval Spec</h2>
+  ${
+    comparison.spec.some((row) => row.differs)
+      ? ""
+      : `<p class="note">The logs have the same configuration.</p>`
+  }
+  <table>
+    ${headerRow("Field", uris)}
+    ${rows.join("\n")}
+  </table>`;
+}
+
+function metricsSection(uris: string[], comparison: LogComparison) {
+  if (comparison.metrics.length === 0) {
+    return `<h2>Metrics</h2><p class="note">The logs have no results.</p>`;
+  }
+  const rows = comparison.metrics.map(
+    (row: MetricComparison) => `<tr>
+      <td class="field">${escapeHtml(`${row.scorer}/${row.metric}`)}</td>
+      ${row.values
+        .map(
+          (value, index) =>
+            `<td class="number">${valueHtml(
+              value === undefined ? undefined : formatMetricValue(value)
+            )}${index > 0 ? deltaHtml(row.deltas[index]) : ""}</td>`
+        )
+        .join("")}
+    </tr>`
+  );
+  return `<h2>Metrics</h2>
+  <table>
+    ${headerRow("Metric", uris)}
+    ${rows.join("\n")}
+  </table>`;
+}
+
+function usageSection(uris: string[], comparison: LogComparison) {
+  if (comparison.usage.length === 0) {
+    return "";
+  }
+  const tokenCell = (value?: number) =>
+    `<td class="number">${valueHtml(value?.toLocaleString())}</td>`;
+  const rows = comparison.usage.flatMap((usage) =>
+    (["input", "output", "total"] as const).map(
+      (kind) => `<tr>
+        <td class="field">${escapeHtml(`${usage.model} (${kind})`)}</td>
+        ${usage[kind].map(tokenCell).join("")}
+      </tr>`
+    )
+  );
+  return `<h2>Token Usage</h2>
+  <table>
+    ${headerRow("Model", uris)}
+    ${rows.join("\n")}
+  </table>`;
+}
+
+function samplesSection(uris: string[], comparison: LogComparison) {
+  const missing = comparison.haveSamples
+    .map((haveSamples, index) => (haveSamples ? undefined : index + 1))
+    .filter((index) => index !== undefined);
+  const notes: string[] = [];
+  if (missing.length > 0) {
+    notes.push(
+      `Samples are not available for log ${missing.join(", ")} (.json logs larger than ${kMaxSamplesLogSize} MB are read without their samples).`
+    );
+  }
+
+  const changed = comparison.samples.filter((row) => row.differs);
+  if (missing.length === 0) {
+    notes.push(
+      changed.length > 0
+        ? `${changed.length} of ${comparison.samples.length} sample scores changed.`
+        : comparison.samples.length > 0
+          ? `None of the ${comparison.samples.length} sample scores changed.`
+          : "The logs have no scored samples in common."
+    );
+  }
+  if (changed.length > kMaxSampleRows) {
+    notes.push(`Showing the first ${kMaxSampleRows} changes.`);
+  }
+
+  const rows = changed.slice(0, kMaxSampleRows).map(
+    (row) => `<tr>
+      <td class="field">${escapeHtml(String(row.sample))}${row.epoch > 1 ? ` (epoch ${row.epoch})` : ""}</td>
+      <td class="field">${escapeHtml(row.scorer)}</td>
+      ${row.values
+        .map(
+          (value, index) =>
+            `<td class="value">${valueHtml(value)}${index > 0 ? deltaHtml(row.deltas[index]) : ""}</td>`
+        )
+        .join("")}
+    </tr>`
+  );
+  return `<h2>Sample Scores</h2>
+  ${notes.map((note) => `<p class="note">${escapeHtml(note)}</p>`).join("\n")}
+  ${
+    rows.length > 0
+      ? `<table>
+    <tr><th>Sample</th>${headerCells("Scorer", uris)}</tr>
+    ${rows.join("\n")}
+  </table>`
+      : ""
+  }`;
+}
+
+function headerRow(label: string, uris: string[]) {
+  return `<tr>${headerCells(label, uris)}</tr>`;
+}
+
+function headerCells(label: string, uris: string[]) {
+  return `<th>${escapeHtml(label)}</th>${uris
+    .map((_uri, index) => `<th>Log ${index + 1}</th>`)
+    .join("")}`;
+}
+
+function valueHtml(value?: string) {
+  return value === undefined
+    ? `<span class="missing">—</span>`
+    : escapeHtml(value);
+}
+
+function deltaHtml(delta?: number) {
+  if (delta === undefined || delta === 0) {
+    return "";
+  }
+  const direction = delta > 0 ? "up" : "down";
+  const sign = delta > 0 ? "+" : "−";
+  return `<span class="delta ${direction}">${sign}${formatMetricValue(Math.abs(delta))}</span>`;
+}
+
+function logName(uri: Uri) {
+  return uri.path.split("/").pop() || uri.toString();
+}
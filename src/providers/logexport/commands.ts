@@ -0,0 +1,111 @@
+import { Uri, window, workspace } from "vscode";
+
+import { Command } from "../../core/command";
+import { activeWorkspaceFolder } from "../../core/workspace";
+import {
+  formatLogExport,
+  kLogExportFormats,
+  logExportRow,
+  LogExportRow,
+} from "../../inspect/log-export";
+import {
+  logFilesBeneath,
+  LogNode,
+} from "../activity-bar/log-listing/log-listing";
+import { LogTreeDataProvider } from "../activity-bar/log-listing/log-listing-data";
+import { readLogHeaders } from "../inspect/inspect-log-headers";
+import { InspectViewServer } from "../inspect/inspect-view-server";
+
+// Exports a summary of the logs selected in the Logs panel or the Explorer
+// (or of all of the logs in a log directory)
+export class ExportLogSummariesCommand implements Command {
+  constructor(
+    private readonly server_: InspectViewServer,
+    private readonly logs_: LogTreeDataProvider
+  ) {}
+  async execute(
+    item?: Uri | LogNode,
+    selected?: Array<Uri | LogNode>
+  ): Promise<void> {
+    const uris = await this.logUris(
+      selected && selected.length > 0 ? selected : item ? [item] : []
+    );
+    if (uris.length === 0) {
+      await window.showInformationMessage("There are no eval logs to export.");
+      return;
+    }
+
+    const format = await window.showQuickPick(kLogExportFormats, {
+      title: `Export ${uris.length} ${uris.length === 1 ? "Log" : "Logs"}`,
+      placeHolder: "Export format",
+    });
+    if (!format) {
+      return;
+    }
+    const target = await window.showSaveDialog({
+      title: "Export Log Summaries",
+      defaultUri: Uri.joinPath(
+        activeWorkspaceFolder().uri,
+        `logs.${format.extension}`
+      ),
+      filters: { [format.label]: [format.extension] },
+    });
+    if (!target) {
+      return;
+    }
+
+    const logs = await readLogHeaders(
+      this.server_,
+      uris,
+      "Reading eval logs to export"
+    );
+    if (logs === undefined) {
+      return;
+    }
+    const rows: LogExportRow[] = [];
+    logs.forEach((log, index) => {
+      const uri = uris[index];
+      if (uri && log) {
+        rows.push(logExportRow(uri, log));
+      }
+    });
+    await workspace.fs.writeFile(
+      target,
+      new TextEncoder().encode(formatLogExport(rows, format.format))
+    );
+
+    const skipped = uris.length - rows.length;
+    const result = await window.showInformationMessage(
+      `Exported ${rows.length} ${rows.length === 1 ? "log" : "logs"}` +
+        (skipped > 0 ? ` (${skipped} could not be read).` : "."),
+      "Open"
+    );
+    if (result === "Open") {
+      await window.showTextDocument(target);
+    }
+  }
+
+  // The logs to export (all of the logs if nothing is selected)
+  private async logUris(items: Array<Uri | LogNode>): Promise<string[]> {
+    const listing = this.logs_.getLogListing();
+    const nodes: LogNode[] = [];
+    const uris: string[] = [];
+    if (items.length === 0 && listing) {
+      nodes.push(...(await listing.files()));
+    }
+    for (const item of items) {
+      if (item instanceof Uri) {
+        uris.push(item.toString());
+      } else if (listing) {
+        nodes.push(...(await logFilesBeneath(listing, item)));
+      }
+    }
+    if (listing) {
+      uris.push(...nodes.map((node) => listing.uriForNode(node).toString()));
+    }
+    return Array.from(new Set(uris));
+  }
+
+  private static readonly id = "inspect.exportLogSummaries";
+  public readonly id = ExportLogSummariesCommand.id;
+}
@@ -1,11 +1,36 @@
-import { commands, ExtensionContext, MessageItem, Uri, window } from "vscode";
+import { debounce } from "lodash";
+import {
+  commands,
+  ExtensionContext,
+  MessageItem,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
 
+import { EvalLog } from "../@types/log";
+import { taskRangeForDocument } from "../components/document";
+import { ExecManager } from "../core/package/exec-manager";
 import { OutputWatcher } from "../core/package/output-watcher";
-import { basename } from "../core/uri";
+import {
+  logTaskFilePath,
+  toAbsolutePath,
+  workspaceFolderPath,
+} from "../core/path";
+import { basename, uriCommandArg } from "../core/uri";
+import {
+  evalCompleteMessage,
+  evalsCompleteMessage,
+} from "../inspect/eval-notify";
 
+import { InspectViewServer } from "./inspect/inspect-view-server";
 import { InspectViewManager } from "./logview/logview-view";
 import { InspectSettingsManager } from "./settings/inspect-settings";
 
+// Logs which are created within this interval of each other (e.g. by an
+// eval set) are notified together
+const kGroupNotificationsDelay = 3000;
+
 /**
  * Derives a human-readable task name from a log URI.
  *
@@ -20,19 +45,114 @@ export function taskNameFromLog(log: Uri): string {
   return parts[1] ?? "task";
 }
 
+interface CompletedLog {
+  uri: Uri;
+  // The log header (undefined if it couldn't be read)
+  log?: EvalLog;
+}
+
 export function activateLogNotify(
   context: ExtensionContext,
   outputWatcher: OutputWatcher,
   settingsMgr: InspectSettingsManager,
-  viewManager: InspectViewManager
+  viewManager: InspectViewManager,
+  server: InspectViewServer,
+  evalManager: ExecManager
 ) {
+  const dontShowAgain: MessageItem = { title: "Don't Show Again" };
+
+  // Notifies the completion of a single eval (with actions for errors)
+  const notifyLog = async ({ uri, log }: CompletedLog) => {
+    const viewLog: MessageItem = { title: "View Log" };
+    const message = evalCompleteMessage(taskNameFromLog(uri), log);
+    if (log?.status !== "error") {
+      const result = await window.showInformationMessage(
+        message,
+        viewLog,
+        dontShowAgain
+      );
+      if (result === viewLog) {
+        // open the editor
+        await commands.executeCommand("inspect.openLogViewer", uri);
+      } else if (result === dontShowAgain) {
+        settingsMgr.setNotifyEvalComplete(false);
+      }
+      return;
+    }
+
+    const viewTraceback: MessageItem = { title: "View Traceback" };
+    const retry: MessageItem = { title: "Retry" };
+    const openTaskSource: MessageItem = { title: "Open Task Source" };
+    const result = await window.showErrorMessage(
+      message,
+      viewLog,
+      ...(log.error ? [viewTraceback] : []),
+      retry,
+      ...(log.eval.task_file ? [openTaskSource] : [])
+    );
+    if (result === viewLog) {
+      await commands.executeCommand("inspect.openLogViewer", uri);
+    } else if (result === viewTraceback && log.error) {
+      const document = await workspace.openTextDocument({
+        content: log.error.traceback,
+        language: "plaintext",
+      });
+      await window.showTextDocument(document, { preview: false });
+    } else if (result === retry) {
+      await retryEvals(evalManager, [{ uri, log }]);
+    } else if (result === openTaskSource && log.eval.task_file) {
+      const taskUri = Uri.file(logTaskFilePath(log.eval.task_file, uri).path);
+      await window.showTextDocument(taskUri, {
+        selection: await taskRangeForDocument(log.eval.task, taskUri),
+        preview: false,
+      });
+    }
+  };
+
+  // Notifies the completion of several evals at once
+  const notifyLogs = async (logs: CompletedLog[]) => {
+    const failed = logs.filter((log) => log.log?.status === "error");
+    const viewLogs: MessageItem = { title: "View Logs" };
+    const retryFailed: MessageItem = { title: "Retry Failed" };
+    const message = evalsCompleteMessage(logs.map((log) => log.log));
+    const result = await (failed.length > 0
+      ? window.showWarningMessage(message, viewLogs, retryFailed)
+      : window.showInformationMessage(message, viewLogs, dontShowAgain));
+    if (result === viewLogs) {
+      await commands.executeCommand("inspect_ai.logs-view.focus");
+    } else if (result === retryFailed) {
+      await retryEvals(evalManager, failed);
+    } else if (result === dontShowAgain) {
+      settingsMgr.setNotifyEvalComplete(false);
+    }
+  };
+
+  const notify = async (uris: Uri[]) => {
+    const logs = await readCompletedLogs(server, uris);
+    if (logs.length === 1) {
+      await notifyLog(logs[0]!);
+    } else if (logs.length > 1) {
+      await notifyLogs(logs);
+    }
+  };
+
+  // Logs waiting to be notified together
+  let pending: Uri[] = [];
+  const notifyPending = debounce(() => {
+    const uris = pending;
+    pending = [];
+    void notify(uris);
+  }, kGroupNotificationsDelay);
+
   context.subscriptions.push(
+    { dispose: () => notifyPending.cancel() },
     outputWatcher.onInspectLogCreated(async (e) => {
       if (e.externalWorkspace) {
         return;
       }
 
-      if (!settingsMgr.getSettings().notifyEvalComplete) {
+      const settings = settingsMgr.getSettings();
+      if (!settings.notifyEvalComplete) {
         return;
       }
 
@@ -40,23 +160,52 @@ export function activateLogNotify(
         return false;
       }
 
-      // see if we can pick out the task name
-      const task = taskNameFromLog(e.log);
-
-      // show the message
-      const viewLog: MessageItem = { title: "View Log" };
-      const dontShowAgain: MessageItem = { title: "Don't Show Again" };
-      const result = await window.showInformationMessage(
-        `Eval complete: ${task}`,
-        viewLog,
-        dontShowAgain
-      );
-      if (result === viewLog) {
-        // open the editor
-        await commands.executeCommand("inspect.openLogViewer", e.log);
-      } else if (result === dontShowAgain) {
-        settingsMgr.setNotifyEvalComplete(false);
+      if (settings.groupEvalNotifications) {
+        pending.push(e.log);
+        notifyPending();
+      } else {
+        await notify([e.log]);
       }
     })
   );
 }
+
+// Reads the headers of completed logs (notifying without results for logs
+// whose headers can't be read)
+async function readCompletedLogs(
+  server: InspectViewServer,
+  uris: Uri[]
+): Promise<CompletedLog[]> {
+  try {
+    const headers = await server.evalLogHeaders(
+      uris.map((uri) => uri.toString())
+    );
+    if (headers) {
+      const logs = JSON.parse(headers) as Array<EvalLog | undefined>;
+      return uris.map((uri, i) => ({ uri, log: logs[i] || undefined }));
+    }
+  } catch {
+    // notify without the headers
+  }
+  return uris.map((uri) => ({ uri }));
+}
+
+// Retries failed evals (using `inspect eval-retry`)
+async function retryEvals(evalManager: ExecManager, logs: CompletedLog[]) {
+  const [first] = logs;
+  if (!first) {
+    return;
+  }
+  const tasks = new Set(
+    logs.map(({ uri, log }) => log?.eval.task || taskNameFromLog(uri))
+  );
+  // (run from the workspace folder of the first log's task)
+  const taskFile = first.log?.eval.task_file;
+  await evalManager.startArgs(
+    taskFile
+      ? logTaskFilePath(taskFile, first.uri)
+      : workspaceFolderPath(toAbsolutePath(first.uri.fsPath)),
+    Array.from(tasks).join(", "),
+    ["eval-retry", ...logs.map(({ uri }) => uriCommandArg(uri))]
+  );
+}
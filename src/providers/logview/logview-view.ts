@@ -11,6 +11,7 @@ import {
 } from "../../core/package/manager";
 import { OutputWatcher } from "../../core/package/output-watcher";
 import { dirname, getRelativeUri } from "../../core/uri";
+import { activeEditorWorkspaceFolder } from "../../core/workspace";
 import { HostWebviewPanel } from "../../hooks";
 import { inspectViewPath } from "../../inspect/props";
 import { selectLogDirectory } from "../activity-bar/log-listing/log-directory-selector";
@@ -41,10 +42,12 @@ export class InspectViewManager {
   }
 
   public async showInspectView() {
-    // pick a directory
-    let log_dir = await selectLogDirectory(this.context_, this.envMgr_);
+    // pick a directory (defaulting to the log dir of the active editor's
+    // workspace folder)
+    const folder = activeEditorWorkspaceFolder()?.uri;
+    let log_dir = await selectLogDirectory(this.context_, this.envMgr_, folder);
     if (log_dir === null) {
-      log_dir = this.envMgr_.getDefaultLogDir();
+      log_dir = this.envMgr_.getDefaultLogDir(folder);
     }
     if (log_dir) {
       // Show the log view for the log dir (or the workspace)
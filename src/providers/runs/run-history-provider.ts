@@ -0,0 +1,211 @@
+import { Disposable, Event, EventEmitter, ExtensionContext, Uri } from "vscode";
+
+import { log } from "../../core/log";
+import { OutputWatcher } from "../../core/package/output-watcher";
+import { randomInt } from "../../core/random";
+
+const kRunHistoryKey = "inspect_ai.run-history";
+const kRunHistorySize = 50;
+
+// The signal file for a log is written as the process exits, so allow
+// outputs to arrive a little after the run has ended
+const kOutputGraceMs = 30_000;
+
+// Untracked runs never end, so only attach outputs to them for this long
+// after they were started
+const kUntrackedRunMs = 12 * 60 * 60 * 1000;
+
+// Activates the run history (which records evals and scans launched
+// from the extension and follows them through to completion)
+export function activateRunHistory(
+  context: ExtensionContext,
+  outputWatcher: OutputWatcher
+): RunHistoryManager {
+  const runHistory = new RunHistoryManager(context);
+
+  // Attach logs and scans to the runs that produced them
+  context.subscriptions.push(
+    outputWatcher.onInspectLogCreated(async (e) => {
+      if (!e.externalWorkspace) {
+        await runHistory.attachOutput("Eval", e.log);
+      }
+    })
+  );
+  context.subscriptions.push(
+    outputWatcher.onScoutScanCreated(async (e) => {
+      if (!e.externalWorkspace) {
+        await runHistory.attachOutput("Scan", e.scan);
+      }
+    })
+  );
+  context.subscriptions.push(runHistory);
+
+  return runHistory;
+}
+
+// running:   the process is executing
+// succeeded: the process exited with a zero exit code
+// failed:    the process exited with a non-zero exit code
+// cancelled: the process was stopped (or interrupted with Ctrl+C)
+// ended:     the process ended but its exit code isn't known (e.g. debugging)
+// untracked: the process was launched without shell integration, so its
+//            completion can't be observed
+export type RunStatus =
+  "running" | "succeeded" | "failed" | "cancelled" | "ended" | "untracked";
+
+export type RunTarget = "Eval" | "Scan";
+
+// A single invocation of `inspect eval` or `scout scan`
+export interface RunRecord {
+  id: string;
+  target: RunTarget;
+  command: string;
+  file: string;
+  task?: string;
+  args: string[];
+  cwd: string;
+  // the interpreter the run used (for display) and the subdirectory
+  // environment python it was launched with (if any)
+  interpreter?: string;
+  python?: string;
+  debug: boolean;
+  status: RunStatus;
+  startedAt: number;
+  endedAt?: number;
+  exitCode?: number;
+  outputs: string[];
+}
+
+// Implemented by the exec managers so runs can be re-run or stopped
+// from the history
+export interface RunController {
+  rerun(run: RunRecord): Promise<void>;
+  stop(run: RunRecord): Promise<boolean>;
+}
+
+export interface RunsChangedEvent {
+  runs: RunRecord[];
+}
+
+export class RunHistoryManager implements Disposable {
+  constructor(private readonly context_: ExtensionContext) {
+    // Runs that were still in flight when the window was closed can
+    // no longer be observed (or stopped), so mark them as ended
+    const runs = this.readRuns();
+    if (runs.some(isRunning)) {
+      void this.writeRuns(
+        runs.map((run) => (isRunning(run) ? { ...run, status: "ended" } : run))
+      );
+    }
+  }
+
+  public getRuns(): RunRecord[] {
+    return this.readRuns();
+  }
+
+  public getRun(id: string): RunRecord | undefined {
+    return this.readRuns().find((run) => run.id === id);
+  }
+
+  // Runs which are still running (including untracked runs, which last
+  // until they are stopped or their terminal is closed)
+  public runningRuns(target?: RunTarget): RunRecord[] {
+    return this.readRuns().filter(
+      (run) => isRunning(run) && (target === undefined || run.target === target)
+    );
+  }
+
+  public async startRun(
+    run: Omit<RunRecord, "id" | "startedAt" | "outputs">
+  ): Promise<RunRecord> {
+    const record: RunRecord = {
+      ...run,
+      id: `${Date.now()}-${randomInt(0, 100000)}`,
+      startedAt: Date.now(),
+      outputs: [],
+    };
+    log.appendLine(`Started run: ${record.args.join(" ")}`);
+
+    const runs = [record, ...this.readRuns()].slice(0, kRunHistorySize);
+    await this.writeRuns(runs);
+    return record;
+  }
+
+  public async endRun(id: string, status: RunStatus, exitCode?: number) {
+    await this.updateRun(id, (run) => {
+      // A cancelled run stays cancelled, even though the process
+      // will report a non-zero exit code once it is interrupted
+      const finalStatus = run.status === "cancelled" ? run.status : status;
+      return { ...run, status: finalStatus, exitCode, endedAt: Date.now() };
+    });
+  }
+
+  public async updateRun(id: string, fn: (run: RunRecord) => RunRecord) {
+    const runs = this.readRuns();
+    const index = runs.findIndex((run) => run.id === id);
+    const run = runs[index];
+    if (run) {
+      runs[index] = fn(run);
+      await this.writeRuns(runs);
+    }
+  }
+
+  // Associates a log (or scan) with the most recent run that could have
+  // produced it
+  public async attachOutput(target: RunTarget, output: Uri) {
+    const outputStr = output.toString();
+    const runs = this.readRuns();
+    if (runs.some((run) => run.outputs.includes(outputStr))) {
+      return;
+    }
+    const run = runs.find(
+      (run) =>
+        run.target === target &&
+        (run.status === "running" ||
+          (run.status === "untracked" &&
+            Date.now() - run.startedAt < kUntrackedRunMs) ||
+          Date.now() - (run.endedAt ?? 0) < kOutputGraceMs)
+    );
+    if (run) {
+      await this.updateRun(run.id, (run) => ({
+        ...run,
+        outputs: [...run.outputs, outputStr],
+      }));
+    }
+  }
+
+  public async clear() {
+    // Keep running runs so they can still be stopped
+    await this.writeRuns(this.runningRuns());
+  }
+
+  public registerController(target: RunTarget, controller: RunController) {
+    this.controllers_.set(target, controller);
+  }
+
+  public controller(target: RunTarget): RunController | undefined {
+    return this.controllers_.get(target);
+  }
+
+  dispose() {
+    this.onRunsChanged_.dispose();
+  }
+
+  private readRuns(): RunRecord[] {
+    return this.context_.workspaceState.get<RunRecord[]>(kRunHistoryKey) || [];
+  }
+
+  private async writeRuns(runs: RunRecord[]) {
+    await this.context_.workspaceState.update(kRunHistoryKey, runs);
+    this.onRunsChanged_.fire({ runs });
+  }
+
+  private readonly controllers_ = new Map<RunTarget, RunController>();
+
+  private readonly onRunsChanged_ = new EventEmitter<RunsChangedEvent>();
+  public readonly onRunsChanged: Event<RunsChangedEvent> =
+    this.onRunsChanged_.event;
+}
+
+const isRunning = (run: RunRecord) =>
+  run.status === "running" || run.status === "untracked";
@@ -4,6 +4,7 @@ import { showError } from "../../components/error";
 import { Command } from "../../core/command";
 import { ListingMRU } from "../../core/listing-mru";
 import { selectDirectory } from "../../core/select";
+import { activeEditorWorkspaceFolder } from "../../core/workspace";
 import { WorkspaceEnvManager } from "../workspace/workspace-env-provider";
 
 import { ScoutViewManager } from "./scanview-view";
@@ -47,7 +48,11 @@ class ShowOpenScanCommand implements Command {
   ) {}
   async execute(): Promise<void> {
     try {
-      const uri = await selectScanDirectory(this.context_, this.envManager_);
+      const uri = await selectScanDirectory(
+        this.context_,
+        this.envManager_,
+        activeEditorWorkspaceFolder()?.uri
+      );
       if (uri) {
         await commands.executeCommand("inspect.openScanViewer", uri);
       }
@@ -68,15 +73,18 @@ class ScanDirListingMRU extends ListingMRU {
   }
 }
 
+// Selects a scan directory (defaulting to the scan results dir of the
+// workspace folder containing folder)
 export async function selectScanDirectory(
   context: ExtensionContext,
-  envManager: WorkspaceEnvManager
+  envManager: WorkspaceEnvManager,
+  folder?: vscode.Uri
 ) {
   return await selectDirectory(
     "Scan Directory",
     "scan_id=<scan_id>",
     vscode.Uri.joinPath(
-      envManager.getDefaultScanResultsDir(),
+      envManager.getDefaultScanResultsDir(folder),
       "scan_id=<scan_id>"
     ),
     new ScanDirListingMRU(context),
@@ -5,7 +5,11 @@ import { ExecManager } from "../../core/package/exec-manager";
 import { toAbsolutePath } from "../../core/path";
 
 export function scoutScanCommands(manager: ExecManager): Command[] {
-  return [new RunScoutScanCommand(manager), new DebugScoutScanCommand(manager)];
+  return [
+    new RunScoutScanCommand(manager),
+    new DebugScoutScanCommand(manager),
+    new StopScoutScanCommand(manager),
+  ];
 }
 
 export class RunScoutScanCommand implements Command {
@@ -29,3 +33,12 @@ export class DebugScoutScanCommand implements Command {
   private static readonly id = "inspect.debugScoutScan";
   public readonly id = DebugScoutScanCommand.id;
 }
+
+export class StopScoutScanCommand implements Command {
+  constructor(private readonly manager_: ExecManager) {}
+  async execute(): Promise<void> {
+    await this.manager_.stopActive();
+  }
+  private static readonly id = "inspect.stopScoutScan";
+  public readonly id = StopScoutScanCommand.id;
+}
@@ -3,6 +3,7 @@ import { ExtensionContext, workspace } from "vscode";
 import { Command } from "../../core/command";
 import { ExecManager, ExecProfile } from "../../core/package/exec-manager";
 import { scoutBinPath, scoutVersionDescriptor } from "../../scout/props";
+import { RunHistoryManager } from "../runs/run-history-provider";
 import {
   DocumentState,
   WorkspaceStateManager,
@@ -12,6 +13,7 @@ import { scoutScanCommands } from "./scout-scan-commands";
 
 export function activateScoutScanManager(
   stateManager: WorkspaceStateManager,
+  runHistory: RunHistoryManager,
   context: ExtensionContext
 ): Command[] {
   const profile: ExecProfile = {
@@ -38,6 +40,11 @@ export function activateScoutScanManager(
   };
 
   // Activate the manager
-  const execManager = new ExecManager(profile, stateManager, context);
+  const execManager = new ExecManager(
+    profile,
+    stateManager,
+    runHistory,
+    context
+  );
   return scoutScanCommands(execManager);
 }
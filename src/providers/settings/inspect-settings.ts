@@ -4,6 +4,7 @@ import { workspace } from "vscode";
 export interface InspectSettings {
   notifyEvalComplete: boolean;
   notifyScanComplete: boolean;
+  groupEvalNotifications: boolean;
 }
 export type InspectLogViewStyle = "html" | "text";
 
@@ -11,6 +12,7 @@ export type InspectLogViewStyle = "html" | "text";
 const kInspectConfigSection = "inspect_ai";
 const kInspectConfigNotifyEvalComplete = "notifyEvalComplete";
 const kInspectConfigNotifyScanComplete = "notifyScanComplete";
+const kInspectConfigGroupEvalNotifications = "groupEvalNotifications";
 
 // Manages the settings for the inspect extension
 export class InspectSettingsManager {
@@ -56,11 +58,16 @@ export class InspectSettingsManager {
     const notifyScanComplete = configuration.get<boolean>(
       kInspectConfigNotifyScanComplete
     );
+    const groupEvalNotifications = configuration.get<boolean>(
+      kInspectConfigGroupEvalNotifications
+    );
     return {
       notifyEvalComplete:
         notifyEvalComplete !== undefined ? notifyEvalComplete : true,
       notifyScanComplete:
         notifyScanComplete !== undefined ? notifyScanComplete : true,
+      groupEvalNotifications:
+        groupEvalNotifications !== undefined ? groupEvalNotifications : true,
     };
   }
 }
@@ -0,0 +1,341 @@
+import { isAbsolute, relative, sep } from "path";
+
+import Ajv, { ValidateFunction } from "ajv";
+import { isEqual, throttle } from "lodash";
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  FileSystemWatcher,
+  RelativePattern,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
+import { parse, stringify } from "yaml";
+
+// Import the JSON schema for validation
+import tasksSchema from "../../../assets/schemas/tasks.schema.json";
+import { log } from "../../core/log";
+
+import { DocumentState } from "./workspace-state-provider";
+
+/**
+ * Task configuration (options and named presets) as stored in
+ * .inspect/tasks.json (or .inspect/tasks.yaml).
+ */
+export interface TaskConfig extends DocumentState {
+  presets?: Record<string, DocumentState>;
+  defaultPreset?: string;
+}
+
+export interface TaskConfigFileContents {
+  tasks: Record<string, TaskConfig>;
+}
+
+export type TaskConfigFormat = "json" | "yaml";
+
+export const kTaskConfigDir = ".inspect";
+
+// Config files in the order that they are searched for
+const kTaskConfigFiles: Array<{ name: string; format: TaskConfigFormat }> = [
+  { name: "tasks.json", format: "json" },
+  { name: "tasks.yaml", format: "yaml" },
+  { name: "tasks.yml", format: "yaml" },
+];
+
+/**
+ * Reads and writes task configurations in a workspace file (which can be
+ * committed and shared), watching the file for external edits.
+ */
+export class TaskConfigFileManager implements Disposable {
+  private contents_?: TaskConfigFileContents;
+  private file_?: { uri: Uri; format: TaskConfigFormat };
+  private watcher_: FileSystemWatcher;
+  private validator_: ValidateFunction;
+
+  private readonly onConfigChanged_ = new EventEmitter<void>();
+  public readonly onConfigChanged: Event<void> = this.onConfigChanged_.event;
+
+  constructor(private readonly workspaceRoot_: Uri) {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    this.validator_ = ajv.compile(tasksSchema);
+
+    this.watcher_ = workspace.createFileSystemWatcher(
+      new RelativePattern(
+        workspaceRoot_,
+        `${kTaskConfigDir}/tasks.{json,yaml,yml}`
+      )
+    );
+
+    // Throttle refresh to avoid excessive processing
+    const throttledRefresh = throttle(
+      async () => {
+        await this.refresh();
+      },
+      500,
+      { leading: false, trailing: true }
+    );
+    this.watcher_.onDidCreate(throttledRefresh);
+    this.watcher_.onDidChange(throttledRefresh);
+    this.watcher_.onDidDelete(throttledRefresh);
+  }
+
+  /**
+   * Whether the workspace has a task configuration file.
+   */
+  public hasFile(): boolean {
+    return this.file_ !== undefined;
+  }
+
+  public fileUri(): Uri | undefined {
+    return this.file_?.uri;
+  }
+
+  /**
+   * The key used for a task in the config file (undefined for task files
+   * that aren't within the workspace).
+   */
+  public taskKey(taskFilePath: string, taskName?: string): string | undefined {
+    const relativePath = relative(this.workspaceRoot_.fsPath, taskFilePath);
+    if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+      return undefined;
+    }
+    return taskConfigKey(relativePath.split(sep).join("/"), taskName);
+  }
+
+  public getContents(): TaskConfigFileContents | undefined {
+    return this.contents_;
+  }
+
+  public getTaskConfig(key: string): TaskConfig | undefined {
+    return this.contents_?.tasks[key];
+  }
+
+  public async setTaskConfig(key: string, config: TaskConfig) {
+    const contents = this.contents_ || { tasks: {} };
+    contents.tasks[key] = config;
+    await this.write(contents);
+  }
+
+  /**
+   * Writes the contents of the config file (creating the file using
+   * `format` if it doesn't yet exist).
+   */
+  public async write(
+    contents: TaskConfigFileContents,
+    format: TaskConfigFormat = "json"
+  ) {
+    const file = this.file_ || {
+      uri: Uri.joinPath(
+        this.workspaceRoot_,
+        kTaskConfigDir,
+        format === "json" ? "tasks.json" : "tasks.yaml"
+      ),
+      format,
+    };
+    await workspace.fs.createDirectory(
+      Uri.joinPath(this.workspaceRoot_, kTaskConfigDir)
+    );
+    // Normalize so the contents match what will be read back from the file
+    const normalized = normalizeTaskConfig(contents);
+    await workspace.fs.writeFile(
+      file.uri,
+      new TextEncoder().encode(stringifyTaskConfig(normalized, file.format))
+    );
+    this.file_ = file;
+    this.contents_ = normalized;
+  }
+
+  /**
+   * Reloads the config file, notifying listeners if the task configurations
+   * changed.
+   */
+  public async refresh(): Promise<void> {
+    const loaded = await this.load();
+    const changed =
+      loaded?.file.uri.toString() !== this.file_?.uri.toString() ||
+      !isEqual(loaded?.contents, this.contents_);
+    this.file_ = loaded?.file;
+    this.contents_ = loaded?.contents;
+    if (changed) {
+      this.onConfigChanged_.fire();
+    }
+  }
+
+  private async load(): Promise<
+    | {
+        file: { uri: Uri; format: TaskConfigFormat };
+        contents: TaskConfigFileContents;
+      }
+    | undefined
+  > {
+    for (const configFile of kTaskConfigFiles) {
+      const uri = Uri.joinPath(
+        this.workspaceRoot_,
+        kTaskConfigDir,
+        configFile.name
+      );
+
+      let content: string;
+      try {
+        content = new TextDecoder().decode(await workspace.fs.readFile(uri));
+      } catch {
+        // File doesn't exist, continue to next option
+        continue;
+      }
+
+      try {
+        const parsed = parseTaskConfig(content, configFile.format);
+        if (!this.validator_(parsed)) {
+          const errors = this.validator_.errors?.map(
+            (e) => `${e.instancePath || "/"} ${e.message}`
+          );
+          log.warn(
+            `Task config validation errors (${configFile.name}): ${errors?.join(", ")}`
+          );
+        }
+        log.info(`Loaded task configurations from ${configFile.name}`);
+        return {
+          file: { uri, format: configFile.format },
+          contents: normalizeTaskConfig(parsed),
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        log.warn(`Failed to parse ${configFile.name}: ${message}`);
+        void window.showWarningMessage(
+          `Unable to read task configurations from ${kTaskConfigDir}/${configFile.name}: ${message}`
+        );
+
+        // Keep using the previous configuration until the file is fixed
+        return this.file_ && this.contents_
+          ? { file: this.file_, contents: this.contents_ }
+          : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  dispose(): void {
+    this.watcher_.dispose();
+    this.onConfigChanged_.dispose();
+  }
+}
+
+export function taskConfigKey(relativePath: string, taskName?: string) {
+  return taskName ? `${relativePath}@${taskName}` : relativePath;
+}
+
+export function parseTaskConfig(
+  content: string,
+  format: TaskConfigFormat
+): unknown {
+  if (content.trim().length === 0) {
+    return {};
+  }
+  return format === "json" ? JSON.parse(content) : parse(content);
+}
+
+export function stringifyTaskConfig(
+  contents: TaskConfigFileContents,
+  format: TaskConfigFormat
+) {
+  return format === "json"
+    ? JSON.stringify(contents, undefined, 2) + "\n"
+    : stringify(contents);
+}
+
+/**
+ * Converts parsed config file contents into task configurations (values
+ * written by hand may be numbers or booleans rather than strings).
+ */
+export function normalizeTaskConfig(parsed: unknown): TaskConfigFileContents {
+  const tasks: Record<string, TaskConfig> = {};
+  const parsedTasks = isRecord(parsed) ? parsed["tasks"] : undefined;
+  if (isRecord(parsedTasks)) {
+    for (const [key, value] of Object.entries(parsedTasks)) {
+      if (!isRecord(value)) {
+        continue;
+      }
+      const config: TaskConfig = normalizeDocumentState(value);
+      if (isRecord(value["presets"])) {
+        config.presets = {};
+        for (const [name, preset] of Object.entries(value["presets"])) {
+          if (isRecord(preset)) {
+            config.presets[name] = normalizeDocumentState(preset);
+          }
+        }
+      }
+      if (typeof value["defaultPreset"] === "string") {
+        config.defaultPreset = value["defaultPreset"];
+      }
+      tasks[key] = config;
+    }
+  }
+  return { tasks };
+}
+
+const kStateOptions = [
+  "limit",
+  "epochs",
+  "temperature",
+  "topP",
+  "topK",
+  "maxTokens",
+  "sampleIds",
+] as const;
+
+function normalizeDocumentState(value: Record<string, unknown>) {
+  const state: DocumentState = {};
+  for (const option of kStateOptions) {
+    const optionValue = scalarString(value[option]);
+    if (optionValue !== undefined) {
+      state[option] = optionValue;
+    }
+  }
+  const params = value["params"];
+  if (isRecord(params)) {
+    state.params = {};
+    for (const [name, paramValue] of Object.entries(params)) {
+      const param = scalarString(paramValue);
+      if (param !== undefined) {
+        state.params[name] = param;
+      }
+    }
+  }
+  const options = value["options"];
+  if (isRecord(options)) {
+    state.options = {};
+    for (const [name, optionValue] of Object.entries(options)) {
+      const option = Array.isArray(optionValue)
+        ? optionValue
+            .map(scalarString)
+            .filter((v) => v !== undefined)
+            .join("\n")
+        : scalarString(optionValue);
+      if (option !== undefined) {
+        state.options[name] = option;
+      }
+    }
+  }
+  const models = value["models"];
+  if (Array.isArray(models)) {
+    state.models = models.filter((m): m is string => typeof m === "string");
+  }
+  return state;
+}
+
+function scalarString(value: unknown): string | undefined {
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,273 @@
+import { join, sep } from "path";
+
+import type { TaskPath } from "./workspace-task-provider";
+
+// A task within the workspace (file is relative to its workspace folder)
+export interface TaskDescriptor {
+  file: string;
+  name: string;
+}
+
+// The tasks read from a file (and the file's mtime when it was read)
+export interface TaskIndexEntry {
+  mtime: number;
+  tasks: string[];
+}
+
+// The persisted form of the index
+export interface TaskIndexData {
+  version: number;
+  files: Record<string, TaskIndexEntry>;
+}
+
+// The tasks added and removed by an update to the index
+export interface TaskIndexChange {
+  added: TaskDescriptor[];
+  removed: TaskDescriptor[];
+}
+
+const kTaskIndexVersion = 1;
+
+// Directories which are never searched for tasks
+const kExcludeDirs = [
+  ".venv",
+  "venv",
+  "__pycache__",
+  ".git",
+  "node_modules",
+  "env",
+  "envs",
+  "conda-env",
+  ".tox",
+  ".pytest_cache",
+  ".mypy_cache",
+  ".idea",
+  ".vscode",
+  "build",
+  "dist",
+  ".eggs",
+  "*.egg-info",
+  ".ipynb_checkpoints",
+];
+
+export const kTaskFilePattern = "**/*.{py,ipynb}";
+export const kTaskExcludeGlob = `**/{${kExcludeDirs.join(",")}}/**`;
+
+/**
+ * Whether a workspace relative path could contain tasks (python files and
+ * notebooks outside of excluded directories).
+ */
+export function isTaskFile(relativePath: string): boolean {
+  if (!relativePath.endsWith(".py") && !relativePath.endsWith(".ipynb")) {
+    return false;
+  }
+  // Skip paths prefixed with _ or .
+  if (relativePath.startsWith("_") || relativePath.startsWith(".")) {
+    return false;
+  }
+  const dirs = relativePath.split(/[\\/]/).slice(0, -1);
+  return !dirs.some((dir) =>
+    kExcludeDirs.some((exclude) =>
+      exclude.startsWith("*") ? dir.endsWith(exclude.slice(1)) : dir === exclude
+    )
+  );
+}
+
+/**
+ * The tasks in each of a workspace folder's task files. Files are keyed by
+ * folder relative path.
+ */
+export class TaskIndex {
+  private files_ = new Map<string, TaskIndexEntry>();
+
+  /**
+   * Reads a persisted index (returning an empty index for data written by
+   * a different version).
+   */
+  public static fromData(data: unknown): TaskIndex {
+    const index = new TaskIndex();
+    if (
+      isRecord(data) &&
+      data["version"] === kTaskIndexVersion &&
+      isRecord(data["files"])
+    ) {
+      for (const [file, entry] of Object.entries(data["files"])) {
+        if (
+          isRecord(entry) &&
+          typeof entry["mtime"] === "number" &&
+          Array.isArray(entry["tasks"])
+        ) {
+          index.files_.set(file, {
+            mtime: entry["mtime"],
+            tasks: entry["tasks"].filter(
+              (task): task is string => typeof task === "string"
+            ),
+          });
+        }
+      }
+    }
+    return index;
+  }
+
+  public toData(): TaskIndexData {
+    return {
+      version: kTaskIndexVersion,
+      files: Object.fromEntries(this.files_),
+    };
+  }
+
+  public entry(file: string): TaskIndexEntry | undefined {
+    return this.files_.get(file);
+  }
+
+  public files(): string[] {
+    return Array.from(this.files_.keys());
+  }
+
+  public descriptors(): TaskDescriptor[] {
+    return Array.from(this.files_.entries()).flatMap(([file, entry]) =>
+      entry.tasks.map((name) => ({ file, name }))
+    );
+  }
+
+  /**
+   * Sets the tasks for a file.
+   */
+  public update(file: string, entry: TaskIndexEntry): TaskIndexChange {
+    const previous = this.files_.get(file)?.tasks || [];
+    this.files_.set(file, entry);
+    return {
+      added: entry.tasks
+        .filter((name) => !previous.includes(name))
+        .map((name) => ({ file, name })),
+      removed: previous
+        .filter((name) => !entry.tasks.includes(name))
+        .map((name) => ({ file, name })),
+    };
+  }
+
+  /**
+   * Removes a file (or all of the files within a directory).
+   */
+  public remove(path: string): TaskIndexChange {
+    const removed: TaskDescriptor[] = [];
+    for (const [file, entry] of Array.from(this.files_.entries())) {
+      if (file === path || file.startsWith(path + sep)) {
+        this.files_.delete(file);
+        removed.push(...entry.tasks.map((name) => ({ file, name })));
+      }
+    }
+    return { added: [], removed };
+  }
+}
+
+/**
+ * The folder, file and task nodes shown in the task outline. Nodes are
+ * updated in place so that only the nodes affected by a change need to be
+ * refreshed. If a root node is provided (e.g. for a workspace folder in a
+ * multi-root workspace) the tree is built beneath it.
+ */
+export class TaskTree {
+  private roots_: TaskPath[];
+  private nodes_ = new Map<string, TaskPath>();
+
+  constructor(
+    public readonly workspacePath: string,
+    private readonly root_?: TaskPath
+  ) {
+    this.roots_ = root_ ? (root_.children = root_.children || []) : [];
+  }
+
+  public roots(): TaskPath[] {
+    return this.roots_;
+  }
+
+  /**
+   * Sets the tasks shown for a file, returning the node whose children
+   * changed (undefined if the top level nodes changed and there is no root
+   * node, or null if nothing changed).
+   */
+  public setFileTasks(
+    file: string,
+    tasks: string[]
+  ): TaskPath | undefined | null {
+    return tasks.length > 0 ? this.addFile(file, tasks) : this.removeFile(file);
+  }
+
+  private addFile(file: string, tasks: string[]): TaskPath | undefined {
+    // Find (or create) the nodes for the file and its folders
+    const parts = file.split(/[\\/]/);
+    let parentNode: TaskPath | undefined = this.root_;
+    let created = false;
+    let changed: TaskPath | undefined;
+    let currentPath = this.workspacePath;
+    for (const [idx, part] of parts.entries()) {
+      currentPath = join(currentPath, part);
+      let node = this.nodes_.get(currentPath);
+      if (!node) {
+        node = {
+          name: part,
+          path: currentPath,
+          type: idx !== parts.length - 1 ? "folder" : "file",
+          children: [],
+          parent: parentNode,
+        };
+        this.nodes_.set(currentPath, node);
+        insertSorted(parentNode ? parentNode.children! : this.roots_, node);
+        if (!created) {
+          // The highest new node was added to this node
+          created = true;
+          changed = parentNode;
+        }
+      }
+      parentNode = node;
+    }
+
+    // Replace the file's tasks
+    const fileNode = parentNode!;
+    fileNode.children = tasks.map((name) => ({
+      name,
+      path: currentPath,
+      type: "task",
+      parent: fileNode,
+    }));
+    return created ? changed : fileNode;
+  }
+
+  private removeFile(file: string): TaskPath | undefined | null {
+    // (files that aren't in the tree have nothing to remove)
+    const fileNode = this.nodes_.get(join(this.workspacePath, file));
+    if (!fileNode) {
+      return null;
+    }
+
+    // Remove the file and any folders that are left empty
+    let node: TaskPath | undefined = fileNode;
+    while (
+      node &&
+      node !== this.root_ &&
+      (node === fileNode || node.children?.length === 0)
+    ) {
+      this.nodes_.delete(node.path);
+      const siblings: TaskPath[] = node.parent
+        ? node.parent.children!
+        : this.roots_;
+      siblings.splice(siblings.indexOf(node), 1);
+      node = node.parent;
+    }
+    return node;
+  }
+}
+
+function insertSorted(nodes: TaskPath[], node: TaskPath) {
+  const index = nodes.findIndex((n) => n.path.localeCompare(node.path) > 0);
+  if (index === -1) {
+    nodes.push(node);
+  } else {
+    nodes.splice(index, 0, node);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
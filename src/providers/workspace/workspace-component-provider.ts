@@ -0,0 +1,158 @@
+import { debounce } from "lodash";
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  FileSystemWatcher,
+  Uri,
+  workspace,
+} from "vscode";
+
+import {
+  ComponentDefinition,
+  scanComponents,
+} from "../../components/registry-components";
+import { toAbsolutePath, workspaceRelativePath } from "../../core/path";
+
+import { isTaskFile, kTaskExcludeGlob } from "./task-index";
+
+// A component and the file which defines it
+export interface WorkspaceComponent extends ComponentDefinition {
+  // The path to the file (relative to the workspace, including the
+  // folder name in multi-root workspaces)
+  file: string;
+  uri: Uri;
+}
+
+// The components read from a file (and the file's mtime when it was read)
+interface ComponentFileEntry {
+  mtime: number;
+  components: WorkspaceComponent[];
+}
+
+const kComponentFilePattern = "**/*.py";
+
+// Files are checked (and read) in batches of this size
+const kReadBatchSize = 20;
+
+// Tracks the solvers, scorers, tools, agents and metrics defined in the
+// workspace, re-reading files as they change
+export class WorkspaceComponentManager implements Disposable {
+  constructor() {
+    this.watcher_ = workspace.createFileSystemWatcher(kComponentFilePattern);
+    this.watcher_.onDidCreate((uri) => this.onFileEvent(uri));
+    this.watcher_.onDidChange((uri) => this.onFileEvent(uri));
+    this.watcher_.onDidDelete((uri) => this.onFileEvent(uri));
+  }
+
+  private watcher_: FileSystemWatcher;
+  private files_ = new Map<string, ComponentFileEntry>();
+  private pending_ = new Set<string>();
+  private loaded_ = false;
+
+  /**
+   * Reads the components from every file in the workspace (only re-reading
+   * files which changed since they were last read).
+   */
+  public async refresh() {
+    const files = (
+      await workspace.findFiles(kComponentFilePattern, kTaskExcludeGlob)
+    ).filter((file) =>
+      isTaskFile(workspaceRelativePath(toAbsolutePath(file.fsPath)))
+    );
+
+    const entries = new Map<string, ComponentFileEntry>();
+    for (let i = 0; i < files.length; i += kReadBatchSize) {
+      await Promise.all(
+        files.slice(i, i + kReadBatchSize).map(async (file) => {
+          const entry = await readComponentFile(
+            file,
+            this.files_.get(file.fsPath)
+          );
+          if (entry) {
+            entries.set(file.fsPath, entry);
+          }
+        })
+      );
+    }
+    this.files_ = entries;
+    this.loaded_ = true;
+    this.onComponentsChanged_.fire();
+  }
+
+  public isLoaded() {
+    return this.loaded_;
+  }
+
+  public getComponents(): WorkspaceComponent[] {
+    return Array.from(this.files_.values()).flatMap(
+      (entry) => entry.components
+    );
+  }
+
+  private onFileEvent(uri: Uri) {
+    // Changes are picked up by the first refresh until then
+    if (!this.loaded_) {
+      return;
+    }
+    this.pending_.add(uri.fsPath);
+    void this.processPending();
+  }
+
+  // Re-read the files which changed (in batches)
+  private processPending = debounce(
+    async () => {
+      const pending = Array.from(this.pending_);
+      this.pending_.clear();
+      for (const path of pending) {
+        const entry = isTaskFile(workspaceRelativePath(toAbsolutePath(path)))
+          ? await readComponentFile(Uri.file(path))
+          : undefined;
+        if (entry) {
+          this.files_.set(path, entry);
+        } else {
+          this.files_.delete(path);
+        }
+      }
+      this.onComponentsChanged_.fire();
+    },
+    500,
+    { leading: false, trailing: true }
+  );
+
+  dispose() {
+    this.processPending.cancel();
+    this.watcher_.dispose();
+    this.onComponentsChanged_.dispose();
+  }
+
+  private readonly onComponentsChanged_ = new EventEmitter<void>();
+  public readonly onComponentsChanged: Event<void> =
+    this.onComponentsChanged_.event;
+}
+
+// Reads the components from a file (returning the cached entry if the file
+// hasn't changed, and undefined if it can't be read)
+async function readComponentFile(
+  file: Uri,
+  cached?: ComponentFileEntry
+): Promise<ComponentFileEntry | undefined> {
+  try {
+    const { mtime } = await workspace.fs.stat(file);
+    if (cached?.mtime === mtime) {
+      return cached;
+    }
+    const content = new TextDecoder().decode(await workspace.fs.readFile(file));
+    return {
+      mtime,
+      components: scanComponents(content).map((component) => ({
+        ...component,
+        file: workspace.asRelativePath(file),
+        uri: file,
+      })),
+    };
+  } catch {
+    // The file couldn't be read (it may have been deleted)
+    return undefined;
+  }
+}
@@ -3,7 +3,11 @@ import { writeFileSync } from "fs";
 import { window, workspace } from "vscode";
 
 import { Command } from "../../core/command";
-import { workspacePath } from "../../core/path";
+import { toAbsolutePath } from "../../core/path";
+import {
+  activeWorkspaceFolder,
+  workspaceFolderList,
+} from "../../core/workspace";
 
 export function workspaceEnvCommands() {
   return [new EditEnvFileCommand()];
@@ -12,8 +16,20 @@ export function workspaceEnvCommands() {
 export class EditEnvFileCommand implements Command {
   constructor() {}
   async execute(): Promise<void> {
+    // The workspace folder (ask which one if there are several)
+    const folder =
+      workspaceFolderList().length > 1
+        ? await window.showWorkspaceFolderPick({
+            placeHolder:
+              "Select the workspace folder to edit the .env file for",
+          })
+        : activeWorkspaceFolder();
+    if (!folder) {
+      return;
+    }
+
     // The path to the env file
-    const absPath = workspacePath(`.env`);
+    const absPath = toAbsolutePath(folder.uri.fsPath).child(".env");
 
     // Ensure env file actually exists (append mode creates the file if
     // missing without truncating one created in the meantime)
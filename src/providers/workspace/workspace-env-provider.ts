@@ -1,18 +1,17 @@
 import { existsSync, statSync } from "fs";
-import { join } from "path";
+import { join, resolve } from "path";
 
 import { isEqual } from "lodash";
-import { Disposable, Event, EventEmitter, Uri } from "vscode";
+import { Disposable, Event, EventEmitter, Uri, workspace } from "vscode";
 
 import { Command } from "../../core/command";
 import { clearEnv, readEnv, writeEnv } from "../../core/env";
 import { log } from "../../core/log";
 import {
-  toAbsolutePath,
-  workspacePath,
-  workspaceRelativePath,
-} from "../../core/path";
-import { activeWorkspaceFolder } from "../../core/workspace";
+  activeWorkspaceFolder,
+  workspaceFolderFor,
+  workspaceFolderList,
+} from "../../core/workspace";
 import { kInspectEnvValues } from "../inspect/inspect-constants";
 import { kScoutEnvValues } from "../scout/scout-constants";
 
@@ -24,73 +23,70 @@ export function activateWorkspaceEnv(): [Command[], WorkspaceEnvManager] {
   return [workspaceEnvCommands(), envManager];
 }
 
-// Fired when the active task changes
+// Fired when the environment of a workspace folder changes
 export interface EnvironmentChangedEvent {
   mtime: number;
+  // The workspace folder whose .env file changed
+  folder: Uri;
 }
 
-// Manages the workspace environment
+// The .env file of a workspace folder
+interface FolderEnv {
+  uri: Uri;
+  env: Record<string, string>;
+  lastUpdated: number;
+}
+
+// Manages the environment (.env file) of each workspace folder. Methods
+// which take a folder use the first workspace folder by default.
 export class WorkspaceEnvManager implements Disposable {
   constructor() {
-    const envUri = this.getEnvUri();
-    this.env = readEnv(envUri);
-    this.lastUpdated_ = Date.now();
-    const envRelativePath = workspaceRelativePath(
-      toAbsolutePath(envUri.fsPath)
-    );
-    log.appendLine(`Watching ${envRelativePath}`);
+    this.syncFolders();
+    this.folderListener_ = workspace.onDidChangeWorkspaceFolders(() => {
+      this.syncFolders();
+    });
     this.envWatcher_ = setInterval(() => {
-      if (existsSync(envUri.fsPath)) {
-        const envUpdated = statSync(envUri.fsPath).mtime.getTime();
-        if (envUpdated > this.lastUpdated_) {
-          this.lastUpdated_ = envUpdated;
-          const newEnv = readEnv(envUri);
-          if (!isEqual(this.env, newEnv)) {
-            log.appendLine(`${envRelativePath} changed`);
-            this.env = newEnv;
-            this.onEnvironmentChanged_.fire({ mtime: envUpdated });
-          }
-        }
+      for (const [folder, folderEnv] of this.folders_) {
+        this.checkEnv(Uri.parse(folder), folderEnv);
       }
     }, 1000);
   }
   private envWatcher_: NodeJS.Timeout;
-  private lastUpdated_: number;
-  private env: Record<string, string> = {};
-
-  public getValues(): Record<string, string> {
-    return this.env;
-  }
+  private folderListener_: Disposable;
+  private folders_ = new Map<string, FolderEnv>();
 
-  private getEnvUri() {
-    const workspaceFolder = activeWorkspaceFolder();
-    return Uri.joinPath(workspaceFolder?.uri, ".env");
+  public getValues(folder?: Uri): Record<string, string> {
+    return this.folderEnv(folder)?.env || {};
   }
 
-  public setValues(env: Record<string, string>) {
-    const envUri = this.getEnvUri();
+  public setValues(env: Record<string, string>, folder?: Uri) {
+    const folderEnv = this.folderEnv(folder);
+    if (!folderEnv) {
+      return;
+    }
+    const envUri = folderEnv.uri;
     const keys = Object.keys(env);
     keys.forEach((key) => {
       const value = env[key] ?? "";
       if (value === "") {
         // Only actually clear the value if it has changed
-        if (this.env[key] && this.env[key] !== value) {
-          delete this.env[key];
+        if (folderEnv.env[key] && folderEnv.env[key] !== value) {
+          delete folderEnv.env[key];
           clearEnv(key, envUri);
         }
       } else {
         // Only actually change the value if it has changed
-        if (this.env[key] !== value) {
-          this.env[key] = value;
+        if (folderEnv.env[key] !== value) {
+          folderEnv.env[key] = value;
           writeEnv(key, value, envUri);
         }
       }
     });
   }
 
-  public getDefaultLogDir() {
+  public getDefaultLogDir(folder?: Uri) {
     // See if there is a log dir
-    const envVals = this.getValues();
+    const envVals = this.getValues(folder);
     const env_log = envVals[kInspectEnvValues.logDir] ?? "";
 
     // If there is a log dir, try to parse and use it
@@ -98,16 +94,17 @@ export class WorkspaceEnvManager implements Disposable {
       return Uri.parse(env_log, true);
     } catch {
       // This isn't a uri, bud
+      const folderPath = this.folderPath(folder);
       const logDir = env_log
-        ? workspacePath(env_log).path
-        : join(workspacePath().path, "logs");
+        ? resolve(folderPath, env_log)
+        : join(folderPath, "logs");
       return Uri.file(logDir);
     }
   }
 
-  public getDefaultScanResultsDir() {
+  public getDefaultScanResultsDir(folder?: Uri) {
     // See if there is a log dir
-    const envVals = this.getValues();
+    const envVals = this.getValues(folder);
     const envResults = envVals[kScoutEnvValues.scanResults] ?? "";
 
     // If there is a results dir, try to parse and use it
@@ -115,13 +112,65 @@ export class WorkspaceEnvManager implements Disposable {
       return Uri.parse(envResults, true);
     } catch {
       // This isn't a uri, bud
+      const folderPath = this.folderPath(folder);
       const resultsDir = envResults
-        ? workspacePath(envResults).path
-        : join(workspacePath().path, "scans");
+        ? resolve(folderPath, envResults)
+        : join(folderPath, "scans");
       return Uri.file(resultsDir);
     }
   }
 
+  // Start (or stop) watching the .env file of each workspace folder
+  private syncFolders() {
+    const folders = workspaceFolderList();
+    const keys = folders.map((folder) => folder.uri.toString());
+    for (const key of Array.from(this.folders_.keys())) {
+      if (!keys.includes(key)) {
+        this.folders_.delete(key);
+      }
+    }
+    for (const folder of folders) {
+      const key = folder.uri.toString();
+      if (!this.folders_.has(key)) {
+        const envUri = Uri.joinPath(folder.uri, ".env");
+        this.folders_.set(key, {
+          uri: envUri,
+          env: readEnv(envUri),
+          lastUpdated: Date.now(),
+        });
+        log.appendLine(`Watching ${workspace.asRelativePath(envUri)}`);
+      }
+    }
+  }
+
+  private checkEnv(folder: Uri, folderEnv: FolderEnv) {
+    const envUri = folderEnv.uri;
+    if (existsSync(envUri.fsPath)) {
+      const envUpdated = statSync(envUri.fsPath).mtime.getTime();
+      if (envUpdated > folderEnv.lastUpdated) {
+        folderEnv.lastUpdated = envUpdated;
+        const newEnv = readEnv(envUri);
+        if (!isEqual(folderEnv.env, newEnv)) {
+          log.appendLine(`${workspace.asRelativePath(envUri)} changed`);
+          folderEnv.env = newEnv;
+          this.onEnvironmentChanged_.fire({ mtime: envUpdated, folder });
+        }
+      }
+    }
+  }
+
+  private folderEnv(folder?: Uri) {
+    const workspaceFolder = folder
+      ? workspaceFolderFor(folder)
+      : activeWorkspaceFolder();
+    return this.folders_.get(workspaceFolder.uri.toString());
+  }
+
+  private folderPath(folder?: Uri) {
+    return (folder ? workspaceFolderFor(folder) : activeWorkspaceFolder()).uri
+      .fsPath;
+  }
+
   private readonly onEnvironmentChanged_ =
     new EventEmitter<EnvironmentChangedEvent>();
   public readonly onEnvironmentChanged: Event<EnvironmentChangedEvent> =
@@ -132,6 +181,7 @@ export class WorkspaceEnvManager implements Disposable {
   }
 
   dispose() {
+    this.folderListener_.dispose();
     if (this.envWatcher_) {
       log.appendLine(`Stop watching .env`);
       clearTimeout(this.envWatcher_);
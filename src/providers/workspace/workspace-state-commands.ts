@@ -0,0 +1,78 @@
+import { QuickPickItem, window, workspace } from "vscode";
+
+import { Command } from "../../core/command";
+import { toAbsolutePath, workspaceRelativePath } from "../../core/path";
+import {
+  checkActiveWorkspaceFolder,
+  workspaceFolderList,
+} from "../../core/workspace";
+
+import { TaskConfigFormat } from "./task-config-file";
+import { WorkspaceStateManager } from "./workspace-state-provider";
+
+interface FormatPickItem extends QuickPickItem {
+  format: TaskConfigFormat;
+}
+
+export class MigrateTaskStateCommand implements Command {
+  constructor(private readonly stateManager_: WorkspaceStateManager) {}
+  async execute(): Promise<void> {
+    // The workspace folder (ask which one if there are several)
+    const folder =
+      workspaceFolderList().length > 1
+        ? await window.showWorkspaceFolderPick({
+            placeHolder:
+              "Select the workspace folder to move task configurations for",
+          })
+        : checkActiveWorkspaceFolder();
+    if (!folder) {
+      await window.showInformationMessage(
+        "Task configurations can only be written to a file when a workspace folder is open."
+      );
+      return;
+    }
+
+    // Use the format of an existing file, otherwise ask
+    let format: TaskConfigFormat;
+    const existingUri = this.stateManager_.taskConfigFileUri(folder.uri);
+    if (existingUri) {
+      format = existingUri.path.endsWith(".json") ? "json" : "yaml";
+    } else {
+      const picked = await window.showQuickPick<FormatPickItem>(
+        [
+          { label: ".inspect/tasks.json", format: "json" },
+          { label: ".inspect/tasks.yaml", format: "yaml" },
+        ],
+        {
+          title: "Move Task Configurations to Workspace File",
+          placeHolder: "Choose the file to write task configurations to",
+        }
+      );
+      if (!picked) {
+        return;
+      }
+      format = picked.format;
+    }
+
+    const count = await this.stateManager_.migrateTaskStateToFile(
+      format,
+      folder.uri
+    );
+    const fileUri = this.stateManager_.taskConfigFileUri(folder.uri);
+    if (!fileUri) {
+      return;
+    }
+
+    const document = await workspace.openTextDocument(fileUri);
+    await window.showTextDocument(document);
+    const fileName = workspaceRelativePath(toAbsolutePath(fileUri.fsPath));
+    await window.showInformationMessage(
+      count > 0
+        ? `Copied ${count} task configuration${count === 1 ? "" : "s"} to ${fileName}. Task configurations will now be read from and saved to this file.`
+        : `Task configurations will now be read from and saved to ${fileName}.`
+    );
+  }
+
+  private static readonly id = "inspect.migrateTaskState";
+  public readonly id = MigrateTaskStateCommand.id;
+}
@@ -1,13 +1,51 @@
-import { ExtensionContext } from "vscode";
+import { isAbsolute, sep } from "path";
+
+import { cloneDeep, omit } from "lodash";
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  Uri,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
 
 import { Command } from "../../core/command";
 import { randomInt } from "../../core/random";
+import { workspaceFolderList } from "../../core/workspace";
+
+import {
+  TaskConfig,
+  TaskConfigFileContents,
+  TaskConfigFileManager,
+  TaskConfigFormat,
+} from "./task-config-file";
+import { MigrateTaskStateCommand } from "./workspace-state-commands";
 
-export function activateWorkspaceState(
+export async function activateWorkspaceState(
   context: ExtensionContext
-): [Command[], WorkspaceStateManager] {
+): Promise<[Command[], WorkspaceStateManager]> {
   const stateManager = new WorkspaceStateManager(context);
-  return [[], stateManager];
+  context.subscriptions.push(stateManager);
+
+  // Task configurations may be shared through a file in each workspace folder
+  const addFolder = async (folder: WorkspaceFolder) => {
+    const taskConfigFile = new TaskConfigFileManager(folder.uri);
+    await taskConfigFile.refresh();
+    stateManager.setTaskConfigFile(folder.uri, taskConfigFile);
+  };
+  await Promise.all(workspaceFolderList().map(addFolder));
+  context.subscriptions.push(
+    workspace.onDidChangeWorkspaceFolders(async (e) => {
+      for (const folder of e.removed) {
+        stateManager.setTaskConfigFile(folder.uri, undefined);
+      }
+      await Promise.all(e.added.map(addFolder));
+    })
+  );
+
+  return [[new MigrateTaskStateCommand(stateManager)], stateManager];
 }
 
 export interface DocumentState {
@@ -19,15 +57,58 @@ export interface DocumentState {
   maxTokens?: string;
   params?: Record<string, string>;
   sampleIds?: string;
+  models?: string[];
+  // Additional `inspect eval` options (keyed by option name)
+  options?: Record<string, string>;
+}
+
+// Named sets of options for a task (e.g. "smoke", "full"). The unnamed
+// task state is used when no preset is selected.
+export interface TaskPresets {
+  defaultPreset?: string;
+  selectedPreset?: string;
+  presets: Record<string, DocumentState>;
+}
+
+export interface TaskPresetsChangedEvent {
+  taskFilePath: string;
+  taskName?: string;
 }
 
 export interface ModelState {
   lastModel?: string;
 }
 
-export class WorkspaceStateManager {
+export class WorkspaceStateManager implements Disposable {
   constructor(private readonly context_: ExtensionContext) {}
 
+  // The task configuration file of each workspace folder (keyed by folder uri)
+  private readonly taskConfigFiles_ = new Map<
+    string,
+    { file: TaskConfigFileManager; listener: Disposable }
+  >();
+
+  /**
+   * Sets the task configuration file of a workspace folder (pass undefined
+   * when the folder is removed). The previous file is disposed.
+   */
+  public setTaskConfigFile(folder: Uri, file?: TaskConfigFileManager) {
+    const key = folder.toString();
+    const existing = this.taskConfigFiles_.get(key);
+    if (existing) {
+      existing.listener.dispose();
+      existing.file.dispose();
+      this.taskConfigFiles_.delete(key);
+    }
+    if (file) {
+      const listener = file.onConfigChanged(() => {
+        this.onTaskStateChanged_.fire();
+      });
+      this.taskConfigFiles_.set(key, { file, listener });
+    }
+    this.onTaskStateChanged_.fire();
+  }
+
   public async initializeWorkspaceId() {
     const existingKey = this.context_.workspaceState.get<string>(
       "INSPECT_WORKSPACE_ID"
@@ -50,7 +131,27 @@ export class WorkspaceStateManager {
     await this.context_.workspaceState.update(key, value);
   }
 
-  public getTaskState(taskFilePath: string, taskName?: string): DocumentState {
+  public getTaskState(
+    taskFilePath: string,
+    taskName?: string,
+    preset?: string
+  ): DocumentState {
+    const [taskConfigFile, fileKey] = this.taskConfigFileKey(
+      taskFilePath,
+      taskName
+    );
+    if (taskConfigFile && fileKey) {
+      const config = taskConfigFile.getTaskConfig(fileKey);
+      return cloneDeep(
+        (preset
+          ? config?.presets?.[preset]
+          : omit(config, ["presets", "defaultPreset"])) || {}
+      );
+    }
+
+    if (preset) {
+      return this.getTaskPresets(taskFilePath, taskName).presets[preset] || {};
+    }
     return (
       this.context_.workspaceState.get(taskKey(taskFilePath, taskName)) || {}
     );
@@ -59,14 +160,296 @@ export class WorkspaceStateManager {
   public async setTaskState(
     taskFilePath: string,
     state: DocumentState,
+    taskName?: string,
+    preset?: string
+  ) {
+    const [taskConfigFile, fileKey] = this.taskConfigFileKey(
+      taskFilePath,
+      taskName
+    );
+    if (taskConfigFile && fileKey && !preset) {
+      const config = taskConfigFile.getTaskConfig(fileKey);
+      await taskConfigFile.setTaskConfig(fileKey, {
+        ...cloneDeep(state),
+        presets: config?.presets,
+        defaultPreset: config?.defaultPreset,
+      });
+    } else if (preset) {
+      const presets = this.getTaskPresets(taskFilePath, taskName);
+      presets.presets[preset] = state;
+      await this.setTaskPresets(taskFilePath, presets, taskName);
+    } else {
+      await this.context_.workspaceState.update(
+        taskKey(taskFilePath, taskName),
+        state
+      );
+    }
+  }
+
+  // Removes the saved values of params (from the task state and presets)
+  public async removeTaskParams(
+    taskFilePath: string,
+    taskName: string | undefined,
+    params: string[]
+  ) {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    for (const preset of [undefined, ...Object.keys(presets.presets)]) {
+      const state = this.getTaskState(taskFilePath, taskName, preset);
+      const saved = state.params || {};
+      if (params.some((param) => param in saved)) {
+        await this.setTaskState(
+          taskFilePath,
+          { ...state, params: omit(saved, params) },
+          taskName,
+          preset
+        );
+      }
+    }
+    this.onTaskStateChanged_.fire();
+  }
+
+  public getTaskPresets(taskFilePath: string, taskName?: string): TaskPresets {
+    const presets = this.context_.workspaceState.get<TaskPresets>(
+      presetsKey(taskFilePath, taskName)
+    );
+
+    // The selected preset is always kept in workspace state (it is a UI
+    // choice rather than part of the shared configuration)
+    const [taskConfigFile, fileKey] = this.taskConfigFileKey(
+      taskFilePath,
+      taskName
+    );
+    if (taskConfigFile && fileKey) {
+      const config = taskConfigFile.getTaskConfig(fileKey);
+      return {
+        defaultPreset: config?.defaultPreset,
+        selectedPreset: presets?.selectedPreset,
+        presets: cloneDeep(config?.presets || {}),
+      };
+    }
+
+    return {
+      defaultPreset: presets?.defaultPreset,
+      selectedPreset: presets?.selectedPreset,
+      presets: { ...presets?.presets },
+    };
+  }
+
+  public async setTaskPresets(
+    taskFilePath: string,
+    presets: TaskPresets,
     taskName?: string
   ) {
-    await this.context_.workspaceState.update(
-      taskKey(taskFilePath, taskName),
-      state
+    const [taskConfigFile, fileKey] = this.taskConfigFileKey(
+      taskFilePath,
+      taskName
     );
+    if (taskConfigFile && fileKey) {
+      const config = taskConfigFile.getTaskConfig(fileKey);
+      await taskConfigFile.setTaskConfig(fileKey, {
+        ...config,
+        presets: presets.presets,
+        defaultPreset: presets.defaultPreset,
+      });
+      await this.context_.workspaceState.update(
+        presetsKey(taskFilePath, taskName),
+        { selectedPreset: presets.selectedPreset, presets: {} }
+      );
+    } else {
+      await this.context_.workspaceState.update(
+        presetsKey(taskFilePath, taskName),
+        presets
+      );
+    }
+    this.onTaskPresetsChanged_.fire({ taskFilePath, taskName });
+  }
+
+  public async createTaskPreset(
+    taskFilePath: string,
+    taskName: string | undefined,
+    preset: string,
+    state: DocumentState = {}
+  ) {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    presets.presets[preset] = cloneDeep(state);
+    presets.selectedPreset = preset;
+    await this.setTaskPresets(taskFilePath, presets, taskName);
+  }
+
+  public async renameTaskPreset(
+    taskFilePath: string,
+    taskName: string | undefined,
+    preset: string,
+    newName: string
+  ) {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    const state = presets.presets[preset];
+    if (state === undefined) {
+      return;
+    }
+    delete presets.presets[preset];
+    presets.presets[newName] = state;
+    if (presets.defaultPreset === preset) {
+      presets.defaultPreset = newName;
+    }
+    if (presets.selectedPreset === preset) {
+      presets.selectedPreset = newName;
+    }
+    await this.setTaskPresets(taskFilePath, presets, taskName);
   }
 
+  public async deleteTaskPreset(
+    taskFilePath: string,
+    taskName: string | undefined,
+    preset: string
+  ) {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    delete presets.presets[preset];
+    if (presets.defaultPreset === preset) {
+      presets.defaultPreset = undefined;
+    }
+    if (presets.selectedPreset === preset) {
+      presets.selectedPreset = undefined;
+    }
+    await this.setTaskPresets(taskFilePath, presets, taskName);
+  }
+
+  // Pass undefined to use the unnamed task state by default
+  public async setDefaultTaskPreset(
+    taskFilePath: string,
+    taskName: string | undefined,
+    preset?: string
+  ) {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    presets.defaultPreset = preset;
+    await this.setTaskPresets(taskFilePath, presets, taskName);
+  }
+
+  // The preset being edited in the Task panel
+  public async selectTaskPreset(
+    taskFilePath: string,
+    taskName: string | undefined,
+    preset?: string
+  ) {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    presets.selectedPreset = preset;
+    await this.setTaskPresets(taskFilePath, presets, taskName);
+  }
+
+  // The preset used when running a task without naming one
+  public defaultTaskPreset(
+    taskFilePath: string,
+    taskName?: string
+  ): string | undefined {
+    const presets = this.getTaskPresets(taskFilePath, taskName);
+    return presets.defaultPreset && presets.presets[presets.defaultPreset]
+      ? presets.defaultPreset
+      : undefined;
+  }
+
+  /**
+   * The file in a workspace folder that task configurations are read from
+   * and written to (undefined when they are kept in workspace state).
+   */
+  public taskConfigFileUri(folder: Uri) {
+    return this.taskConfigFiles_.get(folder.toString())?.file.fileUri();
+  }
+
+  /**
+   * Copies the task configurations kept in workspace state for the tasks of
+   * a workspace folder into its task configuration file (creating it if
+   * required).
+   *
+   * @returns The number of tasks copied into the file.
+   */
+  public async migrateTaskStateToFile(
+    format: TaskConfigFormat,
+    folder: Uri
+  ): Promise<number> {
+    const taskConfigFile = this.taskConfigFiles_.get(folder.toString())?.file;
+    if (!taskConfigFile) {
+      return 0;
+    }
+
+    const tasks: Record<string, TaskConfig> = {};
+    const taskConfig = (key: string) => {
+      tasks[key] = tasks[key] || {};
+      return tasks[key];
+    };
+    for (const key of this.context_.workspaceState.keys()) {
+      const isPresets = key.startsWith(kPresetsKeyPrefix);
+      const task = parseTaskKey(
+        isPresets ? key.slice(kPresetsKeyPrefix.length) : key
+      );
+      const fileKey =
+        task && this.folderTaskConfigFile(task.file) === taskConfigFile
+          ? taskConfigFile.taskKey(task.file, task.task)
+          : undefined;
+      const value = this.context_.workspaceState.get<unknown>(key);
+      if (!fileKey || typeof value !== "object" || value === null) {
+        continue;
+      }
+
+      if (isPresets) {
+        const presets = value as TaskPresets;
+        if (Object.keys(presets.presets || {}).length > 0) {
+          taskConfig(fileKey).presets = cloneDeep(presets.presets);
+          taskConfig(fileKey).defaultPreset = presets.defaultPreset;
+        }
+      } else if (Object.keys(value).length > 0) {
+        Object.assign(taskConfig(fileKey), cloneDeep(value as DocumentState));
+      }
+    }
+
+    // Configurations already in the file take precedence
+    const contents: TaskConfigFileContents = cloneDeep(
+      taskConfigFile.getContents() || { tasks: {} }
+    );
+    let count = 0;
+    for (const [key, config] of Object.entries(tasks)) {
+      if (!contents.tasks[key]) {
+        contents.tasks[key] = config;
+        count++;
+      }
+    }
+
+    await taskConfigFile.write(contents, format);
+    this.onTaskStateChanged_.fire();
+    return count;
+  }
+
+  // The task configuration file (and key) for a task (if the task state is
+  // kept in the file of the task file's workspace folder)
+  private taskConfigFileKey(
+    taskFilePath: string,
+    taskName?: string
+  ): [TaskConfigFileManager | undefined, string | undefined] {
+    const taskConfigFile = this.folderTaskConfigFile(taskFilePath);
+    return taskConfigFile?.hasFile()
+      ? [taskConfigFile, taskConfigFile.taskKey(taskFilePath, taskName)]
+      : [undefined, undefined];
+  }
+
+  // The task configuration file of the workspace folder containing a file
+  private folderTaskConfigFile(filePath: string) {
+    if (this.taskConfigFiles_.size === 0) {
+      return undefined;
+    }
+    const folder = workspace.getWorkspaceFolder(Uri.file(filePath));
+    return folder
+      ? this.taskConfigFiles_.get(folder.uri.toString())?.file
+      : undefined;
+  }
+
+  private readonly onTaskStateChanged_ = new EventEmitter<void>();
+  public readonly onTaskStateChanged: Event<void> =
+    this.onTaskStateChanged_.event;
+
+  private readonly onTaskPresetsChanged_ =
+    new EventEmitter<TaskPresetsChangedEvent>();
+  public readonly onTaskPresetsChanged: Event<TaskPresetsChangedEvent> =
+    this.onTaskPresetsChanged_.event;
+
   public getModelState(provider: string): ModelState {
     return this.context_.workspaceState.get(modelKey(provider)) || {};
   }
@@ -74,6 +457,16 @@ export class WorkspaceStateManager {
   public async setModelState(provider: string, state: ModelState) {
     await this.context_.workspaceState.update(modelKey(provider), state);
   }
+
+  dispose() {
+    for (const { file, listener } of this.taskConfigFiles_.values()) {
+      listener.dispose();
+      file.dispose();
+    }
+    this.taskConfigFiles_.clear();
+    this.onTaskStateChanged_.dispose();
+    this.onTaskPresetsChanged_.dispose();
+  }
 }
 
 function taskKey(file: string, task?: string) {
@@ -84,6 +477,24 @@ function taskKey(file: string, task?: string) {
   }
 }
 
+const kPresetsKeyPrefix = "presets-";
+
+function presetsKey(file: string, task?: string) {
+  return `${kPresetsKeyPrefix}${taskKey(file, task)}`;
+}
+
+// Parses a task state key (only keys for absolute task file paths)
+function parseTaskKey(
+  key: string
+): { file: string; task?: string } | undefined {
+  const taskSep = key.lastIndexOf("@");
+  const [file, task] =
+    taskSep > key.lastIndexOf(sep)
+      ? [key.slice(0, taskSep), key.slice(taskSep + 1)]
+      : [key, undefined];
+  return isAbsolute(file) ? { file, task } : undefined;
+}
+
 function modelKey(provider: string) {
   return `provider-${provider}`;
 }
@@ -1,22 +1,38 @@
-import path, { join, relative } from "path";
+import { isAbsolute, join, normalize, relative } from "path";
 
-import { throttle } from "lodash";
+import { debounce } from "lodash";
 import {
+  Disposable,
   Event,
   EventEmitter,
   ExtensionContext,
-  FileStat,
   FileSystemWatcher,
+  RelativePattern,
   Uri,
   workspace,
+  WorkspaceFolder,
 } from "vscode";
 
+import { taskDecoratorName } from "../../components/task";
 import { startup } from "../../core/log";
 import {
   PackageChangedEvent,
   PackageManager,
 } from "../../core/package/manager";
-import { AbsolutePath, activeWorkspacePath } from "../../core/path";
+import { AbsolutePath, toAbsolutePath } from "../../core/path";
+import { workspaceFolderList } from "../../core/workspace";
+import { inspectBinPath } from "../../inspect/props";
+import { inspectListTasks } from "../../inspect/tasks";
+
+import {
+  isTaskFile,
+  kTaskExcludeGlob,
+  kTaskFilePattern,
+  TaskDescriptor,
+  TaskIndex,
+  TaskIndexChange,
+  TaskTree,
+} from "./task-index";
 
 // Activates the provider which tracks the currently active task (document and task name)
 export function activateWorkspaceTaskProvider(
@@ -25,12 +41,17 @@ export function activateWorkspaceTaskProvider(
 ) {
   // The task manager
   const taskManager = new WorkspaceTaskManager(context);
+  context.subscriptions.push(taskManager);
 
-  // If the interpreter changes, refresh the tasks
+  // Show the tasks found in the previous session while the index is updated
+  void taskManager.restore();
+
+  // If the interpreter changes, re-read all of the tasks (as the version
+  // of Inspect may have changed)
   context.subscriptions.push(
     inspectManager.onPackageChanged(async (e: PackageChangedEvent) => {
       if (e.available) {
-        await taskManager.refresh();
+        await taskManager.refresh(true);
       }
     })
   );
@@ -50,223 +71,492 @@ export interface TaskPath {
 // Fired when the active task changes
 export interface TasksChangedEvent {
   tasks?: TaskPath[];
+  added?: TaskDescriptor[];
+  removed?: TaskDescriptor[];
+  // The nodes whose children changed (undefined if the root nodes changed)
+  changed?: TaskPath[];
 }
 
-const kTaskFilePattern = "**/*.{py,ipynb}";
+const kTaskIndexFile = "task-index.json";
+
+// The number of files passed to each `inspect list tasks` call
+const kListTasksChunkSize = 100;
+
+// The number of files statted at once when refreshing a folder
+const kStatBatchSize = 100;
+
+// The task index and tree for a workspace folder
+interface FolderTasks {
+  folder: WorkspaceFolder;
+  index: TaskIndex;
+  tree: TaskTree;
+  // The node for the folder (if the tree is grouped by workspace folder)
+  node?: TaskPath;
+}
 
-// Tracks what the active task is in the editor
-export class WorkspaceTaskManager {
+// Tracks the tasks within each workspace folder, keeping an index of the
+// tasks in each file which is updated as files change
+export class WorkspaceTaskManager implements Disposable {
   constructor(context: ExtensionContext) {
-    this.watcher = workspace.createFileSystemWatcher(
-      kTaskFilePattern,
-      false,
-      false,
+    this.context_ = context;
+
+    this.watcher_ = workspace.createFileSystemWatcher(kTaskFilePattern);
+    this.watcher_.onDidCreate((uri) => this.onFileEvent(uri, "changed"));
+    this.watcher_.onDidChange((uri) => this.onFileEvent(uri, "changed"));
+    this.watcher_.onDidDelete((uri) => this.onFileEvent(uri, "deleted"));
+
+    // Deleting a folder is reported for the folder alone
+    this.folderWatcher_ = workspace.createFileSystemWatcher(
+      "**/*",
+      true,
+      true,
       false
     );
-    this.context = context;
-    const onChange = throttle(
-      async () => {
-        await this.refresh();
-      },
-      5000,
-      { leading: true, trailing: true }
-    );
-    this.watcher.onDidCreate(onChange);
-    this.watcher.onDidDelete(onChange);
-    this.watcher.onDidChange(onChange);
-  }
+    this.folderWatcher_.onDidDelete((uri) => this.onFileEvent(uri, "deleted"));
 
-  private tasks_: TaskPath[] = [];
-  private watcher: FileSystemWatcher;
-  private context: ExtensionContext;
+    // Index folders as they are added to the workspace
+    this.workspaceFoldersListener_ = workspace.onDidChangeWorkspaceFolders(
+      () => {
+        void this.refresh();
+      }
+    );
 
-  public async refresh() {
-    const workspace = activeWorkspacePath();
+    // Remove the task caches written by previous versions
+    for (const key of ["taskFileCache2", "taskFileCache3"]) {
+      void context.workspaceState.update(key, undefined);
+    }
+  }
 
-    try {
-      const tasks = await inspectTaskData(this.context, workspace);
-      this.setTasks(tasks);
-    } catch (err: unknown) {
-      console.log("Unable to read inspect task data.");
-      console.error(err);
+  private context_: ExtensionContext;
+  private watcher_: FileSystemWatcher;
+  private folderWatcher_: FileSystemWatcher;
+  private workspaceFoldersListener_: Disposable;
+  private folders_ = new Map<string, FolderTasks>();
+  private pending_ = new Map<string, "changed" | "deleted">();
+  private queue_: Promise<void> = Promise.resolve();
+
+  /**
+   * Loads the index saved by the previous session.
+   */
+  public async restore() {
+    const indexUri = this.indexUri();
+    if (!indexUri) {
+      return;
     }
+    await this.enqueue(async () => {
+      try {
+        const data = JSON.parse(
+          new TextDecoder().decode(await workspace.fs.readFile(indexUri))
+        ) as { folders?: Record<string, unknown> };
+        this.syncFolders(data.folders || {});
+        this.onTasksChanged_.fire({ tasks: this.getTasks() });
+      } catch {
+        // No saved index
+      }
+    });
   }
 
-  public setTasks(tasks?: TaskPath[]) {
-    if (tasks) {
-      this.tasks_ = tasks;
+  /**
+   * Updates the index for any files that changed since they were indexed
+   * (or re-reads every file if `force` is true).
+   */
+  public async refresh(force = false) {
+    await this.enqueue(async () => {
+      const foldersChanged = this.syncFolders();
+      for (const folderTasks of this.folders_.values()) {
+        await this.refreshFolder(folderTasks, force);
+      }
+      if (foldersChanged) {
+        this.onTasksChanged_.fire({ tasks: this.getTasks() });
+        await this.save();
+      }
+    });
+  }
+
+  public getTasks(): TaskPath[] {
+    const folders = Array.from(this.folders_.values());
+    if (folders.length > 1) {
+      // Group the tasks by workspace folder
+      return folders
+        .filter((folderTasks) => folderTasks.tree.roots().length > 0)
+        .map((folderTasks) => folderTasks.node)
+        .filter((node) => node !== undefined);
     } else {
-      this.tasks_ = [];
+      return folders[0]?.tree.roots() || [];
     }
-    this.onTasksChanged_.fire({ tasks: this.tasks_ });
   }
 
-  public getTasks() {
-    return this.tasks_;
+  // The tasks in each file (with absolute file paths)
+  public getTaskDescriptors(): TaskDescriptor[] {
+    return Array.from(this.folders_.values()).flatMap((folderTasks) =>
+      folderTasks.index.descriptors().map((descriptor) => ({
+        ...descriptor,
+        file: join(folderTasks.folder.uri.fsPath, descriptor.file),
+      }))
+    );
   }
 
-  private readonly onTasksChanged_ = new EventEmitter<TasksChangedEvent>();
-  public readonly onTasksChanged: Event<TasksChangedEvent> =
-    this.onTasksChanged_.event;
-}
+  private async refreshFolder(folderTasks: FolderTasks, force: boolean) {
+    const workspacePath = toAbsolutePath(folderTasks.folder.uri.fsPath);
+    const index = folderTasks.index;
+    try {
+      const start = Date.now();
+      const files = (
+        await workspace.findFiles(
+          new RelativePattern(folderTasks.folder, kTaskFilePattern),
+          kTaskExcludeGlob
+        )
+      ).filter((file) => isTaskFile(relative(workspacePath.path, file.fsPath)));
+      startup.info(
+        `Checking ${files.length} files for tasks in ${folderTasks.folder.name}`
+      );
+
+      // Remove files that no longer exist
+      const changes: TaskIndexChange[] = [];
+      const found = new Set(
+        files.map((file) => relative(workspacePath.path, file.fsPath))
+      );
+      for (const file of index.files()) {
+        if (!found.has(file)) {
+          changes.push(index.remove(file));
+        }
+      }
 
-interface TaskDescriptor {
-  file: string;
-  name: string;
-}
+      // Re-read files that changed since they were indexed (statting the
+      // files in batches)
+      const stale: Array<{ file: Uri; mtime: number }> = [];
+      for (let i = 0; i < files.length; i += kStatBatchSize) {
+        const batch = await Promise.all(
+          files.slice(i, i + kStatBatchSize).map(async (file) => {
+            const stat = await workspace.fs.stat(file);
+            const entry = index.entry(
+              relative(workspacePath.path, file.fsPath)
+            );
+            return force || entry?.mtime !== stat.mtime
+              ? { file, mtime: stat.mtime }
+              : undefined;
+          })
+        );
+        stale.push(...batch.filter((file) => file !== undefined));
+      }
+      changes.push(...(await this.indexFiles(folderTasks, stale)));
 
-// Regexes to identify tasks
-const kTaskRegex = /@task/;
-const kTaskNameRegex =
-  /^[ \t]*@task(?:\([^)]*\))?[ \t]*\r?\n[ \t]*def\s+([A-Za-z_]\w*)\s*\(/gm;
-const kExcludeGlob =
-  "**/{.venv,venv,__pycache__,.git,node_modules,env,envs,conda-env,.tox,.pytest_cache,.mypy_cache,.idea,.vscode,build,dist,.eggs,*.egg-info,.ipynb_checkpoints}/**";
+      startup.info(
+        `Indexed ${stale.length} files for tasks in ${Date.now() - start}ms`
+      );
+      await this.applyChanges(folderTasks, changes);
+    } catch (err: unknown) {
+      console.log("Unable to read inspect task data.");
+      console.error(err);
+    }
+  }
 
-interface TaskCache {
-  [filePath: string]: { updated: number; descriptors: TaskDescriptor[] };
-}
+  private onFileEvent(uri: Uri, kind: "changed" | "deleted") {
+    this.pending_.set(uri.fsPath, kind);
+    this.processPending();
+  }
+
+  // Index the files which changed (in batches)
+  private processPending = debounce(
+    () => {
+      const pending = Array.from(this.pending_.entries());
+      this.pending_.clear();
+      void this.enqueue(async () => {
+        try {
+          // Group the changes by workspace folder
+          const folderChanges = new Map<
+            FolderTasks,
+            Array<[string, "changed" | "deleted"]>
+          >();
+          for (const [path, kind] of pending) {
+            const folderTasks = this.folderTasks(Uri.file(path));
+            if (folderTasks) {
+              folderChanges.set(folderTasks, [
+                ...(folderChanges.get(folderTasks) || []),
+                [path, kind],
+              ]);
+            }
+          }
 
-async function workspaceTasks(
-  context: ExtensionContext,
-  workspacePath: AbsolutePath
-): Promise<TaskDescriptor[]> {
-  const start = Date.now();
-  const files = await workspace.findFiles("**/*.py", kExcludeGlob);
-
-  // Filter files with skip prefixed
-  const validFiles = files.filter((file) => {
-    const relativePath = relative(workspacePath.path, file.fsPath);
-    return !relativePath.startsWith("_") && !relativePath.startsWith(".");
-  });
-
-  // Load the cache
-  const taskFileCache = context.workspaceState.get<TaskCache>(
-    "taskFileCache2",
-    {}
+          for (const [folderTasks, events] of folderChanges) {
+            const workspacePath = folderTasks.folder.uri.fsPath;
+            const changes: TaskIndexChange[] = [];
+            const changed: Array<{ file: Uri; mtime: number }> = [];
+            for (const [path, kind] of events) {
+              const file = relative(workspacePath, path);
+              if (kind === "deleted") {
+                changes.push(folderTasks.index.remove(file));
+              } else if (isTaskFile(file)) {
+                try {
+                  const uri = Uri.file(path);
+                  const stat = await workspace.fs.stat(uri);
+                  changed.push({ file: uri, mtime: stat.mtime });
+                } catch {
+                  changes.push(folderTasks.index.remove(file));
+                }
+              }
+            }
+            changes.push(...(await this.indexFiles(folderTasks, changed)));
+            await this.applyChanges(folderTasks, changes);
+          }
+        } catch (err: unknown) {
+          console.log("Unable to update inspect task data.");
+          console.error(err);
+        }
+      });
+    },
+    500,
+    { leading: false, trailing: true }
   );
 
-  const tasks: TaskDescriptor[] = [];
+  // Reads the tasks in files and updates the index
+  private async indexFiles(
+    folderTasks: FolderTasks,
+    files: Array<{ file: Uri; mtime: number }>
+  ): Promise<TaskIndexChange[]> {
+    const workspacePath = toAbsolutePath(folderTasks.folder.uri.fsPath);
+    const changes: TaskIndexChange[] = [];
+    for (let i = 0; i < files.length; i += kListTasksChunkSize) {
+      const chunk = files.slice(i, i + kListTasksChunkSize);
+      const tasks = await readFileTasks(
+        workspacePath,
+        chunk.map((file) => file.file)
+      );
+      for (const { file, mtime } of chunk) {
+        const relativePath = relative(workspacePath.path, file.fsPath);
+        changes.push(
+          folderTasks.index.update(relativePath, {
+            mtime,
+            tasks: tasks.get(relativePath) || [],
+          })
+        );
+      }
+    }
+    return changes;
+  }
 
-  // Try to cached file data, if possible
-  const fileStatPromises = validFiles.map(async (file) => {
-    const filePath = file.toString();
-    const stat = await workspace.fs.stat(file);
-    const cached = taskFileCache[filePath];
+  // Updates the affected tree nodes, notifies listeners, and saves the index
+  private async applyChanges(
+    folderTasks: FolderTasks,
+    changes: TaskIndexChange[]
+  ) {
+    const added = changes.flatMap((change) => change.added);
+    const removed = changes.flatMap((change) => change.removed);
+    if (added.length === 0 && removed.length === 0) {
+      await this.save();
+      return;
+    }
 
-    if (cached && cached.updated === stat.mtime) {
-      tasks.push(...cached.descriptors);
-      return null;
-    } else {
-      return { file, filePath, stat };
+    // Update the nodes for the files whose tasks changed
+    const tree = folderTasks.tree;
+    const wasEmpty = tree.roots().length === 0;
+    const files = new Set(
+      [...added, ...removed].map((descriptor) => descriptor.file)
+    );
+    const changed = new Set<TaskPath | undefined>();
+    for (const file of files) {
+      const node = tree.setFileTasks(
+        file,
+        folderTasks.index.entry(file)?.tasks || []
+      );
+      if (node !== null) {
+        changed.add(node);
+      }
     }
-  });
 
-  startup.info(`Filtering ${validFiles.length} files (using cache)`);
+    // Folders without tasks aren't shown
+    if (folderTasks.node && wasEmpty !== (tree.roots().length === 0)) {
+      changed.add(undefined);
+    }
 
-  // Resolve file stats and filter out cached results
-  const filesToProcess = (await Promise.all(fileStatPromises)).filter(
-    (file) => file !== null
-  ) as { file: Uri; filePath: string; stat: FileStat }[];
+    this.onTasksChanged_.fire({
+      tasks: this.getTasks(),
+      added,
+      removed,
+      changed: changed.has(undefined)
+        ? undefined
+        : Array.from(changed).filter((node) => node !== undefined),
+    });
+    await this.save();
+  }
 
-  startup.info(`Inspecting ${filesToProcess.length} files for tasks`);
+  // Tracks the current workspace folders (using saved indexes for folders
+  // which are added if available), returning true if the folders changed
+  private syncFolders(saved?: Record<string, unknown>) {
+    const folders = workspaceFolderList();
+    const keys = folders.map((folder) => folder.uri.toString());
+    const grouped = folders.length > 1;
+    let changed = false;
+    for (const key of Array.from(this.folders_.keys())) {
+      if (!keys.includes(key)) {
+        this.folders_.delete(key);
+        changed = true;
+      }
+    }
+    for (const folder of folders) {
+      const key = folder.uri.toString();
+      const existing = this.folders_.get(key);
+      if (!existing || saved || grouped !== !!existing.node) {
+        const index = saved
+          ? TaskIndex.fromData(saved[key])
+          : existing?.index || new TaskIndex();
+        this.folders_.set(key, folderTasks(folder, index, grouped));
+        changed = true;
+      }
+    }
+    return changed;
+  }
 
-  // Read files and process tasks concurrently
-  const fileTasksPromises = filesToProcess.map(
-    async ({ file, filePath, stat }) => {
-      const fileData = await workspace.fs.readFile(file);
-      const fileContent = new TextDecoder().decode(fileData);
+  private folderTasks(uri: Uri) {
+    const folder = workspace.getWorkspaceFolder(uri);
+    return folder ? this.folders_.get(folder.uri.toString()) : undefined;
+  }
 
-      const fileTasks: TaskDescriptor[] = [];
-      const taskFile = relative(workspacePath.path, file.fsPath);
-      if (kTaskRegex.test(fileContent)) {
-        for (const match of fileContent.matchAll(kTaskNameRegex)) {
-          if (match[1]) {
-            fileTasks.push({ file: taskFile, name: match[1] });
-          }
-        }
+  private async save() {
+    const indexUri = this.indexUri();
+    if (indexUri && this.context_.storageUri) {
+      try {
+        const folders = Object.fromEntries(
+          Array.from(this.folders_.entries()).map(([key, folderTasks]) => [
+            key,
+            folderTasks.index.toData(),
+          ])
+        );
+        await workspace.fs.createDirectory(this.context_.storageUri);
+        await workspace.fs.writeFile(
+          indexUri,
+          new TextEncoder().encode(JSON.stringify({ folders }))
+        );
+      } catch (err: unknown) {
+        console.log("Unable to save inspect task index.");
+        console.error(err);
       }
-
-      // Update cache in memory
-      taskFileCache[filePath] = { updated: stat.mtime, descriptors: fileTasks };
-      return fileTasks;
     }
-  );
+  }
 
-  // Await all task collection and add to the tasks array
-  const newTasks = (await Promise.all(fileTasksPromises)).flat();
-  tasks.push(...newTasks);
+  private indexUri() {
+    return this.context_.storageUri
+      ? Uri.joinPath(this.context_.storageUri, kTaskIndexFile)
+      : undefined;
+  }
 
-  startup.info(`Found ${tasks.length} tasks in ${Date.now() - start}ms`);
+  // Run index updates one at a time
+  private enqueue(fn: () => Promise<void>) {
+    this.queue_ = this.queue_.then(fn);
+    return this.queue_;
+  }
 
-  // Batch update the cache once at the end
-  await context.workspaceState.update("taskFileCache2", taskFileCache);
+  dispose() {
+    this.processPending.cancel();
+    this.watcher_.dispose();
+    this.folderWatcher_.dispose();
+    this.workspaceFoldersListener_.dispose();
+    this.onTasksChanged_.dispose();
+  }
 
-  return tasks;
+  private readonly onTasksChanged_ = new EventEmitter<TasksChangedEvent>();
+  public readonly onTasksChanged: Event<TasksChangedEvent> =
+    this.onTasksChanged_.event;
 }
 
-async function inspectTaskData(
-  context: ExtensionContext,
-  folder: AbsolutePath
-) {
-  // Read the list of tasks
-  const taskDescriptors = await workspaceTasks(context, folder);
-
-  // Keep a map so we can quickly look up parents
-  const treeMap: Map<string, TaskPath> = new Map();
-
-  // Got through the task descriptors and
-  taskDescriptors.forEach((descriptor) => {
-    // track the parent node as we make children
-    let parentNode: TaskPath | undefined;
-
-    // Split the file into parts so we can make subfolder
-    // items in the tree
-    const parts = descriptor.file.split(path.sep);
-    let currentPath = folder.path;
-    parts.forEach((part, idx) => {
-      currentPath = join(currentPath, part);
-      const isFolder = idx !== parts.length - 1; // Last part is the file
-      // Make sure this path is in the map of nodes (as a folder or file)
-      if (!treeMap.has(currentPath)) {
-        const node: TaskPath = {
-          name: part,
-          path: currentPath,
-          type: isFolder ? "folder" : "file",
-          children: [],
-          parent: parentNode,
-        };
-        treeMap.set(currentPath, node);
-
-        // If we're in a child node, make sure to add the parent
-        if (parentNode) {
-          parentNode.children!.push(node);
+// Builds the task tree for a workspace folder from its index
+function folderTasks(
+  folder: WorkspaceFolder,
+  index: TaskIndex,
+  grouped: boolean
+): FolderTasks {
+  const node: TaskPath | undefined = grouped
+    ? { name: folder.name, path: folder.uri.fsPath, type: "folder" }
+    : undefined;
+  const tree = new TaskTree(folder.uri.fsPath, node);
+  for (const file of index.files()) {
+    const tasks = index.entry(file)?.tasks || [];
+    if (tasks.length > 0) {
+      tree.setFileTasks(file, tasks);
+    }
+  }
+  return { folder, index, tree, node };
+}
+
+// Regexes to identify tasks (the decorator, any other decorators, and the function)
+const kTaskRegex = /@task/;
+const kTaskNameRegex =
+  /^[ \t]*(@task(?:\([^)]*\))?)[ \t]*\r?\n(?:[ \t]*@.*\r?\n)*[ \t]*def\s+([A-Za-z_]\w*)\s*\(/gm;
+
+// Reads the tasks in files using Inspect (so that the task names match the
+// names that Inspect will accept), falling back to scanning the files
+async function readFileTasks(
+  workspacePath: AbsolutePath,
+  files: Uri[]
+): Promise<Map<string, string[]>> {
+  const tasks = new Map<string, string[]>();
+  const relativePaths = files.map((file) =>
+    relative(workspacePath.path, file.fsPath)
+  );
+
+  if (inspectBinPath()) {
+    try {
+      const inspectTasks = await inspectListTasks(workspacePath, relativePaths);
+      if (inspectTasks) {
+        for (const task of inspectTasks) {
+          const file = isAbsolute(task.file)
+            ? relative(workspacePath.path, task.file)
+            : normalize(task.file);
+          tasks.set(file, [...(tasks.get(file) || []), task.name]);
         }
+        return tasks;
       }
-      parentNode = treeMap.get(currentPath)!;
-    });
-
-    // Add the task as a child to the file node
-    parentNode!.children!.push({
-      name: descriptor.name,
-      path: currentPath,
-      type: "task",
-      parent: parentNode,
-    });
-  });
+    } catch (err: unknown) {
+      startup.warn(
+        `Unable to list tasks using Inspect, scanning task files instead (${err instanceof Error ? err.message : String(err)})`
+      );
+    }
+  }
 
-  // Return the root tree nodes
-  const vals = Array.from(treeMap.values()).filter((entry) => {
-    return entry.parent === undefined;
-  });
+  for (const [idx, file] of files.entries()) {
+    try {
+      const content = new TextDecoder().decode(
+        await workspace.fs.readFile(file)
+      );
+      const source = file.fsPath.endsWith(".ipynb")
+        ? notebookSource(content)
+        : content;
+      if (kTaskRegex.test(source)) {
+        tasks.set(relativePaths[idx] ?? "", scanTaskNames(source));
+      }
+    } catch {
+      // The file couldn't be read (it may have been deleted)
+    }
+  }
+  return tasks;
+}
 
-  // TODO: Sort Children, etc.
-  return vals.sort((a, b) => {
-    if (a.path === b.path) {
-      return a.name.localeCompare(b.name);
-    } else {
-      return a.path.localeCompare(b.path);
+/**
+ * Finds the names of the tasks in python source code (using the name given
+ * by `@task(name="...")` for renamed tasks).
+ */
+export function scanTaskNames(source: string): string[] {
+  const names: string[] = [];
+  for (const match of source.matchAll(kTaskNameRegex)) {
+    const name = taskDecoratorName(match[1] ?? "") ?? match[2];
+    if (name) {
+      names.push(name);
     }
-  });
+  }
+  return names;
+}
+
+// The source code of the code cells in a notebook
+function notebookSource(content: string) {
+  const notebook = JSON.parse(content) as {
+    cells?: Array<{ cell_type?: string; source?: string | string[] }>;
+  };
+  return (notebook.cells || [])
+    .filter((cell) => cell.cell_type === "code")
+    .map((cell) =>
+      Array.isArray(cell.source) ? cell.source.join("") : cell.source || ""
+    )
+    .join("\n");
 }
 
 export function deactivate() {}
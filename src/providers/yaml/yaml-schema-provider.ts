@@ -16,6 +16,7 @@ const SCANNERS_PATTERN = /^scanners:\s/m;
 const SCHEMA_ID = "scout-yaml-schemas";
 const PROJECT_SCHEMA_URI = `${SCHEMA_ID}:///project`;
 const SCANJOB_SCHEMA_URI = `${SCHEMA_ID}:///scanjob`;
+const TASKS_SCHEMA_URI = `${SCHEMA_ID}:///tasks`;
 
 interface YamlExtensionApi {
   registerContributor(
@@ -26,12 +27,14 @@ interface YamlExtensionApi {
 }
 
 /**
- * Activates YAML schema support for Scout configuration files.
+ * Activates YAML schema support for Scout and Inspect configuration files.
  *
  * Provides:
  * - Schema validation and completion for scout.yaml (project config)
  * - Schema validation and completion for scan job config files
  *   (detected via magic comment or presence of transcripts+scanners fields)
+ * - Schema validation and completion for .inspect/tasks.yaml (Inspect task
+ *   configurations)
  */
 export async function activateYamlSchemaProvider(
   context: ExtensionContext
@@ -69,6 +72,10 @@ export async function activateYamlSchemaProvider(
         join(schemasDir, "scanjob.schema.json"),
         "utf-8"
       );
+      schemas.tasks = readFileSync(
+        join(schemasDir, "tasks.schema.json"),
+        "utf-8"
+      );
     } catch (error) {
       log.error(`Failed to load YAML schemas: ${String(error)}`);
       return undefined;
@@ -97,6 +104,14 @@ export async function activateYamlSchemaProvider(
           return PROJECT_SCHEMA_URI;
         }
 
+        // Check for .inspect/tasks.yaml (task configurations)
+        if (
+          (fileName === "tasks.yaml" || fileName === "tasks.yml") &&
+          uri.path.split("/").at(-2) === ".inspect"
+        ) {
+          return TASKS_SCHEMA_URI;
+        }
+
         // Check for scan job config files
         if (fileName.endsWith(".yaml") || fileName.endsWith(".yml")) {
           if (isScanJobConfig(uri, contentCache, CACHE_TTL_MS)) {
@@ -139,6 +154,8 @@ export async function activateYamlSchemaProvider(
               `YAML schema: returning scanjob schema (${schemas.scanjob?.length ?? 0} bytes)`
             );
             return schemas.scanjob;
+          case "/tasks":
+            return schemas.tasks;
           default:
             log.info(`YAML schema: unknown path ${uri.path}`);
             return undefined;
@@ -156,7 +173,9 @@ export async function activateYamlSchemaProvider(
       onRequestSchemaContent
     );
 
-    log.info("Registered YAML schema contributor for Scout configs");
+    log.info(
+      "Registered YAML schema contributor for Scout and Inspect configs"
+    );
 
     // Return a disposable that clears the cache
     return {
@@ -11,6 +11,7 @@ import {
 } from "vscode";
 
 import { InspectCodeLensProvider } from "../../providers/codelens/codelens-provider";
+import { WorkspaceStateManager } from "../../providers/workspace/workspace-state-provider";
 
 class MockTextLine implements TextLine {
   constructor(
@@ -189,6 +190,21 @@ def second_task():
     assert.strictEqual(lenses.length, 4, "Should return lenses for both tasks");
   });
 
+  test("should use the name given by the task decorator", () => {
+    const document = createDocument(`
+from inspect_ai import task
+
+@task(name="renamed")
+def my_task():
+    pass`);
+
+    const lenses = provider.provideCodeLenses(document, cancellationToken);
+    assert.deepStrictEqual(
+      lenses.map((lens) => lens.command?.arguments?.[1] as string),
+      ["renamed", "renamed"]
+    );
+  });
+
   test("should not return code lenses for non-inspect task decorator", () => {
     const document = createDocument(`
 from pytask import task
@@ -274,4 +290,47 @@ def my_task():
       "Should return lenses for task decorator without import"
     );
   });
+
+  test("should return run and debug lenses for each preset", () => {
+    const stateManager = {
+      getTaskPresets: () => ({ presets: { smoke: {}, full: {} } }),
+      onTaskPresetsChanged: () => ({ dispose: () => {} }),
+      onTaskStateChanged: () => ({ dispose: () => {} }),
+    } as unknown as WorkspaceStateManager;
+    const presetProvider = new InspectCodeLensProvider(stateManager);
+    const document = createDocument(`
+from inspect_ai import task
+
+@task
+def my_task():
+    pass`);
+
+    const lenses = presetProvider.provideCodeLenses(
+      document,
+      cancellationToken
+    );
+    assert.deepStrictEqual(
+      lenses.map((lens) => [
+        lens.command?.title,
+        lens.command?.arguments?.[2] as string | undefined,
+      ]),
+      [
+        ["$(debug-alt) Debug Task", undefined],
+        ["$(play) Run Task", undefined],
+        ["$(debug-alt) Debug (full)", "full"],
+        ["$(play) Run (full)", "full"],
+        ["$(debug-alt) Debug (smoke)", "smoke"],
+        ["$(play) Run (smoke)", "smoke"],
+      ]
+    );
+    assert.deepStrictEqual(
+      lenses.map((lens) => lens.command?.command).slice(2),
+      [
+        "inspect.debugTask",
+        "inspect.runTask",
+        "inspect.debugTask",
+        "inspect.runTask",
+      ]
+    );
+  });
 });
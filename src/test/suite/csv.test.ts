@@ -0,0 +1,35 @@
+/**
+ * Tests for csv.ts - formatting rows as CSV
+ */
+import * as assert from "assert";
+
+import { csvValue, toCsv } from "../../core/csv";
+
+suite("CSV Test Suite", () => {
+  test("should quote values with separators, quotes and line breaks", () => {
+    assert.strictEqual(csvValue("plain"), "plain");
+    assert.strictEqual(csvValue("a,b"), '"a,b"');
+    assert.strictEqual(csvValue('say "hi"'), '"say ""hi"""');
+    assert.strictEqual(csvValue("two\nlines"), '"two\nlines"');
+  });
+
+  test("should format numbers, booleans and missing values", () => {
+    assert.strictEqual(csvValue(0.5), "0.5");
+    assert.strictEqual(csvValue(false), "false");
+    assert.strictEqual(csvValue(undefined), "");
+    assert.strictEqual(csvValue(null), "");
+  });
+
+  test("should format rows with a header", () => {
+    assert.strictEqual(
+      toCsv(
+        ["task", "value"],
+        [
+          ["math", 1],
+          ["arc", undefined],
+        ]
+      ),
+      "task,value\nmath,1\narc,\n"
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for eval-log-reader.ts - reading .eval logs without the view server
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+
+import {
+  listEvalLogFiles,
+  localEvalLogPath,
+  logFileTask,
+  readEvalLogErrorSamples,
+  readEvalLogHeader,
+  readEvalLogSample,
+  readEvalLogSampleSummaries,
+  readLocalEvalLogHeaders,
+} from "../../inspect/eval-log-reader";
+
+import { bufferZipSource, buildZip } from "./zip-builder";
+
+const kEval = { task: "math", model: "openai/gpt-4o" };
+
+const kCompletedLog = buildZip([
+  { name: "_journal/start.json", content: JSON.stringify({ eval: kEval }) },
+  {
+    name: "samples/1_epoch_1.json",
+    content: JSON.stringify({ id: 1, epoch: 1 }),
+    deflate: true,
+  },
+  {
+    name: "header.json",
+    content: JSON.stringify({ version: 2, status: "success", eval: kEval }),
+    deflate: true,
+  },
+]);
+
+const kRunningLog = buildZip([
+  {
+    name: "_journal/start.json",
+    content: JSON.stringify({ version: 2, eval: kEval }),
+  },
+]);
+
+suite("Eval Log Reader Test Suite", () => {
+  test("should read the header of a log", async () => {
+    const header = await readEvalLogHeader(bufferZipSource(kCompletedLog));
+    assert.strictEqual(header.status, "success");
+    assert.strictEqual(header.eval.task, "math");
+  });
+
+  test("should read the header of a running eval from its journal", async () => {
+    const header = await readEvalLogHeader(bufferZipSource(kRunningLog));
+    assert.strictEqual(header.status, "started");
+    assert.strictEqual(header.version, 2);
+    assert.strictEqual(header.eval.model, "openai/gpt-4o");
+  });
+
+  test("should read samples", async () => {
+    const source = bufferZipSource(kCompletedLog);
+    assert.deepStrictEqual(await readEvalLogSample(source, 1, 1), {
+      id: 1,
+      epoch: 1,
+    });
+    assert.strictEqual(await readEvalLogSample(source, 2, 1), undefined);
+  });
+
+  test("should read samples with errors", async () => {
+    const error = { message: "error", traceback: "", traceback_ansi: "" };
+    const log = buildZip([
+      {
+        name: "_journal/summaries/1.json",
+        content: JSON.stringify([
+          { id: 1, epoch: 1 },
+          { id: 2, epoch: 1, error: "error" },
+        ]),
+      },
+      {
+        name: "_journal/summaries/2.json",
+        content: JSON.stringify([{ id: 3, epoch: 1, error: "error" }]),
+      },
+      ...[1, 2, 3].map((id) => ({
+        name: `samples/${id}_epoch_1.json`,
+        content: JSON.stringify({ id, epoch: 1, error: id > 1 ? error : null }),
+      })),
+    ]);
+    const samples = await readEvalLogErrorSamples(bufferZipSource(log), 10);
+    assert.deepStrictEqual(
+      samples.map((sample) => sample.id),
+      [2, 3]
+    );
+    assert.strictEqual(
+      (await readEvalLogErrorSamples(bufferZipSource(log), 1)).length,
+      1
+    );
+  });
+
+  test("should read the summaries of samples written to a running eval's log", async () => {
+    const log = buildZip([
+      { name: "_journal/start.json", content: JSON.stringify({ eval: kEval }) },
+      {
+        name: "_journal/summaries/1.json",
+        content: JSON.stringify([
+          { id: 1, epoch: 1 },
+          { id: 2, epoch: 1 },
+        ]),
+      },
+      {
+        name: "_journal/summaries/2.json",
+        content: JSON.stringify([{ id: 3, epoch: 1 }]),
+      },
+    ]);
+    const summaries = await readEvalLogSampleSummaries(bufferZipSource(log));
+    assert.deepStrictEqual(
+      summaries.map((summary) => summary.id),
+      [1, 2, 3]
+    );
+    assert.deepStrictEqual(
+      await readEvalLogSampleSummaries(bufferZipSource(kRunningLog)),
+      []
+    );
+  });
+
+  test("should only read local .eval logs", () => {
+    const file = path.join(os.tmpdir(), "log.eval");
+    assert.strictEqual(localEvalLogPath(file), file);
+    assert.strictEqual(localEvalLogPath(pathToFileURL(file).toString()), file);
+    assert.strictEqual(localEvalLogPath("s3://bucket/log.eval"), undefined);
+    assert.strictEqual(
+      localEvalLogPath(path.join(os.tmpdir(), "log.json")),
+      undefined
+    );
+    assert.strictEqual(localEvalLogPath("logs/log.eval"), undefined);
+  });
+
+  test("should read task names from log file names", () => {
+    assert.deepStrictEqual(
+      logFileTask("2025-01-01T12-00-00+00-00_math-word_K8sWc5ke3Zn4.eval"),
+      { task: "math-word", task_id: "K8sWc5ke3Zn4" }
+    );
+    assert.deepStrictEqual(logFileTask("logs.json"), { task: "", task_id: "" });
+  });
+
+  suite("local logs", () => {
+    let dir: string;
+    setup(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "eval-log-reader-test-"));
+    });
+    teardown(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("should list log files in subdirectories", async () => {
+      fs.mkdirSync(path.join(dir, "set"));
+      fs.mkdirSync(path.join(dir, ".hidden"));
+      const log = "2025-01-01T12-00-00+00-00_math_abc.eval";
+      fs.writeFileSync(path.join(dir, "set", log), kCompletedLog);
+      fs.writeFileSync(path.join(dir, ".hidden", log), kCompletedLog);
+      fs.writeFileSync(path.join(dir, "listing.json"), "{}");
+
+      const files = await listEvalLogFiles(dir);
+      assert.deepStrictEqual(
+        files.map((file) => [file.path, file.task, file.task_id]),
+        [[path.join(dir, "set", log), "math", "abc"]]
+      );
+      assert.ok(files[0]!.mtime > 0);
+    });
+
+    test("should read headers of local logs (leaving others for the server)", async () => {
+      const log = path.join(dir, "log.eval");
+      fs.writeFileSync(log, kCompletedLog);
+      const corrupt = path.join(dir, "corrupt.eval");
+      fs.writeFileSync(corrupt, "not a zip file");
+
+      const headers = await readLocalEvalLogHeaders([
+        pathToFileURL(log).toString(),
+        corrupt,
+        "s3://bucket/log.eval",
+      ]);
+      assert.strictEqual(headers[0]?.status, "success");
+      assert.strictEqual(headers[1], undefined);
+      assert.strictEqual(headers[2], undefined);
+    });
+  });
+});
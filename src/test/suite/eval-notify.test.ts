@@ -0,0 +1,113 @@
+/**
+ * Tests for eval-notify.ts - eval complete notification messages
+ */
+import * as assert from "assert";
+
+import type { EvalLog } from "../../@types/log";
+import {
+  evalCompleteMessage,
+  evalsCompleteMessage,
+} from "../../inspect/eval-notify";
+
+function evalLog(log: object): EvalLog {
+  return {
+    version: 2,
+    status: "success",
+    eval: { task: "math", dataset: { samples: 10 } },
+    ...log,
+  } as unknown as EvalLog;
+}
+
+const kSuccess = evalLog({
+  results: {
+    total_samples: 10,
+    completed_samples: 10,
+    scores: [
+      {
+        name: "match",
+        metrics: { accuracy: { value: 0.8512 }, stderr: { value: 0.1 } },
+      },
+    ],
+  },
+});
+
+const kError = evalLog({
+  status: "error",
+  results: { total_samples: 10, completed_samples: 4, scores: [] },
+  error: {
+    message: "RuntimeError: model failed\nwith details",
+    traceback: "Traceback (most recent call last):\n",
+  },
+});
+
+suite("Eval Notify Test Suite", () => {
+  test("should show the metrics and samples of completed evals", () => {
+    assert.strictEqual(
+      evalCompleteMessage("task", kSuccess),
+      "Eval complete: math - accuracy 0.851 (10/10 samples)"
+    );
+  });
+
+  test("should show the first metric of each scorer", () => {
+    const log = evalLog({
+      results: {
+        total_samples: 10,
+        completed_samples: 10,
+        scores: [
+          { name: "match", metrics: { accuracy: { value: 0.5 } } },
+          { name: "judge", metrics: { mean: { value: 3 } } },
+        ],
+      },
+    });
+    assert.strictEqual(
+      evalCompleteMessage("task", log),
+      "Eval complete: math - match/accuracy 0.5, judge/mean 3 (10/10 samples)"
+    );
+  });
+
+  test("should show the error of failed evals", () => {
+    assert.strictEqual(
+      evalCompleteMessage("task", kError),
+      "Eval failed: math (4/10 samples) - RuntimeError: model failed"
+    );
+  });
+
+  test("should show cancelled evals", () => {
+    assert.strictEqual(
+      evalCompleteMessage(
+        "task",
+        evalLog({
+          status: "cancelled",
+          results: { total_samples: 10, completed_samples: 2, scores: [] },
+        })
+      ),
+      "Eval cancelled: math (2/10 samples)"
+    );
+  });
+
+  test("should fall back to the task name without a header", () => {
+    assert.strictEqual(
+      evalCompleteMessage("math", undefined),
+      "Eval complete: math"
+    );
+  });
+
+  test("should summarize evals which complete together", () => {
+    assert.strictEqual(
+      evalsCompleteMessage([kSuccess, kError, kSuccess]),
+      "3 evals complete: 2 succeeded, 1 failed"
+    );
+  });
+
+  test("should count unreadable and unfinished logs as unknown", () => {
+    assert.strictEqual(
+      evalsCompleteMessage([
+        kSuccess,
+        undefined,
+        evalLog({ status: "started" }),
+        evalLog({ status: "cancelled" }),
+      ]),
+      "4 evals complete: 1 succeeded, 1 cancelled, 2 unknown"
+    );
+  });
+});
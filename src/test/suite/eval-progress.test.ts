@@ -0,0 +1,133 @@
+/**
+ * Tests for eval-progress.ts - the progress of running evals
+ */
+import * as assert from "assert";
+
+import type { EvalLog } from "../../@types/log";
+import {
+  evalProgress,
+  formatEvalProgress,
+  summarizeEvalProgress,
+} from "../../inspect/eval-progress";
+
+const kLog = {
+  version: 2,
+  status: "started",
+  eval: {
+    task: "math",
+    model: "openai/gpt-4o",
+    created: "2025-01-01T00:00:00+00:00",
+    dataset: { name: "gsm8k", samples: 100, sample_ids: [1, 2, 3, 4, 5] },
+    config: { epochs: 2 },
+  },
+  stats: { started_at: "2025-01-01T00:00:10+00:00", model_usage: {} },
+} as unknown as EvalLog;
+
+suite("Eval Progress Test Suite", () => {
+  test("should count completed samples and tokens", () => {
+    const progress = evalProgress("file:///logs/a.eval", kLog, {
+      samples: [
+        {
+          id: 1,
+          epoch: 1,
+          completed: true,
+          model_usage: { "openai/gpt-4o": { total_tokens: 1200 } },
+        },
+        {
+          id: 2,
+          epoch: 1,
+          completed: false,
+          model_usage: {
+            "openai/gpt-4o": { total_tokens: 300 },
+            "openai/gpt-4o-mini": { total_tokens: 50 },
+          },
+        },
+      ],
+    });
+    assert.deepStrictEqual(progress, {
+      uri: "file:///logs/a.eval",
+      task: "math",
+      model: "openai/gpt-4o",
+      started: "2025-01-01T00:00:10+00:00",
+      completed: 1,
+      total: 10,
+      tokens: 1550,
+    });
+  });
+
+  test("should count samples written to the log", () => {
+    const progress = evalProgress(
+      "file:///logs/a.eval",
+      kLog,
+      {
+        samples: [
+          // (a sample which has also been written to the log)
+          {
+            id: 2,
+            epoch: 1,
+            completed: true,
+            model_usage: { "openai/gpt-4o": { total_tokens: 500 } },
+          },
+          {
+            id: 3,
+            epoch: 1,
+            completed: false,
+            model_usage: { "openai/gpt-4o": { total_tokens: 200 } },
+          },
+        ],
+      },
+      [
+        {
+          id: 1,
+          epoch: 1,
+          model_usage: { "openai/gpt-4o": { total_tokens: 1000 } },
+        },
+        {
+          id: 2,
+          epoch: 1,
+          model_usage: { "openai/gpt-4o": { total_tokens: 500 } },
+        },
+      ]
+    );
+    assert.strictEqual(progress.completed, 2);
+    assert.strictEqual(progress.tokens, 1700);
+  });
+
+  test("should use the log header without pending samples", () => {
+    const progress = evalProgress("file:///logs/a.eval", kLog);
+    assert.strictEqual(progress.completed, 0);
+    assert.strictEqual(progress.tokens, 0);
+  });
+
+  test("should format progress", () => {
+    const progress = evalProgress("file:///logs/a.eval", kLog, {
+      samples: [
+        {
+          id: 1,
+          epoch: 1,
+          completed: true,
+          model_usage: { "openai/gpt-4o": { total_tokens: 45200 } },
+        },
+      ],
+    });
+    assert.strictEqual(
+      formatEvalProgress(progress, new Date("2025-01-01T00:03:20+00:00")),
+      "1/10 samples, 3m 10s, 45.2k tokens"
+    );
+  });
+
+  test("should summarize running evals", () => {
+    const progress = evalProgress("file:///logs/a.eval", kLog);
+    assert.strictEqual(
+      summarizeEvalProgress([
+        { ...progress, completed: 4 },
+        { ...progress, completed: 6 },
+      ]),
+      "2 evals: 10/20 samples"
+    );
+    assert.strictEqual(
+      summarizeEvalProgress([{ ...progress, total: undefined, completed: 1 }]),
+      "1 eval: 1 sample"
+    );
+  });
+});
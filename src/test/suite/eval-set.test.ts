@@ -0,0 +1,205 @@
+/**
+ * Tests for inspect-eval-set.ts - eval set argument building
+ */
+import * as assert from "assert";
+
+import { EvalLog } from "../../@types/log";
+import {
+  evalSetArgs,
+  mergeTaskArgs,
+  resumeEvalSetArgs,
+} from "../../providers/inspect/inspect-eval-set";
+
+function createLog(
+  task: string,
+  model: string,
+  taskArgs: Record<string, unknown> = {},
+  taskFile: string | null = "tasks.py"
+): EvalLog {
+  return {
+    version: 2,
+    status: "success",
+    eval: {
+      task,
+      task_file: taskFile,
+      task_registry_name: task,
+      task_args_passed: taskArgs,
+      model,
+    },
+  } as unknown as EvalLog;
+}
+
+suite("Eval Set Test Suite", () => {
+  suite("evalSetArgs", () => {
+    test("should build an eval-set invocation", () => {
+      const args = evalSetArgs(["a.py@one", "b.py@two"], ["--limit", "5"], {
+        logDir: "logs/set",
+      });
+      assert.deepStrictEqual(args, [
+        "eval-set",
+        "a.py@one",
+        "b.py@two",
+        "--log-dir",
+        "logs/set",
+        "--limit",
+        "5",
+      ]);
+    });
+
+    test("should include retry options when provided", () => {
+      const args = evalSetArgs(["a.py@one"], [], {
+        logDir: "logs/set",
+        retryAttempts: "3",
+        retryWait: "60",
+      });
+      assert.deepStrictEqual(args, [
+        "eval-set",
+        "a.py@one",
+        "--log-dir",
+        "logs/set",
+        "--retry-attempts",
+        "3",
+        "--retry-wait",
+        "60",
+      ]);
+    });
+
+    test("should use the eval set log dir over a task log dir", () => {
+      const args = evalSetArgs(
+        ["a.py@one"],
+        ["--log-dir", "logs/task", "--no-fail-on-error", "--limit", "5"],
+        { logDir: "logs/set" }
+      );
+      assert.deepStrictEqual(args, [
+        "eval-set",
+        "a.py@one",
+        "--log-dir",
+        "logs/set",
+        "--no-fail-on-error",
+        "--limit",
+        "5",
+      ]);
+    });
+  });
+
+  suite("mergeTaskArgs", () => {
+    test("should forward options shared by all tasks", () => {
+      const merged = mergeTaskArgs([
+        ["--limit", "10", "-T", "difficulty=hard"],
+        ["--limit", "10", "-T", "difficulty=hard"],
+      ]);
+      assert.deepStrictEqual(merged.args, [
+        "--limit",
+        "10",
+        "-T",
+        "difficulty=hard",
+      ]);
+      assert.deepStrictEqual(merged.conflicts, []);
+    });
+
+    test("should report options that differ between tasks", () => {
+      const merged = mergeTaskArgs([
+        ["--limit", "10", "--epochs", "2", "-T", "difficulty=hard"],
+        ["--limit", "20", "--epochs", "2"],
+      ]);
+      assert.deepStrictEqual(merged.args, ["--epochs", "2"]);
+      assert.deepStrictEqual(merged.conflicts, ["limit", "difficulty"]);
+    });
+
+    test("should merge flags without values", () => {
+      const merged = mergeTaskArgs([
+        ["--no-fail-on-error", "--limit", "10"],
+        ["--no-fail-on-error", "--limit", "10"],
+        ["--limit", "10"],
+      ]);
+      assert.deepStrictEqual(merged.args, ["--limit", "10"]);
+      assert.deepStrictEqual(merged.conflicts, ["no-fail-on-error"]);
+    });
+
+    test("should key repeated options by name", () => {
+      const merged = mergeTaskArgs([
+        ["--metadata", "owner=evals", "--metadata", "team=safety"],
+        ["--metadata", "owner=evals", "--metadata", "team=other"],
+      ]);
+      assert.deepStrictEqual(merged.args, ["--metadata", "owner=evals"]);
+      assert.deepStrictEqual(merged.conflicts, ["team"]);
+    });
+
+    test("should handle no tasks", () => {
+      assert.deepStrictEqual(mergeTaskArgs([]), { args: [], conflicts: [] });
+    });
+  });
+
+  suite("resumeEvalSetArgs", () => {
+    test("should rebuild tasks and models from log headers", () => {
+      const resume = resumeEvalSetArgs(
+        [
+          createLog("one", "openai/gpt-4o", { shuffle: true }),
+          createLog("one", "anthropic/claude", { shuffle: true }),
+          createLog("two", "openai/gpt-4o", { shuffle: true }),
+          createLog("two", "anthropic/claude", { shuffle: true }),
+        ],
+        "/logs/set"
+      );
+      assert.deepStrictEqual(resume, {
+        args: [
+          "eval-set",
+          "tasks.py@one",
+          "tasks.py@two",
+          "--log-dir",
+          "/logs/set",
+          "--model",
+          "openai/gpt-4o,anthropic/claude",
+          "-T",
+          "shuffle=true",
+        ],
+        conflicts: [],
+      });
+    });
+
+    test("should carry over the eval and generate config", () => {
+      const log = createLog("one", "openai/gpt-4o");
+      log.eval.config = {
+        limit: [10, 20],
+        epochs: 3,
+        fail_on_error: false,
+        message_limit: null,
+      } as unknown as EvalLog["eval"]["config"];
+      log.eval.model_generate_config = {
+        temperature: 0.5,
+      } as unknown as EvalLog["eval"]["model_generate_config"];
+      const resume = resumeEvalSetArgs([log], "/logs/set");
+      assert.deepStrictEqual(resume?.args.slice(6), [
+        "--limit",
+        "10,20",
+        "--epochs",
+        "3",
+        "--no-fail-on-error",
+        "--temperature",
+        "0.5",
+      ]);
+      assert.deepStrictEqual(resume?.conflicts, []);
+    });
+
+    test("should report options which differ between the logs", () => {
+      const resume = resumeEvalSetArgs(
+        [
+          createLog("one", "openai/gpt-4o", { shuffle: true }),
+          createLog("one", "anthropic/claude", { shuffle: true }),
+          createLog("two", "openai/gpt-4o", { shuffle: false }),
+        ],
+        "/logs/set"
+      );
+      assert.deepStrictEqual(resume?.conflicts, ["model", "shuffle"]);
+      assert.ok(!resume?.args.includes("-T"));
+    });
+
+    test("should return undefined when logs have no task files", () => {
+      const args = resumeEvalSetArgs(
+        [createLog("one", "openai/gpt-4o", {}, null)],
+        "/logs/set"
+      );
+      assert.strictEqual(args, undefined);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for eval-traceback.ts - reading problems from eval tracebacks
+ */
+import * as assert from "assert";
+
+import type { EvalError } from "../../@types/log";
+import {
+  errorSummary,
+  tracebackFrames,
+  tracebackProblems,
+} from "../../inspect/eval-traceback";
+
+const kTraceback = `Traceback (most recent call last):
+  File "/venv/lib/python3.12/site-packages/inspect_ai/_eval/task/run.py", line 300, in task_run
+    await solver(state, generate)
+  File "/project/tasks/math.py", line 42, in solve
+    return parse(state.output.completion)
+  File "/project/tasks/utils.py", line 7, in parse
+    raise ValueError("no answer")
+ValueError: no answer
+`;
+
+function evalError(message: string, traceback = kTraceback): EvalError {
+  return { message, traceback, traceback_ansi: traceback };
+}
+
+const isProjectFile = (file: string) => file.startsWith("/project/");
+
+suite("Eval Traceback Test Suite", () => {
+  test("should read traceback frames", () => {
+    assert.deepStrictEqual(tracebackFrames(kTraceback).slice(1), [
+      { file: "/project/tasks/math.py", line: 42, name: "solve" },
+      { file: "/project/tasks/utils.py", line: 7, name: "parse" },
+    ]);
+  });
+
+  test("should read frames of exception groups", () => {
+    const traceback = `  + Exception Group Traceback (most recent call last):
+  |   File "/project/tasks/math.py", line 10, in <module>
+  | ExceptionGroup: errors (1 sub-exception)
+  +-+---------------- 1 ----------------
+    | Traceback (most recent call last):
+    |   File "C:\\project\\tasks\\tools.py", line 3, in run
+    | ValueError: bad
+    +------------------------------------`;
+    assert.deepStrictEqual(tracebackFrames(traceback), [
+      { file: "/project/tasks/math.py", line: 10, name: "<module>" },
+      { file: "C:\\project\\tasks\\tools.py", line: 3, name: "run" },
+    ]);
+  });
+
+  test("should report the innermost included frame as the error", () => {
+    const problems = tracebackProblems(
+      [{ error: evalError("ValueError('no answer')"), failure: "eval failed" }],
+      isProjectFile
+    );
+    assert.deepStrictEqual(problems, [
+      {
+        file: "/project/tasks/math.py",
+        line: 42,
+        innermost: false,
+        message:
+          "ValueError('no answer') (raised from a call here; eval failed)",
+      },
+      {
+        file: "/project/tasks/utils.py",
+        line: 7,
+        innermost: true,
+        message: "ValueError('no answer') (eval failed)",
+      },
+    ]);
+  });
+
+  test("should combine failures with the same error", () => {
+    const failures = [1, 2, 3, 4, 5].map((id) => ({
+      error: evalError("ValueError('no answer')"),
+      failure: `sample ${id} failed`,
+    }));
+    const problems = tracebackProblems(failures, isProjectFile);
+    assert.strictEqual(problems.length, 2);
+    assert.strictEqual(
+      problems[1]?.message,
+      "ValueError('no answer') (sample 1 failed, sample 2 failed, sample 3 failed and 2 more)"
+    );
+  });
+
+  test("should ignore tracebacks without included frames", () => {
+    assert.deepStrictEqual(
+      tracebackProblems(
+        [{ error: evalError("error"), failure: "eval failed" }],
+        () => false
+      ),
+      []
+    );
+  });
+
+  test("should summarize error messages", () => {
+    assert.strictEqual(errorSummary("  first\nsecond"), "first");
+    assert.strictEqual(errorSummary("x".repeat(300)), `${"x".repeat(200)}...`);
+  });
+});
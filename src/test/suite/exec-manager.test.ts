@@ -3,10 +3,23 @@
  */
 import * as assert from "assert";
 
-import { buildRunCommand, ExecProfile } from "../../core/package/exec-manager";
+import { commands, debug, ExtensionContext, Terminal, window } from "vscode";
+
+import {
+  buildRunCommand,
+  ExecManager,
+  ExecProfile,
+} from "../../core/package/exec-manager";
 import { AbsolutePath } from "../../core/path";
 import { quoteCommandLine } from "../../core/shell-quote";
-import { DocumentState } from "../../providers/workspace/workspace-state-provider";
+import {
+  RunHistoryManager,
+  RunRecord,
+} from "../../providers/runs/run-history-provider";
+import {
+  DocumentState,
+  WorkspaceStateManager,
+} from "../../providers/workspace/workspace-state-provider";
 
 /**
  * Mock VersionDescriptor for testing
@@ -517,4 +530,193 @@ suite("ExecManager Test Suite", () => {
       assert.strictEqual(releaseVersion.isDeveloperBuild, false);
     });
   });
+
+  suite("Stopping Runs", () => {
+    let restores: Array<() => void>;
+    let runHistory: RunHistoryManager;
+    let manager: ExecManager;
+    let messages: string[];
+    let picks: string[][];
+    let sentText: string[];
+    let contexts: unknown[];
+    let closeTerminal: (terminal: Terminal) => Promise<void>;
+    let terminals: Terminal[];
+
+    // Replaces a property of a vscode namespace (restored after each test)
+    const patch = (target: object, key: string, value: unknown) => {
+      const original = Object.getOwnPropertyDescriptor(target, key);
+      Object.defineProperty(target, key, { configurable: true, value });
+      restores.push(() => {
+        if (original) {
+          Object.defineProperty(target, key, original);
+        } else {
+          delete (target as Record<string, unknown>)[key];
+        }
+      });
+    };
+    const noListener = () => ({ dispose: () => {} });
+
+    setup(() => {
+      restores = [];
+      messages = [];
+      picks = [];
+      sentText = [];
+      contexts = [];
+      terminals = [];
+      patch(window, "onDidEndTerminalShellExecution", noListener);
+      patch(
+        window,
+        "onDidCloseTerminal",
+        (listener: (terminal: Terminal) => Promise<void>) => {
+          closeTerminal = listener;
+          return { dispose: () => {} };
+        }
+      );
+      patch(debug, "onDidStartDebugSession", noListener);
+      patch(debug, "onDidTerminateDebugSession", noListener);
+      patch(window, "terminals", []);
+      patch(window, "createTerminal", () => {
+        // (shell integration is active, so runs are tracked)
+        const terminal = {
+          name: "Inspect Eval",
+          creationOptions: {},
+          shellIntegration: { executeCommand: () => ({}) },
+          show: () => {},
+          sendText: (text: string) => {
+            sentText.push(text);
+          },
+        } as unknown as Terminal;
+        terminals.push(terminal);
+        return terminal;
+      });
+      patch(commands, "executeCommand", (...args: unknown[]) => {
+        contexts.push(args[2]);
+        return Promise.resolve();
+      });
+      patch(window, "showInformationMessage", (message: string) => {
+        messages.push(message);
+        return Promise.resolve(undefined);
+      });
+      patch(window, "showQuickPick", (items: Array<{ label: string }>) => {
+        // pick all of the runs
+        picks.push(items.map((item) => item.label));
+        return Promise.resolve(items);
+      });
+
+      const storage = new Map<string, unknown>();
+      const extensionContext = {
+        workspaceState: {
+          get: (key: string) => storage.get(key),
+          update: (key: string, value: unknown) => {
+            storage.set(key, value);
+            return Promise.resolve();
+          },
+        },
+        subscriptions: [],
+      } as unknown as ExtensionContext;
+      runHistory = new RunHistoryManager(extensionContext);
+      manager = new ExecManager(
+        {
+          packageName: "inspect-ai",
+          packageDisplayName: "Inspect",
+          packageVersion: createMockVersion(
+            "0.4.0"
+          ) as unknown as ExecProfile["packageVersion"],
+          target: "Eval",
+          terminal: "Inspect Eval",
+          command: "inspect",
+          subcommand: "eval",
+          binPath: null,
+          execArgs: () => [],
+        },
+        {} as WorkspaceStateManager,
+        runHistory,
+        extensionContext
+      );
+    });
+
+    teardown(() => {
+      runHistory.dispose();
+      restores.reverse().forEach((restore) => restore());
+    });
+
+    // Starts a run of a task (by re-running a previous run of it)
+    const startRun = async (task: string) => {
+      await manager.rerun({
+        id: `previous-${task}`,
+        target: "Eval",
+        command: "inspect",
+        file: "/ws/tasks.py",
+        task,
+        args: ["eval", `tasks.py@${task}`],
+        cwd: "/ws",
+        python: "/ws/.venv/bin/python",
+        debug: false,
+        status: "succeeded",
+        startedAt: 0,
+        outputs: [],
+      });
+      return runHistory.getRuns()[0]!;
+    };
+    const status = (run: RunRecord) => runHistory.getRun(run.id)?.status;
+
+    test("should report that there is no run to stop", async () => {
+      assert.strictEqual(await manager.stopActive(), false);
+      assert.deepStrictEqual(messages, ["There is no running eval to stop."]);
+      assert.deepStrictEqual(sentText, []);
+    });
+
+    test("should not stop runs of other tasks", async () => {
+      const run = await startRun("task_a");
+      assert.strictEqual(await manager.stopActive("task_b"), false);
+      assert.deepStrictEqual(messages, [
+        "There is no running eval of task_b to stop.",
+      ]);
+      assert.strictEqual(status(run), "running");
+      assert.deepStrictEqual(sentText, []);
+    });
+
+    test("should stop the one matching run without prompting", async () => {
+      const runA = await startRun("task_a");
+      const runB = await startRun("task_b");
+      assert.strictEqual(await manager.stopActive("task_a"), true);
+      assert.deepStrictEqual(picks, []);
+      assert.strictEqual(status(runA), "cancelled");
+      assert.strictEqual(status(runB), "running");
+      assert.deepStrictEqual(sentText, ["\u0003"]);
+    });
+
+    test("should prompt when several runs match", async () => {
+      const first = await startRun("task_a");
+      const second = await startRun("task_a");
+      await startRun("task_b");
+      assert.strictEqual(await manager.stopActive("task_a"), true);
+      assert.deepStrictEqual(picks, [["task_a", "task_a"]]);
+      assert.strictEqual(status(first), "cancelled");
+      assert.strictEqual(status(second), "cancelled");
+    });
+
+    test("should prompt for any run when no task is given", async () => {
+      await startRun("task_a");
+      await startRun("task_b");
+      assert.strictEqual(await manager.stopActive(), true);
+      assert.deepStrictEqual(picks, [["task_b", "task_a"]]);
+    });
+
+    test("should only stop active runs", async () => {
+      const run = await startRun("task_a");
+      assert.strictEqual(await manager.stop(run), true);
+      await closeTerminal(terminals[0]!);
+      assert.strictEqual(await manager.stop(run), false);
+    });
+
+    test("should end runs when their terminal is closed", async () => {
+      const run = await startRun("task_a");
+      assert.strictEqual(contexts[contexts.length - 1], true);
+      await closeTerminal(terminals[0]!);
+      assert.strictEqual(status(run), "ended");
+      assert.strictEqual(contexts[contexts.length - 1], false);
+      assert.strictEqual(await manager.stopActive("task_a"), false);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+/**
+ * Tests for inspect-eval-options.ts - eval option arguments
+ */
+import * as assert from "assert";
+
+import {
+  evalOptionArgs,
+  kEvalOptions,
+} from "../../providers/inspect/inspect-eval-options";
+
+suite("Eval Options Test Suite", () => {
+  test("should have unique option names and flags", () => {
+    const names = kEvalOptions.map((option) => option.name);
+    const flags = kEvalOptions.map((option) => option.flag);
+    assert.strictEqual(new Set(names).size, names.length);
+    assert.strictEqual(new Set(flags).size, flags.length);
+  });
+
+  test("should return no args without values", () => {
+    assert.deepStrictEqual(evalOptionArgs(undefined, kEvalOptions), []);
+    assert.deepStrictEqual(evalOptionArgs({}, kEvalOptions), []);
+  });
+
+  test("should forward values in catalogue order", () => {
+    const args = evalOptionArgs(
+      { log_format: "json", max_connections: "20", model: "openai/gpt-4o" },
+      kEvalOptions
+    );
+    assert.deepStrictEqual(args, [
+      "--model",
+      "openai/gpt-4o",
+      "--max-connections",
+      "20",
+      "--log-format",
+      "json",
+    ]);
+  });
+
+  test("should skip blank values and unknown options", () => {
+    const args = evalOptionArgs(
+      { solver: "  ", unknown_option: "1" },
+      kEvalOptions
+    );
+    assert.deepStrictEqual(args, []);
+  });
+
+  test("should repeat list options for each line", () => {
+    const args = evalOptionArgs(
+      { metadata: "owner=evals\n\n team=safety " },
+      kEvalOptions
+    );
+    assert.deepStrictEqual(args, [
+      "--metadata",
+      "owner=evals",
+      "--metadata",
+      "team=safety",
+    ]);
+  });
+
+  test("should use the negation flag for false", () => {
+    assert.deepStrictEqual(
+      evalOptionArgs({ fail_on_error: "false" }, kEvalOptions),
+      ["--no-fail-on-error"]
+    );
+    assert.deepStrictEqual(
+      evalOptionArgs({ fail_on_error: "true" }, kEvalOptions),
+      ["--fail-on-error"]
+    );
+    assert.deepStrictEqual(
+      evalOptionArgs({ fail_on_error: "0.1" }, kEvalOptions),
+      ["--fail-on-error", "0.1"]
+    );
+  });
+
+  test("should only forward the provided options", () => {
+    const options = kEvalOptions.filter((option) => option.name === "tags");
+    const args = evalOptionArgs({ tags: "a,b", solver: "x" }, options);
+    assert.deepStrictEqual(args, ["--tags", "a,b"]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for log-compare.ts - comparing eval logs
+ */
+import * as assert from "assert";
+
+import type { EvalLog } from "../../@types/log";
+import {
+  compareLogs,
+  formatScoreValue,
+  SampleScores,
+} from "../../inspect/log-compare";
+
+function evalLog(options: {
+  model: string;
+  args?: Record<string, unknown>;
+  accuracy?: number;
+  tokens?: number;
+  samples?: Array<[string | number, unknown]>;
+}): EvalLog {
+  return {
+    version: 2,
+    status: "success",
+    eval: {
+      task: "math",
+      model: options.model,
+      created: "2025-01-01T00:00:00+00:00",
+      dataset: { name: "gsm8k", samples: 3 },
+      task_args: options.args || {},
+      config: { epochs: 1 },
+      revision: { type: "git", origin: "repo", commit: "abc123" },
+    },
+    results:
+      options.accuracy === undefined
+        ? null
+        : {
+            scores: [
+              {
+                name: "match",
+                metrics: { accuracy: { value: options.accuracy } },
+              },
+            ],
+          },
+    stats: {
+      model_usage: {
+        [options.model]: {
+          input_tokens: options.tokens || 0,
+          output_tokens: 10,
+          total_tokens: (options.tokens || 0) + 10,
+        },
+      },
+    },
+    samples: options.samples?.map(([id, value]) => ({
+      id,
+      epoch: 1,
+      scores: { match: { value } },
+    })),
+  } as unknown as EvalLog;
+}
+
+suite("Log Compare Test Suite", () => {
+  test("should show spec differences and key fields", () => {
+    const comparison = compareLogs([
+      evalLog({ model: "openai/gpt-4o", args: { level: 1, shots: 0 } }),
+      evalLog({ model: "anthropic/claude", args: { level: 2, shots: 0 } }),
+    ]);
+    assert.deepStrictEqual(
+      comparison.spec.map((row) => [row.field, row.values, row.differs]),
+      [
+        ["task", ["math", "math"], false],
+        ["model", ["openai/gpt-4o", "anthropic/claude"], true],
+        ["revision", ["repo@abc123", "repo@abc123"], false],
+        ["task_args.level", ["1", "2"], true],
+      ]
+    );
+  });
+
+  test("should compare metrics with deltas from the first log", () => {
+    const comparison = compareLogs([
+      evalLog({ model: "a", accuracy: 0.5 }),
+      evalLog({ model: "b", accuracy: 0.75 }),
+      evalLog({ model: "c" }),
+    ]);
+    const [metric] = comparison.metrics;
+    assert.strictEqual(metric?.metric, "accuracy");
+    assert.deepStrictEqual(metric?.values, [0.5, 0.75, undefined]);
+    assert.deepStrictEqual(metric?.deltas, [0, 0.25, undefined]);
+    assert.strictEqual(metric?.differs, true);
+  });
+
+  test("should compare token usage for each model", () => {
+    const comparison = compareLogs([
+      evalLog({ model: "a", tokens: 100 }),
+      evalLog({ model: "b", tokens: 200 }),
+    ]);
+    assert.deepStrictEqual(
+      comparison.usage.map((usage) => [usage.model, usage.input]),
+      [
+        ["a", [100, undefined]],
+        ["b", [undefined, 200]],
+      ]
+    );
+  });
+
+  test("should compare the scores of samples in every log", () => {
+    const comparison = compareLogs([
+      evalLog({
+        model: "a",
+        samples: [
+          [1, "C"],
+          [2, "I"],
+          [3, 0.5],
+        ],
+      }),
+      evalLog({
+        model: "b",
+        samples: [
+          [1, "C"],
+          [2, "C"],
+          [3, 1],
+          [4, "C"],
+        ],
+      }),
+    ]);
+    assert.deepStrictEqual(
+      comparison.samples.map((row) => [row.sample, row.values, row.differs]),
+      [
+        [1, ["C", "C"], false],
+        [2, ["I", "C"], true],
+        [3, ["0.5", "1"], true],
+      ]
+    );
+    assert.deepStrictEqual(comparison.samples[2]?.deltas, [0, 0.5]);
+    assert.deepStrictEqual(comparison.haveSamples, [true, true]);
+  });
+
+  test("should note logs without samples", () => {
+    const comparison = compareLogs([
+      evalLog({ model: "a", samples: [[1, "C"]] }),
+      evalLog({ model: "b" }),
+    ]);
+    assert.deepStrictEqual(comparison.samples, []);
+    assert.deepStrictEqual(comparison.haveSamples, [true, false]);
+  });
+
+  test("should compare sample scores read separately from the logs", () => {
+    const scores = (value: string) =>
+      [
+        { id: 1, epoch: 1, scores: { match: { value } } },
+      ] as unknown as SampleScores[];
+    const comparison = compareLogs(
+      [
+        evalLog({ model: "a" }),
+        evalLog({ model: "b" }),
+        evalLog({ model: "c" }),
+      ],
+      [scores("C"), scores("I"), undefined]
+    );
+    assert.deepStrictEqual(comparison.samples, []);
+    assert.deepStrictEqual(comparison.haveSamples, [true, true, false]);
+
+    const pair = compareLogs(
+      [evalLog({ model: "a" }), evalLog({ model: "b" })],
+      [scores("C"), scores("I")]
+    );
+    assert.deepStrictEqual(
+      pair.samples.map((row) => [row.sample, row.values, row.differs]),
+      [[1, ["C", "I"], true]]
+    );
+  });
+
+  test("should format score values", () => {
+    assert.strictEqual(formatScoreValue(0.12345), "0.123");
+    assert.strictEqual(formatScoreValue("C"), "C");
+    assert.strictEqual(formatScoreValue({ a: 1 }), '{"a":1}');
+    assert.strictEqual(formatScoreValue(undefined), undefined);
+  });
+});
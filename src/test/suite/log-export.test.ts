@@ -0,0 +1,114 @@
+/**
+ * Tests for log-export.ts - exporting log summaries
+ */
+import * as assert from "assert";
+
+import type { EvalLog } from "../../@types/log";
+import {
+  formatLogExport,
+  logExportRow,
+  LogExportRow,
+} from "../../inspect/log-export";
+
+const kLog = {
+  version: 2,
+  status: "success",
+  eval: {
+    task: "math",
+    model: "openai/gpt-4o",
+    created: "2025-01-01T00:00:00+00:00",
+    dataset: { name: "gsm8k", samples: 10 },
+    revision: { type: "git", origin: "repo", commit: "abc123" },
+  },
+  results: {
+    total_samples: 10,
+    completed_samples: 9,
+    scores: [
+      {
+        name: "match",
+        metrics: { accuracy: { value: 0.5 }, stderr: { value: 0.1234 } },
+      },
+      { name: "judge", metrics: { mean: { value: 3 } } },
+    ],
+  },
+  stats: {
+    started_at: "2025-01-01T00:00:00+00:00",
+    completed_at: "2025-01-01T00:01:30+00:00",
+    model_usage: {
+      "openai/gpt-4o": {
+        input_tokens: 100,
+        output_tokens: 20,
+        total_tokens: 120,
+      },
+      "openai/gpt-4o-mini": {
+        input_tokens: 10,
+        output_tokens: 5,
+        total_tokens: 15,
+      },
+    },
+  },
+} as unknown as EvalLog;
+
+const kRows: LogExportRow[] = [
+  logExportRow("file:///logs/a.eval", kLog),
+  {
+    log: "file:///logs/b.eval",
+    task: "math, v2",
+    model: "anthropic/claude",
+    status: "error",
+    metrics: { "match/accuracy": 0.25 },
+  },
+];
+
+suite("Log Export Test Suite", () => {
+  test("should summarize a log", () => {
+    assert.deepStrictEqual(kRows[0], {
+      log: "file:///logs/a.eval",
+      task: "math",
+      model: "openai/gpt-4o",
+      status: "success",
+      total_samples: 10,
+      completed_samples: 9,
+      metrics: {
+        "match/accuracy": 0.5,
+        "match/stderr": 0.1234,
+        "judge/mean": 3,
+      },
+      input_tokens: 110,
+      output_tokens: 25,
+      total_tokens: 135,
+      duration: 90,
+      revision: "abc123",
+    });
+  });
+
+  test("should export CSV with a column for each metric", () => {
+    assert.deepStrictEqual(formatLogExport(kRows, "csv").split("\n"), [
+      "log,task,model,status,total_samples,completed_samples,match/accuracy,match/stderr,judge/mean,input_tokens,output_tokens,total_tokens,duration,revision",
+      "file:///logs/a.eval,math,openai/gpt-4o,success,10,9,0.5,0.1234,3,110,25,135,90,abc123",
+      'file:///logs/b.eval,"math, v2",anthropic/claude,error,,,0.25,,,,,,,',
+      "",
+    ]);
+  });
+
+  test("should export a Markdown table", () => {
+    const lines = formatLogExport(kRows.slice(0, 1), "markdown").split("\n");
+    assert.strictEqual(lines[1], `|${" --- |".repeat(14)}`);
+    assert.strictEqual(
+      lines[2],
+      "| file:///logs/a.eval | math | openai/gpt-4o | success | 10 | 9 | 0.5 | 0.123 | 3 | 110 | 25 | 135 | 90 | abc123 |"
+    );
+  });
+
+  test("should escape pipes in Markdown cells", () => {
+    const lines = formatLogExport(
+      [{ ...kRows[1]!, task: "a|b\nc" }],
+      "markdown"
+    ).split("\n");
+    assert.ok(lines[2]?.includes("| a\\|b c |"));
+  });
+
+  test("should export JSON", () => {
+    assert.deepStrictEqual(JSON.parse(formatLogExport(kRows, "json")), kRows);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for log-filter.ts - filtering logs by their header metadata
+ */
+import * as assert from "assert";
+
+import {
+  FilterableLog,
+  isEmptyLogFilter,
+  LogFilter,
+  matchesLogFilter,
+  parseLogFilter,
+} from "../../inspect/log-filter";
+
+const kNow = new Date(2025, 5, 15, 12, 0, 0);
+
+const kLog: FilterableLog = {
+  task: "math_easy",
+  model: "openai/gpt-4o",
+  status: "success",
+  tags: ["nightly", "Baseline"],
+  created: new Date(2025, 5, 10, 9, 30).toISOString(),
+};
+
+function filter(query: string): LogFilter {
+  const result = parseLogFilter(query, kNow);
+  assert.ok(result.filter, result.error ?? "");
+  return result.filter;
+}
+
+function matches(query: string, log: FilterableLog = kLog) {
+  return matchesLogFilter(filter(query), log);
+}
+
+suite("Log Filter Test Suite", () => {
+  suite("parseLogFilter", () => {
+    test("should parse fields and free text", () => {
+      const result = filter(
+        'task:math model:GPT-4o status:error tag:"smoke test" arc'
+      );
+      assert.deepStrictEqual(result.task, ["math"]);
+      assert.deepStrictEqual(result.model, ["gpt-4o"]);
+      assert.deepStrictEqual(result.status, ["error"]);
+      assert.deepStrictEqual(result.tags, ["smoke test"]);
+      assert.deepStrictEqual(result.text, ["arc"]);
+    });
+
+    test("should parse dates and ages", () => {
+      const result = filter("after:2025-06-01 before:7d");
+      assert.deepStrictEqual(result.after, new Date(2025, 5, 1));
+      assert.deepStrictEqual(result.before, new Date(2025, 5, 8, 12, 0, 0));
+    });
+
+    test("should report invalid queries", () => {
+      assert.ok(parseLogFilter("status:done").error);
+      assert.ok(parseLogFilter("after:yesterday").error);
+      assert.ok(parseLogFilter("after:2025-02-30").error);
+      assert.ok(parseLogFilter("author:me").error);
+      assert.ok(parseLogFilter("task:").error);
+    });
+
+    test("should recognize empty filters", () => {
+      assert.strictEqual(isEmptyLogFilter(filter("  ")), true);
+      assert.strictEqual(isEmptyLogFilter(filter("math")), false);
+    });
+  });
+
+  suite("matchesLogFilter", () => {
+    test("should match task and model substrings", () => {
+      assert.strictEqual(matches("task:math"), true);
+      assert.strictEqual(matches("model:gpt-4o"), true);
+      assert.strictEqual(matches("model:claude"), false);
+    });
+
+    test("should match any value of a field and all fields", () => {
+      assert.strictEqual(matches("status:error status:success"), true);
+      assert.strictEqual(matches("status:success model:claude"), false);
+    });
+
+    test("should match tags and free text", () => {
+      assert.strictEqual(matches("tag:baseline"), true);
+      assert.strictEqual(matches("tag:night"), false);
+      assert.strictEqual(matches("night math"), true);
+      assert.strictEqual(matches("night arc"), false);
+    });
+
+    test("should match the creation date", () => {
+      assert.strictEqual(matches("after:2025-06-10 before:2025-06-11"), true);
+      assert.strictEqual(matches("after:2d"), false);
+      assert.strictEqual(matches("before:2025-06-10"), false);
+    });
+
+    test("should not match criteria for unknown attributes", () => {
+      const log = { task: "math_easy" };
+      assert.strictEqual(matches("task:math", log), true);
+      assert.strictEqual(matches("model:gpt", log), false);
+      assert.strictEqual(matches("after:2025-01-01", log), false);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for log-groups.ts - grouping logs by task, model, eval set or day
+ */
+import * as assert from "assert";
+
+import { GroupableLog, groupLogs } from "../../inspect/log-groups";
+
+// A Wednesday
+const kNow = new Date(2025, 5, 18, 12, 0, 0);
+
+function log(
+  path: string,
+  created: Date,
+  task?: string,
+  model?: string
+): GroupableLog {
+  return { path, task, model, created: created.toISOString() };
+}
+
+const kLogs = [
+  log("a.eval", new Date(2025, 5, 18, 9), "math", "openai/gpt-4o"),
+  log("set-1/b.eval", new Date(2025, 5, 17, 9), "arc", "openai/gpt-4o"),
+  log("set-1/c.eval", new Date(2025, 5, 16, 9), "math"),
+  log("d.eval", new Date(2025, 4, 2, 9), "arc", "anthropic/claude"),
+  log("set-2/e.eval", new Date(2024, 0, 1, 9), "math", "anthropic/claude"),
+];
+
+function groups(groupBy: Parameters<typeof groupLogs>[1]) {
+  return groupLogs(kLogs, groupBy, (log) => log, kNow).map((group) => [
+    group.label,
+    group.logs.map((log) => log.path),
+  ]);
+}
+
+suite("Log Groups Test Suite", () => {
+  test("should group by task (most recent first)", () => {
+    assert.deepStrictEqual(groups("task"), [
+      ["arc", ["set-1/b.eval", "d.eval"]],
+      ["math", ["a.eval", "set-1/c.eval", "set-2/e.eval"]],
+    ]);
+  });
+
+  test("should group logs without a model last", () => {
+    assert.deepStrictEqual(groups("model"), [
+      ["anthropic/claude", ["d.eval", "set-2/e.eval"]],
+      ["openai/gpt-4o", ["a.eval", "set-1/b.eval"]],
+      ["Unknown Model", ["set-1/c.eval"]],
+    ]);
+  });
+
+  test("should group by the directory of eval sets", () => {
+    assert.deepStrictEqual(groups("eval-set"), [
+      ["set-1", ["set-1/b.eval", "set-1/c.eval"]],
+      ["set-2", ["set-2/e.eval"]],
+      ["No Eval Set", ["a.eval", "d.eval"]],
+    ]);
+  });
+
+  test("should group by day", () => {
+    assert.deepStrictEqual(groups("day"), [
+      ["Today", ["a.eval"]],
+      ["Yesterday", ["set-1/b.eval"]],
+      ["This Week", ["set-1/c.eval"]],
+      ["Last Month", ["d.eval"]],
+      ["Older", ["set-2/e.eval"]],
+    ]);
+  });
+});
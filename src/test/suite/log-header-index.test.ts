@@ -0,0 +1,100 @@
+/**
+ * Tests for log-header-index.ts - the on-disk index of log headers
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { LogHeaderIndex } from "../../providers/activity-bar/log-listing/log-header-index";
+import { nextBatchSize } from "../../providers/activity-bar/log-listing/log-listing-server-queue";
+
+const kUri = "file:///logs/a.eval";
+
+const kEntry = {
+  mtime: 100,
+  status: "success",
+  summary: {
+    uri: kUri,
+    task: "math",
+    model: "openai/gpt-4o",
+    status: "success",
+    created: "2025-01-01T00:00:00+00:00",
+  },
+};
+
+suite("Log Header Index Test Suite", () => {
+  let dir: string;
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "log-header-index-test-"));
+  });
+  teardown(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should only use entries for unmodified logs", () => {
+    const index = new LogHeaderIndex(path.join(dir, "index.json"));
+    index.set(kUri, kEntry);
+    assert.deepStrictEqual(index.get(kUri, 100), kEntry);
+    assert.strictEqual(index.get(kUri, 200), undefined);
+    // (entries for modified logs are removed)
+    assert.strictEqual(index.get(kUri, 100), undefined);
+    index.dispose();
+  });
+
+  test("should be shared by indexes using the same file", () => {
+    const file = path.join(dir, "storage", "index.json");
+    const index = new LogHeaderIndex(file);
+    index.set(kUri, kEntry);
+    index.dispose();
+
+    const reopened = new LogHeaderIndex(file);
+    assert.deepStrictEqual(reopened.get(kUri, 100), kEntry);
+    reopened.dispose();
+  });
+
+  test("should merge the entries written by other windows", () => {
+    const file = path.join(dir, "index.json");
+    const other = "file:///logs/b.eval";
+    const stale = "file:///logs/c.eval";
+    const first = new LogHeaderIndex(file);
+    const second = new LogHeaderIndex(file);
+    first.set(stale, kEntry);
+    first.dispose();
+
+    second.set(other, {
+      ...kEntry,
+      summary: { ...kEntry.summary, uri: other },
+    });
+    second.set(kUri, kEntry);
+    second.dispose();
+
+    const reopened = new LogHeaderIndex(file);
+    assert.strictEqual(reopened.get(kUri, 100)?.summary.uri, kUri);
+    assert.strictEqual(reopened.get(other, 100)?.summary.uri, other);
+    assert.strictEqual(reopened.get(stale, 200), undefined);
+    reopened.dispose();
+
+    // (the removed entry isn't brought back by the merge)
+    const merged = new LogHeaderIndex(file);
+    assert.strictEqual(merged.get(stale, 100), undefined);
+    assert.strictEqual(merged.get(kUri, 100)?.summary.uri, kUri);
+    merged.dispose();
+  });
+
+  test("should ignore unreadable index files", () => {
+    const file = path.join(dir, "index.json");
+    fs.writeFileSync(file, "not json");
+    const index = new LogHeaderIndex(file);
+    assert.strictEqual(index.get(kUri, 100), undefined);
+    index.dispose();
+  });
+
+  test("should adapt the batch size to how long batches take", () => {
+    assert.strictEqual(nextBatchSize(25, 500), 50);
+    assert.strictEqual(nextBatchSize(150, 500), 200);
+    assert.strictEqual(nextBatchSize(50, 2000), 50);
+    assert.strictEqual(nextBatchSize(50, 5000), 25);
+    assert.strictEqual(nextBatchSize(12, 5000), 10);
+  });
+});
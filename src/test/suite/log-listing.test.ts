@@ -3,7 +3,15 @@
  */
 import * as assert from "assert";
 
-import { relativeLogPath } from "../../providers/activity-bar/log-listing/log-listing";
+import { ExtensionContext, Uri } from "vscode";
+
+import { ListingMRU } from "../../core/listing-mru";
+import {
+  logFilesBeneath,
+  LogListing,
+  relativeLogPath,
+  WorkspaceLogListing,
+} from "../../providers/activity-bar/log-listing/log-listing";
 
 /**
  * Mock LogItem for testing
@@ -694,6 +702,126 @@ suite("LogListing Test Suite", () => {
     });
   });
 
+  suite("WorkspaceLogListing", () => {
+    const mru = new ListingMRU("logs", {
+      workspaceState: { get: () => [], update: () => Promise.resolve() },
+    } as unknown as ExtensionContext);
+
+    // A listing of a log directory containing files with the given names
+    const listing = (logDir: string, names: string[]) =>
+      new LogListing(Uri.file(logDir), mru, () =>
+        Promise.resolve({
+          log_dir: Uri.file(logDir).toString(),
+          items: names.map((name, i) => ({
+            name: Uri.file(`${logDir}/${name}`).toString(),
+            mtime: i,
+            display_name: name,
+            item_id: name,
+          })),
+        })
+      );
+
+    const workspaceListing = () =>
+      new WorkspaceLogListing([
+        {
+          name: "evals",
+          listing: listing("/evals/logs", ["a.eval", "set/b.eval"]),
+        },
+        { name: "tools", listing: listing("/tools/logs", ["c.eval"]) },
+      ]);
+
+    test("should list a node for each folder", async () => {
+      const listing = workspaceListing();
+      const folders = await listing.ls();
+      assert.deepStrictEqual(
+        folders.map((node) => [node.type, node.name]),
+        [
+          ["dir", "evals"],
+          ["dir", "tools"],
+        ]
+      );
+      assert.ok(folders.every((node) => listing.isFolderNode(node)));
+      assert.deepStrictEqual(
+        listing.logDirs().map((uri) => uri.toString()),
+        [Uri.file("/evals/logs").toString(), Uri.file("/tools/logs").toString()]
+      );
+    });
+
+    test("should list each folder's logs beneath its node", async () => {
+      const listing = workspaceListing();
+      const [evals] = await listing.ls();
+      assert.ok(evals?.type === "dir");
+      const nodes = await listing.ls(evals);
+      assert.deepStrictEqual(
+        nodes.map((node) => [node.name, node.parent]),
+        [
+          ["set", evals],
+          ["a.eval", evals],
+        ]
+      );
+      const [set] = nodes;
+      assert.ok(set?.type === "dir");
+      assert.deepStrictEqual(
+        (await listing.ls(set)).map((node) => node.name),
+        ["set/b.eval"]
+      );
+    });
+
+    test("should resolve the uris of nodes", async () => {
+      const listing = workspaceListing();
+      const [evals, tools] = await listing.ls();
+      assert.ok(evals?.type === "dir" && tools?.type === "dir");
+      assert.strictEqual(
+        listing.uriForNode(tools).toString(),
+        Uri.file("/tools/logs").toString()
+      );
+
+      const [set] = await listing.ls(evals);
+      assert.ok(set?.type === "dir");
+      const [file] = await listing.ls(set);
+      assert.ok(file);
+      const uri = Uri.file("/evals/logs/set/b.eval");
+      assert.strictEqual(listing.uriForNode(file).toString(), uri.toString());
+      assert.strictEqual(listing.nodeForUri(uri), file);
+      assert.strictEqual(
+        listing.nodeForUri(Uri.file("/evals/logs/c.eval")),
+        undefined
+      );
+    });
+
+    test("should list the files of every folder", async () => {
+      const listing = workspaceListing();
+      const files = await listing.files();
+      assert.deepStrictEqual(
+        files.map((node) => listing.uriForNode(node).toString()),
+        [
+          Uri.file("/evals/logs/set/b.eval").toString(),
+          Uri.file("/evals/logs/a.eval").toString(),
+          Uri.file("/tools/logs/c.eval").toString(),
+        ]
+      );
+    });
+
+    test("should list the files beneath a folder node", async () => {
+      const listing = workspaceListing();
+      const [evals] = await listing.ls();
+      assert.ok(evals?.type === "dir");
+      const files = await logFilesBeneath(listing, evals);
+      assert.deepStrictEqual(
+        files.map((node) => node.name),
+        ["set/b.eval", "a.eval"]
+      );
+
+      // (a directory within the folder)
+      const [set] = await listing.ls(evals);
+      assert.ok(set);
+      assert.deepStrictEqual(
+        (await logFilesBeneath(listing, set)).map((node) => node.name),
+        ["set/b.eval"]
+      );
+    });
+  });
+
   suite("MRU (Most Recently Used) Tracking", () => {
     test("should track MRU list operations", () => {
       const mruList: string[] = [];
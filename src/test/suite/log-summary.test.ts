@@ -0,0 +1,96 @@
+/**
+ * Tests for log-summary.ts - the headline results of eval logs
+ */
+import * as assert from "assert";
+
+import type { EvalLog, EvalResults } from "../../@types/log";
+import {
+  formatMetricValue,
+  primaryMetric,
+  summarizeLog,
+} from "../../inspect/log-summary";
+
+const kUri = "file:///logs/2025-01-01T00-00-00_math_abc.eval";
+
+function evalLog(results?: unknown, status = "success"): EvalLog {
+  return {
+    version: 2,
+    status,
+    eval: {
+      task: "math",
+      task_file: "evals/math.py",
+      model: "openai/gpt-4o",
+      created: "2025-01-01T00:00:00+00:00",
+      dataset: { samples: 100 },
+    },
+    results,
+  } as unknown as EvalLog;
+}
+
+function scores(...scorers: Array<[string, Record<string, number>]>) {
+  return {
+    total_samples: 10,
+    completed_samples: 8,
+    scores: scorers.map(([name, metrics]) => ({
+      name,
+      metrics: Object.fromEntries(
+        Object.entries(metrics).map(([metric, value]) => [
+          metric,
+          { name: metric, value },
+        ])
+      ),
+    })),
+  } as unknown as EvalResults;
+}
+
+suite("Log Summary Test Suite", () => {
+  suite("summarizeLog", () => {
+    test("should summarize a completed log", () => {
+      const summary = summarizeLog(
+        kUri,
+        evalLog(scores(["match", { accuracy: 0.75, stderr: 0.1 }]))
+      );
+      assert.deepStrictEqual(summary, {
+        uri: kUri,
+        task: "math",
+        taskFile: "evals/math.py",
+        model: "openai/gpt-4o",
+        status: "success",
+        created: "2025-01-01T00:00:00+00:00",
+        samples: 8,
+        metric: { name: "accuracy", value: 0.75 },
+      });
+    });
+
+    test("should use the dataset size for logs without results", () => {
+      const summary = summarizeLog(kUri, evalLog(undefined, "started"));
+      assert.strictEqual(summary.status, "started");
+      assert.strictEqual(summary.samples, 100);
+      assert.strictEqual(summary.metric, undefined);
+    });
+  });
+
+  suite("primaryMetric", () => {
+    test("should prefix the scorer when there are several", () => {
+      assert.deepStrictEqual(
+        primaryMetric(
+          scores(["match", { accuracy: 1 }], ["f1", { mean: 0.5 }])
+        ),
+        { name: "match/accuracy", value: 1 }
+      );
+    });
+
+    test("should return undefined without scores", () => {
+      assert.strictEqual(primaryMetric(scores()), undefined);
+    });
+  });
+
+  suite("formatMetricValue", () => {
+    test("should round to 3 decimal places", () => {
+      assert.strictEqual(formatMetricValue(1), "1");
+      assert.strictEqual(formatMetricValue(0.5), "0.5");
+      assert.strictEqual(formatMetricValue(0.123456), "0.123");
+      assert.strictEqual(formatMetricValue(0.1), "0.1");
+    });
+  });
+});
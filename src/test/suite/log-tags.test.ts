@@ -0,0 +1,55 @@
+/**
+ * Tests for log-tags.ts - editing the tags of eval logs
+ */
+import * as assert from "assert";
+
+import { commonTags, parseTags, tagsEdit } from "../../inspect/log-tags";
+
+suite("Log Tags Test Suite", () => {
+  test("should parse tags separated by commas or whitespace", () => {
+    assert.deepStrictEqual(parseTags(" baseline, nightly  v2,,baseline "), [
+      "baseline",
+      "nightly",
+      "v2",
+    ]);
+    assert.deepStrictEqual(parseTags(""), []);
+  });
+
+  test("should find the tags every log has", () => {
+    assert.deepStrictEqual(
+      commonTags([
+        ["a", "b", "c"],
+        ["b", "c"],
+        ["c", "b", "d"],
+      ]),
+      ["b", "c"]
+    );
+    assert.deepStrictEqual(commonTags([]), []);
+  });
+
+  test("should add tags and remove common tags", () => {
+    assert.deepStrictEqual(
+      tagsEdit(
+        [
+          ["a", "b"],
+          ["b", "c"],
+        ],
+        ["a", "d"]
+      ),
+      { type: "tags", tags_add: ["a", "d"], tags_remove: ["b"] }
+    );
+  });
+
+  test("should leave tags which only some logs have", () => {
+    assert.strictEqual(
+      tagsEdit(
+        [
+          ["a", "b"],
+          ["b", "c"],
+        ],
+        ["b"]
+      ),
+      undefined
+    );
+  });
+});
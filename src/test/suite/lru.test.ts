@@ -0,0 +1,54 @@
+/**
+ * Tests for lru.ts - least recently used caching
+ */
+import * as assert from "assert";
+
+import { LruCache } from "../../core/lru";
+
+suite("LRU Cache Test Suite", () => {
+  test("should evict the least recently set entries", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("c", 3);
+    assert.strictEqual(cache.size, 2);
+    assert.strictEqual(cache.get("a"), undefined);
+    assert.deepStrictEqual(cache.entries(), [
+      ["b", 2],
+      ["c", 3],
+    ]);
+  });
+
+  test("should keep entries which have been read", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    assert.strictEqual(cache.get("a"), 1);
+    cache.set("c", 3);
+    assert.deepStrictEqual(cache.entries(), [
+      ["a", 1],
+      ["c", 3],
+    ]);
+  });
+
+  test("should not reorder entries which are peeked", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    assert.strictEqual(cache.peek("a"), 1);
+    cache.set("c", 3);
+    assert.strictEqual(cache.peek("a"), undefined);
+  });
+
+  test("should replace values which are set again", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.set("a", 3);
+    cache.set("c", 4);
+    assert.deepStrictEqual(cache.entries(), [
+      ["a", 3],
+      ["c", 4],
+    ]);
+  });
+});
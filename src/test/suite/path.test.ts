@@ -2,9 +2,21 @@
  * Tests for path.ts - Path utilities including AbsolutePath
  */
 import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 
-import { toAbsolutePath } from "../../core/path";
+import { Uri } from "vscode";
+
+import {
+  logTaskFilePath,
+  toAbsolutePath,
+  workspaceFolderPath,
+  workspaceRelativePath,
+} from "../../core/path";
+import { workspaceFolderFor } from "../../core/workspace";
+
+import { MockWorkspaceFolders } from "./workspace-mocks";
 
 suite("Path Utilities Test Suite", () => {
   suite("toAbsolutePath", () => {
@@ -220,4 +232,87 @@ suite("Path Utilities Test Suite", () => {
       assert.ok(absPath.path.includes(".."));
     });
   });
+
+  suite("Workspace folders", () => {
+    const root = path.join(path.sep, "workspace");
+    const evals = path.join(root, "evals");
+    const tools = path.join(root, "tools");
+    let folders: MockWorkspaceFolders;
+
+    setup(() => {
+      folders = new MockWorkspaceFolders([evals, tools]);
+    });
+    teardown(() => {
+      folders.restore();
+    });
+
+    test("should find the folder containing a file", () => {
+      const file = Uri.file(path.join(tools, "src", "task.py"));
+      assert.strictEqual(workspaceFolderFor(file).name, "tools");
+    });
+
+    test("should use the first folder for files outside of the workspace", () => {
+      const file = Uri.file(path.join(path.sep, "tmp", "task.py"));
+      assert.strictEqual(workspaceFolderFor(file).name, "evals");
+    });
+
+    test("should resolve the folder path of a file", () => {
+      const file = toAbsolutePath(path.join(tools, "src", "task.py"));
+      assert.strictEqual(workspaceFolderPath(file).path, tools);
+      assert.strictEqual(
+        workspaceRelativePath(file),
+        path.join("src", "task.py")
+      );
+    });
+  });
+
+  suite("logTaskFilePath", () => {
+    let dir: string;
+    let evals: string;
+    let tools: string;
+    let folders: MockWorkspaceFolders;
+
+    setup(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "path-test-"));
+      evals = path.join(dir, "evals");
+      tools = path.join(dir, "tools");
+      for (const folder of [evals, tools]) {
+        fs.mkdirSync(path.join(folder, "src"), { recursive: true });
+      }
+      fs.writeFileSync(path.join(evals, "src", "math.py"), "");
+      fs.writeFileSync(path.join(tools, "src", "math.py"), "");
+      fs.writeFileSync(path.join(tools, "src", "search.py"), "");
+      folders = new MockWorkspaceFolders([evals, tools]);
+    });
+    teardown(() => {
+      folders.restore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("should resolve task files using the folder containing the log", () => {
+      const log = Uri.file(path.join(tools, "logs", "a.eval"));
+      assert.strictEqual(
+        logTaskFilePath(path.join("src", "math.py"), log).path,
+        path.join(tools, "src", "math.py")
+      );
+    });
+
+    test("should resolve task files of other logs using the folder containing them", () => {
+      const log = Uri.parse("s3://bucket/logs/a.eval");
+      assert.strictEqual(
+        logTaskFilePath(path.join("src", "math.py"), log).path,
+        path.join(evals, "src", "math.py")
+      );
+      assert.strictEqual(
+        logTaskFilePath(path.join("src", "search.py"), log).path,
+        path.join(tools, "src", "search.py")
+      );
+    });
+
+    test("should leave absolute task files unchanged", () => {
+      const taskFile = path.join(dir, "other", "task.py");
+      const log = Uri.file(path.join(tools, "logs", "a.eval"));
+      assert.strictEqual(logTaskFilePath(taskFile, log).path, taskFile);
+    });
+  });
 });
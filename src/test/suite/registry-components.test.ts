@@ -0,0 +1,129 @@
+/**
+ * Tests for registry-components.ts - finding solvers, scorers, tools,
+ * agents and metrics (and the tasks which use them)
+ */
+import * as assert from "assert";
+
+import {
+  findComponentUsages,
+  scanComponents,
+} from "../../components/registry-components";
+
+suite("Registry Components Test Suite", () => {
+  suite("scanComponents", () => {
+    test("should find each kind of component", () => {
+      const source = [
+        "@solver",
+        "def my_solver():",
+        "    pass",
+        "",
+        "@scorer(metrics=[accuracy(), stderr()])",
+        "def my_scorer():",
+        "    pass",
+        "",
+        "@tool",
+        "def my_tool():",
+        "    async def execute(x: int):",
+        "        return x",
+        "    return execute",
+        "",
+        "@agent",
+        "def my_agent():",
+        "    pass",
+        "",
+        "@metric",
+        "def my_metric():",
+        "    pass",
+      ].join("\n");
+      assert.deepStrictEqual(
+        scanComponents(source).map((c) => [c.kind, c.name, c.line]),
+        [
+          ["solver", "my_solver", 0],
+          ["scorer", "my_scorer", 4],
+          ["tool", "my_tool", 8],
+          ["agent", "my_agent", 14],
+          ["metric", "my_metric", 18],
+        ]
+      );
+    });
+
+    test("should use the name given by the decorator", () => {
+      const source = [
+        "@solver(",
+        '    name="renamed"',
+        ")",
+        "def my_solver():",
+        "    pass",
+      ].join("\n");
+      const [component] = scanComponents(source);
+      assert.strictEqual(component?.name, "renamed");
+      assert.strictEqual(component?.function, "my_solver");
+    });
+
+    test("should find components with other decorators", () => {
+      const source = [
+        "@functools.cache",
+        "@inspect_ai.solver.solver",
+        "def my_solver():",
+        "    pass",
+      ].join("\n");
+      assert.deepStrictEqual(
+        scanComponents(source).map((c) => [c.kind, c.name]),
+        [["solver", "my_solver"]]
+      );
+    });
+
+    test("should ignore tasks and other decorated functions", () => {
+      const source = [
+        "@task",
+        "def my_task():",
+        "    pass",
+        "",
+        "@dataclass",
+        "class Config:",
+        "    solver: str",
+      ].join("\n");
+      assert.deepStrictEqual(scanComponents(source), []);
+    });
+  });
+
+  suite("findComponentUsages", () => {
+    const source = [
+      "@task",
+      "def uses_solver(",
+      "    limit: int = 10",
+      ") -> Task:",
+      "    return Task(",
+      "        solver=[my_solver(), generate()],",
+      "        scorer=match(),",
+      "    )",
+      "",
+      '@task(name="renamed")',
+      "def uses_scorer():",
+      "    return Task(solver=generate(), scorer=my_scorer())",
+      "",
+      "def my_solver_factory():",
+      "    return my_solver()",
+    ].join("\n");
+
+    test("should find the tasks which use a component", () => {
+      assert.deepStrictEqual(findComponentUsages(source, "my_solver"), [
+        { task: "uses_solver", line: 0 },
+      ]);
+      assert.deepStrictEqual(findComponentUsages(source, "my_scorer"), [
+        { task: "renamed", line: 9 },
+      ]);
+      assert.deepStrictEqual(findComponentUsages(source, "generate"), [
+        { task: "uses_solver", line: 0 },
+        { task: "renamed", line: 9 },
+      ]);
+    });
+
+    test("should match whole names only", () => {
+      assert.deepStrictEqual(findComponentUsages(source, "match"), [
+        { task: "uses_solver", line: 0 },
+      ]);
+      assert.deepStrictEqual(findComponentUsages(source, "my_solv"), []);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for results-dashboard.ts - aggregating results across logs
+ */
+import * as assert from "assert";
+
+import { LogSummary } from "../../inspect/log-summary";
+import {
+  resultsCharts,
+  resultsCsv,
+  resultsTable,
+} from "../../inspect/results-dashboard";
+
+function summary(
+  name: string,
+  task: string,
+  model: string,
+  created: string,
+  accuracy?: number
+): LogSummary {
+  return {
+    uri: `file:///logs/${name}.eval`,
+    task,
+    model,
+    status: accuracy === undefined ? "error" : "success",
+    created,
+    samples: 10,
+    ...(accuracy === undefined
+      ? {}
+      : { metric: { name: "accuracy", value: accuracy } }),
+  };
+}
+
+const kSummaries = [
+  summary("a", "math", "openai/gpt-4o", "2025-01-02T00:00:00Z", 0.5),
+  summary("b", "math", "openai/gpt-4o", "2025-01-01T00:00:00Z", 0.4),
+  summary("c", "math", "anthropic/claude", "2025-01-03T00:00:00Z", 0.6),
+  summary("d", "arc", "openai/gpt-4o", "2025-01-04T00:00:00Z"),
+];
+
+suite("Results Dashboard Test Suite", () => {
+  test("should list results newest first", () => {
+    assert.deepStrictEqual(
+      resultsTable(kSummaries).map((s) => s.uri.slice(-6)),
+      ["d.eval", "c.eval", "a.eval", "b.eval"]
+    );
+  });
+
+  test("should chart each task with a series for each model", () => {
+    const charts = resultsCharts(kSummaries);
+    assert.deepStrictEqual(
+      charts.map((chart) => [
+        chart.task,
+        chart.metric,
+        chart.series.map((series) => [
+          series.model,
+          series.points.map((point) => point.value),
+        ]),
+      ]),
+      [
+        [
+          "math",
+          "accuracy",
+          [
+            ["anthropic/claude", [0.6]],
+            ["openai/gpt-4o", [0.4, 0.5]],
+          ],
+        ],
+      ]
+    );
+  });
+
+  test("should export results as CSV", () => {
+    const lines = resultsCsv(kSummaries.slice(2)).trim().split("\n");
+    assert.deepStrictEqual(lines, [
+      "task,model,metric,value,samples,status,created,log",
+      "arc,openai/gpt-4o,,,10,error,2025-01-04T00:00:00Z,file:///logs/d.eval",
+      "math,anthropic/claude,accuracy,0.6,10,success,2025-01-03T00:00:00Z,file:///logs/c.eval",
+    ]);
+  });
+});
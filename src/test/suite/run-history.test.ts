@@ -0,0 +1,177 @@
+/**
+ * Tests for run-history-provider.ts - RunHistoryManager
+ */
+import * as assert from "assert";
+
+import { ExtensionContext, Uri } from "vscode";
+
+import {
+  RunHistoryManager,
+  RunRecord,
+} from "../../providers/runs/run-history-provider";
+
+/**
+ * Mock Memento for workspace state
+ */
+class MockMemento {
+  private storage: Map<string, unknown> = new Map();
+
+  get<T>(key: string): T | undefined {
+    return this.storage.get(key) as T | undefined;
+  }
+
+  update(key: string, value: unknown): Promise<void> {
+    this.storage.set(key, value);
+    return Promise.resolve();
+  }
+
+  keys(): readonly string[] {
+    return Array.from(this.storage.keys());
+  }
+}
+
+class MockExtensionContext {
+  workspaceState = new MockMemento();
+  subscriptions: Array<{ dispose: () => void }> = [];
+}
+
+function createRun(
+  overrides: Partial<Omit<RunRecord, "id" | "startedAt" | "outputs">> = {}
+): Omit<RunRecord, "id" | "startedAt" | "outputs"> {
+  return {
+    target: "Eval",
+    command: "inspect",
+    file: "/workspace/tasks.py",
+    task: "my_task",
+    args: ["eval", "tasks.py@my_task"],
+    cwd: "/workspace",
+    debug: false,
+    status: "running",
+    ...overrides,
+  };
+}
+
+suite("RunHistoryManager Test Suite", () => {
+  let context: MockExtensionContext;
+  let runHistory: RunHistoryManager;
+
+  setup(() => {
+    context = new MockExtensionContext();
+    runHistory = new RunHistoryManager(context as unknown as ExtensionContext);
+  });
+
+  teardown(() => {
+    runHistory.dispose();
+  });
+
+  test("should record started runs newest first", async () => {
+    const first = await runHistory.startRun(createRun({ task: "first" }));
+    const second = await runHistory.startRun(createRun({ task: "second" }));
+
+    const runs = runHistory.getRuns();
+    assert.strictEqual(runs.length, 2);
+    assert.strictEqual(runs[0]?.id, second.id);
+    assert.strictEqual(runs[1]?.id, first.id);
+    assert.deepStrictEqual(runs[0]?.outputs, []);
+  });
+
+  test("should cap the number of runs retained", async () => {
+    for (let i = 0; i < 60; i++) {
+      await runHistory.startRun(createRun({ status: "succeeded" }));
+    }
+    assert.strictEqual(runHistory.getRuns().length, 50);
+  });
+
+  test("should record exit status when a run ends", async () => {
+    const run = await runHistory.startRun(createRun());
+    await runHistory.endRun(run.id, "failed", 1);
+
+    const ended = runHistory.getRun(run.id);
+    assert.strictEqual(ended?.status, "failed");
+    assert.strictEqual(ended?.exitCode, 1);
+    assert.ok(ended?.endedAt);
+    assert.strictEqual(runHistory.runningRuns().length, 0);
+  });
+
+  test("should keep cancelled status when an interrupted run exits", async () => {
+    const run = await runHistory.startRun(createRun());
+    await runHistory.updateRun(run.id, (r) => ({ ...r, status: "cancelled" }));
+    await runHistory.endRun(run.id, "failed", 2);
+
+    assert.strictEqual(runHistory.getRun(run.id)?.status, "cancelled");
+  });
+
+  test("should attach outputs to the most recent matching run", async () => {
+    await runHistory.startRun(createRun({ target: "Scan" }));
+    const evalRun = await runHistory.startRun(createRun());
+    const log = Uri.file("/workspace/logs/log.eval");
+
+    await runHistory.attachOutput("Eval", log);
+    // duplicate notifications are ignored
+    await runHistory.attachOutput("Eval", log);
+
+    assert.deepStrictEqual(runHistory.getRun(evalRun.id)?.outputs, [
+      log.toString(),
+    ]);
+  });
+
+  test("should not attach outputs to runs that ended long ago", async () => {
+    const run = await runHistory.startRun(createRun());
+    await runHistory.updateRun(run.id, (r) => ({
+      ...r,
+      status: "succeeded",
+      endedAt: Date.now() - 60 * 60 * 1000,
+    }));
+
+    await runHistory.attachOutput("Eval", Uri.file("/workspace/logs/x.eval"));
+    assert.deepStrictEqual(runHistory.getRun(run.id)?.outputs, []);
+  });
+
+  test("should not attach outputs to untracked runs started long ago", async () => {
+    const run = await runHistory.startRun(createRun());
+    await runHistory.updateRun(run.id, (r) => ({
+      ...r,
+      status: "untracked",
+      startedAt: Date.now() - 24 * 60 * 60 * 1000,
+    }));
+
+    await runHistory.attachOutput("Eval", Uri.file("/workspace/logs/x.eval"));
+    assert.deepStrictEqual(runHistory.getRun(run.id)?.outputs, []);
+  });
+
+  test("should keep running runs when cleared", async () => {
+    const running = await runHistory.startRun(createRun());
+    const done = await runHistory.startRun(createRun());
+    await runHistory.endRun(done.id, "succeeded", 0);
+
+    await runHistory.clear();
+    assert.deepStrictEqual(
+      runHistory.getRuns().map((r) => r.id),
+      [running.id]
+    );
+  });
+
+  test("should mark stale running runs as ended on load", async () => {
+    const run = await runHistory.startRun(createRun());
+    const reloaded = new RunHistoryManager(
+      context as unknown as ExtensionContext
+    );
+    assert.strictEqual(reloaded.getRun(run.id)?.status, "ended");
+    reloaded.dispose();
+  });
+
+  test("should keep untracked runs running until they end", async () => {
+    const run = await runHistory.startRun(createRun({ status: "untracked" }));
+    assert.deepStrictEqual(
+      runHistory.runningRuns("Eval").map((r) => r.id),
+      [run.id]
+    );
+
+    const reloaded = new RunHistoryManager(
+      context as unknown as ExtensionContext
+    );
+    assert.strictEqual(reloaded.getRun(run.id)?.status, "ended");
+    assert.deepStrictEqual(reloaded.runningRuns(), []);
+    reloaded.dispose();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for task-config-file.ts - workspace task configuration files
+ */
+import * as assert from "assert";
+
+import {
+  normalizeTaskConfig,
+  parseTaskConfig,
+  stringifyTaskConfig,
+  TaskConfigFileContents,
+  taskConfigKey,
+} from "../../providers/workspace/task-config-file";
+
+suite("Task Config File Test Suite", () => {
+  suite("taskConfigKey", () => {
+    test("should include the task name when provided", () => {
+      assert.strictEqual(
+        taskConfigKey("evals/arc.py", "arc_easy"),
+        "evals/arc.py@arc_easy"
+      );
+    });
+
+    test("should use the file alone without a task name", () => {
+      assert.strictEqual(taskConfigKey("evals/arc.py"), "evals/arc.py");
+    });
+  });
+
+  suite("parseTaskConfig", () => {
+    test("should parse json", () => {
+      assert.deepStrictEqual(
+        parseTaskConfig('{"tasks": {"a.py": {"limit": "5"}}}', "json"),
+        { tasks: { "a.py": { limit: "5" } } }
+      );
+    });
+
+    test("should parse yaml", () => {
+      assert.deepStrictEqual(
+        parseTaskConfig("tasks:\n  a.py:\n    limit: 5\n", "yaml"),
+        { tasks: { "a.py": { limit: 5 } } }
+      );
+    });
+
+    test("should treat an empty file as empty", () => {
+      assert.deepStrictEqual(parseTaskConfig("  \n", "json"), {});
+    });
+
+    test("should throw for invalid json", () => {
+      assert.throws(() => parseTaskConfig("{", "json"));
+    });
+  });
+
+  suite("normalizeTaskConfig", () => {
+    test("should convert scalar values to strings", () => {
+      const contents = normalizeTaskConfig({
+        tasks: {
+          "a.py@one": {
+            limit: 5,
+            temperature: 0.7,
+            params: { shuffle: true, count: 3, name: "x" },
+            models: ["openai/gpt-4o"],
+          },
+        },
+      });
+      assert.deepStrictEqual(contents, {
+        tasks: {
+          "a.py@one": {
+            limit: "5",
+            temperature: "0.7",
+            params: { shuffle: "true", count: "3", name: "x" },
+            models: ["openai/gpt-4o"],
+          },
+        },
+      });
+    });
+
+    test("should read presets and the default preset", () => {
+      const contents = normalizeTaskConfig({
+        tasks: {
+          "a.py@one": {
+            presets: { smoke: { limit: 5 }, full: {} },
+            defaultPreset: "smoke",
+          },
+        },
+      });
+      assert.deepStrictEqual(contents.tasks["a.py@one"], {
+        presets: { smoke: { limit: "5" }, full: {} },
+        defaultPreset: "smoke",
+      });
+    });
+
+    test("should read eval options (joining lists into lines)", () => {
+      const contents = normalizeTaskConfig({
+        tasks: {
+          "a.py@one": {
+            options: {
+              max_connections: 20,
+              metadata: ["owner=evals", "team=safety"],
+            },
+          },
+        },
+      });
+      assert.deepStrictEqual(contents.tasks["a.py@one"], {
+        options: {
+          max_connections: "20",
+          metadata: "owner=evals\nteam=safety",
+        },
+      });
+    });
+
+    test("should ignore unknown and invalid values", () => {
+      const contents = normalizeTaskConfig({
+        tasks: {
+          "a.py@one": { limit: [1, 2], other: "x" },
+          "b.py": "invalid",
+        },
+      });
+      assert.deepStrictEqual(contents, { tasks: { "a.py@one": {} } });
+    });
+
+    test("should handle missing tasks", () => {
+      assert.deepStrictEqual(normalizeTaskConfig(undefined), { tasks: {} });
+      assert.deepStrictEqual(normalizeTaskConfig({}), { tasks: {} });
+    });
+  });
+
+  suite("stringifyTaskConfig", () => {
+    const contents: TaskConfigFileContents = {
+      tasks: {
+        "a.py@one": {
+          limit: "5",
+          params: { shuffle: "true" },
+          presets: { full: { epochs: "3" } },
+          defaultPreset: "full",
+        },
+      },
+    };
+
+    test("should round trip json", () => {
+      const json = stringifyTaskConfig(contents, "json");
+      assert.deepStrictEqual(
+        normalizeTaskConfig(parseTaskConfig(json, "json")),
+        contents
+      );
+    });
+
+    test("should round trip yaml", () => {
+      const yaml = stringifyTaskConfig(contents, "yaml");
+      assert.deepStrictEqual(
+        normalizeTaskConfig(parseTaskConfig(yaml, "yaml")),
+        contents
+      );
+    });
+  });
+});
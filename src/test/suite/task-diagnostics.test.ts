@@ -0,0 +1,156 @@
+/**
+ * Tests for task-diagnostics.ts - static checks of task definitions
+ */
+import * as assert from "assert";
+
+import {
+  findTaskProblems,
+  placeholderDefault,
+  readTaskDefinitions,
+  TaskProblemContext,
+} from "../../components/task-diagnostics";
+
+const kNoContext: TaskProblemContext = {
+  otherDefinitions: () => [],
+  savedParams: () => [],
+};
+
+function problemKinds(source: string, context = kNoContext) {
+  return findTaskProblems(readTaskDefinitions(source), context).map(
+    (problem) => `${problem.kind}:${problem.task}`
+  );
+}
+
+suite("Task Diagnostics Test Suite", () => {
+  suite("readTaskDefinitions", () => {
+    test("should read params and their locations", () => {
+      const source = [
+        "@task",
+        "def math(",
+        "    level: int,  # the difficulty",
+        '    mode: Literal["a", "b"] = "a",',
+        "    *,",
+        "    shuffle=False,",
+        ") -> Task:",
+        "    return Task()",
+      ].join("\n");
+      const [task] = readTaskDefinitions(source);
+      assert.ok(task);
+      assert.strictEqual(task.name, "math");
+      assert.deepStrictEqual(task.range, {
+        start: { line: 1, character: 4 },
+        end: { line: 1, character: 8 },
+      });
+      assert.deepStrictEqual(
+        task.params.map((param) => [param.name, param.default]),
+        [
+          ["level", undefined],
+          ["mode", "a"],
+          ["shuffle", "False"],
+        ]
+      );
+      assert.deepStrictEqual(task.params[0]?.range.start, {
+        line: 2,
+        character: 4,
+      });
+      assert.deepStrictEqual(task.params[0]?.end, {
+        line: 2,
+        character: 14,
+      });
+      assert.strictEqual(task.acceptsKwargs, false);
+      assert.strictEqual(task.returnsValue, true);
+    });
+
+    test("should use the name given by the decorator", () => {
+      const source = [
+        '@task(name="renamed")',
+        "def original(**kwargs):",
+        "    return Task()",
+      ].join("\n");
+      const [task] = readTaskDefinitions(source);
+      assert.strictEqual(task?.name, "renamed");
+      assert.strictEqual(task?.acceptsKwargs, true);
+    });
+
+    test("should ignore other decorated functions", () => {
+      const source = ["@solver", "def my_solver():", "    pass"].join("\n");
+      assert.deepStrictEqual(readTaskDefinitions(source), []);
+    });
+  });
+
+  suite("findTaskProblems", () => {
+    test("should report params without defaults", () => {
+      const source = ["@task", "def a(x, y=1):", "    return Task()"].join(
+        "\n"
+      );
+      assert.deepStrictEqual(problemKinds(source), ["missing-default:a"]);
+      assert.deepStrictEqual(
+        problemKinds(source, { ...kNoContext, savedParams: () => ["x"] }),
+        []
+      );
+    });
+
+    test("should report saved values for params that no longer exist", () => {
+      const source = ["@task", "def a(x=1):", "    return Task()"].join("\n");
+      const [problem] = findTaskProblems(readTaskDefinitions(source), {
+        ...kNoContext,
+        savedParams: () => ["x", "old"],
+      });
+      assert.strictEqual(problem?.kind, "stale-param");
+      assert.deepStrictEqual(problem?.params, ["old"]);
+    });
+
+    test("should report duplicate task names", () => {
+      const source = [
+        "@task",
+        "def a():",
+        "    return Task()",
+        "",
+        '@task(name="a")',
+        "def b():",
+        "    return Task()",
+      ].join("\n");
+      assert.deepStrictEqual(problemKinds(source), [
+        "duplicate-task:a",
+        "duplicate-task:a",
+      ]);
+
+      const [task] = readTaskDefinitions(source.split("\n\n")[0] ?? "");
+      const [problem] = findTaskProblems(task ? [task] : [], {
+        ...kNoContext,
+        otherDefinitions: () => ["other/tasks.py"],
+      });
+      assert.deepStrictEqual(problem?.files, ["other/tasks.py"]);
+    });
+
+    test("should report task functions which don't return a value", () => {
+      const source = [
+        "@task",
+        "def a():",
+        "    Task()",
+        "",
+        "def helper():",
+        "    return 1",
+      ].join("\n");
+      assert.deepStrictEqual(problemKinds(source), ["missing-return:a"]);
+    });
+  });
+
+  suite("placeholderDefault", () => {
+    test("should use a value of the param type", () => {
+      const [task] = readTaskDefinitions(
+        [
+          "@task",
+          "def a(b: bool, n: int, s: str, o: list[str]):",
+          "    return Task()",
+        ].join("\n")
+      );
+      assert.deepStrictEqual(task?.params.map(placeholderDefault), [
+        "False",
+        "0",
+        '""',
+        "None",
+      ]);
+    });
+  });
+});
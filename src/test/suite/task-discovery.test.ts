@@ -0,0 +1,89 @@
+/**
+ * Tests for task discovery - parsing `inspect list tasks` output and
+ * scanning task files
+ */
+import * as assert from "assert";
+
+import { parseInspectTasks } from "../../inspect/tasks";
+import { scanTaskNames } from "../../providers/workspace/workspace-task-provider";
+
+suite("Task Discovery Test Suite", () => {
+  suite("parseInspectTasks", () => {
+    test("should parse tasks listed by inspect", () => {
+      const output = JSON.stringify([
+        {
+          file: "evals/math.py",
+          name: "gsm8k",
+          attribs: { epochs: 2 },
+        },
+        { file: "notebook.ipynb", name: "notebook_task", attribs: {} },
+      ]);
+      assert.deepStrictEqual(parseInspectTasks(output), [
+        { file: "evals/math.py", name: "gsm8k", attribs: { epochs: 2 } },
+        { file: "notebook.ipynb", name: "notebook_task", attribs: {} },
+      ]);
+    });
+
+    test("should skip malformed entries", () => {
+      const output = JSON.stringify([
+        { file: "a.py", name: "a" },
+        { file: "b.py" },
+        "c",
+        null,
+      ]);
+      assert.deepStrictEqual(parseInspectTasks(output), [
+        { file: "a.py", name: "a", attribs: {} },
+      ]);
+    });
+
+    test("should throw for output that isn't a list", () => {
+      assert.throws(() => parseInspectTasks('{"tasks": []}'));
+      assert.throws(() => parseInspectTasks("Error: not json"));
+    });
+  });
+
+  suite("scanTaskNames", () => {
+    test("should find decorated task functions", () => {
+      const source = [
+        "@task",
+        "def one():",
+        "    pass",
+        "",
+        "@task()",
+        "def two(limit: int = 10):",
+        "    pass",
+      ].join("\n");
+      assert.deepStrictEqual(scanTaskNames(source), ["one", "two"]);
+    });
+
+    test("should use the name given by the @task decorator", () => {
+      const source = [
+        '@task(name="renamed")',
+        "def one():",
+        "    pass",
+        "",
+        "@task(",
+        "    name='also_renamed',",
+        ")",
+        "def two():",
+        "    pass",
+      ].join("\n");
+      assert.deepStrictEqual(scanTaskNames(source), [
+        "renamed",
+        "also_renamed",
+      ]);
+    });
+
+    test("should find tasks with other decorators", () => {
+      const source = ["@task", "@cache_results", "def one():", "    pass"].join(
+        "\r\n"
+      );
+      assert.deepStrictEqual(scanTaskNames(source), ["one"]);
+    });
+
+    test("should ignore functions without a task decorator", () => {
+      const source = ["@solver", "def one():", "    pass"].join("\n");
+      assert.deepStrictEqual(scanTaskNames(source), []);
+    });
+  });
+});
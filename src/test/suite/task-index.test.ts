@@ -0,0 +1,187 @@
+/**
+ * Tests for task-index.ts - the incremental workspace task index
+ */
+import * as assert from "assert";
+import { join } from "path";
+
+import {
+  isTaskFile,
+  TaskIndex,
+  TaskTree,
+} from "../../providers/workspace/task-index";
+import type { TaskPath } from "../../providers/workspace/workspace-task-provider";
+
+suite("Task Index Test Suite", () => {
+  suite("isTaskFile", () => {
+    test("should accept python files and notebooks", () => {
+      assert.strictEqual(isTaskFile("evals/math.py"), true);
+      assert.strictEqual(isTaskFile(join("evals", "nb.ipynb")), true);
+      assert.strictEqual(isTaskFile("README.md"), false);
+    });
+
+    test("should skip excluded and hidden paths", () => {
+      assert.strictEqual(isTaskFile(".venv/lib/site.py"), false);
+      assert.strictEqual(isTaskFile("src/__pycache__/a.py"), false);
+      assert.strictEqual(isTaskFile("pkg.egg-info/a.py"), false);
+      assert.strictEqual(isTaskFile("_scratch/a.py"), false);
+      assert.strictEqual(isTaskFile("evals/_helpers.py"), true);
+    });
+  });
+
+  suite("TaskIndex", () => {
+    test("should report added and removed tasks", () => {
+      const index = new TaskIndex();
+      assert.deepStrictEqual(index.update("a.py", { mtime: 1, tasks: ["x"] }), {
+        added: [{ file: "a.py", name: "x" }],
+        removed: [],
+      });
+      assert.deepStrictEqual(
+        index.update("a.py", { mtime: 2, tasks: ["x", "y"] }),
+        { added: [{ file: "a.py", name: "y" }], removed: [] }
+      );
+      assert.deepStrictEqual(index.update("a.py", { mtime: 3, tasks: ["y"] }), {
+        added: [],
+        removed: [{ file: "a.py", name: "x" }],
+      });
+      assert.strictEqual(index.entry("a.py")?.mtime, 3);
+    });
+
+    test("should remove files within a directory", () => {
+      const index = new TaskIndex();
+      index.update(join("evals", "a.py"), { mtime: 1, tasks: ["a"] });
+      index.update(join("evals", "b.py"), { mtime: 1, tasks: ["b"] });
+      index.update("evals.py", { mtime: 1, tasks: ["c"] });
+      const change = index.remove("evals");
+      assert.deepStrictEqual(
+        change.removed.map((task) => task.name),
+        ["a", "b"]
+      );
+      assert.deepStrictEqual(index.files(), ["evals.py"]);
+    });
+
+    test("should round trip persisted data", () => {
+      const index = new TaskIndex();
+      index.update("a.py", { mtime: 1, tasks: ["x"] });
+      index.update("b.py", { mtime: 2, tasks: [] });
+      const restored = TaskIndex.fromData(
+        JSON.parse(JSON.stringify(index.toData()))
+      );
+      assert.deepStrictEqual(restored.descriptors(), [
+        { file: "a.py", name: "x" },
+      ]);
+      assert.strictEqual(restored.entry("b.py")?.mtime, 2);
+    });
+
+    test("should ignore data from other versions", () => {
+      const index = TaskIndex.fromData({
+        version: 0,
+        files: { "a.py": { mtime: 1, tasks: ["x"] } },
+      });
+      assert.deepStrictEqual(index.files(), []);
+    });
+  });
+
+  suite("TaskTree", () => {
+    const root = join("/", "workspace");
+
+    test("should create folder and file nodes", () => {
+      const tree = new TaskTree(root);
+      const changed = tree.setFileTasks(join("evals", "a.py"), ["x", "y"]);
+      assert.strictEqual(changed, undefined);
+
+      const [folder] = tree.roots();
+      assert.strictEqual(folder?.type, "folder");
+      assert.strictEqual(folder?.name, "evals");
+      const [file] = folder?.children || [];
+      assert.strictEqual(file?.type, "file");
+      assert.strictEqual(file?.path, join(root, "evals", "a.py"));
+      assert.deepStrictEqual(
+        file?.children?.map((task) => [task.type, task.name]),
+        [
+          ["task", "x"],
+          ["task", "y"],
+        ]
+      );
+    });
+
+    test("should report the node whose children changed", () => {
+      const tree = new TaskTree(root);
+      tree.setFileTasks(join("evals", "a.py"), ["x"]);
+      const folder = tree.roots()[0];
+
+      // A new file in an existing folder
+      assert.strictEqual(
+        tree.setFileTasks(join("evals", "b.py"), ["y"]),
+        folder
+      );
+      assert.deepStrictEqual(
+        folder?.children?.map((node) => node.name),
+        ["a.py", "b.py"]
+      );
+
+      // Changed tasks in an existing file
+      const file = folder?.children?.[0];
+      assert.strictEqual(
+        tree.setFileTasks(join("evals", "a.py"), ["x", "z"]),
+        file
+      );
+
+      // A removed file
+      assert.strictEqual(tree.setFileTasks(join("evals", "b.py"), []), folder);
+    });
+
+    test("should remove folders left empty", () => {
+      const tree = new TaskTree(root);
+      tree.setFileTasks(join("evals", "math", "a.py"), ["x"]);
+      tree.setFileTasks("b.py", ["y"]);
+      assert.strictEqual(
+        tree.setFileTasks(join("evals", "math", "a.py"), []),
+        undefined
+      );
+      assert.deepStrictEqual(
+        tree.roots().map((node) => node.name),
+        ["b.py"]
+      );
+    });
+
+    test("should not report changes for files that aren't in the tree", () => {
+      const tree = new TaskTree(root);
+      tree.setFileTasks("a.py", ["x"]);
+      assert.strictEqual(tree.setFileTasks("b.py", []), null);
+      assert.deepStrictEqual(
+        tree.roots().map((node) => node.name),
+        ["a.py"]
+      );
+    });
+
+    test("should add nodes beneath a workspace folder node", () => {
+      const folderNode: TaskPath = {
+        name: "workspace",
+        path: root,
+        type: "folder",
+      };
+      const tree = new TaskTree(root, folderNode);
+
+      // Top level changes are reported for the folder node
+      assert.strictEqual(tree.setFileTasks("a.py", ["x"]), folderNode);
+      assert.strictEqual(
+        tree.setFileTasks(join("evals", "b.py"), ["y"]),
+        folderNode
+      );
+      assert.strictEqual(tree.roots(), folderNode.children);
+      assert.deepStrictEqual(
+        folderNode.children?.map((node) => [node.name, node.parent]),
+        [
+          ["a.py", folderNode],
+          ["evals", folderNode],
+        ]
+      );
+
+      assert.strictEqual(tree.setFileTasks("a.py", []), folderNode);
+      assert.deepStrictEqual(
+        folderNode.children?.map((node) => node.name),
+        ["evals"]
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for task-params.ts - task parameter types and validation
+ */
+import * as assert from "assert";
+
+import {
+  parseTaskParam,
+  TaskParamInfo,
+  validateTaskParam,
+  validateTaskParams,
+} from "../../components/task-params";
+
+suite("Task Params Test Suite", () => {
+  suite("parseTaskParam", () => {
+    test("should parse an unannotated param", () => {
+      assert.deepStrictEqual(parseTaskParam("dataset"), {
+        name: "dataset",
+        type: "unknown",
+        optional: false,
+      });
+    });
+
+    test("should parse simple annotations and defaults", () => {
+      assert.deepStrictEqual(parseTaskParam("shuffle: bool = False"), {
+        name: "shuffle",
+        type: "bool",
+        annotation: "bool",
+        default: "False",
+        optional: false,
+      });
+      assert.strictEqual(parseTaskParam("count: int = 5")?.type, "int");
+      assert.strictEqual(
+        parseTaskParam("temperature: float = 0.5")?.type,
+        "float"
+      );
+      assert.deepStrictEqual(parseTaskParam('name: str = "hello"'), {
+        name: "name",
+        type: "str",
+        annotation: "str",
+        default: "hello",
+        optional: false,
+      });
+    });
+
+    test("should parse Literal choices", () => {
+      const param = parseTaskParam(
+        'difficulty: Literal["easy", "hard"] = "easy"'
+      );
+      assert.strictEqual(param?.type, "choice");
+      assert.deepStrictEqual(param?.choices, ["easy", "hard"]);
+      assert.strictEqual(param?.default, "easy");
+    });
+
+    test("should parse optional types", () => {
+      const union = parseTaskParam("limit: int | None = None");
+      assert.strictEqual(union?.type, "int");
+      assert.strictEqual(union?.optional, true);
+      assert.strictEqual(union?.default, "None");
+
+      const optional = parseTaskParam("name: Optional[str] = None");
+      assert.strictEqual(optional?.type, "str");
+      assert.strictEqual(optional?.optional, true);
+    });
+
+    test("should parse list types", () => {
+      assert.strictEqual(parseTaskParam("tags: list[str]")?.type, "list");
+      assert.strictEqual(
+        parseTaskParam("ids: List[int] | None = None")?.type,
+        "list"
+      );
+      assert.strictEqual(parseTaskParam("ids = [1, 2]")?.type, "list");
+    });
+
+    test("should infer types from defaults without annotations", () => {
+      assert.strictEqual(parseTaskParam("shuffle=True")?.type, "bool");
+      assert.strictEqual(parseTaskParam("count=10")?.type, "int");
+      assert.strictEqual(parseTaskParam("rate=0.1")?.type, "float");
+      assert.strictEqual(parseTaskParam("name='x'")?.type, "str");
+    });
+
+    test("should treat other unions and types as unknown", () => {
+      assert.strictEqual(
+        parseTaskParam("solver: Solver | list[Solver] | None = None")?.type,
+        "unknown"
+      );
+      assert.strictEqual(
+        parseTaskParam("data: dict[str, int] = {}")?.type,
+        "unknown"
+      );
+    });
+
+    test("should ignore *args and **kwargs", () => {
+      assert.strictEqual(parseTaskParam("*args"), undefined);
+      assert.strictEqual(parseTaskParam("**kwargs"), undefined);
+    });
+  });
+
+  suite("validateTaskParam", () => {
+    const param = (
+      type: TaskParamInfo["type"],
+      extra: Partial<TaskParamInfo> = {}
+    ): TaskParamInfo => ({ name: "p", type, optional: false, ...extra });
+
+    test("should accept empty values", () => {
+      assert.strictEqual(validateTaskParam(param("int"), ""), undefined);
+    });
+
+    test("should validate bools", () => {
+      assert.strictEqual(validateTaskParam(param("bool"), "True"), undefined);
+      assert.ok(validateTaskParam(param("bool"), "yes"));
+    });
+
+    test("should validate numbers", () => {
+      assert.strictEqual(validateTaskParam(param("int"), "-3"), undefined);
+      assert.ok(validateTaskParam(param("int"), "3.5"));
+      assert.strictEqual(validateTaskParam(param("float"), "3.5"), undefined);
+      assert.ok(validateTaskParam(param("float"), "abc"));
+    });
+
+    test("should validate choices", () => {
+      const choice = param("choice", { choices: ["easy", "hard"] });
+      assert.strictEqual(validateTaskParam(choice, "hard"), undefined);
+      assert.ok(validateTaskParam(choice, "medium"));
+    });
+
+    test("should accept None for optional params", () => {
+      assert.strictEqual(
+        validateTaskParam(param("int", { optional: true }), "None"),
+        undefined
+      );
+      assert.ok(validateTaskParam(param("int"), "None"));
+    });
+  });
+
+  suite("validateTaskParams", () => {
+    test("should report errors for invalid values", () => {
+      const params = [
+        parseTaskParam("count: int = 5")!,
+        parseTaskParam("shuffle: bool = False")!,
+        parseTaskParam("name: str")!,
+      ];
+      assert.deepStrictEqual(
+        validateTaskParams(params, { count: "x", shuffle: "true", name: "y" }),
+        ["count must be an integer"]
+      );
+      assert.deepStrictEqual(validateTaskParams(params, undefined), []);
+    });
+  });
+});
@@ -153,7 +153,7 @@ def my_task():
 
     test("should detect @task with arguments", () => {
       const doc = createDocument(`
-@task(name="test")
+@task(epochs=2)
 def my_task():
     pass
 `);
@@ -164,6 +164,37 @@ def my_task():
       assert.strictEqual(task.name, "my_task");
     });
 
+    test("should use the name given by the @task decorator", () => {
+      const doc = createDocument(`
+@task(name="test")
+def my_task():
+    pass
+`);
+      const tasks = readTaskData(doc);
+      assert.strictEqual(tasks.length, 1);
+      const [task] = tasks;
+      assert.ok(task);
+      assert.strictEqual(task.name, "test");
+    });
+
+    test("should read the name from a multi-line @task decorator", () => {
+      const doc = createDocument(`
+@task(
+    name='renamed',
+    epochs=2,
+)
+@other_decorator
+def my_task(limit: int = 10):
+    pass
+`);
+      const tasks = readTaskData(doc);
+      assert.strictEqual(tasks.length, 1);
+      const [task] = tasks;
+      assert.ok(task);
+      assert.strictEqual(task.name, "renamed");
+      assert.deepStrictEqual(task.params, ["limit"]);
+    });
+
     test("should detect multiple tasks in a file", () => {
       const doc = createDocument(`
 @task
@@ -451,6 +482,28 @@ def my_task(   dataset:str   ,   model : str   ):
       assert.deepStrictEqual(task.params, ["dataset", "model"]);
     });
 
+    test("should read parameter types and defaults", () => {
+      const doc = createDocument(`
+@task
+def my_task(
+    difficulty: Literal["easy", "hard"] = "easy",
+    limit: int | None = None,
+    shuffle=False
+):
+    pass
+`);
+      const [task] = readTaskData(doc);
+      assert.ok(task);
+      assert.deepStrictEqual(
+        task.paramInfo?.map((param) => [param.name, param.type, param.default]),
+        [
+          ["difficulty", "choice", "easy"],
+          ["limit", "int", "None"],
+          ["shuffle", "bool", "False"],
+        ]
+      );
+    });
+
     test("should handle parameters with nested generics", () => {
       const doc = createDocument(`
 @task
@@ -9,6 +9,7 @@ import {
   normalizeWindowsUri,
   prettyUriPath,
   resolveToUri,
+  uriCommandArg,
 } from "../../core/uri";
 
 suite("URI Utilities Test Suite", () => {
@@ -149,6 +150,18 @@ suite("URI Utilities Test Suite", () => {
     });
   });
 
+  suite("uriCommandArg", () => {
+    test("should use the file system path for file URIs", () => {
+      const uri = Uri.file("/tmp/logs/run");
+      assert.strictEqual(uriCommandArg(uri), uri.fsPath);
+    });
+
+    test("should use the full URI for remote schemes", () => {
+      const uri = Uri.parse("s3://bucket/logs/run");
+      assert.strictEqual(uriCommandArg(uri), "s3://bucket/logs/run");
+    });
+  });
+
   suite("getRelativeUri", () => {
     test("should return relative path for child URI", () => {
       const parent = Uri.file("/home/user/project");
@@ -0,0 +1,76 @@
+/**
+ * Tests for workspace-env-provider.ts - the .env file of each workspace folder
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { Uri } from "vscode";
+
+import { WorkspaceEnvManager } from "../../providers/workspace/workspace-env-provider";
+
+import { MockWorkspaceFolders } from "./workspace-mocks";
+
+suite("Workspace Env Test Suite", () => {
+  let dir: string;
+  let evals: string;
+  let tools: string;
+  let folders: MockWorkspaceFolders;
+  let envManager: WorkspaceEnvManager;
+
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-env-test-"));
+    evals = path.join(dir, "evals");
+    tools = path.join(dir, "tools");
+    fs.mkdirSync(evals);
+    fs.mkdirSync(tools);
+    fs.writeFileSync(path.join(tools, ".env"), "INSPECT_LOG_DIR=./tool-logs\n");
+    folders = new MockWorkspaceFolders([evals, tools]);
+    envManager = new WorkspaceEnvManager();
+  });
+
+  teardown(() => {
+    envManager.dispose();
+    folders.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should read the .env file of each folder", () => {
+    assert.deepStrictEqual(envManager.getValues(Uri.file(evals)), {});
+    assert.deepStrictEqual(envManager.getValues(Uri.file(tools)), {
+      INSPECT_LOG_DIR: "./tool-logs",
+    });
+  });
+
+  test("should resolve the default log dir of each folder", () => {
+    const task = Uri.file(path.join(tools, "src", "task.py"));
+    assert.strictEqual(
+      envManager.getDefaultLogDir(task).fsPath,
+      Uri.file(path.join(tools, "tool-logs")).fsPath
+    );
+    assert.strictEqual(
+      envManager.getDefaultLogDir(Uri.file(evals)).fsPath,
+      Uri.file(path.join(evals, "logs")).fsPath
+    );
+  });
+
+  test("should use the first folder by default", () => {
+    assert.strictEqual(
+      envManager.getDefaultLogDir().fsPath,
+      Uri.file(path.join(evals, "logs")).fsPath
+    );
+  });
+
+  test("should write values to the folder's .env file", () => {
+    envManager.setValues({ INSPECT_LOG_DIR: "other-logs" }, Uri.file(evals));
+    assert.strictEqual(
+      fs.readFileSync(path.join(evals, ".env"), "utf-8"),
+      "INSPECT_LOG_DIR=other-logs"
+    );
+    assert.strictEqual(
+      envManager.getDefaultLogDir(Uri.file(evals)).fsPath,
+      Uri.file(path.join(evals, "other-logs")).fsPath
+    );
+  });
+});
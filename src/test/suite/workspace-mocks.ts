@@ -0,0 +1,70 @@
+/**
+ * Shared mock utilities for testing code which uses the workspace folders
+ */
+import * as path from "path";
+
+import { Uri, workspace, WorkspaceFolder } from "vscode";
+
+/**
+ * Replaces the workspace folders (and workspace.getWorkspaceFolder) with
+ * folders at the given paths
+ */
+export class MockWorkspaceFolders {
+  readonly folders: WorkspaceFolder[];
+
+  constructor(paths: string[]) {
+    this.folders = paths.map((folderPath, index) => ({
+      uri: Uri.file(folderPath),
+      name: path.basename(folderPath),
+      index,
+    }));
+    this.originalFolders = Object.getOwnPropertyDescriptor(
+      workspace,
+      "workspaceFolders"
+    );
+    this.originalGetFolder = Object.getOwnPropertyDescriptor(
+      workspace,
+      "getWorkspaceFolder"
+    );
+    Object.defineProperty(workspace, "workspaceFolders", {
+      configurable: true,
+      get: () => this.folders,
+    });
+    Object.defineProperty(workspace, "getWorkspaceFolder", {
+      configurable: true,
+      value: (uri: Uri) => this.folderFor(uri),
+    });
+  }
+
+  /**
+   * Restore the original workspace folders
+   */
+  restore() {
+    for (const [key, descriptor] of [
+      ["workspaceFolders", this.originalFolders],
+      ["getWorkspaceFolder", this.originalGetFolder],
+    ] as const) {
+      if (descriptor) {
+        Object.defineProperty(workspace, key, descriptor);
+      } else {
+        delete (workspace as Record<string, unknown>)[key];
+      }
+    }
+  }
+
+  // The innermost folder containing a uri
+  private folderFor(uri: Uri): WorkspaceFolder | undefined {
+    return this.folders
+      .filter((folder) => {
+        if (uri.scheme !== folder.uri.scheme) {
+          return false;
+        }
+        const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+        return !relative.startsWith("..") && !path.isAbsolute(relative);
+      })
+      .sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)[0];
+  }
+
+  private readonly originalFolders?: PropertyDescriptor;
+  private readonly originalGetFolder?: PropertyDescriptor;
+}
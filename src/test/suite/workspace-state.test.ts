@@ -3,12 +3,23 @@
  */
 import * as assert from "assert";
 
+import { Uri } from "vscode";
+
+import {
+  normalizeTaskConfig,
+  TaskConfig,
+  TaskConfigFileContents,
+  TaskConfigFileManager,
+  taskConfigKey,
+} from "../../providers/workspace/task-config-file";
 import {
   DocumentState,
   ModelState,
   WorkspaceStateManager,
 } from "../../providers/workspace/workspace-state-provider";
 
+import { MockWorkspaceFolders } from "./workspace-mocks";
+
 /**
  * Mock Memento for workspace state
  */
@@ -58,6 +69,56 @@ class MockExtensionContext {
   logPath: string = "/mock/logs";
 }
 
+/**
+ * Mock task configuration file (for a workspace folder at /ws by default)
+ */
+class MockTaskConfigFile {
+  contents?: TaskConfigFileContents;
+
+  constructor(private readonly root_: string = "/ws") {}
+
+  hasFile() {
+    return this.contents !== undefined;
+  }
+
+  fileUri() {
+    return this.contents
+      ? { path: `${this.root_}/.inspect/tasks.json` }
+      : undefined;
+  }
+
+  taskKey(taskFilePath: string, taskName?: string) {
+    return taskFilePath.startsWith(`${this.root_}/`)
+      ? taskConfigKey(taskFilePath.slice(this.root_.length + 1), taskName)
+      : undefined;
+  }
+
+  getContents() {
+    return this.contents;
+  }
+
+  getTaskConfig(key: string) {
+    return this.contents?.tasks[key];
+  }
+
+  setTaskConfig(key: string, config: TaskConfig) {
+    const contents = this.contents || { tasks: {} };
+    contents.tasks[key] = config;
+    return this.write(contents);
+  }
+
+  write(contents: TaskConfigFileContents) {
+    this.contents = normalizeTaskConfig(contents);
+    return Promise.resolve();
+  }
+
+  onConfigChanged() {
+    return { dispose: () => {} };
+  }
+
+  dispose() {}
+}
+
 suite("WorkspaceStateManager Test Suite", () => {
   let context: MockExtensionContext;
   let stateManager: WorkspaceStateManager;
@@ -268,6 +329,239 @@ suite("WorkspaceStateManager Test Suite", () => {
     });
   });
 
+  suite("Task Preset Management", () => {
+    const file = "/path/to/file.py";
+
+    test("should return no presets for a new task", () => {
+      const presets = stateManager.getTaskPresets(file, "my_task");
+      assert.deepStrictEqual(presets.presets, {});
+      assert.strictEqual(presets.defaultPreset, undefined);
+      assert.strictEqual(
+        stateManager.defaultTaskPreset(file, "my_task"),
+        undefined
+      );
+    });
+
+    test("should keep preset state separate from the task state", async () => {
+      await stateManager.setTaskState(file, { limit: "100" }, "my_task");
+      await stateManager.createTaskPreset(file, "my_task", "smoke", {
+        limit: "5",
+      });
+
+      assert.deepStrictEqual(stateManager.getTaskState(file, "my_task"), {
+        limit: "100",
+      });
+      assert.deepStrictEqual(
+        stateManager.getTaskState(file, "my_task", "smoke"),
+        { limit: "5" }
+      );
+      assert.strictEqual(
+        stateManager.getTaskPresets(file, "my_task").selectedPreset,
+        "smoke"
+      );
+    });
+
+    test("should update preset state", async () => {
+      await stateManager.createTaskPreset(file, "my_task", "full");
+      await stateManager.setTaskState(file, { epochs: "3" }, "my_task", "full");
+      assert.deepStrictEqual(
+        stateManager.getTaskState(file, "my_task", "full"),
+        { epochs: "3" }
+      );
+    });
+
+    test("should copy state when duplicating a preset", async () => {
+      const state: DocumentState = { params: { difficulty: "hard" } };
+      await stateManager.createTaskPreset(file, "my_task", "hard", state);
+      state.params!["difficulty"] = "easy";
+
+      assert.deepStrictEqual(
+        stateManager.getTaskState(file, "my_task", "hard"),
+        { params: { difficulty: "hard" } }
+      );
+    });
+
+    test("should rename presets and follow the default", async () => {
+      await stateManager.createTaskPreset(file, "my_task", "smoke", {
+        limit: "5",
+      });
+      await stateManager.setDefaultTaskPreset(file, "my_task", "smoke");
+      await stateManager.renameTaskPreset(file, "my_task", "smoke", "quick");
+
+      const presets = stateManager.getTaskPresets(file, "my_task");
+      assert.deepStrictEqual(Object.keys(presets.presets), ["quick"]);
+      assert.strictEqual(presets.defaultPreset, "quick");
+      assert.strictEqual(presets.selectedPreset, "quick");
+      assert.strictEqual(
+        stateManager.defaultTaskPreset(file, "my_task"),
+        "quick"
+      );
+    });
+
+    test("should clear the default when deleting a preset", async () => {
+      await stateManager.createTaskPreset(file, "my_task", "smoke");
+      await stateManager.setDefaultTaskPreset(file, "my_task", "smoke");
+      await stateManager.deleteTaskPreset(file, "my_task", "smoke");
+
+      const presets = stateManager.getTaskPresets(file, "my_task");
+      assert.deepStrictEqual(presets.presets, {});
+      assert.strictEqual(presets.defaultPreset, undefined);
+      assert.strictEqual(presets.selectedPreset, undefined);
+    });
+
+    test("should keep presets separate for different tasks", async () => {
+      await stateManager.createTaskPreset(file, "task1", "smoke");
+      assert.deepStrictEqual(
+        stateManager.getTaskPresets(file, "task2").presets,
+        {}
+      );
+    });
+  });
+
+  suite("Task Configuration File", () => {
+    let folders: MockWorkspaceFolders;
+    let configFile: MockTaskConfigFile;
+    let fileStateManager: WorkspaceStateManager;
+
+    setup(() => {
+      folders = new MockWorkspaceFolders(["/ws", "/ws2"]);
+      configFile = new MockTaskConfigFile();
+      fileStateManager = new WorkspaceStateManager(
+        context as unknown as import("vscode").ExtensionContext
+      );
+      fileStateManager.setTaskConfigFile(
+        Uri.file("/ws"),
+        configFile as unknown as TaskConfigFileManager
+      );
+    });
+
+    teardown(() => {
+      fileStateManager.dispose();
+      folders.restore();
+    });
+
+    test("should use workspace state when there is no file", async () => {
+      await fileStateManager.setTaskState("/ws/a.py", { limit: "5" }, "one");
+      assert.strictEqual(configFile.contents, undefined);
+      assert.deepStrictEqual(fileStateManager.getTaskState("/ws/a.py", "one"), {
+        limit: "5",
+      });
+    });
+
+    test("should read and write task state in the file", async () => {
+      configFile.contents = { tasks: { "a.py@one": { limit: "5" } } };
+      assert.deepStrictEqual(fileStateManager.getTaskState("/ws/a.py", "one"), {
+        limit: "5",
+      });
+
+      await fileStateManager.setTaskState("/ws/a.py", { epochs: "2" }, "one");
+      assert.deepStrictEqual(configFile.contents.tasks["a.py@one"], {
+        epochs: "2",
+      });
+    });
+
+    test("should keep task files outside the workspace in workspace state", async () => {
+      configFile.contents = { tasks: {} };
+      await fileStateManager.setTaskState("/other/a.py", { limit: "5" }, "one");
+      assert.deepStrictEqual(configFile.contents.tasks, {});
+      assert.deepStrictEqual(
+        fileStateManager.getTaskState("/other/a.py", "one"),
+        { limit: "5" }
+      );
+    });
+
+    test("should use the file of the task file's workspace folder", async () => {
+      const otherFile = new MockTaskConfigFile("/ws2");
+      fileStateManager.setTaskConfigFile(
+        Uri.file("/ws2"),
+        otherFile as unknown as TaskConfigFileManager
+      );
+      configFile.contents = { tasks: { "a.py@one": { limit: "5" } } };
+      otherFile.contents = { tasks: { "a.py@one": { limit: "10" } } };
+
+      assert.deepStrictEqual(fileStateManager.getTaskState("/ws/a.py", "one"), {
+        limit: "5",
+      });
+      assert.deepStrictEqual(
+        fileStateManager.getTaskState("/ws2/a.py", "one"),
+        { limit: "10" }
+      );
+
+      await fileStateManager.createTaskPreset("/ws2/a.py", "one", "smoke");
+      assert.deepStrictEqual(
+        Object.keys(
+          fileStateManager.getTaskPresets("/ws2/a.py", "one").presets
+        ),
+        ["smoke"]
+      );
+      assert.deepStrictEqual(
+        fileStateManager.getTaskPresets("/ws/a.py", "one").presets,
+        {}
+      );
+      assert.deepStrictEqual(configFile.contents.tasks["a.py@one"], {
+        limit: "5",
+      });
+    });
+
+    test("should keep presets in the file and the selection in workspace state", async () => {
+      configFile.contents = { tasks: { "a.py@one": { limit: "100" } } };
+      await fileStateManager.createTaskPreset("/ws/a.py", "one", "smoke", {
+        limit: "5",
+      });
+      await fileStateManager.setDefaultTaskPreset("/ws/a.py", "one", "smoke");
+
+      assert.deepStrictEqual(configFile.contents.tasks["a.py@one"], {
+        limit: "100",
+        presets: { smoke: { limit: "5" } },
+        defaultPreset: "smoke",
+      });
+      const presets = fileStateManager.getTaskPresets("/ws/a.py", "one");
+      assert.strictEqual(presets.selectedPreset, "smoke");
+      assert.deepStrictEqual(fileStateManager.getTaskState("/ws/a.py", "one"), {
+        limit: "100",
+      });
+    });
+
+    test("should migrate workspace state into the file", async () => {
+      await fileStateManager.setTaskState("/ws/a.py", { limit: "5" }, "one");
+      await fileStateManager.createTaskPreset("/ws/a.py", "one", "full", {
+        epochs: "3",
+      });
+      await fileStateManager.setTaskState("/ws/b.py", { epochs: "2" });
+      await fileStateManager.setTaskState("/other/c.py", { limit: "1" });
+      await fileStateManager.setModelState("openai", { lastModel: "gpt-4" });
+
+      const count = await fileStateManager.migrateTaskStateToFile(
+        "json",
+        Uri.file("/ws")
+      );
+      assert.strictEqual(count, 2);
+      assert.deepStrictEqual(configFile.contents, {
+        tasks: {
+          "a.py@one": {
+            limit: "5",
+            presets: { full: { epochs: "3" } },
+          },
+          "b.py": { epochs: "2" },
+        },
+      });
+    });
+
+    test("should not overwrite configurations already in the file", async () => {
+      await fileStateManager.setTaskState("/ws/a.py", { limit: "5" }, "one");
+      configFile.contents = { tasks: { "a.py@one": { limit: "10" } } };
+
+      const count = await fileStateManager.migrateTaskStateToFile(
+        "json",
+        Uri.file("/ws")
+      );
+      assert.strictEqual(count, 0);
+      assert.deepStrictEqual(configFile.contents.tasks["a.py@one"], {
+        limit: "10",
+      });
+    });
+  });
+
   suite("Model State Management", () => {
     test("should return empty object for non-existent model state", () => {
       const state = stateManager.getModelState("openai");
@@ -0,0 +1,99 @@
+/**
+ * Builds zip files for tests (optionally compressed, and optionally in
+ * zip64 form with sizes and offsets in zip64 extra fields).
+ */
+import { deflateRawSync } from "zlib";
+
+import { ZipSource } from "../../core/zip";
+
+export interface ZipBuilderEntry {
+  name: string;
+  content: string;
+  deflate?: boolean;
+}
+
+export function buildZip(entries: ZipBuilderEntry[], zip64 = false): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const content = Buffer.from(entry.content, "utf-8");
+    const data = entry.deflate ? deflateRawSync(content) : content;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, data);
+
+    const extra = Buffer.alloc(zip64 ? 28 : 0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(content.length), 4);
+      extra.writeBigUInt64LE(BigInt(data.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(45, 4);
+    header.writeUInt16LE(45, 6);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt32LE(zip64 ? 0xffffffff : data.length, 20);
+    header.writeUInt32LE(zip64 ? 0xffffffff : content.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+    central.push(header, name, extra);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const dir = Buffer.concat(central);
+  const end: Buffer[] = [];
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeBigUInt64LE(BigInt(entries.length), 24);
+    record.writeBigUInt64LE(BigInt(entries.length), 32);
+    record.writeBigUInt64LE(BigInt(dir.length), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + dir.length), 8);
+    locator.writeUInt32LE(1, 16);
+    end.push(record, locator);
+  }
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(zip64 ? 0xffff : entries.length, 8);
+  eocd.writeUInt16LE(zip64 ? 0xffff : entries.length, 10);
+  eocd.writeUInt32LE(zip64 ? 0xffffffff : dir.length, 12);
+  eocd.writeUInt32LE(zip64 ? 0xffffffff : offset, 16);
+  end.push(eocd);
+
+  return Buffer.concat([...parts, dir, ...end]);
+}
+
+// A zip source for a zip in memory (which counts the bytes that are read)
+export function bufferZipSource(
+  zip: Buffer
+): ZipSource & { bytesRead: number } {
+  const source = {
+    bytesRead: 0,
+    size: () => Promise.resolve(zip.length),
+    read: (start: number, end: number) => {
+      const data = zip.subarray(start, end);
+      source.bytesRead += data.length;
+      return Promise.resolve(data);
+    },
+  };
+  return source;
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for zip.ts - reading zip files
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  fileZipSource,
+  readZipDirectory,
+  readZipEntry,
+  ZipSource,
+} from "../../core/zip";
+
+import { bufferZipSource, buildZip } from "./zip-builder";
+
+const kEntries = [
+  { name: "header.json", content: '{"status": "success"}', deflate: true },
+  { name: "samples/1_epoch_1.json", content: '{"id": 1}' },
+];
+
+async function readEntries(source: ZipSource) {
+  const entries = await readZipDirectory(source);
+  return await Promise.all(
+    entries.map(async (entry) => [
+      entry.name,
+      new TextDecoder().decode(await readZipEntry(source, entry)),
+    ])
+  );
+}
+
+suite("Zip Test Suite", () => {
+  test("should read stored and deflated entries", async () => {
+    assert.deepStrictEqual(
+      await readEntries(bufferZipSource(buildZip(kEntries))),
+      [
+        ["header.json", '{"status": "success"}'],
+        ["samples/1_epoch_1.json", '{"id": 1}'],
+      ]
+    );
+  });
+
+  test("should read zip64 files", async () => {
+    assert.deepStrictEqual(
+      await readEntries(bufferZipSource(buildZip(kEntries, true))),
+      [
+        ["header.json", '{"status": "success"}'],
+        ["samples/1_epoch_1.json", '{"id": 1}'],
+      ]
+    );
+  });
+
+  test("should read the directory without reading entries", async () => {
+    const large = "x".repeat(200000);
+    const source = bufferZipSource(
+      buildZip([
+        { name: "samples/1_epoch_1.json", content: large },
+        ...kEntries,
+      ])
+    );
+    const entries = await readZipDirectory(source);
+    assert.strictEqual(entries.length, 3);
+    assert.ok(source.bytesRead < 100000);
+  });
+
+  test("should reject files which aren't zip files", async () => {
+    await assert.rejects(
+      readZipDirectory(bufferZipSource(Buffer.from("not a zip file"))),
+      /Not a zip file/
+    );
+  });
+
+  test("should read local files", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zip-test-"));
+    try {
+      const file = path.join(dir, "test.zip");
+      fs.writeFileSync(file, buildZip(kEntries));
+      assert.strictEqual((await readEntries(fileZipSource(file))).length, 2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});